@@ -10,8 +10,12 @@ import KnowledgeBase from "@/pages/knowledge-base";
 import SavedRequests from "@/pages/saved-requests";
 import Search from "@/pages/search";
 import RruffPage from "@/pages/rruff";
+import DeterminativePage from "@/pages/determinative";
 import CrystalClasses from "@/pages/crystal-classes";
 import MineralReference from "@/pages/mineral-reference";
+import LocalityMapPage from "@/pages/locality-map";
+import DataDiscrepanciesPage from "@/pages/data-discrepancies";
+import ApiChangelogPage from "@/pages/api-changelog";
 import { useEffect } from "react";
 
 function Router() {
@@ -24,8 +28,12 @@ function Router() {
       <Route path="/saved-requests" component={SavedRequests} />
       <Route path="/search" component={Search} />
       <Route path="/rruff" component={RruffPage} />
+      <Route path="/determinative" component={DeterminativePage} />
       <Route path="/crystal-classes" component={CrystalClasses} />
       <Route path="/mineral-reference" component={MineralReference} />
+      <Route path="/locality-map" component={LocalityMapPage} />
+      <Route path="/data-discrepancies" component={DataDiscrepanciesPage} />
+      <Route path="/api-changelog" component={ApiChangelogPage} />
       <Route component={NotFound} />
     </Switch>
   );
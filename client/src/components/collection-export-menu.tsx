@@ -0,0 +1,47 @@
+import type { ReactNode } from "react";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { downloadExport } from "@/lib/result-export";
+import { COLLECTION_FORMATS, type CollectionFormat } from "@/lib/request-collection-service";
+
+interface CollectionExportMenuProps {
+  getUrl: (format: CollectionFormat) => string;
+  label: string;
+  trigger?: ReactNode;
+  disabled?: boolean;
+}
+
+/**
+ * Download requests for Postman, Insomnia or an editor REST client
+ */
+export function CollectionExportMenu({ getUrl, label, trigger, disabled }: CollectionExportMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        {trigger || (
+          <Button variant="outline" disabled={disabled}>
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
+        )}
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>{label}</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {COLLECTION_FORMATS.map(format => (
+          <DropdownMenuItem key={format.key} onSelect={() => downloadExport(getUrl(format.key))}>
+            {format.label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -37,6 +37,7 @@ import {
 } from "@/components/ui/dialog";
 
 import { CrystalSystemSearch } from "@/components/crystal-system-search";
+import { LinkedRruffData } from "@/components/linked-species";
 import { 
   getCrystalClasses, 
   getCrystalClassById,
@@ -425,6 +426,8 @@ export function CrystalClassesTab() {
                 </div>
               )}
               
+              {selectedMineral?.id && <LinkedRruffData mineralId={selectedMineral.id} />}
+              
               <div className="pt-4 flex justify-between">
                 <Button 
                   variant="outline"
@@ -37,6 +37,7 @@ import {
 } from "@/components/ui/dialog";
 
 import { DanaSearch } from "@/components/dana-search";
+import { LinkedRruffData } from "@/components/linked-species";
 import { 
   getDanaClassification, 
   getDanaClassById, 
@@ -353,6 +354,8 @@ export function DanaClassificationTab() {
                 </div>
               )}
               
+              {selectedMineral?.id && <LinkedRruffData mineralId={selectedMineral.id} />}
+              
               <div className="pt-4 flex justify-between">
                 <Button 
                   variant="outline"
@@ -5,6 +5,7 @@ import { APIEndpoint, APIResponse } from '@/types/api';
 import { useApiDocs } from '@/hooks/use-api-docs';
 import { useAuth } from '@/hooks/use-auth';
 import { executeApiRequest } from '@/lib/api-client';
+import { buildRequest, exampleFromSchema } from '@/lib/parameter-inputs';
 
 interface ApiExplorerProps {
   endpoint: APIEndpoint | null;
@@ -12,15 +13,19 @@ interface ApiExplorerProps {
 
 export function ApiExplorer({ endpoint }: ApiExplorerProps) {
   const [parameters, setParameters] = useState<Record<string, any>>({});
+  const [body, setBody] = useState<string>('');
   const [response, setResponse] = useState<APIResponse | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
   const { apiKey } = useAuth();
   const { generateCode } = useApiDocs();
 
-  // Reset parameters when endpoint changes
+  // Reset parameters when endpoint changes, prefilling the request body from its schema
   useEffect(() => {
     setParameters({});
     setResponse(null);
+
+    const requestBody = endpoint?.requestBody;
+    setBody(requestBody ? JSON.stringify(requestBody.example ?? exampleFromSchema(requestBody.schema), null, 2) : '');
   }, [endpoint]);
 
   const handleParameterChange = (name: string, value: any) => {
@@ -37,10 +42,11 @@ export function ApiExplorer({ endpoint }: ApiExplorerProps) {
     const startTime = Date.now();
     
     try {
+      const { path, query } = buildRequest(endpoint, parameters);
       const data = await executeApiRequest(
-        endpoint.path,
+        path,
         endpoint.method,
-        parameters,
+        query,
         apiKey
       );
       
@@ -95,6 +101,8 @@ export function ApiExplorer({ endpoint }: ApiExplorerProps) {
         endpoint={endpoint}
         parameters={parameters}
         onParameterChange={handleParameterChange}
+        body={body}
+        onBodyChange={setBody}
         onSendRequest={handleSendRequest}
         onSaveRequest={handleSaveRequest}
         loading={loading}
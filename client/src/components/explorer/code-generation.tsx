@@ -2,9 +2,40 @@ import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useApiDocs } from '@/hooks/use-api-docs';
-import { APIEndpoint } from '@/types/api';
+import { APIEndpoint, CodeGenerationOptions, LanguageOption } from '@/types/api';
 import { Copy, CheckCircle2 } from 'lucide-react';
 import { useAuth } from '@/hooks/use-auth';
+import { Checkbox } from '@/components/ui/checkbox';
+
+const LANGUAGES: LanguageOption[] = [
+  { id: 'python', name: 'Python' },
+  { id: 'python-pandas', name: 'Python (pandas)' },
+  { id: 'r', name: 'R' },
+  { id: 'julia', name: 'Julia' },
+  { id: 'javascript', name: 'JavaScript' },
+  { id: 'go', name: 'Go' },
+  { id: 'java', name: 'Java' },
+  { id: 'powershell', name: 'PowerShell' },
+  { id: 'curl', name: 'cURL' }
+];
+
+// Languages rendered in the browser unless one of their options below is ticked;
+// the rest always come from the server
+const INLINE_LANGUAGES = ['python', 'javascript', 'curl'];
+
+const OPTIONS: Array<{ key: keyof CodeGenerationOptions; label: string }> = [
+  { key: 'paginate', label: 'Follow next pages' },
+  { key: 'retry', label: 'Retry on 429' },
+  { key: 'dataframe', label: 'Load into a dataframe' }
+];
+
+// Options each language can honour; the others are not shown for it
+const LANGUAGE_OPTIONS: Record<string, Array<keyof CodeGenerationOptions>> = {
+  python: ['paginate', 'retry'],
+  javascript: ['paginate', 'retry'],
+  curl: []
+};
+const ALL_OPTIONS = OPTIONS.map(option => option.key);
 
 interface CodeGenerationProps {
   endpoint: APIEndpoint;
@@ -15,16 +46,20 @@ export function CodeGeneration({ endpoint, parameters }: CodeGenerationProps) {
   const [language, setLanguage] = useState<string>('python');
   const [code, setCode] = useState<string>('');
   const [copied, setCopied] = useState<boolean>(false);
+  const [options, setOptions] = useState<CodeGenerationOptions>({ paginate: true, retry: true, dataframe: true });
   const { generateCode } = useApiDocs();
   const { apiKey } = useAuth();
 
+  const languageOptions = LANGUAGE_OPTIONS[language] ?? ALL_OPTIONS;
+  const renderInline = INLINE_LANGUAGES.includes(language) && !languageOptions.some(key => options[key]);
+
   useEffect(() => {
     generateCodeSample();
-  }, [endpoint, parameters, language]);
+  }, [endpoint, parameters, language, options]);
 
   const generateCodeSample = async () => {
     try {
-      const sampleCode = await generateCode(endpoint, parameters, language);
+      const sampleCode = await generateCode(endpoint, parameters, language, options);
       setCode(sampleCode);
     } catch (error) {
       console.error('Failed to generate code sample:', error);
@@ -43,6 +78,8 @@ export function CodeGeneration({ endpoint, parameters }: CodeGenerationProps) {
   };
   
   const getLanguageSpecificCode = () => {
+    if (!renderInline) return code;
+
     const url = `https://api.mindat.org${endpoint.path}`;
     const queryParams = Object.entries(parameters)
       .filter(([_, value]) => value !== undefined && value !== '')
@@ -112,7 +149,7 @@ ${queryParams.join(',\n')}
   -d '${JSON.stringify(parameters, null, 2)}'` : ''}`;
 
       default:
-        return '# Select a language to generate code';
+        return code;
     }
   };
 
@@ -121,32 +158,33 @@ ${queryParams.join(',\n')}
       <h3 className="font-medium mb-3 text-gray-800 dark:text-gray-200">Code Generation</h3>
       
       <div className="bg-gray-50 dark:bg-slate-700/50 rounded-lg p-4">
-        <div className="flex items-center space-x-2 mb-3">
-          <Button
-            variant={language === 'python' ? 'default' : 'outline'}
-            size="sm"
-            className={language === 'python' ? 'bg-secondary hover:bg-cyan-700 text-white' : ''}
-            onClick={() => setLanguage('python')}
-          >
-            Python
-          </Button>
-          <Button
-            variant={language === 'javascript' ? 'default' : 'outline'}
-            size="sm"
-            className={language === 'javascript' ? 'bg-secondary hover:bg-cyan-700 text-white' : ''}
-            onClick={() => setLanguage('javascript')}
-          >
-            JavaScript
-          </Button>
-          <Button
-            variant={language === 'curl' ? 'default' : 'outline'}
-            size="sm"
-            className={language === 'curl' ? 'bg-secondary hover:bg-cyan-700 text-white' : ''}
-            onClick={() => setLanguage('curl')}
-          >
-            cURL
-          </Button>
+        <div className="flex flex-wrap items-center gap-2 mb-3">
+          {LANGUAGES.map(({ id, name }) => (
+            <Button
+              key={id}
+              variant={language === id ? 'default' : 'outline'}
+              size="sm"
+              className={language === id ? 'bg-secondary hover:bg-cyan-700 text-white' : ''}
+              onClick={() => setLanguage(id)}
+            >
+              {name}
+            </Button>
+          ))}
         </div>
+
+        {languageOptions.length > 0 && (
+          <div className="flex flex-wrap items-center gap-4 mb-3">
+            {OPTIONS.filter(({ key }) => languageOptions.includes(key)).map(({ key, label }) => (
+              <label key={key} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <Checkbox
+                  checked={!!options[key]}
+                  onCheckedChange={(checked) => setOptions({ ...options, [key]: checked === true })}
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+        )}
         
         <div className="relative">
           <pre className="font-mono text-xs bg-slate-800 text-white p-4 rounded-lg overflow-x-auto">
@@ -0,0 +1,130 @@
+import { Parameter } from '@/types/api';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { effectiveSchema, inputKind } from '@/lib/parameter-inputs';
+
+// Select items cannot have an empty value, so "not set" uses a placeholder key
+const UNSET = '__unset__';
+
+const inputClassName = 'bg-white dark:bg-slate-800 border border-gray-300 dark:border-slate-600 text-gray-900 dark:text-white text-sm rounded-lg block w-full p-2.5';
+
+interface ParameterInputProps {
+  parameter: Parameter;
+  value: any;
+  onChange: (value: any) => void;
+  error?: string | null;
+}
+
+function placeholderFor(parameter: Parameter): string {
+  const schema = effectiveSchema(parameter.schema);
+  if (parameter.example !== undefined) return String(parameter.example);
+  if (schema.example !== undefined) return String(schema.example);
+  if (schema.default !== undefined) return String(schema.default);
+  if (schema.type === 'array') return 'Comma-separated values';
+  return '';
+}
+
+/**
+ * Input for one parameter, chosen from its schema: dropdowns for enums and
+ * booleans, checkboxes for arrays of enums, number inputs with bounds, JSON for objects
+ */
+export function ParameterInput({ parameter, value, onChange, error }: ParameterInputProps) {
+  const schema = effectiveSchema(parameter.schema);
+  const kind = inputKind(schema);
+  const id = `param-${parameter.in}-${parameter.name}`;
+
+  const renderInput = () => {
+    switch (kind) {
+      case 'select':
+      case 'boolean': {
+        const options = kind === 'boolean' ? ['true', 'false'] : schema.enum!.map(String);
+        return (
+          <Select
+            value={value === undefined || value === '' ? UNSET : String(value)}
+            onValueChange={(selected) => onChange(selected === UNSET ? '' : selected)}
+          >
+            <SelectTrigger id={id} className={inputClassName}>
+              <SelectValue placeholder="Not set" />
+            </SelectTrigger>
+            <SelectContent>
+              {!parameter.required && <SelectItem value={UNSET}>Not set</SelectItem>}
+              {options.map(option => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      }
+
+      case 'multiselect': {
+        const selected: string[] = Array.isArray(value) ? value : [];
+        const options = effectiveSchema(schema.items).enum!.map(String);
+        return (
+          <div id={id} className="max-h-40 overflow-y-auto rounded-lg border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-800 p-2 grid grid-cols-2 gap-1">
+            {options.map(option => (
+              <label key={option} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={selected.includes(option)}
+                  onCheckedChange={(checked) => onChange(
+                    checked === true ? [...selected, option] : selected.filter(item => item !== option)
+                  )}
+                />
+                <span className="font-mono text-xs">{option}</span>
+              </label>
+            ))}
+          </div>
+        );
+      }
+
+      case 'integer':
+      case 'number':
+        return (
+          <Input
+            id={id}
+            type="number"
+            className={inputClassName}
+            min={schema.minimum}
+            max={schema.maximum}
+            step={kind === 'integer' ? 1 : 'any'}
+            placeholder={placeholderFor(parameter)}
+            value={value ?? ''}
+            onChange={(e) => onChange(e.target.value)}
+          />
+        );
+
+      case 'json':
+        return (
+          <Textarea
+            id={id}
+            className={`${inputClassName} font-mono`}
+            rows={4}
+            placeholder={schema['x-circular'] ? `${schema.title || 'Object'} (JSON)` : 'JSON'}
+            value={value ?? ''}
+            onChange={(e) => onChange(e.target.value)}
+          />
+        );
+
+      default:
+        return (
+          <Input
+            id={id}
+            type="text"
+            className={inputClassName}
+            maxLength={schema.maxLength}
+            placeholder={placeholderFor(parameter)}
+            value={value ?? ''}
+            onChange={(e) => onChange(e.target.value)}
+          />
+        );
+    }
+  };
+
+  return (
+    <div>
+      {renderInput()}
+      {error && <p className="text-xs text-red-600 dark:text-red-400 mt-1">{error}</p>}
+    </div>
+  );
+}
@@ -1,17 +1,24 @@
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { APIEndpoint } from '@/types/api';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { Button } from '@/components/ui/button';
 import { CodeGeneration } from './code-generation';
 import { Send, Bookmark } from 'lucide-react';
 import { useApiDocs } from '@/hooks/use-api-docs';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
+import { ParameterInput } from './parameter-input';
+import { PARAMETER_LOCATIONS, schemaTypeLabel, validateParameters, validateRequestBody } from '@/lib/parameter-inputs';
+
+const MISSING_VALUE_ERRORS = new Set(['Required', 'A request body is required']);
 
 interface RequestPanelProps {
   endpoint: APIEndpoint;
   parameters: Record<string, any>;
   onParameterChange: (name: string, value: any) => void;
+  body: string;
+  onBodyChange: (value: string) => void;
   onSendRequest: () => void;
   onSaveRequest: () => void;
   loading: boolean;
@@ -21,30 +28,38 @@ export function RequestPanel({
   endpoint,
   parameters,
   onParameterChange,
+  body,
+  onBodyChange,
   onSendRequest,
   loading
 }: RequestPanelProps) {
   const [saveDialogOpen, setSaveDialogOpen] = useState(false);
   const [requestName, setRequestName] = useState('');
+  const [requestFolder, setRequestFolder] = useState('');
+  const [showRequiredErrors, setShowRequiredErrors] = useState(false);
   const { saveRequest } = useApiDocs();
 
-  const getParameterType = (param: any) => {
-    if (!param || !param.schema) return 'string';
-    
-    const type = param.schema.type;
-    if (type === 'integer' || type === 'number') return 'number';
-    if (type === 'boolean') return 'checkbox';
-    
-    return 'string';
-  };
+  useEffect(() => {
+    setShowRequiredErrors(false);
+  }, [endpoint]);
 
-  const getParameterPlaceholder = (param: any) => {
-    if (!param) return '';
-    
-    if (param.example) return String(param.example);
-    if (param.schema && param.schema.default) return String(param.schema.default);
-    
-    return '';
+  const errors = useMemo(
+    () => validateParameters(endpoint.parameters || [], parameters),
+    [endpoint.parameters, parameters]
+  );
+  const bodyError = endpoint.requestBody ? validateRequestBody(body, endpoint.requestBody) : null;
+  const hasErrors = Object.keys(errors).length > 0 || bodyError !== null;
+
+  // Missing values are only flagged once sending has been attempted
+  const visibleError = (message: string | null | undefined) =>
+    message && (showRequiredErrors || !MISSING_VALUE_ERRORS.has(message)) ? message : null;
+
+  const handleSend = () => {
+    if (hasErrors) {
+      setShowRequiredErrors(true);
+      return;
+    }
+    onSendRequest();
   };
 
   const getMethodBadgeClass = (method: string) => {
@@ -68,7 +83,8 @@ export function RequestPanel({
     await saveRequest.mutateAsync({
       name: requestName,
       endpoint,
-      parameters
+      parameters,
+      folder: requestFolder.trim() || undefined
     });
     
     setSaveDialogOpen(false);
@@ -92,45 +108,79 @@ export function RequestPanel({
         </div>
         
         {/* Parameters Section */}
-        {endpoint.parameters && endpoint.parameters.length > 0 && (
-          <div className="mb-6">
-            <h3 className="font-medium mb-3 text-gray-800 dark:text-gray-200">
-              {endpoint.parameters.some(p => p.in === 'path') ? 'Path Parameters' : 'Query Parameters'}
-            </h3>
-            
-            <div className="space-y-4">
-              {endpoint.parameters.map((param) => (
-                <div key={param.name} className="bg-gray-50 dark:bg-slate-700/50 rounded-lg p-3">
-                  <div className="flex justify-between items-start mb-2">
-                    <div>
+        {PARAMETER_LOCATIONS.map(location => {
+          const locationParameters = (endpoint.parameters || []).filter(param => param.in === location.key);
+          if (locationParameters.length === 0) return null;
+
+          return (
+            <div key={location.key} className="mb-6">
+              <h3 className="font-medium mb-3 text-gray-800 dark:text-gray-200">{location.label}</h3>
+
+              <div className="space-y-4">
+                {locationParameters.map((param) => (
+                  <div key={`${param.in}-${param.name}`} className="bg-gray-50 dark:bg-slate-700/50 rounded-lg p-3">
+                    <div className="flex justify-between items-start mb-2">
+                      <div>
+                        <div className="flex items-center">
+                          <Label htmlFor={`param-${param.in}-${param.name}`} className="font-mono text-sm font-medium">{param.name}</Label>
+                          <span className="ml-2 text-xs px-1.5 py-0.5 bg-gray-200 dark:bg-slate-600 text-gray-700 dark:text-gray-300 rounded">
+                            {schemaTypeLabel(param.schema)}
+                          </span>
+                          {param.deprecated && (
+                            <span className="ml-2 text-xs px-1.5 py-0.5 bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-300 rounded">
+                              deprecated
+                            </span>
+                          )}
+                        </div>
+                        {(param.description || param.schema?.description) && (
+                          <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">{param.description || param.schema?.description}</p>
+                        )}
+                      </div>
                       <div className="flex items-center">
-                        <span className="font-mono text-sm font-medium">{param.name}</span>
-                        <span className="ml-2 text-xs px-1.5 py-0.5 bg-gray-200 dark:bg-slate-600 text-gray-700 dark:text-gray-300 rounded">
-                          {param.schema?.type || 'string'}
+                        <span className="text-xs text-gray-500 dark:text-gray-400 mr-2">
+                          {param.required ? 'Required' : 'Optional'}
                         </span>
                       </div>
-                      {param.description && (
-                        <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">{param.description}</p>
-                      )}
-                    </div>
-                    <div className="flex items-center">
-                      <span className="text-xs text-gray-500 dark:text-gray-400 mr-2">
-                        {param.required ? 'Required' : 'Optional'}
-                      </span>
                     </div>
-                  </div>
-                  <div>
-                    <Input
-                      type={getParameterType(param)}
-                      className="bg-white dark:bg-slate-800 border border-gray-300 dark:border-slate-600 text-gray-900 dark:text-white text-sm rounded-lg block w-full p-2.5"
-                      placeholder={getParameterPlaceholder(param)}
-                      value={parameters[param.name] || ''}
-                      onChange={(e) => onParameterChange(param.name, e.target.value)}
+                    <ParameterInput
+                      parameter={param}
+                      value={parameters[param.name]}
+                      onChange={(value) => onParameterChange(param.name, value)}
+                      error={visibleError(errors[param.name])}
                     />
                   </div>
-                </div>
-              ))}
+                ))}
+              </div>
             </div>
+          );
+        })}
+
+        {/* Request Body Section */}
+        {endpoint.requestBody && (
+          <div className="mb-6">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="font-medium text-gray-800 dark:text-gray-200">Request Body</h3>
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                {endpoint.requestBody.contentType} · {endpoint.requestBody.required ? 'Required' : 'Optional'}
+              </span>
+            </div>
+            {endpoint.requestBody.description && (
+              <p className="text-xs text-gray-600 dark:text-gray-400 mb-2">{endpoint.requestBody.description}</p>
+            )}
+            <Textarea
+              className="bg-white dark:bg-slate-800 border border-gray-300 dark:border-slate-600 text-gray-900 dark:text-white text-sm rounded-lg block w-full p-2.5 font-mono"
+              rows={8}
+              value={body}
+              onChange={(e) => onBodyChange(e.target.value)}
+            />
+            {visibleError(bodyError) && (
+              <p className="text-xs text-red-600 dark:text-red-400 mt-1">{bodyError}</p>
+            )}
+            {endpoint.method.toUpperCase() !== 'GET' && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                The explorer proxy only forwards GET requests; use the generated code to send this one.
+              </p>
+            )}
           </div>
         )}
         
@@ -141,7 +191,7 @@ export function RequestPanel({
         <div className="mb-6 flex flex-col sm:flex-row items-stretch sm:items-center gap-3">
           <Button
             className="bg-primary hover:bg-indigo-700 text-white w-full sm:w-auto"
-            onClick={onSendRequest}
+            onClick={handleSend}
             disabled={loading}
           >
             <Send className="h-4 w-4 mr-2" />
@@ -177,6 +227,14 @@ export function RequestPanel({
               onChange={(e) => setRequestName(e.target.value)}
               className="mt-1"
             />
+            <Label htmlFor="request-folder" className="block mt-4">Folder (optional)</Label>
+            <Input
+              id="request-folder"
+              placeholder="E.g., Silicates"
+              value={requestFolder}
+              onChange={(e) => setRequestFolder(e.target.value)}
+              className="mt-1"
+            />
           </div>
           
           <DialogFooter>
@@ -0,0 +1,43 @@
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { EXPORT_FORMATS, downloadExport, type ExportFormat } from "@/lib/result-export";
+
+interface ExportMenuProps {
+  getUrl: (format: ExportFormat) => string;
+  download?: (url: string) => void; // defaults to a plain link download
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Download every result of the current search, not just the visible page
+ */
+export function ExportMenu({ getUrl, download = downloadExport, disabled, className }: ExportMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={disabled} className={className}>
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>All results as</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {EXPORT_FORMATS.map(format => (
+          <DropdownMenuItem key={format.key} onSelect={() => download(getUrl(format.key))}>
+            {format.label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { Link, useLocation } from "wouter";
-import { Database, Newspaper, Code, BookOpen, Search, Home, Grid3X3, Book, Menu, X, Map } from "lucide-react";
+import { Database, Newspaper, Code, BookOpen, Search, Home, Grid3X3, Book, Menu, X, Map, SlidersHorizontal, MapPin, GitCompare, History } from "lucide-react";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { cn } from "@/lib/utils";
 
@@ -12,7 +12,11 @@ const menuItems = [
   { path: "/saved-requests", label: "Saved Requests", icon: Newspaper },
   { path: "/search", label: "Search", icon: Search },
   { path: "/rruff", label: "RRUFF Database", icon: Database },
+  { path: "/determinative", label: "Determinative", icon: SlidersHorizontal },
   { path: "/crystal-classes", label: "Crystal Classes", icon: Grid3X3 },
+  { path: "/locality-map", label: "Locality Map", icon: MapPin },
+  { path: "/data-discrepancies", label: "Discrepancies", icon: GitCompare },
+  { path: "/api-changelog", label: "API Changelog", icon: History },
 ];
 
 interface LayoutProps {
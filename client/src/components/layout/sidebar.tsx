@@ -2,8 +2,10 @@ import { useState, useEffect } from 'react';
 import { useApiDocs } from '@/hooks/use-api-docs';
 import { APICategory, APIEndpoint } from '@/types/api';
 import { Input } from '@/components/ui/input';
-import { Search, ChevronDown, ChevronRight } from 'lucide-react';
+import { Search, ChevronDown, ChevronRight, Download } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Button } from '@/components/ui/button';
+import { getTypeScriptSdkUrl } from '@/lib/api-changelog-service';
 
 interface SidebarProps {
   visible: boolean;
@@ -168,6 +170,19 @@ export default function Sidebar({ visible, activeEndpoint, setActiveEndpoint }:
           ))
         )}
       </div>
+
+      {/* Client SDK generated from the latest Swagger snapshot */}
+      <div className="px-4 pb-4 border-t border-gray-200 dark:border-slate-700 pt-4">
+        <Button variant="outline" size="sm" className="w-full" asChild>
+          <a href={getTypeScriptSdkUrl()} download>
+            <Download className="h-4 w-4 mr-2" />
+            TypeScript SDK (.zip)
+          </a>
+        </Button>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+          Typed client with models, every operation, pagination and Token auth.
+        </p>
+      </div>
     </aside>
   );
 }
@@ -0,0 +1,130 @@
+import { useQuery } from "@tanstack/react-query";
+import { ExternalLink, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  getMindatLinksForRruffMineral,
+  getRruffLinksForMineral,
+  type MineralLinkFields
+} from "@/lib/mineral-link-service";
+
+function LinkBadge({ link }: { link: MineralLinkFields }) {
+  return (
+    <Badge
+      variant={link.status === 'confirmed' ? 'default' : 'secondary'}
+      title={link.reasons.join('; ')}
+    >
+      {link.status === 'confirmed' ? 'Confirmed' : `${link.matchMethod} match · ${Math.round(link.confidence * 100)}%`}
+    </Badge>
+  );
+}
+
+/**
+ * RRUFF records linked to a Mindat mineral, for the mineral details dialogs
+ */
+export function LinkedRruffData({ mineralId }: { mineralId: number }) {
+  const { data: links, isLoading } = useQuery({
+    queryKey: ['rruffLinks', mineralId],
+    queryFn: () => getRruffLinksForMineral(mineralId),
+  });
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-muted-foreground">RRUFF Data</h4>
+      {isLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin text-primary mt-1" />
+      ) : links && links.length > 0 ? (
+        <div className="space-y-2 mt-1">
+          {links.map(link => (
+            <div key={link.linkId} className="rounded-md border p-2 text-sm space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">
+                  {link.rruffMineral.name}
+                  {link.rruffMineral.rruffId && (
+                    <span className="text-muted-foreground font-normal"> ({link.rruffMineral.rruffId})</span>
+                  )}
+                </span>
+                <LinkBadge link={link} />
+              </div>
+              {link.rruffMineral.formula && <p className="font-mono text-xs">{link.rruffMineral.formula}</p>}
+              <p className="text-xs text-muted-foreground">
+                {[link.rruffMineral.crystalSystem, link.rruffMineral.spaceGroup].filter(Boolean).join(' · ') || 'No crystallographic data'}
+              </p>
+              <div className="flex flex-wrap items-center gap-1">
+                {Object.keys(link.spectra).length > 0 ? (
+                  Object.entries(link.spectra).map(([type, count]) => (
+                    <Badge key={type} variant="outline">{type} × {count}</Badge>
+                  ))
+                ) : (
+                  <span className="text-xs text-muted-foreground">No spectra imported</span>
+                )}
+                {link.rruffMineral.url && (
+                  <a
+                    href={link.rruffMineral.url}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="ml-auto inline-flex items-center text-xs text-primary hover:underline"
+                  >
+                    RRUFF.info <ExternalLink className="h-3 w-3 ml-1" />
+                  </a>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">Not linked to a RRUFF record</p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Synced Mindat records linked to a RRUFF mineral, for the RRUFF mineral details
+ */
+export function LinkedMindatData({ rruffMineralId }: { rruffMineralId: number }) {
+  const { data: links, isLoading } = useQuery({
+    queryKey: ['mindatLinks', rruffMineralId],
+    queryFn: () => getMindatLinksForRruffMineral(rruffMineralId),
+  });
+
+  return (
+    <div>
+      <h4 className="font-medium mb-2">Mindat Data</h4>
+      {isLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin text-primary" />
+      ) : links && links.length > 0 ? (
+        <div className="space-y-2">
+          {links.map(link => (
+            <div key={link.linkId} className="rounded-md border p-2 text-sm space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">{link.mineral.name}</span>
+                <LinkBadge link={link} />
+              </div>
+              {link.mineral.formula && <p className="font-mono text-xs">{link.mineral.formula}</p>}
+              <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+                <span className="text-muted-foreground">Crystal system</span>
+                <span>{link.mineral.crystalSystem || 'Unknown'}</span>
+                <span className="text-muted-foreground">IMA status</span>
+                <span>{link.mineral.imaStatus.length > 0 ? link.mineral.imaStatus.join(', ') : 'Unknown'}</span>
+                <span className="text-muted-foreground">Dana</span>
+                <span className="font-mono">{link.mineral.danaCode || '—'}</span>
+                <span className="text-muted-foreground">Strunz</span>
+                <span className="font-mono">{link.mineral.strunzCode || '—'}</span>
+              </div>
+              <a
+                href={`https://www.mindat.org/min-${link.mineral.id}.html`}
+                target="_blank"
+                rel="noreferrer"
+                className="inline-flex items-center text-xs text-primary hover:underline"
+              >
+                Mindat.org <ExternalLink className="h-3 w-3 ml-1" />
+              </a>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-muted-foreground">Not linked to a synced Mindat mineral</p>
+      )}
+    </div>
+  );
+}
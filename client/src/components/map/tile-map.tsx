@@ -0,0 +1,374 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Minus, Plus } from "lucide-react";
+import type { MapBounds, MapTileInfo } from "@/lib/locality-map-service";
+
+export interface MapView {
+  latitude: number;
+  longitude: number;
+  zoom: number;
+}
+
+export interface MapMarker {
+  id: number;
+  latitude: number;
+  longitude: number;
+  label: string;
+  highlighted?: boolean; // drawn as a type locality
+}
+
+export interface MapCircle {
+  latitude: number;
+  longitude: number;
+  radiusKm: number;
+}
+
+interface TileMapProps {
+  view: MapView;
+  onViewChange: (view: MapView) => void;
+  onBoundsChange?: (bounds: MapBounds) => void;
+  markers: MapMarker[];
+  selectedId?: number | null;
+  onMarkerClick?: (id: number) => void;
+  onMapClick?: (latitude: number, longitude: number) => void;
+  circle?: MapCircle | null;
+  tileInfo?: MapTileInfo | null;
+  height?: number;
+}
+
+const TILE_SIZE = 256;
+const MAX_LATITUDE = 85.05112878; // Web Mercator cut-off
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 16;
+const EARTH_RADIUS_KM = 6371.0088;
+
+const worldSize = (zoom: number) => TILE_SIZE * Math.pow(2, zoom);
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const wrapLongitude = (longitude: number) => ((((longitude + 180) % 360) + 360) % 360) - 180;
+
+// Web Mercator pixel coordinates at a zoom level
+function project(latitude: number, longitude: number, zoom: number): { x: number; y: number } {
+  const size = worldSize(zoom);
+  const sin = Math.sin(clamp(latitude, -MAX_LATITUDE, MAX_LATITUDE) * Math.PI / 180);
+  return {
+    x: (longitude + 180) / 360 * size,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * size
+  };
+}
+
+// Longitude is not wrapped, so positions left or right of the first world copy keep their offset
+function unproject(x: number, y: number, zoom: number): { latitude: number; longitude: number } {
+  const size = worldSize(zoom);
+  const n = Math.PI - 2 * Math.PI * y / size;
+  return {
+    latitude: 180 / Math.PI * Math.atan(Math.sinh(n)),
+    longitude: x / size * 360 - 180
+  };
+}
+
+// Point `distanceKm` from a start point along a bearing (great circle)
+function destination(latitude: number, longitude: number, bearingDegrees: number, distanceKm: number) {
+  const angular = distanceKm / EARTH_RADIUS_KM;
+  const bearing = bearingDegrees * Math.PI / 180;
+  const lat1 = latitude * Math.PI / 180;
+  const lon1 = longitude * Math.PI / 180;
+  const lat2 = Math.asin(Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(bearing));
+  const lon2 = lon1 + Math.atan2(
+    Math.sin(bearing) * Math.sin(angular) * Math.cos(lat1),
+    Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2)
+  );
+  return { latitude: lat2 * 180 / Math.PI, longitude: lon2 * 180 / Math.PI };
+}
+
+function graticuleStep(zoom: number): number {
+  if (zoom <= 2) return 30;
+  if (zoom <= 4) return 10;
+  if (zoom <= 6) return 5;
+  if (zoom <= 8) return 1;
+  if (zoom <= 10) return 0.5;
+  return 0.1;
+}
+
+/**
+ * Slippy map drawn from the local tile directory, with a coordinate grid underneath
+ * so it stays usable without tiles. Web Mercator, whole zoom levels.
+ */
+export default function TileMap({
+  view,
+  onViewChange,
+  onBoundsChange,
+  markers,
+  selectedId,
+  onMarkerClick,
+  onMapClick,
+  circle,
+  tileInfo,
+  height = 520
+}: TileMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ startX: number; startY: number; centerX: number; centerY: number; moved: boolean } | null>(null);
+  const [width, setWidth] = useState(800);
+
+  const maxZoom = tileInfo?.available ? Math.max(tileInfo.maxZoom + 2, MIN_ZOOM) : MAX_ZOOM;
+  const zoom = clamp(Math.round(view.zoom), MIN_ZOOM, maxZoom);
+  const center = project(view.latitude, view.longitude, zoom);
+  const originX = center.x - width / 2;
+  const originY = center.y - height / 2;
+  const size = worldSize(zoom);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+
+    const observer = new ResizeObserver(entries => setWidth(entries[0].contentRect.width));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const setCenterPixels = (x: number, y: number, nextZoom: number) => {
+    const position = unproject(x, clamp(y, 0, worldSize(nextZoom)), nextZoom);
+    onViewChange({
+      latitude: clamp(position.latitude, -MAX_LATITUDE, MAX_LATITUDE),
+      longitude: wrapLongitude(position.longitude),
+      zoom: nextZoom
+    });
+  };
+
+  // Zoom by one level keeping the point under (offsetX, offsetY) in place
+  const zoomAt = (nextZoom: number, offsetX = width / 2, offsetY = height / 2) => {
+    nextZoom = clamp(nextZoom, MIN_ZOOM, maxZoom);
+    if (nextZoom === zoom) return;
+
+    const anchor = unproject(originX + offsetX, originY + offsetY, zoom);
+    const anchorPixels = project(anchor.latitude, anchor.longitude, nextZoom);
+    setCenterPixels(anchorPixels.x - offsetX + width / 2, anchorPixels.y - offsetY + height / 2, nextZoom);
+  };
+
+  // React registers wheel listeners as passive, so preventDefault needs a native listener
+  const zoomAtRef = useRef(zoomAt);
+  zoomAtRef.current = zoomAt;
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = element.getBoundingClientRect();
+      zoomAtRef.current(zoom + (event.deltaY < 0 ? 1 : -1), event.clientX - rect.left, event.clientY - rect.top);
+    };
+    element.addEventListener('wheel', handleWheel, { passive: false });
+    return () => element.removeEventListener('wheel', handleWheel);
+  }, [zoom]);
+
+  const bounds = useMemo<MapBounds>(() => {
+    const topLeft = unproject(originX, Math.max(originY, 0), zoom);
+    const bottomRight = unproject(originX + width, Math.min(originY + height, size), zoom);
+    const spansWorld = width >= size;
+
+    return {
+      south: bottomRight.latitude,
+      north: topLeft.latitude,
+      west: spansWorld ? -180 : wrapLongitude(topLeft.longitude),
+      east: spansWorld ? 180 : wrapLongitude(bottomRight.longitude)
+    };
+  }, [originX, originY, width, height, zoom, size]);
+
+  // Parents usually pass an inline callback; only a bounds change should notify them
+  const onBoundsChangeRef = useRef(onBoundsChange);
+  onBoundsChangeRef.current = onBoundsChange;
+
+  useEffect(() => {
+    onBoundsChangeRef.current?.(bounds);
+  }, [bounds]);
+
+  const tiles = useMemo(() => {
+    if (!tileInfo?.available || zoom < tileInfo.minZoom) return [];
+
+    // Past the deepest zoom level on disk, scale its tiles up
+    const tileZoom = Math.min(zoom, tileInfo.maxZoom);
+    const tileSize = TILE_SIZE * Math.pow(2, zoom - tileZoom);
+    const count = Math.pow(2, tileZoom);
+    const result: Array<{ key: string; src: string; left: number; top: number; size: number }> = [];
+
+    for (let x = Math.floor(originX / tileSize); x <= Math.floor((originX + width) / tileSize); x++) {
+      for (let y = Math.max(Math.floor(originY / tileSize), 0); y <= Math.min(Math.floor((originY + height) / tileSize), count - 1); y++) {
+        const wrappedX = ((x % count) + count) % count;
+        result.push({
+          key: `${tileZoom}/${x}/${y}`,
+          src: `/api/locality-map/tiles/${tileZoom}/${wrappedX}/${y}`,
+          left: x * tileSize - originX,
+          top: y * tileSize - originY,
+          size: tileSize
+        });
+      }
+    }
+
+    return result;
+  }, [tileInfo, zoom, originX, originY, width, height]);
+
+  const graticule = useMemo(() => {
+    const step = graticuleStep(zoom);
+    const west = unproject(originX, 0, zoom).longitude;
+    const east = unproject(originX + width, 0, zoom).longitude;
+    const north = Math.min(unproject(0, Math.max(originY, 0), zoom).latitude, MAX_LATITUDE);
+    const south = Math.max(unproject(0, Math.min(originY + height, size), zoom).latitude, -MAX_LATITUDE);
+
+    const meridians: Array<{ x: number; label: string }> = [];
+    for (let longitude = Math.ceil(west / step) * step; longitude <= east; longitude += step) {
+      const wrapped = Number(wrapLongitude(longitude).toFixed(1));
+      meridians.push({
+        x: project(0, longitude, zoom).x - originX,
+        label: `${Math.abs(wrapped)}°${wrapped < 0 ? 'W' : wrapped > 0 ? 'E' : ''}`
+      });
+    }
+
+    const parallels: Array<{ y: number; label: string }> = [];
+    for (let latitude = Math.ceil(south / step) * step; latitude <= north; latitude += step) {
+      const rounded = Number(latitude.toFixed(1));
+      parallels.push({
+        y: project(latitude, 0, zoom).y - originY,
+        label: `${Math.abs(rounded)}°${rounded < 0 ? 'S' : rounded > 0 ? 'N' : ''}`
+      });
+    }
+
+    return { meridians, parallels };
+  }, [zoom, originX, originY, width, height, size]);
+
+  // Place a longitude on the world copy nearest the view center
+  const screenX = useCallback((longitude: number) => {
+    let x = project(0, longitude, zoom).x - center.x;
+    x -= size * Math.round(x / size);
+    return x + width / 2;
+  }, [zoom, center.x, size, width]);
+
+  const markerPoints = markers
+    .map(marker => ({
+      ...marker,
+      x: screenX(marker.longitude),
+      y: project(marker.latitude, marker.longitude, zoom).y - originY
+    }))
+    .filter(point => point.x >= -10 && point.x <= width + 10 && point.y >= -10 && point.y <= height + 10)
+    // Type localities and the selected marker on top
+    .sort((a, b) => Number(!!a.highlighted) - Number(!!b.highlighted) || Number(a.id === selectedId) - Number(b.id === selectedId));
+
+  const circlePath = useMemo(() => {
+    if (!circle) return null;
+
+    const centerX = screenX(circle.longitude);
+    const centerLongitudePixels = project(0, circle.longitude, zoom).x;
+    const points: string[] = [];
+    for (let bearing = 0; bearing <= 360; bearing += 5) {
+      const point = destination(circle.latitude, circle.longitude, bearing, circle.radiusKm);
+      const pixels = project(point.latitude, point.longitude, zoom);
+      points.push(`${(pixels.x - centerLongitudePixels + centerX).toFixed(1)},${(pixels.y - originY).toFixed(1)}`);
+    }
+    return `M${points.join('L')}Z`;
+  }, [circle, zoom, originY, screenX]);
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { startX: event.clientX, startY: event.clientY, centerX: center.x, centerY: center.y, moved: false };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    const dx = event.clientX - drag.startX;
+    const dy = event.clientY - drag.startY;
+    if (!drag.moved && Math.abs(dx) + Math.abs(dy) < 4) return;
+
+    drag.moved = true;
+    setCenterPixels(drag.centerX - dx, drag.centerY - dy, zoom);
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag || drag.moved || !onMapClick) return;
+
+    const rect = event.currentTarget.getBoundingClientRect();
+    const position = unproject(originX + event.clientX - rect.left, originY + event.clientY - rect.top, zoom);
+    onMapClick(clamp(position.latitude, -MAX_LATITUDE, MAX_LATITUDE), wrapLongitude(position.longitude));
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative w-full overflow-hidden rounded-md border bg-sky-50 dark:bg-slate-900 select-none touch-none cursor-grab active:cursor-grabbing"
+      style={{ height }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => { dragRef.current = null; }}
+    >
+      {tiles.map(tile => (
+        <img
+          key={tile.key}
+          src={tile.src}
+          alt=""
+          draggable={false}
+          className="absolute max-w-none pointer-events-none"
+          style={{ left: tile.left, top: tile.top, width: tile.size, height: tile.size }}
+          onError={event => { event.currentTarget.style.visibility = 'hidden'; }}
+        />
+      ))}
+
+      <svg className="absolute inset-0" width={width} height={height}>
+        <g className="text-slate-300 dark:text-slate-700" stroke="currentColor" strokeWidth={1}>
+          {graticule.meridians.map(line => (
+            <line key={`m${line.x}`} x1={line.x} x2={line.x} y1={0} y2={height} />
+          ))}
+          {graticule.parallels.map(line => (
+            <line key={`p${line.y}`} x1={0} x2={width} y1={line.y} y2={line.y} />
+          ))}
+        </g>
+        <g className="fill-slate-500 dark:fill-slate-400 text-[10px]">
+          {graticule.meridians.map(line => (
+            <text key={`ml${line.x}`} x={line.x + 3} y={height - 4}>{line.label}</text>
+          ))}
+          {graticule.parallels.map(line => (
+            <text key={`pl${line.y}`} x={3} y={line.y - 3}>{line.label}</text>
+          ))}
+        </g>
+
+        {circlePath && (
+          <path d={circlePath} fill="rgba(59, 130, 246, 0.08)" stroke="#3b82f6" strokeWidth={1.5} strokeDasharray="6 4" />
+        )}
+
+        {markerPoints.map(point => {
+          const selected = point.id === selectedId;
+          return (
+            <circle
+              key={point.id}
+              cx={point.x}
+              cy={point.y}
+              r={selected ? 8 : point.highlighted ? 6 : 5}
+              fill={point.highlighted ? '#f59e0b' : '#2563eb'}
+              stroke={selected ? '#111827' : '#ffffff'}
+              strokeWidth={selected ? 2.5 : 1.5}
+              className="cursor-pointer"
+              onPointerDown={event => event.stopPropagation()}
+              onClick={() => onMarkerClick?.(point.id)}
+            >
+              <title>{point.label}</title>
+            </circle>
+          );
+        })}
+      </svg>
+
+      <div className="absolute top-2 right-2 flex flex-col gap-1" onPointerDown={event => event.stopPropagation()}>
+        <Button size="icon" variant="secondary" className="h-8 w-8" onClick={() => zoomAt(zoom + 1)} disabled={zoom >= maxZoom} aria-label="Zoom in">
+          <Plus className="h-4 w-4" />
+        </Button>
+        <Button size="icon" variant="secondary" className="h-8 w-8" onClick={() => zoomAt(zoom - 1)} disabled={zoom <= MIN_ZOOM} aria-label="Zoom out">
+          <Minus className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="absolute bottom-1 right-2 text-[10px] text-slate-500 dark:text-slate-400 bg-white/70 dark:bg-slate-900/70 px-1 rounded">
+        {tileInfo?.available ? (tileInfo.attribution || 'Local tiles') : 'No local tiles: grid only'} · z{zoom}
+      </div>
+    </div>
+  );
+}
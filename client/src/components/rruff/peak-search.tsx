@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertCircle, Loader2, Search } from "lucide-react";
+import { searchByPeaks, PeakSearchMatch } from "@/lib/rruff-service";
+
+export default function PeakSearch() {
+  const [peakText, setPeakText] = useState("");
+  const [tolerance, setTolerance] = useState("5");
+  const [spectraType, setSpectraType] = useState("raman");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [matches, setMatches] = useState<PeakSearchMatch[] | null>(null);
+
+  const handleSearch = async () => {
+    const peaks = peakText
+      .split(/[\s,;]+/)
+      .map(value => parseFloat(value))
+      .filter(value => Number.isFinite(value));
+
+    if (peaks.length === 0) {
+      setError("Enter at least one peak position");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await searchByPeaks({
+        peaks,
+        tolerance: parseFloat(tolerance) || 5,
+        spectraType: spectraType !== "any" ? spectraType : undefined
+      });
+      setMatches(result.matches);
+    } catch (err: any) {
+      console.error("Peak search error:", err);
+      setError(err.message || "Peak search failed");
+      setMatches(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Search by Peak Positions</CardTitle>
+          <CardDescription>
+            Enter observed peak positions (e.g. Raman shifts in cm⁻¹). Minerals are ranked by how many
+            of the peaks match a stored peak within the tolerance.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="peak-positions">Peak positions</Label>
+              <Input
+                id="peak-positions"
+                placeholder="e.g. 128, 206, 464"
+                value={peakText}
+                onChange={(e) => setPeakText(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="peak-tolerance">Tolerance (±)</Label>
+              <Input
+                id="peak-tolerance"
+                type="number"
+                min="0"
+                step="0.5"
+                value={tolerance}
+                onChange={(e) => setTolerance(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="peak-spectrum-type">Spectrum type</Label>
+              <Select value={spectraType} onValueChange={setSpectraType}>
+                <SelectTrigger id="peak-spectrum-type">
+                  <SelectValue placeholder="Spectrum type" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any</SelectItem>
+                  <SelectItem value="raman">Raman</SelectItem>
+                  <SelectItem value="ftir">FTIR</SelectItem>
+                  <SelectItem value="xrd">XRD</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button className="w-full md:w-1/3" onClick={handleSearch} disabled={loading || !peakText.trim()}>
+              {loading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Searching...
+                </>
+              ) : (
+                <>
+                  <Search className="mr-2 h-4 w-4" />
+                  Match Peaks
+                </>
+              )}
+            </Button>
+          </div>
+
+          {error && (
+            <div className="p-4 border border-yellow-200 bg-yellow-50 rounded-md flex items-center text-yellow-800">
+              <AlertCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {matches && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Candidates</CardTitle>
+            <CardDescription>{matches.length} minerals matched at least one peak</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Mineral</TableHead>
+                  <TableHead>Formula</TableHead>
+                  <TableHead className="text-right">Matched</TableHead>
+                  <TableHead className="text-right">Mean error</TableHead>
+                  <TableHead className="text-right">Score</TableHead>
+                  <TableHead>Sample</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {matches.map(match => (
+                  <TableRow key={match.mineralId}>
+                    <TableCell className="font-medium">{match.mineralName}</TableCell>
+                    <TableCell className="text-muted-foreground">{match.chemicalFormula}</TableCell>
+                    <TableCell className="text-right">
+                      {match.matchedPeaks}/{match.observedPeaks}
+                      <span className="text-xs text-muted-foreground"> ({match.libraryPeaks} in library)</span>
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{match.meanError.toFixed(2)}</TableCell>
+                    <TableCell className="text-right font-mono">{match.score.toFixed(3)}</TableCell>
+                    <TableCell className="text-xs">{match.sampleId || "n/a"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertCircle, Loader2, Upload, Waves } from "lucide-react";
+import { searchSimilarSpectra, SpectrumSearchResponse } from "@/lib/rruff-service";
+import SpectrumViewer, { ViewerSpectrum } from "./spectrum-viewer";
+
+// Number of top matches overlaid on the unknown spectrum by default
+const DEFAULT_OVERLAY_COUNT = 3;
+
+export default function SpectrumSearch() {
+  const [spectrumText, setSpectrumText] = useState("");
+  const [spectraType, setSpectraType] = useState("raman");
+  const [correctBaseline, setCorrectBaseline] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<SpectrumSearchResponse | null>(null);
+  const [overlayIds, setOverlayIds] = useState<number[]>([]);
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => setSpectrumText(String(reader.result || ""));
+    reader.readAsText(file);
+  };
+
+  const handleSearch = async () => {
+    if (!spectrumText.trim()) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await searchSimilarSpectra({
+        spectrum: spectrumText,
+        spectraType: spectraType !== "any" ? spectraType : undefined,
+        correctBaseline,
+        limit: 20
+      });
+      setResult(response);
+      setOverlayIds(response.matches.slice(0, DEFAULT_OVERLAY_COUNT).map(match => match.spectrumId));
+    } catch (err: any) {
+      console.error("Spectrum search error:", err);
+      setError(err.message || "Spectrum search failed");
+      setResult(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleOverlay = (spectrumId: number) => {
+    setOverlayIds(prev =>
+      prev.includes(spectrumId) ? prev.filter(id => id !== spectrumId) : [...prev, spectrumId]
+    );
+  };
+
+  // The unknown spectrum is plotted first, followed by the selected matches
+  const overlaySpectra = useMemo<ViewerSpectrum[]>(() => {
+    if (!result) return [];
+
+    const queryType = spectraType !== "any" ? spectraType : result.matches[0]?.spectraType || "raman";
+    const overlays = result.matches
+      .filter(match => overlayIds.includes(match.spectrumId))
+      .map(match => ({
+        id: match.spectrumId,
+        label: `${match.mineralName} (${match.score.toFixed(2)})`,
+        spectraType: match.spectraType,
+        dataPoints: match.dataPoints
+      }));
+
+    return [{ id: 0, label: "Unknown", spectraType: queryType, dataPoints: result.query }, ...overlays];
+  }, [result, overlayIds, spectraType]);
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Identify an Unknown Spectrum</CardTitle>
+          <CardDescription>
+            Paste or upload a two-column x,y spectrum (Raman, FTIR or XRD). It is resampled,
+            baseline-corrected and normalized, then compared with every stored RRUFF spectrum.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="spectrum-data">Spectrum data</Label>
+              <Textarea
+                id="spectrum-data"
+                className="font-mono text-xs h-40"
+                placeholder={"100.5, 230\n101.0, 232\n..."}
+                value={spectrumText}
+                onChange={(e) => setSpectrumText(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="spectrum-file">Upload file</Label>
+                <div className="flex items-center gap-2">
+                  <Upload className="h-4 w-4 text-muted-foreground" />
+                  <input
+                    id="spectrum-file"
+                    type="file"
+                    accept=".txt,.csv,.xy,.dat"
+                    className="text-sm"
+                    onChange={handleFileUpload}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="spectrum-type">Spectrum type</Label>
+                <Select value={spectraType} onValueChange={setSpectraType}>
+                  <SelectTrigger id="spectrum-type">
+                    <SelectValue placeholder="Spectrum type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any</SelectItem>
+                    <SelectItem value="raman">Raman</SelectItem>
+                    <SelectItem value="ftir">FTIR</SelectItem>
+                    <SelectItem value="xrd">XRD</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="baseline-correction">Baseline correction</Label>
+                <Switch
+                  id="baseline-correction"
+                  checked={correctBaseline}
+                  onCheckedChange={setCorrectBaseline}
+                />
+              </div>
+
+              <Button className="w-full" onClick={handleSearch} disabled={loading || !spectrumText.trim()}>
+                {loading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Matching...
+                  </>
+                ) : (
+                  <>
+                    <Waves className="mr-2 h-4 w-4" />
+                    Find Matches
+                  </>
+                )}
+              </Button>
+            </div>
+          </div>
+
+          {error && (
+            <div className="p-4 border border-yellow-200 bg-yellow-50 rounded-md flex items-center text-yellow-800">
+              <AlertCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {result && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Overlay</CardTitle>
+              <CardDescription>
+                Unknown spectrum compared with the selected matches (normalized intensity)
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <SpectrumViewer spectra={overlaySpectra} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Matches</CardTitle>
+              <CardDescription>
+                {result.matches.length} matches from {result.candidatesCompared} spectra compared
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ScrollArea className="h-[400px] pr-4">
+                {result.matches.length > 0 ? (
+                  <div className="space-y-2">
+                    {result.matches.map((match, index) => (
+                      <div
+                        key={match.spectrumId}
+                        className={`p-3 border rounded-md cursor-pointer transition-colors ${
+                          overlayIds.includes(match.spectrumId) ? "bg-secondary" : "hover:bg-accent"
+                        }`}
+                        onClick={() => toggleOverlay(match.spectrumId)}
+                      >
+                        <div className="flex items-center justify-between">
+                          <h3 className="font-medium">{index + 1}. {match.mineralName}</h3>
+                          <span className="text-sm font-mono">{match.score.toFixed(3)}</span>
+                        </div>
+                        <p className="text-sm text-muted-foreground">{match.chemicalFormula}</p>
+                        <p className="text-xs">
+                          {match.spectraType} · sample {match.sampleId || "n/a"} · r = {match.correlation.toFixed(3)} ·
+                          coverage {(match.coverage * 100).toFixed(0)}%
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-center h-full text-muted-foreground">
+                    No stored spectra matched this spectrum.
+                  </div>
+                )}
+              </ScrollArea>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
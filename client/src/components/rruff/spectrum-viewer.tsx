@@ -0,0 +1,437 @@
+import { useEffect, useMemo, useState } from "react";
+import { CartesianGrid, Line, LineChart, ReferenceArea, ReferenceDot, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { ChevronLeft, ChevronRight, RotateCcw, ZoomIn, ZoomOut } from "lucide-react";
+import { getSpectrumPeaks } from "@/lib/rruff-service";
+
+export interface ViewerSpectrum {
+  id: number; // stored spectrum ID; 0 or below for spectra that are not in the database
+  label: string;
+  spectraType: string;
+  wavelength?: string | null;
+  dataPoints: Array<[number, number]>;
+}
+
+interface SpectrumViewerProps {
+  spectra: ViewerSpectrum[];
+  defaultNormalized?: boolean;
+  showPeaks?: boolean;
+  className?: string;
+}
+
+type AxisUnit = "shift" | "wavenumber" | "wavelength" | "twoTheta" | "dSpacing";
+
+const SERIES_COLORS = ["#3b82f6", "#ef4444", "#22c55e", "#f59e0b", "#8b5cf6", "#06b6d4", "#ec4899"];
+
+// Default excitation laser (nm) and X-ray source (Cu Kα, Å) when a spectrum has no wavelength
+const DEFAULT_LASER_WAVELENGTH = 532;
+const DEFAULT_XRAY_WAVELENGTH = 1.5418;
+
+// Points drawn per series; longer spectra are decimated to keep the chart responsive
+const MAX_POINTS_PER_SERIES = 1500;
+
+const UNIT_OPTIONS: Record<string, Array<{ value: AxisUnit; label: string }>> = {
+  raman: [
+    { value: "shift", label: "Raman shift (cm⁻¹)" },
+    { value: "wavelength", label: "Wavelength (nm)" }
+  ],
+  ftir: [
+    { value: "wavenumber", label: "Wavenumber (cm⁻¹)" },
+    { value: "wavelength", label: "Wavelength (nm)" }
+  ],
+  xrd: [
+    { value: "twoTheta", label: "2θ (°)" },
+    { value: "dSpacing", label: "d-spacing (Å)" }
+  ]
+};
+
+const UNIT_SUFFIX: Record<AxisUnit, string> = {
+  shift: "cm⁻¹",
+  wavenumber: "cm⁻¹",
+  wavelength: "nm",
+  twoTheta: "°",
+  dSpacing: "Å"
+};
+
+/**
+ * Build a converter from the stored x axis (Raman shift, wavenumber or 2θ)
+ * to the selected display unit. Returns null for points that cannot be converted.
+ */
+function axisConverter(spectrum: ViewerSpectrum, unit: AxisUnit): (x: number) => number | null {
+  const wavelength = parseFloat(spectrum.wavelength || "");
+
+  if (unit === "wavelength" && spectrum.spectraType === "raman") {
+    const laser = Number.isFinite(wavelength) && wavelength > 100 ? wavelength : DEFAULT_LASER_WAVELENGTH;
+    return (shift) => {
+      const absolute = 1e7 / laser - shift;
+      return absolute > 0 ? 1e7 / absolute : null;
+    };
+  }
+
+  if (unit === "wavelength") {
+    return (wavenumber) => (wavenumber > 0 ? 1e7 / wavenumber : null);
+  }
+
+  if (unit === "dSpacing") {
+    const lambda = Number.isFinite(wavelength) && wavelength > 0 && wavelength < 10 ? wavelength : DEFAULT_XRAY_WAVELENGTH;
+    return (twoTheta) => {
+      const sinTheta = Math.sin((twoTheta * Math.PI) / 360);
+      return sinTheta > 0 ? lambda / (2 * sinTheta) : null;
+    };
+  }
+
+  return (x) => x;
+}
+
+function formatPosition(value: number, unit: AxisUnit): string {
+  return unit === "dSpacing" ? value.toFixed(4) : value.toFixed(1);
+}
+
+interface PreparedSeries {
+  key: string;
+  label: string;
+  points: Array<[number, number]>;
+  peaks: Array<{ x: number; y: number; position: number }>;
+}
+
+export default function SpectrumViewer({ spectra, defaultNormalized = true, showPeaks = true, className }: SpectrumViewerProps) {
+  const availableTypes = useMemo(
+    () => Array.from(new Set(spectra.map(spectrum => spectrum.spectraType).filter(type => UNIT_OPTIONS[type]))),
+    [spectra]
+  );
+
+  const [spectraType, setSpectraType] = useState(availableTypes[0] || "raman");
+  const [unit, setUnit] = useState<AxisUnit>(UNIT_OPTIONS[spectraType]?.[0].value || "shift");
+  const [normalized, setNormalized] = useState(defaultNormalized);
+  const [peaksVisible, setPeaksVisible] = useState(showPeaks);
+  const [peakPositions, setPeakPositions] = useState<Record<number, number[]>>({});
+  const [domain, setDomain] = useState<[number, number] | null>(null);
+  const [selection, setSelection] = useState<{ start: number; end: number } | null>(null);
+  const [hoveredPeak, setHoveredPeak] = useState<{ label: string; position: number; intensity: number } | null>(null);
+
+  // Keep the selected type valid when the set of spectra changes
+  useEffect(() => {
+    if (availableTypes.length > 0 && !availableTypes.includes(spectraType)) {
+      setSpectraType(availableTypes[0]);
+    }
+  }, [availableTypes, spectraType]);
+
+  useEffect(() => {
+    setUnit(UNIT_OPTIONS[spectraType]?.[0].value || "shift");
+  }, [spectraType]);
+
+  // Changing the axis invalidates the zoom window
+  useEffect(() => {
+    setDomain(null);
+    setHoveredPeak(null);
+  }, [spectraType, unit]);
+
+  const visibleSpectra = useMemo(
+    () => spectra.filter(spectrum => spectrum.spectraType === spectraType && spectrum.dataPoints.length > 0),
+    [spectra, spectraType]
+  );
+
+  // Load stored peak lists for any spectra we haven't fetched yet
+  useEffect(() => {
+    if (!peaksVisible) return;
+
+    const missing = visibleSpectra.filter(spectrum => spectrum.id > 0 && !(spectrum.id in peakPositions));
+    if (missing.length === 0) return;
+
+    let cancelled = false;
+
+    Promise.all(
+      missing.map(async spectrum => {
+        try {
+          const { peaks } = await getSpectrumPeaks(spectrum.id);
+          return [spectrum.id, peaks.map(peak => peak.position)] as const;
+        } catch {
+          return [spectrum.id, [] as number[]] as const;
+        }
+      })
+    ).then(results => {
+      if (cancelled) return;
+      setPeakPositions(prev => {
+        const next = { ...prev };
+        results.forEach(([id, positions]) => { next[id] = positions; });
+        return next;
+      });
+    });
+
+    return () => { cancelled = true; };
+  }, [visibleSpectra, peaksVisible, peakPositions]);
+
+  // Convert, normalize and sort every series on the display axis
+  const series = useMemo<PreparedSeries[]>(() => {
+    return visibleSpectra.map((spectrum, index) => {
+      const convert = axisConverter(spectrum, unit);
+      const maxIntensity = Math.max(...spectrum.dataPoints.map(([, y]) => y));
+      const scale = normalized && maxIntensity > 0 ? 1 / maxIntensity : 1;
+
+      const points: Array<[number, number]> = [];
+      spectrum.dataPoints.forEach(([x, y]) => {
+        const converted = convert(x);
+        if (converted !== null && Number.isFinite(converted)) {
+          points.push([converted, y * scale]);
+        }
+      });
+      points.sort((a, b) => a[0] - b[0]);
+
+      const peaks = (peakPositions[spectrum.id] || [])
+        .map(position => {
+          const x = convert(position);
+          if (x === null || points.length === 0) return null;
+          return { x, y: nearestIntensity(points, x), position };
+        })
+        .filter((peak): peak is { x: number; y: number; position: number } => peak !== null);
+
+      return { key: `s${index}`, label: spectrum.label, points, peaks };
+    });
+  }, [visibleSpectra, unit, normalized, peakPositions]);
+
+  const fullRange = useMemo<[number, number] | null>(() => {
+    const xs = series.flatMap(item => item.points.length ? [item.points[0][0], item.points[item.points.length - 1][0]] : []);
+    return xs.length ? [Math.min(...xs), Math.max(...xs)] : null;
+  }, [series]);
+
+  const visibleRange = domain || fullRange;
+
+  // Series are on different x grids, so rows are merged by x and gaps are bridged with connectNulls
+  const { chartData, chartConfig } = useMemo(() => {
+    const config: ChartConfig = {};
+    const rows = new Map<number, Record<string, number>>();
+    if (!visibleRange) return { chartData: [], chartConfig: config };
+
+    series.forEach((item, index) => {
+      config[item.key] = { label: item.label, color: SERIES_COLORS[index % SERIES_COLORS.length] };
+
+      const inWindow = item.points.filter(([x]) => x >= visibleRange[0] && x <= visibleRange[1]);
+      const stride = Math.max(1, Math.ceil(inWindow.length / MAX_POINTS_PER_SERIES));
+
+      inWindow.forEach(([x, y], pointIndex) => {
+        if (pointIndex % stride !== 0) return;
+        const row = rows.get(x) || { x };
+        row[item.key] = y;
+        rows.set(x, row);
+      });
+    });
+
+    return {
+      chartData: Array.from(rows.values()).sort((a, b) => a.x - b.x),
+      chartConfig: config
+    };
+  }, [series, visibleRange]);
+
+  const zoom = (factor: number) => {
+    if (!visibleRange || !fullRange) return;
+    const center = (visibleRange[0] + visibleRange[1]) / 2;
+    const halfWidth = ((visibleRange[1] - visibleRange[0]) * factor) / 2;
+    const next: [number, number] = [Math.max(fullRange[0], center - halfWidth), Math.min(fullRange[1], center + halfWidth)];
+    setDomain(next[0] <= fullRange[0] && next[1] >= fullRange[1] ? null : next);
+  };
+
+  const pan = (direction: number) => {
+    if (!visibleRange || !fullRange) return;
+    const width = visibleRange[1] - visibleRange[0];
+    let start = visibleRange[0] + direction * width * 0.25;
+    start = Math.min(Math.max(start, fullRange[0]), fullRange[1] - width);
+    setDomain([start, start + width]);
+  };
+
+  const handleMouseUp = () => {
+    if (selection && Math.abs(selection.end - selection.start) > 0) {
+      setDomain([Math.min(selection.start, selection.end), Math.max(selection.start, selection.end)]);
+    }
+    setSelection(null);
+  };
+
+  const handleMouseMove = (state: { activeLabel?: string | number } | null) => {
+    const x = Number(state?.activeLabel);
+    if (!Number.isFinite(x)) return;
+
+    if (selection) {
+      setSelection({ ...selection, end: x });
+    }
+
+    if (!peaksVisible || !visibleRange) return;
+
+    // Report the closest peak within 1% of the visible range
+    const tolerance = (visibleRange[1] - visibleRange[0]) * 0.01;
+    let closest: { label: string; position: number; intensity: number; distance: number } | null = null;
+
+    series.forEach(item => {
+      item.peaks.forEach(peak => {
+        const distance = Math.abs(peak.x - x);
+        if (distance <= tolerance && (!closest || distance < closest.distance)) {
+          closest = { label: item.label, position: peak.x, intensity: peak.y, distance };
+        }
+      });
+    });
+
+    setHoveredPeak(closest);
+  };
+
+  if (availableTypes.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-40 text-muted-foreground">
+        No spectrum data points available to plot
+      </div>
+    );
+  }
+
+  const unitOptions = UNIT_OPTIONS[spectraType] || [];
+  const suffix = UNIT_SUFFIX[unit];
+
+  return (
+    <div className={className}>
+      <div className="flex flex-wrap items-end gap-4 mb-4">
+        {availableTypes.length > 1 && (
+          <div className="space-y-2">
+            <Label htmlFor="viewer-type">Spectrum type</Label>
+            <Select value={spectraType} onValueChange={setSpectraType}>
+              <SelectTrigger id="viewer-type" className="w-[140px]">
+                <SelectValue placeholder="Spectrum type" />
+              </SelectTrigger>
+              <SelectContent>
+                {availableTypes.map(type => (
+                  <SelectItem key={type} value={type}>{type.toUpperCase()}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="viewer-unit">X axis</Label>
+          <Select value={unit} onValueChange={(value) => setUnit(value as AxisUnit)}>
+            <SelectTrigger id="viewer-unit" className="w-[200px]">
+              <SelectValue placeholder="Axis unit" />
+            </SelectTrigger>
+            <SelectContent>
+              {unitOptions.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center gap-2 pb-2">
+          <Switch id="viewer-normalize" checked={normalized} onCheckedChange={setNormalized} />
+          <Label htmlFor="viewer-normalize">Normalize</Label>
+        </div>
+
+        <div className="flex items-center gap-2 pb-2">
+          <Switch id="viewer-peaks" checked={peaksVisible} onCheckedChange={setPeaksVisible} />
+          <Label htmlFor="viewer-peaks">Peaks</Label>
+        </div>
+
+        <div className="flex items-center gap-1 ml-auto">
+          <Button variant="outline" size="icon" title="Pan left" onClick={() => pan(-1)} disabled={!domain}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" title="Zoom in" onClick={() => zoom(0.5)}>
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" title="Zoom out" onClick={() => zoom(2)} disabled={!domain}>
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" title="Pan right" onClick={() => pan(1)} disabled={!domain}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" title="Reset zoom" onClick={() => setDomain(null)} disabled={!domain}>
+            <RotateCcw className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="h-5 mb-2 text-xs text-muted-foreground">
+        {hoveredPeak
+          ? `Peak at ${formatPosition(hoveredPeak.position, unit)} ${suffix} · ${hoveredPeak.label} · intensity ${hoveredPeak.intensity.toFixed(normalized ? 3 : 0)}`
+          : "Drag across the chart to zoom; hover a peak marker for its position"}
+      </div>
+
+      <ChartContainer config={chartConfig} className="h-[400px] w-full select-none">
+        <LineChart
+          data={chartData}
+          onMouseDown={(state) => {
+            const x = Number(state?.activeLabel);
+            if (Number.isFinite(x)) setSelection({ start: x, end: x });
+          }}
+          onMouseMove={handleMouseMove}
+          onMouseUp={handleMouseUp}
+          onMouseLeave={() => { setSelection(null); setHoveredPeak(null); }}
+        >
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis
+            dataKey="x"
+            type="number"
+            domain={visibleRange ? [visibleRange[0], visibleRange[1]] : ["dataMin", "dataMax"]}
+            allowDataOverflow
+            tickFormatter={(value: number) => (unit === "dSpacing" ? value.toFixed(2) : value.toFixed(0))}
+          />
+          <YAxis domain={normalized ? [0, "auto"] : ["auto", "auto"]} tickFormatter={(value: number) => (normalized ? value.toFixed(2) : value.toFixed(0))} />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) => {
+                  const x = payload?.[0]?.payload?.x;
+                  return typeof x === "number" ? `${formatPosition(x, unit)} ${suffix}` : "";
+                }}
+              />
+            }
+          />
+          <ChartLegend content={<ChartLegendContent />} />
+          {series.map(item => (
+            <Line
+              key={item.key}
+              dataKey={item.key}
+              type="monotone"
+              stroke={`var(--color-${item.key})`}
+              strokeWidth={1.5}
+              dot={false}
+              isAnimationActive={false}
+              connectNulls
+            />
+          ))}
+          {peaksVisible && visibleRange && series.flatMap(item =>
+            item.peaks
+              .filter(peak => peak.x >= visibleRange[0] && peak.x <= visibleRange[1])
+              .map(peak => (
+                <ReferenceDot
+                  key={`${item.key}-${peak.position}`}
+                  x={peak.x}
+                  y={peak.y}
+                  r={3}
+                  fill={`var(--color-${item.key})`}
+                  stroke="none"
+                  ifOverflow="discard"
+                />
+              ))
+          )}
+          {selection && (
+            <ReferenceArea x1={selection.start} x2={selection.end} strokeOpacity={0.3} fillOpacity={0.15} />
+          )}
+        </LineChart>
+      </ChartContainer>
+    </div>
+  );
+}
+
+/**
+ * Intensity of the data point closest to `x` in a series sorted by x
+ */
+function nearestIntensity(points: Array<[number, number]>, x: number): number {
+  let low = 0;
+  let high = points.length - 1;
+
+  while (high - low > 1) {
+    const mid = (low + high) >> 1;
+    if (points[mid][0] < x) low = mid; else high = mid;
+  }
+
+  return Math.abs(points[low][0] - x) <= Math.abs(points[high][0] - x) ? points[low][1] : points[high][1];
+}
@@ -37,6 +37,8 @@ import {
 } from "@/components/ui/dialog";
 
 import { SpaceGroupSearch } from "@/components/space-group-search";
+import { LinkedRruffData } from "@/components/linked-species";
+import XrdStickPattern from "@/components/xrd-stick-pattern";
 import { 
   getSpaceGroups, 
   getSpaceGroupById, 
@@ -341,7 +343,7 @@ export function SpaceGroupsTab() {
       
       {/* Mineral Details Dialog */}
       <Dialog open={mineralDialogOpen} onOpenChange={setMineralDialogOpen}>
-        <DialogContent className="sm:max-w-lg">
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Mineral Details</DialogTitle>
             <DialogDescription>
@@ -394,6 +396,26 @@ export function SpaceGroupsTab() {
                 </div>
               )}
               
+              {mineralDetails.a && (
+                <div>
+                  <h4 className="text-sm font-medium text-muted-foreground mb-2">Theoretical XRD Pattern</h4>
+                  <XrdStickPattern
+                    cell={{
+                      a: mineralDetails.a,
+                      b: mineralDetails.b,
+                      c: mineralDetails.c,
+                      alpha: mineralDetails.alpha,
+                      beta: mineralDetails.beta,
+                      gamma: mineralDetails.gamma
+                    }}
+                    spaceGroup={mineralDetails.spacegroup || mineralDetails.space_group}
+                    showTable={false}
+                  />
+                </div>
+              )}
+              
+              {selectedMineral?.id && <LinkedRruffData mineralId={selectedMineral.id} />}
+              
               <div className="pt-4 flex justify-between">
                 <Button 
                   variant="outline"
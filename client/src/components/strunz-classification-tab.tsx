@@ -30,6 +30,7 @@ import {
 } from "@/components/ui/dialog";
 
 import { StrunzSearch } from "@/components/strunz-search";
+import { LinkedRruffData } from "@/components/linked-species";
 import { 
   getStrunzClassification, 
   getStrunzClassById, 
@@ -346,6 +347,8 @@ export function StrunzClassificationTab() {
                 </div>
               )}
               
+              {selectedMineral?.id && <LinkedRruffData mineralId={selectedMineral.id} />}
+              
               <div className="pt-4 flex justify-between">
                 <Button 
                   variant="outline"
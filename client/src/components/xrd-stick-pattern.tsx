@@ -0,0 +1,179 @@
+import { useEffect, useMemo, useState } from "react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartConfig, ChartContainer, ChartTooltip } from "@/components/ui/chart";
+import { AlertCircle, Loader2 } from "lucide-react";
+import {
+  calculateXrdPattern,
+  getRruffXrdPattern,
+  TheoreticalPattern,
+  TheoreticalReflection,
+  UnitCellInput,
+  XRD_WAVELENGTHS
+} from "@/lib/xrd-service";
+
+interface XrdStickPatternProps {
+  rruffMineralId?: number; // compute from the stored RRUFF cell
+  cell?: UnitCellInput; // or from explicit cell parameters
+  spaceGroup?: string | number | null;
+  showTable?: boolean;
+}
+
+const chartConfig: ChartConfig = {
+  intensity: { label: "Relative intensity", color: "#3b82f6" }
+};
+
+function formatHkl(reflection: TheoreticalReflection): string {
+  const index = (value: number) => (value < 0 ? `-${Math.abs(value)}` : String(value));
+  return `${index(reflection.h)} ${index(reflection.k)} ${index(reflection.l)}`;
+}
+
+export default function XrdStickPattern({ rruffMineralId, cell, spaceGroup, showTable = true }: XrdStickPatternProps) {
+  const [wavelength, setWavelength] = useState("CuKa");
+  const [pattern, setPattern] = useState<TheoreticalPattern | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Cell objects are usually rebuilt on every render, so depend on their contents
+  const cellKey = JSON.stringify(cell || {});
+
+  useEffect(() => {
+    if (!rruffMineralId && !cell) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    const request = rruffMineralId
+      ? getRruffXrdPattern(rruffMineralId, { wavelength })
+      : calculateXrdPattern(cell || {}, spaceGroup, { wavelength });
+
+    request
+      .then(result => { if (!cancelled) setPattern(result); })
+      .catch((err: any) => {
+        if (cancelled) return;
+        setPattern(null);
+        setError(err.message || "Failed to compute XRD pattern");
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+
+    return () => { cancelled = true; };
+  }, [rruffMineralId, cellKey, spaceGroup, wavelength]);
+
+  // Each reflection is drawn as a vertical stick: baseline, peak, baseline
+  const chartData = useMemo(() => {
+    if (!pattern) return [];
+    return pattern.reflections.flatMap(reflection => [
+      { twoTheta: reflection.twoTheta, intensity: 0 },
+      { twoTheta: reflection.twoTheta, intensity: reflection.intensity, reflection },
+      { twoTheta: reflection.twoTheta, intensity: 0 }
+    ]);
+  }, [pattern]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="xrd-wavelength">X-ray source</Label>
+          <Select value={wavelength} onValueChange={setWavelength}>
+            <SelectTrigger id="xrd-wavelength" className="w-[200px]">
+              <SelectValue placeholder="Wavelength" />
+            </SelectTrigger>
+            <SelectContent>
+              {XRD_WAVELENGTHS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {pattern && (
+          <p className="text-xs text-muted-foreground">
+            {pattern.reflections.length} reflections · {pattern.spaceGroup || "no space group"}
+            {pattern.absencesApplied ? " · systematic absences applied" : " · no absences applied"}
+          </p>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-40">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : error ? (
+        <div className="p-4 border border-yellow-200 bg-yellow-50 rounded-md flex items-center text-yellow-800">
+          <AlertCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      ) : pattern && (
+        <>
+          <ChartContainer config={chartConfig} className="h-[250px] w-full">
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                dataKey="twoTheta"
+                type="number"
+                domain={[pattern.twoThetaMin, pattern.twoThetaMax]}
+                tickFormatter={(value: number) => `${value.toFixed(0)}°`}
+              />
+              <YAxis domain={[0, 100]} />
+              <ChartTooltip
+                content={({ active, payload }) => {
+                  const reflection: TheoreticalReflection | undefined = payload?.find(item => item.payload?.reflection)?.payload.reflection;
+                  if (!active || !reflection) return null;
+                  return (
+                    <div className="rounded-lg border bg-background px-2.5 py-1.5 text-xs shadow-xl">
+                      <p className="font-medium">({formatHkl(reflection)})</p>
+                      <p>2θ {reflection.twoTheta.toFixed(2)}° · d {reflection.dSpacing.toFixed(4)} Å</p>
+                      <p>I {reflection.intensity.toFixed(1)} · multiplicity {reflection.multiplicity}</p>
+                    </div>
+                  );
+                }}
+              />
+              <Line
+                dataKey="intensity"
+                type="linear"
+                stroke="var(--color-intensity)"
+                strokeWidth={1.5}
+                dot={false}
+                isAnimationActive={false}
+              />
+            </LineChart>
+          </ChartContainer>
+
+          <p className="text-xs text-muted-foreground">
+            Positions follow from the unit cell; intensities include only multiplicity and
+            Lorentz-polarization, since atomic positions are not available.
+          </p>
+
+          {showTable && (
+            <ScrollArea className="h-[200px] pr-4">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>h k l</TableHead>
+                    <TableHead className="text-right">d (Å)</TableHead>
+                    <TableHead className="text-right">2θ (°)</TableHead>
+                    <TableHead className="text-right">I</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {pattern.reflections.map(reflection => (
+                    <TableRow key={`${reflection.h},${reflection.k},${reflection.l}`}>
+                      <TableCell className="font-mono">{formatHkl(reflection)}</TableCell>
+                      <TableCell className="text-right font-mono">{reflection.dSpacing.toFixed(4)}</TableCell>
+                      <TableCell className="text-right font-mono">{reflection.twoTheta.toFixed(2)}</TableCell>
+                      <TableCell className="text-right font-mono">{reflection.intensity.toFixed(1)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
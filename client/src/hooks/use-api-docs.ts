@@ -1,6 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
-import { APICategory, APIEndpoint, SavedRequest } from '@/types/api';
+import { APICategory, APIEndpoint, CodeGenerationOptions, SavedRequest } from '@/types/api';
 import { useToast } from '@/hooks/use-toast';
 
 export function useApiDocs() {
@@ -69,11 +69,12 @@ export function useApiDocs() {
 
   // Save a request
   const saveRequest = useMutation({
-    mutationFn: async ({ name, endpoint, parameters }: { name: string, endpoint: APIEndpoint, parameters: Record<string, any> }) => {
+    mutationFn: async ({ name, endpoint, parameters, folder }: { name: string, endpoint: APIEndpoint, parameters: Record<string, any>, folder?: string }) => {
       const response = await apiRequest('POST', '/api/saved-requests', {
         name,
         endpointId: endpoint.id,
         parameters,
+        folder,
       });
       return response.json();
     },
@@ -116,12 +117,18 @@ export function useApiDocs() {
   });
 
   // Generate code for an endpoint
-  const generateCode = async (endpoint: APIEndpoint, parameters: Record<string, any>, language: string) => {
+  const generateCode = async (
+    endpoint: APIEndpoint,
+    parameters: Record<string, any>,
+    language: string,
+    options?: CodeGenerationOptions
+  ) => {
     try {
       const response = await apiRequest('POST', '/api/generate-code', {
         endpoint,
         parameters,
-        language
+        language,
+        options
       });
       const data = await response.json();
       return data.code;
@@ -0,0 +1,111 @@
+/**
+ * Client for the Mindat API spec snapshots, the changelog between them and the
+ * client SDK generated from them
+ */
+
+export type ChangeKind = 'added' | 'removed' | 'changed';
+
+export interface ParameterChange {
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie';
+  kind: ChangeKind;
+  breaking: boolean;
+  details: string[];
+}
+
+export interface SchemaFieldChange {
+  path: string; // '' for the body itself
+  kind: ChangeKind;
+  breaking: boolean;
+  before?: string;
+  after?: string;
+}
+
+export interface ResponseChange {
+  status: string;
+  kind: ChangeKind;
+  breaking: boolean;
+  fields: SchemaFieldChange[];
+}
+
+export interface EndpointChange {
+  method: string;
+  path: string;
+  summary?: string;
+  kind: ChangeKind;
+  breaking: boolean;
+  details: string[];
+  parameters: ParameterChange[];
+  requestBody: SchemaFieldChange[];
+  responses: ResponseChange[];
+}
+
+export interface SpecDiffSummary {
+  added: number;
+  removed: number;
+  changed: number;
+  breaking: number;
+}
+
+export interface ApiSpecSnapshot {
+  id: number;
+  version: string;
+  title: string | null;
+  specHash: string;
+  endpointCount: number;
+  previousSnapshotId: number | null;
+  fetchedAt: string | null;
+  changes: SpecDiffSummary | null;
+}
+
+export interface ApiChangelog {
+  fromVersion: string | null;
+  toVersion: string;
+  summary: SpecDiffSummary;
+  endpoints: EndpointChange[];
+  from: ApiSpecSnapshot | null;
+  to: ApiSpecSnapshot;
+}
+
+/**
+ * Recorded versions of the Mindat swagger.json, newest first
+ */
+export async function getApiSpecSnapshots(): Promise<ApiSpecSnapshot[]> {
+  const response = await fetch('/api/docs/snapshots');
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `${response.status}: ${response.statusText}`);
+  }
+
+  return await response.json();
+}
+
+/**
+ * Changes between two snapshots; by default the latest against the one before it
+ */
+export async function getApiChangelog(fromId?: number, toId?: number): Promise<ApiChangelog> {
+  const searchParams = new URLSearchParams();
+  if (fromId !== undefined) searchParams.append('from', String(fromId));
+  if (toId !== undefined) searchParams.append('to', String(toId));
+
+  const response = await fetch(`/api/docs/changelog?${searchParams.toString()}`);
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `${response.status}: ${response.statusText}`);
+  }
+
+  return await response.json();
+}
+
+export function getApiSpecDocumentUrl(snapshotId: number): string {
+  return `/api/docs/snapshots/${snapshotId}/document`;
+}
+
+/**
+ * Zip of the typed TypeScript client generated from a snapshot (default: the latest)
+ */
+export function getTypeScriptSdkUrl(snapshotId?: number): string {
+  return snapshotId !== undefined ? `/api/docs/sdk/typescript?snapshot=${snapshotId}` : '/api/docs/sdk/typescript';
+}
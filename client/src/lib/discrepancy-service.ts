@@ -0,0 +1,110 @@
+/**
+ * Client for the Mindat / RRUFF discrepancy report (admin API key required)
+ */
+
+export const DISCREPANCY_FIELDS = [
+  { key: 'crystalSystem', label: 'Crystal system' },
+  { key: 'spaceGroup', label: 'Space group' },
+  { key: 'unitCell', label: 'Unit cell' },
+  { key: 'hardness', label: 'Hardness' },
+  { key: 'density', label: 'Density' },
+  { key: 'imaStatus', label: 'IMA status' }
+] as const;
+
+export type DiscrepancyField = typeof DISCREPANCY_FIELDS[number]['key'];
+
+export interface Discrepancy {
+  field: DiscrepancyField;
+  mindat: string;
+  rruff: string;
+  detail?: string;
+}
+
+export interface DiscrepancyRow {
+  mineralId: number;
+  mineralName: string;
+  rruffMineralId: number;
+  rruffId: string | null;
+  rruffName: string;
+  pairedBy: 'link' | 'name';
+  discrepancies: Discrepancy[];
+}
+
+export interface DiscrepancyReport {
+  rows: DiscrepancyRow[];
+  total: number;
+  pairsCompared: number;
+  pairsWithSpaceGroup: number;
+  countsByField: Record<DiscrepancyField, number>;
+}
+
+export interface DiscrepancyFilters {
+  fields: DiscrepancyField[];
+  name?: string;
+  pairedBy?: 'link' | 'name';
+  cellLengthTolerance?: number;
+  cellAngleTolerance?: number;
+  hardnessTolerance?: number;
+  densityTolerance?: number;
+}
+
+function toSearchParams(filters: DiscrepancyFilters): URLSearchParams {
+  const searchParams = new URLSearchParams();
+  if (filters.fields.length > 0) searchParams.append('fields', filters.fields.join(','));
+  if (filters.name) searchParams.append('name', filters.name);
+  if (filters.pairedBy) searchParams.append('pairedBy', filters.pairedBy);
+  if (filters.cellLengthTolerance !== undefined) searchParams.append('cellLengthTolerance', String(filters.cellLengthTolerance));
+  if (filters.cellAngleTolerance !== undefined) searchParams.append('cellAngleTolerance', String(filters.cellAngleTolerance));
+  if (filters.hardnessTolerance !== undefined) searchParams.append('hardnessTolerance', String(filters.hardnessTolerance));
+  if (filters.densityTolerance !== undefined) searchParams.append('densityTolerance', String(filters.densityTolerance));
+  return searchParams;
+}
+
+async function fetchReport(apiKey: string, searchParams: URLSearchParams): Promise<Response> {
+  const response = await fetch(`/api/minerals/admin/discrepancies?${searchParams.toString()}`, {
+    method: 'GET',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`
+    }
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `${response.status}: ${response.statusText}`);
+  }
+
+  return response;
+}
+
+/**
+ * One page of Mindat/RRUFF pairs that disagree
+ */
+export async function getDiscrepancyReport(
+  apiKey: string,
+  filters: DiscrepancyFilters,
+  page: { limit: number; offset: number }
+): Promise<DiscrepancyReport> {
+  const searchParams = toSearchParams(filters);
+  searchParams.append('limit', String(page.limit));
+  searchParams.append('offset', String(page.offset));
+
+  const response = await fetchReport(apiKey, searchParams);
+  return await response.json();
+}
+
+/**
+ * Download every matching discrepancy as a CSV file
+ */
+export async function downloadDiscrepancyCsv(apiKey: string, filters: DiscrepancyFilters): Promise<void> {
+  const searchParams = toSearchParams(filters);
+  searchParams.append('format', 'csv');
+
+  const response = await fetchReport(apiKey, searchParams);
+  const url = URL.createObjectURL(await response.blob());
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'mindat-rruff-discrepancies.csv';
+  link.click();
+  URL.revokeObjectURL(url);
+}
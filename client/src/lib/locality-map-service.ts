@@ -0,0 +1,104 @@
+/**
+ * Client for the locality map: bounding-box and radius searches over synced
+ * localities, and the local tile directory
+ */
+
+export interface MapBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+export interface LocalityFilterParams {
+  elements?: string; // comma-separated element symbols
+  mineral?: string;
+  country?: string;
+  typeOnly?: boolean;
+  limit?: number;
+}
+
+export interface MapLocality {
+  id: number;
+  txt: string;
+  name: string;
+  country: string | null;
+  level: number | null;
+  latitude: number;
+  longitude: number;
+  elements: string[];
+  hasTypeLocality: boolean;
+  distanceKm?: number;
+}
+
+export interface MapLocalityResponse {
+  localities: MapLocality[];
+  total: number;
+}
+
+export interface MapTileInfo {
+  available: boolean;
+  minZoom: number;
+  maxZoom: number;
+  attribution: string | null;
+}
+
+function appendFilters(searchParams: URLSearchParams, filters: LocalityFilterParams) {
+  if (filters.elements) searchParams.append('elements', filters.elements);
+  if (filters.mineral) searchParams.append('mineral', filters.mineral);
+  if (filters.country) searchParams.append('country', filters.country);
+  if (filters.typeOnly) searchParams.append('typeOnly', 'true');
+  searchParams.append('limit', String(filters.limit || 500));
+}
+
+async function getJson<T>(url: string): Promise<T> {
+  const response = await fetch(url, {
+    method: 'GET',
+    headers: {
+      'Content-Type': 'application/json'
+    }
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `${response.status}: ${response.statusText}`);
+  }
+
+  return await response.json();
+}
+
+/**
+ * Synced localities inside the given bounds (type localities first)
+ */
+export async function searchLocalitiesInBounds(bounds: MapBounds, filters: LocalityFilterParams = {}): Promise<MapLocalityResponse> {
+  const searchParams = new URLSearchParams();
+  searchParams.append('bbox', [bounds.west, bounds.south, bounds.east, bounds.north].map(value => value.toFixed(5)).join(','));
+  appendFilters(searchParams, filters);
+
+  return getJson<MapLocalityResponse>(`/api/locality-map/within?${searchParams.toString()}`);
+}
+
+/**
+ * Synced localities within `radiusKm` of a point, nearest first
+ */
+export async function searchLocalitiesNearPoint(
+  latitude: number,
+  longitude: number,
+  radiusKm: number,
+  filters: LocalityFilterParams = {}
+): Promise<MapLocalityResponse> {
+  const searchParams = new URLSearchParams();
+  searchParams.append('lat', String(latitude));
+  searchParams.append('lon', String(longitude));
+  searchParams.append('radiusKm', String(radiusKm));
+  appendFilters(searchParams, filters);
+
+  return getJson<MapLocalityResponse>(`/api/locality-map/near?${searchParams.toString()}`);
+}
+
+/**
+ * Zoom levels served from the local tile directory
+ */
+export async function getMapTileInfo(): Promise<MapTileInfo> {
+  return getJson<MapTileInfo>('/api/locality-map/tiles');
+}
@@ -453,9 +453,68 @@ export async function searchMineralsBySpaceGroup(params: {
   }
 }
 
+/**
+ * Search synced minerals by Dana or Strunz class in the local database.
+ * Returns null when the local database has no match (e.g. before the first sync)
+ * so callers can fall back to the live Mindat API.
+ */
+async function searchLocalClassification(system: 'dana' | 'strunz', params: {
+  name?: string;
+  code?: string;
+  limit?: number;
+  page?: number;
+}): Promise<any | null> {
+  try {
+    const limit = params.limit || 10;
+    const page = params.page || 1;
+    const searchParams = new URLSearchParams({
+      limit: String(limit),
+      offset: String((page - 1) * limit)
+    });
+    if (params.code) searchParams.append('code', params.code);
+    if (params.name) searchParams.append('name', params.name);
+
+    const response = await apiRequest('GET', `/api/mineral-classification/${system}/minerals?${searchParams.toString()}`);
+    const data = await response.json();
+
+    if (!data?.total) {
+      return null;
+    }
+
+    // Same shape as the geomaterials results the Dana/Strunz components render
+    return {
+      count: data.total,
+      next: page * limit < data.total ? String(page + 1) : null,
+      previous: page > 1 ? String(page - 1) : null,
+      results: data.minerals.map((mineral: any) => ({
+        id: mineral.id,
+        name: mineral.name,
+        mindat_formula: mineral.mindatFormula,
+        ima_formula: mineral.imaFormula,
+        csystem: mineral.csystem,
+        dana8ed1: mineral.dana8ed1,
+        dana8ed2: mineral.dana8ed2,
+        dana8ed3: mineral.dana8ed3,
+        dana8ed4: mineral.dana8ed4,
+        dana_code: mineral.danaCode,
+        strunz10ed1: mineral.strunz10ed1,
+        strunz10ed2: mineral.strunz10ed2,
+        strunz10ed3: mineral.strunz10ed3,
+        strunz10ed4: mineral.strunz10ed4,
+        strunz_code: mineral.strunzCode,
+        source: 'local'
+      }))
+    };
+  } catch (error) {
+    console.error(`Error searching local ${system} classification:`, error);
+    return null;
+  }
+}
+
 /**
  * Search for minerals by Dana classification or name
- * Uses the geomaterials endpoint and filters by Dana class parameters
+ * Uses the synced local database when it has matches, otherwise the geomaterials
+ * endpoint filtered by Dana class parameters
  * 
  * @param params Search parameters including Dana classification and mineral name
  * @returns Mineral search results
@@ -467,6 +526,11 @@ export async function searchMineralsByDanaClass(params: {
   page?: number;
 }): Promise<any> {
   try {
+    const local = await searchLocalClassification('dana', { ...params, code: params.dana_class });
+    if (local) {
+      return local;
+    }
+
     // Build search parameters for the mineral search
     const searchParams: Record<string, any> = {
       limit: params.limit || 10,
@@ -555,7 +619,8 @@ export async function searchMineralsByDanaClass(params: {
 
 /**
  * Search for minerals by Strunz classification or name
- * Uses the geomaterials endpoint and filters by Strunz class parameters
+ * Uses the synced local database when it has matches, otherwise the geomaterials
+ * endpoint filtered by Strunz class parameters
  * 
  * @param params Search parameters including Strunz classification and mineral name
  * @returns Mineral search results
@@ -567,6 +632,11 @@ export async function searchMineralsByStrunzClass(params: {
   page?: number;
 }): Promise<any> {
   try {
+    const local = await searchLocalClassification('strunz', { ...params, code: params.strunz_class });
+    if (local) {
+      return local;
+    }
+
     // Build search parameters for the mineral search
     const searchParams: Record<string, any> = {
       limit: params.limit || 10,
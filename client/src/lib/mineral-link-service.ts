@@ -0,0 +1,68 @@
+/**
+ * Client for the Mindat <-> RRUFF species links
+ */
+
+export interface MineralLinkFields {
+  linkId: number;
+  matchMethod: 'name' | 'synonym' | 'formula' | 'manual';
+  confidence: number;
+  status: 'auto' | 'confirmed';
+  reasons: string[];
+}
+
+export interface LinkedRruffMineral extends MineralLinkFields {
+  rruffMineral: {
+    id: number;
+    rruffId: string | null;
+    name: string;
+    formula: string | null;
+    crystalSystem: string | null;
+    spaceGroup: string | null;
+    url: string | null;
+  };
+  spectra: Record<string, number>; // Spectrum count by type
+}
+
+export interface LinkedMindatMineral extends MineralLinkFields {
+  mineral: {
+    id: number;
+    name: string;
+    formula: string | null;
+    crystalSystem: string | null;
+    imaStatus: string[];
+    elements: string[] | null;
+    danaCode: string | null;
+    strunzCode: string | null;
+  };
+}
+
+async function getLinks<T>(url: string): Promise<T[]> {
+  const response = await fetch(url, {
+    method: 'GET',
+    headers: {
+      'Content-Type': 'application/json'
+    }
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `${response.status}: ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  return data.links || [];
+}
+
+/**
+ * RRUFF minerals linked to a synced Mindat mineral, with spectrum counts
+ */
+export async function getRruffLinksForMineral(mineralId: number): Promise<LinkedRruffMineral[]> {
+  return getLinks<LinkedRruffMineral>(`/api/mineral-links/mindat/${mineralId}`);
+}
+
+/**
+ * Synced Mindat minerals linked to a RRUFF mineral
+ */
+export async function getMindatLinksForRruffMineral(rruffMineralId: number): Promise<LinkedMindatMineral[]> {
+  return getLinks<LinkedMindatMineral>(`/api/mineral-links/rruff/${rruffMineralId}`);
+}
@@ -0,0 +1,144 @@
+import { buildExportUrl, type ExportFormat } from './result-export';
+
+/**
+ * Client for the determinative (numeric property range) mineral search
+ */
+
+export interface RangeValue {
+  min?: number;
+  max?: number;
+}
+
+export interface PropertySearchParams {
+  ranges: Record<string, RangeValue>;
+  lustre?: string[];
+  streak?: string;
+  colour?: string;
+  crystalSystem?: string;
+  opticalType?: string;
+  opticalSign?: string;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+  limit?: number;
+  offset?: number;
+}
+
+export interface PropertySearchMineral {
+  id: number;
+  name: string;
+  mindatFormula: string | null;
+  imaFormula: string | null;
+  csystem: string | null;
+  colour: string | null;
+  streak: string | null;
+  lustretype: string | null;
+  hmin: number | null;
+  hmax: number | null;
+  densityMin: number | null;
+  densityMax: number | null;
+  opticaltype: string | null;
+  opticalsign: string | null;
+  nAlphaMin: number | null;
+  nAlphaMax: number | null;
+  nBetaMin: number | null;
+  nBetaMax: number | null;
+  nGammaMin: number | null;
+  nGammaMax: number | null;
+  nOmegaMin: number | null;
+  nOmegaMax: number | null;
+  nEpsilonMin: number | null;
+  nEpsilonMax: number | null;
+  nMin: number | null;
+  nMax: number | null;
+  birefringence: number | null;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface PropertySearchResponse {
+  minerals: PropertySearchMineral[];
+  total: number;
+  facets: {
+    lustre: FacetCount[];
+    crystalSystem: FacetCount[];
+  };
+}
+
+// Range facets understood by the server, in display order
+export const RANGE_FACETS: Array<{ key: string; label: string; unit?: string; step: number }> = [
+  { key: 'hardness', label: 'Mohs hardness', step: 0.5 },
+  { key: 'density', label: 'Density', unit: 'g/cm³', step: 0.01 },
+  { key: 'nAlpha', label: 'nα', step: 0.001 },
+  { key: 'nBeta', label: 'nβ', step: 0.001 },
+  { key: 'nGamma', label: 'nγ', step: 0.001 },
+  { key: 'nOmega', label: 'nω', step: 0.001 },
+  { key: 'nEpsilon', label: 'nε', step: 0.001 },
+  { key: 'n', label: 'n (isotropic)', step: 0.001 },
+  { key: 'birefringence', label: 'Birefringence (δ)', step: 0.001 },
+  { key: 'a', label: 'Cell a', unit: 'Å', step: 0.01 },
+  { key: 'b', label: 'Cell b', unit: 'Å', step: 0.01 },
+  { key: 'c', label: 'Cell c', unit: 'Å', step: 0.01 }
+];
+
+// Query string for the range and descriptive filters
+function propertySearchParams(params: PropertySearchParams): URLSearchParams {
+  const searchParams = new URLSearchParams();
+
+  Object.entries(params.ranges).forEach(([key, range]) => {
+    if (range.min !== undefined) searchParams.append(`${key}Min`, String(range.min));
+    if (range.max !== undefined) searchParams.append(`${key}Max`, String(range.max));
+  });
+
+  if (params.lustre && params.lustre.length > 0) searchParams.append('lustre', params.lustre.join(','));
+  if (params.streak) searchParams.append('streak', params.streak);
+  if (params.colour) searchParams.append('colour', params.colour);
+  if (params.crystalSystem) searchParams.append('crystalSystem', params.crystalSystem);
+  if (params.opticalType) searchParams.append('opticalType', params.opticalType);
+  if (params.opticalSign) searchParams.append('opticalSign', params.opticalSign);
+  if (params.sortBy) searchParams.append('sortBy', params.sortBy);
+  if (params.sortOrder) searchParams.append('sortOrder', params.sortOrder);
+  return searchParams;
+}
+
+/**
+ * Search stored minerals by numeric property ranges and descriptive properties
+ * @param params Range filters plus lustre, streak, colour and paging
+ * @returns Matching minerals with lustre and crystal system facet counts
+ */
+export async function searchMineralsByProperties(params: PropertySearchParams): Promise<PropertySearchResponse> {
+  try {
+    const searchParams = propertySearchParams(params);
+    searchParams.append('limit', String(params.limit || 50));
+    searchParams.append('offset', String(params.offset || 0));
+
+    const response = await fetch(`/api/mineral-properties/search?${searchParams.toString()}`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json'
+      }
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || `${response.status}: ${response.statusText}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error searching minerals by properties:', error);
+    throw error;
+  }
+}
+
+/**
+ * Keyed URL that exports every mineral matching the search filters (see downloadKeyedExport)
+ * @param params Range and descriptive filters (paging is ignored)
+ * @param format csv, ndjson or xlsx
+ * @param columns Optional column names; the server default is used when omitted
+ */
+export function getPropertySearchExportUrl(params: PropertySearchParams, format: ExportFormat, columns?: string[]): string {
+  return buildExportUrl('/api/minerals/search/properties/export', propertySearchParams(params), format, columns);
+}
@@ -0,0 +1,241 @@
+import { APIEndpoint, Parameter, ResolvedRequestBody, Schema } from '@/types/api';
+
+/**
+ * Form inputs, validation and request building for the resolved endpoint
+ * parameters (see server/services/openapi-resolver.ts)
+ */
+
+export type InputKind = 'select' | 'multiselect' | 'boolean' | 'integer' | 'number' | 'list' | 'json' | 'text';
+
+export const PARAMETER_LOCATIONS: Array<{ key: Parameter['in']; label: string }> = [
+  { key: 'path', label: 'Path Parameters' },
+  { key: 'query', label: 'Query Parameters' },
+  { key: 'header', label: 'Header Parameters' },
+  { key: 'cookie', label: 'Cookie Parameters' }
+];
+
+/**
+ * The schema an input is built from: the first non-null variant of a union
+ * that the server could not flatten into an enum
+ */
+export function effectiveSchema(schema?: Schema): Schema {
+  if (!schema) return { type: 'string' };
+  const variants = schema.oneOf || schema.anyOf;
+  if (!variants || variants.length === 0) return schema;
+  return variants.find(variant => variant.type !== 'null') || schema;
+}
+
+export function inputKind(schema?: Schema): InputKind {
+  const resolved = effectiveSchema(schema);
+
+  if (resolved.enum && resolved.enum.length > 0) return 'select';
+  switch (resolved.type) {
+    case 'boolean':
+      return 'boolean';
+    case 'integer':
+      return 'integer';
+    case 'number':
+      return 'number';
+    case 'array': {
+      const items = effectiveSchema(resolved.items);
+      if (items.enum && items.enum.length > 0) return 'multiselect';
+      return items.type === 'object' ? 'json' : 'list';
+    }
+    case 'object':
+      return 'json';
+    default:
+      return resolved.properties || resolved['x-circular'] ? 'json' : 'text';
+  }
+}
+
+/**
+ * Short type label for the parameter badge, e.g. 'integer', 'array<string>', 'enum'
+ */
+export function schemaTypeLabel(schema?: Schema): string {
+  const resolved = effectiveSchema(schema);
+  if (resolved.enum && resolved.enum.length > 0) return 'enum';
+  if (resolved.type === 'array') return `array<${schemaTypeLabel(resolved.items)}>`;
+  if (resolved['x-circular']) return resolved.title || 'object';
+  const type = resolved.type || (resolved.properties ? 'object' : 'string');
+  return resolved.format ? `${type} (${resolved.format})` : type;
+}
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+// Comma-separated list text as its items
+const listItems = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(String) : String(value).split(',').map(item => item.trim()).filter(Boolean);
+
+function checkScalar(text: string, schema: Schema): string | null {
+  const type = schema.type;
+
+  if (type === 'integer' || type === 'number') {
+    const number = Number(text);
+    if (text.trim() === '' || !Number.isFinite(number)) return 'Must be a number';
+    if (type === 'integer' && !Number.isInteger(number)) return 'Must be a whole number';
+    if (schema.minimum !== undefined && (schema.exclusiveMinimum ? number <= schema.minimum : number < schema.minimum)) {
+      return `Must be ${schema.exclusiveMinimum ? 'greater than' : 'at least'} ${schema.minimum}`;
+    }
+    if (schema.maximum !== undefined && (schema.exclusiveMaximum ? number >= schema.maximum : number > schema.maximum)) {
+      return `Must be ${schema.exclusiveMaximum ? 'less than' : 'at most'} ${schema.maximum}`;
+    }
+    return null;
+  }
+
+  if (type === 'boolean') {
+    return text === 'true' || text === 'false' ? null : 'Must be true or false';
+  }
+
+  if (schema.enum && schema.enum.length > 0 && !schema.enum.map(String).includes(text)) {
+    return `Must be one of ${schema.enum.join(', ')}`;
+  }
+  if (schema.minLength !== undefined && text.length < schema.minLength) return `Must be at least ${schema.minLength} characters`;
+  if (schema.maxLength !== undefined && text.length > schema.maxLength) return `Must be at most ${schema.maxLength} characters`;
+  if (schema.pattern) {
+    try {
+      if (!new RegExp(schema.pattern).test(text)) return `Must match ${schema.pattern}`;
+    } catch {
+      // Patterns in a syntax JavaScript does not support are not checked
+    }
+  }
+  if (schema.format === 'date' && !/^\d{4}-\d{2}-\d{2}$/.test(text)) return 'Must be a date (YYYY-MM-DD)';
+  if (schema.format === 'date-time' && Number.isNaN(Date.parse(text))) return 'Must be a date and time';
+  return null;
+}
+
+/**
+ * Validation message for one value, or null when it is acceptable
+ */
+export function validateValue(value: unknown, schema: Schema | undefined, required?: boolean): string | null {
+  if (isEmpty(value)) return required ? 'Required' : null;
+
+  const resolved = effectiveSchema(schema);
+  const kind = inputKind(resolved);
+
+  if (kind === 'json') {
+    try {
+      JSON.parse(String(value));
+      return null;
+    } catch {
+      return 'Must be valid JSON';
+    }
+  }
+
+  if (kind === 'multiselect' || kind === 'list') {
+    const items = listItems(value);
+    if (resolved.minItems !== undefined && items.length < resolved.minItems) return `Choose at least ${resolved.minItems}`;
+    if (resolved.maxItems !== undefined && items.length > resolved.maxItems) return `Choose at most ${resolved.maxItems}`;
+    const itemSchema = effectiveSchema(resolved.items);
+    for (const item of items) {
+      const error = checkScalar(item, itemSchema);
+      if (error) return `${item}: ${error.charAt(0).toLowerCase()}${error.slice(1)}`;
+    }
+    return null;
+  }
+
+  return checkScalar(String(value), resolved);
+}
+
+/**
+ * Validation messages by parameter name
+ */
+export function validateParameters(parameters: Parameter[], values: Record<string, any>): Record<string, string> {
+  const errors: Record<string, string> = {};
+  parameters.forEach(parameter => {
+    const error = validateValue(values[parameter.name], parameter.schema, parameter.required);
+    if (error) errors[parameter.name] = error;
+  });
+  return errors;
+}
+
+/**
+ * Path with path parameters filled in, and the query parameters to send;
+ * arrays are sent as repeated keys, or comma-separated when `explode` is false
+ */
+export function buildRequest(endpoint: APIEndpoint, values: Record<string, any>): {
+  path: string;
+  query: Record<string, string | string[]>;
+} {
+  const declared = new Map((endpoint.parameters || []).map(parameter => [parameter.name, parameter]));
+  let path = endpoint.path;
+  const query: Record<string, string | string[]> = {};
+
+  for (const [name, value] of Object.entries(values)) {
+    if (isEmpty(value)) continue;
+    const parameter = declared.get(name);
+
+    if (parameter?.in === 'path') {
+      path = path.replace(`{${name}}`, encodeURIComponent(String(value)));
+      continue;
+    }
+    if (parameter && parameter.in !== 'query') continue;
+
+    if (parameter && effectiveSchema(parameter.schema).type === 'array') {
+      const items = listItems(value);
+      query[name] = parameter.explode === false ? items.join(',') : items;
+    } else {
+      query[name] = String(value);
+    }
+  }
+
+  return { path, query };
+}
+
+/**
+ * Sample value built from a schema, for prefilling the request body editor
+ */
+export function exampleFromSchema(schema: Schema | undefined, depth: number = 0): any {
+  const resolved = effectiveSchema(schema);
+  if (resolved.example !== undefined) return resolved.example;
+  if (resolved.default !== undefined) return resolved.default;
+  if (resolved.enum && resolved.enum.length > 0) return resolved.enum[0];
+  if (resolved['x-circular'] || depth > 4) return resolved.type === 'array' ? [] : {};
+
+  switch (resolved.type) {
+    case 'integer':
+    case 'number':
+      return resolved.minimum ?? 0;
+    case 'boolean':
+      return false;
+    case 'array':
+      return [exampleFromSchema(resolved.items, depth + 1)];
+    case 'string':
+      return '';
+    default:
+      if (!resolved.properties) return resolved.type === 'object' ? {} : '';
+      return Object.fromEntries(
+        Object.entries(resolved.properties)
+          .filter(([, property]) => !property.readOnly)
+          .map(([name, property]) => [name, exampleFromSchema(property, depth + 1)])
+      );
+  }
+}
+
+/**
+ * Validation message for the request body text, or null when it is acceptable
+ */
+export function validateRequestBody(text: string, body: ResolvedRequestBody): string | null {
+  if (!text.trim()) return body.required ? 'A request body is required' : null;
+  if (!body.contentType.includes('json')) return null;
+
+  let value: any;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return 'Must be valid JSON';
+  }
+
+  const schema = effectiveSchema(body.schema);
+  if (schema.properties && value && typeof value === 'object' && !Array.isArray(value)) {
+    const missing = (schema.required || []).filter(name => !schema.properties![name]?.readOnly && value[name] === undefined);
+    if (missing.length > 0) return `Missing required field${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}`;
+
+    for (const [name, property] of Object.entries(schema.properties)) {
+      if (value[name] === undefined || value[name] === null || typeof value[name] === 'object') continue;
+      const error = validateValue(String(value[name]), property);
+      if (error) return `${name}: ${error.charAt(0).toLowerCase()}${error.slice(1)}`;
+    }
+  }
+  return null;
+}
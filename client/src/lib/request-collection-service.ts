@@ -0,0 +1,61 @@
+/**
+ * Export and import of saved requests as Postman collections, Insomnia exports
+ * and `.http` files
+ */
+
+import type { SavedRequest } from '@/types/api';
+
+export const COLLECTION_FORMATS = [
+  { key: 'postman', label: 'Postman collection (v2.1)' },
+  { key: 'insomnia', label: 'Insomnia export' },
+  { key: 'http', label: '.http file (REST Client)' }
+] as const;
+
+export type CollectionFormat = typeof COLLECTION_FORMATS[number]['key'];
+
+export interface SkippedImport {
+  name: string;
+  method: string;
+  path: string;
+  reason: string;
+}
+
+export interface CollectionImportResult {
+  format: CollectionFormat;
+  imported: SavedRequest[];
+  skipped: SkippedImport[];
+}
+
+/**
+ * Saved requests as a collection: the given IDs, one folder ('' for unfiled
+ * requests) or, with neither, all of them
+ */
+export function getSavedRequestsExportUrl(format: CollectionFormat, selection: { ids?: number[]; folder?: string } = {}): string {
+  const searchParams = new URLSearchParams({ format });
+  if (selection.ids) searchParams.set('ids', selection.ids.join(','));
+  if (selection.folder !== undefined) searchParams.set('folder', selection.folder);
+  return `/api/saved-requests/export?${searchParams.toString()}`;
+}
+
+export function getCategoryExportUrl(categoryId: number, format: CollectionFormat): string {
+  return `/api/docs/categories/${categoryId}/export?format=${format}`;
+}
+
+/**
+ * Save the requests of a Postman, Insomnia or `.http` file; `folder` overrides
+ * the folders in the file
+ */
+export async function importRequestCollection(content: string, folder?: string): Promise<CollectionImportResult> {
+  const response = await fetch('/api/saved-requests/import', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ content, folder })
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `${response.status}: ${response.statusText}`);
+  }
+
+  return await response.json();
+}
@@ -0,0 +1,63 @@
+/**
+ * Shared helpers for the streaming search export endpoints
+ */
+
+export const EXPORT_FORMATS = [
+  { key: 'csv', label: 'CSV' },
+  { key: 'ndjson', label: 'JSON Lines' },
+  { key: 'xlsx', label: 'Excel (.xlsx)' }
+] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number]['key'];
+
+/**
+ * Build an export URL from a search query, adding `format` and optional `columns`
+ */
+export function buildExportUrl(path: string, searchParams: URLSearchParams, format: ExportFormat, columns?: string[]): string {
+  const exportParams = new URLSearchParams(searchParams);
+  exportParams.set('format', format);
+  if (columns && columns.length > 0) exportParams.set('columns', columns.join(','));
+  return `${path}?${exportParams.toString()}`;
+}
+
+/**
+ * Start a browser download of an export URL; the server streams the file, so it is
+ * never held in memory here
+ */
+export function downloadExport(url: string): void {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = '';
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+}
+
+/**
+ * Download an export from an endpoint that needs a Minerals API key; a link cannot send
+ * the Authorization header, so the file is fetched into a blob first
+ */
+export async function downloadKeyedExport(url: string, apiKey: string): Promise<void> {
+  const response = await fetch(url, {
+    method: 'GET',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`
+    }
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `${response.status}: ${response.statusText}`);
+  }
+
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const objectUrl = URL.createObjectURL(await response.blob());
+
+  const link = document.createElement('a');
+  link.href = objectUrl;
+  link.download = disposition.match(/filename="([^"]+)"/)?.[1] || 'export';
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(objectUrl);
+}
@@ -1,4 +1,5 @@
 import { apiRequest } from './queryClient';
+import { buildExportUrl, type ExportFormat } from './result-export';
 
 /**
  * Service for interacting with the RRUFF API
@@ -44,6 +45,9 @@ export interface RruffMineral {
   density: string | null;
   hardness: string | null;
   elementComposition: Record<string, number> | null;
+  molecularWeight?: number | null;
+  elementWeightPercents?: Record<string, number> | null;
+  oxideWeightPercents?: Record<string, number> | null;
   yearFirstPublished: number | null;
   comments: string | null;
   url: string | null;
@@ -64,6 +68,7 @@ export interface RruffSpectra {
   wavelength: string | null;
   temperature: string | null;
   pressure: string | null;
+  locality: string | null;
   dataUrl: string | null;
   dataPoints: Array<[number, number]> | null;
 }
@@ -84,6 +89,17 @@ export interface ImportProgress {
   currentCount: number;
 }
 
+// Query string for the name / elements / crystal system filters
+function rruffSearchParams(params: RruffMineralSearchParams): URLSearchParams {
+  const searchParams = new URLSearchParams();
+  if (params.name) searchParams.append('name', params.name);
+  if (params.elements) searchParams.append('elements', params.elements);
+  if (params.crystalSystem && params.crystalSystem !== 'any') {
+    searchParams.append('crystalSystem', params.crystalSystem);
+  }
+  return searchParams;
+}
+
 /**
  * Search for minerals in the RRUFF database
  * @param params Search parameters
@@ -91,15 +107,7 @@ export interface ImportProgress {
  */
 export async function searchRruffMinerals(params: RruffMineralSearchParams = {}): Promise<RruffMineralResponse> {
   try {
-    // Create a URLSearchParams object for the query string
-    const searchParams = new URLSearchParams();
-    
-    // Add all params that are defined
-    if (params.name) searchParams.append('name', params.name);
-    if (params.elements) searchParams.append('elements', params.elements);
-    if (params.crystalSystem && params.crystalSystem !== 'any') {
-      searchParams.append('crystalSystem', params.crystalSystem);
-    }
+    const searchParams = rruffSearchParams(params);
     searchParams.append('page', String(params.page || 1));
     searchParams.append('limit', String(params.limit || 20));
     
@@ -125,6 +133,24 @@ export async function searchRruffMinerals(params: RruffMineralSearchParams = {})
   }
 }
 
+/**
+ * URL that downloads every RRUFF mineral matching the search filters
+ * @param params Search parameters (paging is ignored)
+ * @param format csv, ndjson or xlsx
+ * @param columns Optional column names; the server default is used when omitted
+ */
+export function getRruffMineralsExportUrl(params: RruffMineralSearchParams, format: ExportFormat, columns?: string[]): string {
+  return buildExportUrl('/api/rruff/minerals/export', rruffSearchParams(params), format, columns);
+}
+
+/**
+ * URL that downloads a mineral's unit cell and space group as a CIF file
+ * @param id Mineral ID
+ */
+export function getRruffMineralCifUrl(id: number): string {
+  return `/api/rruff/minerals/${id}/cif`;
+}
+
 /**
  * Get details for a specific mineral by ID
  * @param id Mineral ID
@@ -245,4 +271,149 @@ export async function getMineralSpectra(
     console.error(`Error getting spectra for mineral #${mineralId}:`, error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+export interface SpectrumSearchParams {
+  spectrum: string; // two-column x,y text
+  spectraType?: string;
+  limit?: number;
+  correctBaseline?: boolean;
+}
+
+export interface SpectrumMatch {
+  spectrumId: number;
+  mineralId: number;
+  mineralName: string;
+  chemicalFormula: string | null;
+  spectraType: string;
+  sampleId: string | null;
+  score: number;
+  correlation: number;
+  coverage: number;
+  dataPoints: Array<[number, number]>;
+}
+
+export interface SpectrumSearchResponse {
+  query: Array<[number, number]>;
+  matches: SpectrumMatch[];
+  candidatesCompared: number;
+}
+
+/**
+ * Rank stored spectra by similarity to an unknown spectrum
+ * @param params Unknown spectrum text and search options
+ * @returns Processed query spectrum and ranked matches on the same axis
+ */
+export async function searchSimilarSpectra(params: SpectrumSearchParams): Promise<SpectrumSearchResponse> {
+  try {
+    const response = await fetch('/api/rruff/spectra/search', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(params)
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || `${response.status}: ${response.statusText}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error searching similar spectra:', error);
+    throw error;
+  }
+}
+
+export interface PeakSearchParams {
+  peaks: number[];
+  tolerance?: number;
+  spectraType?: string;
+  minMatches?: number;
+  limit?: number;
+}
+
+export interface PeakSearchMatch {
+  mineralId: number;
+  mineralName: string;
+  chemicalFormula: string | null;
+  spectrumId: number;
+  sampleId: string | null;
+  spectraType: string;
+  matchedPeaks: number;
+  observedPeaks: number;
+  libraryPeaks: number;
+  meanError: number;
+  score: number;
+  matches: Array<{ observed: number; library: number; intensity: number }>;
+}
+
+export interface PeakSearchResponse {
+  matches: PeakSearchMatch[];
+  observedPeaks: number;
+  tolerance: number;
+}
+
+/**
+ * Rank minerals by how many observed peak positions match their stored peaks
+ * @param params Observed peak positions and match tolerance
+ * @returns Minerals ranked by matched peak count
+ */
+export async function searchByPeaks(params: PeakSearchParams): Promise<PeakSearchResponse> {
+  try {
+    const response = await fetch('/api/rruff/peaks/search', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(params)
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || `${response.status}: ${response.statusText}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error searching by peaks:', error);
+    throw error;
+  }
+}
+
+export interface RruffSpectrumPeak {
+  id: number;
+  spectrumId: number;
+  mineralId: number;
+  position: number;
+  intensity: number;
+  width: number | null;
+  prominence: number | null;
+}
+
+/**
+ * Get the extracted peak list for a stored spectrum
+ * @param spectrumId RRUFF spectrum ID
+ * @returns Peaks ordered by position
+ */
+export async function getSpectrumPeaks(spectrumId: number): Promise<{ peaks: RruffSpectrumPeak[] }> {
+  try {
+    const response = await fetch(`/api/rruff/spectra/${spectrumId}/peaks`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json'
+      }
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || `${response.status}: ${response.statusText}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error(`Error getting peaks for spectrum #${spectrumId}:`, error);
+    throw error;
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Client for the theoretical powder XRD pattern endpoints
+ */
+
+export interface UnitCellInput {
+  a?: number | string | null;
+  b?: number | string | null;
+  c?: number | string | null;
+  alpha?: number | string | null;
+  beta?: number | string | null;
+  gamma?: number | string | null;
+}
+
+export interface XrdPatternOptions {
+  wavelength?: string | number; // Å, or an anode name such as CuKa1
+  twoThetaMin?: number;
+  twoThetaMax?: number;
+}
+
+export interface TheoreticalReflection {
+  h: number;
+  k: number;
+  l: number;
+  dSpacing: number;
+  twoTheta: number;
+  multiplicity: number;
+  intensity: number;
+}
+
+export interface TheoreticalPattern {
+  wavelength: number;
+  twoThetaMin: number;
+  twoThetaMax: number;
+  spaceGroup: string | null;
+  spaceGroupNumber: number | null;
+  crystalSystem: string | null;
+  cell: { a: number; b: number; c: number; alpha: number; beta: number; gamma: number };
+  reflections: TheoreticalReflection[];
+  absencesApplied: boolean;
+}
+
+export const XRD_WAVELENGTHS: Array<{ value: string; label: string }> = [
+  { value: 'CuKa', label: 'Cu Kα (1.5418 Å)' },
+  { value: 'CuKa1', label: 'Cu Kα1 (1.5406 Å)' },
+  { value: 'CoKa', label: 'Co Kα (1.7903 Å)' },
+  { value: 'FeKa1', label: 'Fe Kα1 (1.9360 Å)' },
+  { value: 'CrKa1', label: 'Cr Kα1 (2.2898 Å)' },
+  { value: 'MoKa', label: 'Mo Kα (0.7107 Å)' },
+  { value: 'AgKa1', label: 'Ag Kα1 (0.5594 Å)' }
+];
+
+async function handleResponse(response: Response): Promise<TheoreticalPattern> {
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || `${response.status}: ${response.statusText}`);
+  }
+
+  return await response.json();
+}
+
+/**
+ * Compute the theoretical pattern of a RRUFF mineral from its stored unit cell
+ * @param mineralId RRUFF mineral ID
+ * @param options Wavelength and 2θ range
+ * @returns Allowed reflections sorted by 2θ
+ */
+export async function getRruffXrdPattern(mineralId: number, options: XrdPatternOptions = {}): Promise<TheoreticalPattern> {
+  try {
+    const searchParams = new URLSearchParams();
+    if (options.wavelength) searchParams.append('wavelength', String(options.wavelength));
+    if (options.twoThetaMin !== undefined) searchParams.append('min', String(options.twoThetaMin));
+    if (options.twoThetaMax !== undefined) searchParams.append('max', String(options.twoThetaMax));
+
+    const response = await fetch(`/api/rruff/minerals/${mineralId}/xrd-pattern?${searchParams.toString()}`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json'
+      }
+    });
+
+    return await handleResponse(response);
+  } catch (error) {
+    console.error(`Error getting XRD pattern for mineral #${mineralId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Compute a theoretical pattern from explicit cell parameters
+ * @param cell Unit cell lengths (Å) and angles (°)
+ * @param spaceGroup Space group number or Hermann-Mauguin symbol
+ * @param options Wavelength and 2θ range
+ * @returns Allowed reflections sorted by 2θ
+ */
+export async function calculateXrdPattern(
+  cell: UnitCellInput,
+  spaceGroup?: string | number | null,
+  options: XrdPatternOptions = {}
+): Promise<TheoreticalPattern> {
+  try {
+    const response = await fetch('/api/xrd/pattern', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ cell, spaceGroup, ...options })
+    });
+
+    return await handleResponse(response);
+  } catch (error) {
+    console.error('Error calculating XRD pattern:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,325 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import Layout from "../components/layout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Download, Loader2 } from "lucide-react";
+import {
+  ApiSpecSnapshot,
+  ChangeKind,
+  EndpointChange,
+  SchemaFieldChange,
+  getApiChangelog,
+  getApiSpecDocumentUrl,
+  getApiSpecSnapshots
+} from "@/lib/api-changelog-service";
+
+// Select value for "the snapshot before the selected one"
+const PREVIOUS = "previous";
+
+const KIND_CLASSES: Record<ChangeKind, string> = {
+  added: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300",
+  removed: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300",
+  changed: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300"
+};
+
+const snapshotLabel = (snapshot: ApiSpecSnapshot) =>
+  `${snapshot.version} · ${snapshot.fetchedAt ? new Date(snapshot.fetchedAt).toLocaleDateString() : `#${snapshot.id}`}`;
+
+function KindBadge({ kind }: { kind: ChangeKind }) {
+  return <span className={`text-xs px-1.5 py-0.5 rounded ${KIND_CLASSES[kind]}`}>{kind}</span>;
+}
+
+function BreakingBadge() {
+  return <Badge variant="destructive" className="text-xs">breaking</Badge>;
+}
+
+function FieldChangesTable({ fields }: { fields: SchemaFieldChange[] }) {
+  return (
+    <div className="rounded border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Field</TableHead>
+            <TableHead>Change</TableHead>
+            <TableHead>Before</TableHead>
+            <TableHead>After</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {fields.map(field => (
+            <TableRow key={`${field.kind}-${field.path}`}>
+              <TableCell className="font-mono text-xs">{field.path || "(body)"}</TableCell>
+              <TableCell className="space-x-1">
+                <KindBadge kind={field.kind} />
+                {field.breaking && <BreakingBadge />}
+              </TableCell>
+              <TableCell className="font-mono text-xs">{field.before || "–"}</TableCell>
+              <TableCell className="font-mono text-xs">{field.after || "–"}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+function EndpointChangeDetails({ change }: { change: EndpointChange }) {
+  if (change.kind !== "changed") {
+    return (
+      <p className="text-sm text-muted-foreground">
+        {change.kind === "added" ? "New endpoint." : "This endpoint is no longer in the Mindat API; requests to it will fail."}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {change.details.length > 0 && (
+        <ul className="list-disc pl-5 text-sm">
+          {change.details.map(detail => <li key={detail}>{detail}</li>)}
+        </ul>
+      )}
+
+      {change.parameters.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium mb-2">Parameters</h4>
+          <div className="rounded border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Parameter</TableHead>
+                  <TableHead>In</TableHead>
+                  <TableHead>Change</TableHead>
+                  <TableHead>Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {change.parameters.map(parameter => (
+                  <TableRow key={`${parameter.in}-${parameter.name}`}>
+                    <TableCell className="font-mono text-xs">{parameter.name}</TableCell>
+                    <TableCell className="text-xs">{parameter.in}</TableCell>
+                    <TableCell className="space-x-1">
+                      <KindBadge kind={parameter.kind} />
+                      {parameter.breaking && <BreakingBadge />}
+                    </TableCell>
+                    <TableCell className="text-xs">{parameter.details.join("; ")}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+
+      {change.requestBody.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium mb-2">Request body</h4>
+          <FieldChangesTable fields={change.requestBody} />
+        </div>
+      )}
+
+      {change.responses.map(response => (
+        <div key={response.status}>
+          <h4 className="text-sm font-medium mb-2 flex items-center gap-2">
+            Response {response.status}
+            <KindBadge kind={response.kind} />
+            {response.breaking && <BreakingBadge />}
+          </h4>
+          {response.fields.length > 0 && <FieldChangesTable fields={response.fields} />}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function ApiChangelogPage() {
+  const [fromId, setFromId] = useState(PREVIOUS);
+  const [toId, setToId] = useState("");
+  const [breakingOnly, setBreakingOnly] = useState(false);
+
+  const { data: snapshots, isLoading: snapshotsLoading, error: snapshotsError } = useQuery({
+    queryKey: ["apiSpecSnapshots"],
+    queryFn: getApiSpecSnapshots
+  });
+
+  const selectedTo = toId || (snapshots && snapshots.length > 0 ? String(snapshots[0].id) : "");
+
+  const { data: changelog, isLoading, error } = useQuery({
+    queryKey: ["apiChangelog", fromId, selectedTo],
+    queryFn: () => getApiChangelog(fromId === PREVIOUS ? undefined : parseInt(fromId), parseInt(selectedTo)),
+    enabled: selectedTo !== ""
+  });
+
+  const loadError = snapshotsError || error;
+  const endpoints = changelog
+    ? changelog.endpoints.filter(change => !breakingOnly || change.breaking)
+    : [];
+
+  return (
+    <Layout>
+      <div className="container mx-auto py-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">What changed in the Mindat API</h1>
+          <p className="text-muted-foreground">
+            Every version of the Mindat swagger.json fetched by the explorer is kept as a snapshot. Compare two
+            snapshots to see the endpoints, parameters and response fields that were added, removed or changed.
+          </p>
+        </div>
+
+        {loadError && (
+          <Alert variant="destructive">
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>
+              {loadError instanceof Error ? loadError.message : "Failed to load the changelog"}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <Card className="lg:col-span-1">
+            <CardHeader>
+              <CardTitle>Versions</CardTitle>
+              <CardDescription>
+                {snapshots ? `${snapshots.length} snapshot${snapshots.length === 1 ? "" : "s"} recorded` : "Loading snapshots..."}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label>Compare</Label>
+                <Select value={fromId} onValueChange={setFromId} disabled={!snapshots || snapshots.length === 0}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={PREVIOUS}>Previous snapshot</SelectItem>
+                    {snapshots?.map(snapshot => (
+                      <SelectItem key={snapshot.id} value={String(snapshot.id)}>{snapshotLabel(snapshot)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>With</Label>
+                <Select value={selectedTo} onValueChange={setToId} disabled={!snapshots || snapshots.length === 0}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="No snapshots yet" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {snapshots?.map(snapshot => (
+                      <SelectItem key={snapshot.id} value={String(snapshot.id)}>{snapshotLabel(snapshot)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="breaking-only"
+                  checked={breakingOnly}
+                  onCheckedChange={checked => setBreakingOnly(checked === true)}
+                />
+                <Label htmlFor="breaking-only" className="font-normal">Breaking changes only</Label>
+              </div>
+
+              {snapshotsLoading ? (
+                <div className="flex items-center space-x-2 text-sm">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  <span>Loading snapshots...</span>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {snapshots?.map(snapshot => (
+                    <div key={snapshot.id} className="flex items-center justify-between rounded border p-2 text-sm">
+                      <div>
+                        <div className="font-medium">{snapshotLabel(snapshot)}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {snapshot.endpointCount} endpoints
+                          {snapshot.changes && snapshot.previousSnapshotId !== null && (
+                            <> · +{snapshot.changes.added} −{snapshot.changes.removed} ~{snapshot.changes.changed}</>
+                          )}
+                        </div>
+                      </div>
+                      <Button variant="ghost" size="icon" asChild>
+                        <a href={getApiSpecDocumentUrl(snapshot.id)} download title="Download swagger.json">
+                          <Download className="h-4 w-4" />
+                        </a>
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="lg:col-span-3">
+            <CardHeader>
+              <CardTitle>Changes</CardTitle>
+              <CardDescription>
+                {changelog
+                  ? changelog.from
+                    ? `From ${snapshotLabel(changelog.from)} to ${snapshotLabel(changelog.to)}`
+                    : `${snapshotLabel(changelog.to)} is the first recorded snapshot`
+                  : snapshots && snapshots.length === 0
+                    ? "No snapshots yet; one is recorded each time the Mindat documentation is fetched"
+                    : "Select two snapshots to compare"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="flex items-center justify-center py-10 space-x-2">
+                  <Loader2 className="h-5 w-5 animate-spin" />
+                  <span>Comparing API versions...</span>
+                </div>
+              ) : changelog && (
+                <>
+                  <div className="flex flex-wrap gap-2 mb-4">
+                    <Badge variant="outline">{changelog.summary.added} added</Badge>
+                    <Badge variant="outline">{changelog.summary.removed} removed</Badge>
+                    <Badge variant="outline">{changelog.summary.changed} changed</Badge>
+                    <Badge variant={changelog.summary.breaking > 0 ? "destructive" : "outline"}>
+                      {changelog.summary.breaking} breaking
+                    </Badge>
+                  </div>
+
+                  {endpoints.length === 0 ? (
+                    <p className="text-center py-10 text-muted-foreground">
+                      {breakingOnly ? "No breaking changes between these snapshots." : "No changes between these snapshots."}
+                    </p>
+                  ) : (
+                    <Accordion type="multiple" className="w-full">
+                      {endpoints.map(change => (
+                        <AccordionItem key={`${change.method} ${change.path}`} value={`${change.method} ${change.path}`}>
+                          <AccordionTrigger className="hover:no-underline">
+                            <div className="flex items-center gap-2 text-left">
+                              <Badge variant="secondary" className="font-mono text-xs">{change.method}</Badge>
+                              <span className="font-mono text-sm">{change.path}</span>
+                              <KindBadge kind={change.kind} />
+                              {change.breaking && <BreakingBadge />}
+                            </div>
+                          </AccordionTrigger>
+                          <AccordionContent>
+                            {change.summary && <p className="text-sm mb-3">{change.summary}</p>}
+                            <EndpointChangeDetails change={change} />
+                          </AccordionContent>
+                        </AccordionItem>
+                      ))}
+                    </Accordion>
+                  )}
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </Layout>
+  );
+}
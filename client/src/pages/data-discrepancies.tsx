@@ -0,0 +1,294 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import Layout from "../components/layout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Download, Loader2, Search } from "lucide-react";
+import {
+  DISCREPANCY_FIELDS,
+  DiscrepancyField,
+  DiscrepancyFilters,
+  downloadDiscrepancyCsv,
+  getDiscrepancyReport
+} from "@/lib/discrepancy-service";
+
+const PAGE_SIZE = 50;
+
+const FIELD_LABELS = Object.fromEntries(DISCREPANCY_FIELDS.map(field => [field.key, field.label])) as Record<DiscrepancyField, string>;
+
+const TOLERANCE_INPUTS = [
+  { key: "cellLengthTolerance", label: "Cell lengths (relative)", placeholder: "0.01" },
+  { key: "cellAngleTolerance", label: "Cell angles (°)", placeholder: "0.5" },
+  { key: "hardnessTolerance", label: "Hardness (Mohs)", placeholder: "0.5" },
+  { key: "densityTolerance", label: "Density (g/cm³)", placeholder: "0.05" }
+] as const;
+
+type ToleranceKey = typeof TOLERANCE_INPUTS[number]["key"];
+
+export default function DataDiscrepanciesPage() {
+  const [apiKey, setApiKey] = useState("");
+  const [fields, setFields] = useState<DiscrepancyField[]>(DISCREPANCY_FIELDS.map(field => field.key));
+  const [name, setName] = useState("");
+  const [pairedBy, setPairedBy] = useState("any");
+  const [tolerances, setTolerances] = useState<Record<ToleranceKey, string>>({
+    cellLengthTolerance: "",
+    cellAngleTolerance: "",
+    hardnessTolerance: "",
+    densityTolerance: ""
+  });
+  const [page, setPage] = useState(1);
+  const [submitted, setSubmitted] = useState<DiscrepancyFilters | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["discrepancyReport", submitted, page],
+    queryFn: () => getDiscrepancyReport(apiKey, submitted!, {
+      limit: PAGE_SIZE,
+      offset: (page - 1) * PAGE_SIZE
+    }),
+    enabled: submitted !== null && apiKey.trim() !== ""
+  });
+
+  const toggleField = (field: DiscrepancyField, checked: boolean) => {
+    setFields(prev => checked ? [...prev, field] : prev.filter(item => item !== field));
+  };
+
+  const currentFilters = (): DiscrepancyFilters => {
+    const filters: DiscrepancyFilters = {
+      fields,
+      name: name.trim() || undefined,
+      pairedBy: pairedBy === "any" ? undefined : pairedBy as DiscrepancyFilters["pairedBy"]
+    };
+    TOLERANCE_INPUTS.forEach(({ key }) => {
+      if (tolerances[key].trim() !== "") filters[key] = parseFloat(tolerances[key]);
+    });
+    return filters;
+  };
+
+  const handleSearch = () => {
+    setPage(1);
+    setSubmitted(currentFilters());
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      await downloadDiscrepancyCsv(apiKey, currentFilters());
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : "Failed to export discrepancies");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / PAGE_SIZE)) : 1;
+
+  return (
+    <Layout>
+      <div className="container mx-auto py-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Data Discrepancies</h1>
+          <p className="text-muted-foreground">
+            Synced Mindat minerals compared with the RRUFF record of the same species. Pairs come from
+            the Mindat/RRUFF links, or from the species name where a RRUFF mineral is not linked yet.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <Card className="lg:col-span-1">
+            <CardHeader>
+              <CardTitle>Filters</CardTitle>
+              <CardDescription>Requires a Minerals API key with admin permission</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="admin-api-key">Admin API key</Label>
+                <Input
+                  id="admin-api-key"
+                  type="password"
+                  value={apiKey}
+                  onChange={event => setApiKey(event.target.value)}
+                  placeholder="Bearer token"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Compare</Label>
+                {DISCREPANCY_FIELDS.map(field => (
+                  <div key={field.key} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`field-${field.key}`}
+                      checked={fields.includes(field.key)}
+                      onCheckedChange={checked => toggleField(field.key, checked === true)}
+                    />
+                    <Label htmlFor={`field-${field.key}`} className="font-normal flex-1">{field.label}</Label>
+                    {data && (field.key === 'spaceGroup' && data.pairsCompared > 0 && data.pairsWithSpaceGroup === 0 ? (
+                      <span className="text-xs text-muted-foreground" title="No Mindat space groups synced yet; run a forced full sync">
+                        not synced
+                      </span>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">{data.countsByField[field.key]}</span>
+                    ))}
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="discrepancy-name">Mineral name</Label>
+                <Input
+                  id="discrepancy-name"
+                  value={name}
+                  onChange={event => setName(event.target.value)}
+                  placeholder="e.g. quartz"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Paired by</Label>
+                <Select value={pairedBy} onValueChange={setPairedBy}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Link or name</SelectItem>
+                    <SelectItem value="link">Species link</SelectItem>
+                    <SelectItem value="name">Name only</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Tolerances</Label>
+                {TOLERANCE_INPUTS.map(input => (
+                  <div key={input.key} className="grid grid-cols-2 items-center gap-2">
+                    <span className="text-xs text-muted-foreground">{input.label}</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={tolerances[input.key]}
+                      onChange={event => setTolerances(prev => ({ ...prev, [input.key]: event.target.value }))}
+                      placeholder={input.placeholder}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex gap-2">
+                <Button className="flex-1" onClick={handleSearch} disabled={!apiKey.trim() || fields.length === 0}>
+                  <Search className="mr-2 h-4 w-4" />
+                  Compare
+                </Button>
+                <Button variant="outline" onClick={handleExport} disabled={!apiKey.trim() || fields.length === 0 || isExporting}>
+                  {isExporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                  <span className="ml-2">CSV</span>
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="lg:col-span-3">
+            <CardHeader>
+              <CardTitle>Discrepancies</CardTitle>
+              <CardDescription>
+                {data
+                  ? `${data.total} of ${data.pairsCompared} compared pairs disagree`
+                  : "Enter an admin API key and compare to build the report"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {(error || exportError) && (
+                <Alert variant="destructive" className="mb-4">
+                  <AlertTitle>Error</AlertTitle>
+                  <AlertDescription>
+                    {exportError || (error instanceof Error ? error.message : "Failed to build the report")}
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {isLoading ? (
+                <div className="flex items-center justify-center py-10 space-x-2">
+                  <Loader2 className="h-5 w-5 animate-spin" />
+                  <span>Comparing Mindat and RRUFF data...</span>
+                </div>
+              ) : data && (
+                <>
+                  <div className="rounded border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Mindat</TableHead>
+                          <TableHead>RRUFF</TableHead>
+                          <TableHead>Field</TableHead>
+                          <TableHead>Mindat value</TableHead>
+                          <TableHead>RRUFF value</TableHead>
+                          <TableHead>Note</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {data.rows.length === 0 ? (
+                          <TableRow>
+                            <TableCell colSpan={6} className="text-center py-10">
+                              No discrepancies for these filters.
+                            </TableCell>
+                          </TableRow>
+                        ) : data.rows.flatMap(row => row.discrepancies.map((discrepancy, index) => (
+                          <TableRow key={`${row.mineralId}-${row.rruffMineralId}-${discrepancy.field}`}>
+                            {index === 0 && (
+                              <>
+                                <TableCell rowSpan={row.discrepancies.length} className="align-top font-medium">
+                                  <a
+                                    href={`https://www.mindat.org/min-${row.mineralId}.html`}
+                                    target="_blank"
+                                    rel="noreferrer"
+                                    className="hover:underline"
+                                  >
+                                    {row.mineralName}
+                                  </a>
+                                </TableCell>
+                                <TableCell rowSpan={row.discrepancies.length} className="align-top">
+                                  <div>{row.rruffName}</div>
+                                  <div className="text-xs text-muted-foreground">{row.rruffId || `#${row.rruffMineralId}`}</div>
+                                  <Badge variant="outline" className="mt-1">{row.pairedBy === "link" ? "linked" : "by name"}</Badge>
+                                </TableCell>
+                              </>
+                            )}
+                            <TableCell className="text-xs">{FIELD_LABELS[discrepancy.field]}</TableCell>
+                            <TableCell className="font-mono text-xs">{discrepancy.mindat}</TableCell>
+                            <TableCell className="font-mono text-xs">{discrepancy.rruff}</TableCell>
+                            <TableCell className="text-xs text-muted-foreground">{discrepancy.detail || "–"}</TableCell>
+                          </TableRow>
+                        )))}
+                      </TableBody>
+                    </Table>
+                  </div>
+
+                  {totalPages > 1 && (
+                    <div className="flex items-center justify-between pt-4">
+                      <Button variant="outline" disabled={page <= 1} onClick={() => setPage(prev => prev - 1)}>
+                        Previous
+                      </Button>
+                      <span className="text-sm text-muted-foreground">Page {page} of {totalPages}</span>
+                      <Button variant="outline" disabled={page >= totalPages} onClick={() => setPage(prev => prev + 1)}>
+                        Next
+                      </Button>
+                    </div>
+                  )}
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,394 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import Layout from "../components/layout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Loader2, Search, RotateCcw } from "lucide-react";
+import {
+  PropertySearchMineral,
+  PropertySearchParams,
+  RANGE_FACETS,
+  getPropertySearchExportUrl,
+  searchMineralsByProperties
+} from "@/lib/mineral-property-service";
+import { downloadKeyedExport } from "@/lib/result-export";
+import { ExportMenu } from "@/components/export-menu";
+
+const LUSTRE_OPTIONS = [
+  "Adamantine", "Sub-Adamantine", "Vitreous", "Sub-Vitreous", "Resinous", "Waxy",
+  "Greasy", "Silky", "Pearly", "Dull", "Earthy", "Metallic", "Sub-Metallic"
+];
+
+const CRYSTAL_SYSTEMS = [
+  "Isometric", "Tetragonal", "Hexagonal", "Trigonal", "Orthorhombic", "Monoclinic", "Triclinic", "Amorphous"
+];
+
+const PAGE_SIZE = 50;
+
+type RangeInputs = Record<string, { min: string; max: string }>;
+
+function formatRange(min: number | null, max: number | null, digits: number): string {
+  if (min === null && max === null) return "–";
+  if (min === null || max === null || min === max) return (min ?? max)!.toFixed(digits);
+  return `${min.toFixed(digits)}–${max.toFixed(digits)}`;
+}
+
+// Refractive indices that apply to the mineral's optical class
+function formatIndices(mineral: PropertySearchMineral): string {
+  const indices = [
+    ["nα", mineral.nAlphaMin, mineral.nAlphaMax],
+    ["nβ", mineral.nBetaMin, mineral.nBetaMax],
+    ["nγ", mineral.nGammaMin, mineral.nGammaMax],
+    ["nω", mineral.nOmegaMin, mineral.nOmegaMax],
+    ["nε", mineral.nEpsilonMin, mineral.nEpsilonMax],
+    ["n", mineral.nMin, mineral.nMax]
+  ] as const;
+
+  const parts = indices
+    .filter(([, min, max]) => min !== null || max !== null)
+    .map(([label, min, max]) => `${label} ${formatRange(min, max, 3)}`);
+
+  return parts.length > 0 ? parts.join(", ") : "–";
+}
+
+function toSearchParams(
+  ranges: RangeInputs,
+  lustre: string[],
+  text: { streak: string; colour: string; crystalSystem: string; opticalType: string; opticalSign: string }
+): PropertySearchParams {
+  const parsedRanges: PropertySearchParams["ranges"] = {};
+
+  Object.entries(ranges).forEach(([key, range]) => {
+    const min = range.min.trim() ? parseFloat(range.min) : undefined;
+    const max = range.max.trim() ? parseFloat(range.max) : undefined;
+    if ((min !== undefined && !isNaN(min)) || (max !== undefined && !isNaN(max))) {
+      parsedRanges[key] = {
+        min: min !== undefined && !isNaN(min) ? min : undefined,
+        max: max !== undefined && !isNaN(max) ? max : undefined
+      };
+    }
+  });
+
+  return {
+    ranges: parsedRanges,
+    lustre,
+    streak: text.streak.trim() || undefined,
+    colour: text.colour.trim() || undefined,
+    crystalSystem: text.crystalSystem !== "any" ? text.crystalSystem : undefined,
+    opticalType: text.opticalType !== "any" ? text.opticalType : undefined,
+    opticalSign: text.opticalSign !== "any" ? text.opticalSign : undefined
+  };
+}
+
+export default function DeterminativePage() {
+  const emptyRanges = (): RangeInputs =>
+    Object.fromEntries(RANGE_FACETS.map(facet => [facet.key, { min: "", max: "" }]));
+
+  const [ranges, setRanges] = useState<RangeInputs>(emptyRanges);
+  const [lustre, setLustre] = useState<string[]>([]);
+  const [streak, setStreak] = useState("");
+  const [colour, setColour] = useState("");
+  const [crystalSystem, setCrystalSystem] = useState("any");
+  const [opticalType, setOpticalType] = useState("any");
+  const [opticalSign, setOpticalSign] = useState("any");
+  const [page, setPage] = useState(1);
+  const [submitted, setSubmitted] = useState<PropertySearchParams | null>(null);
+  const [apiKey, setApiKey] = useState("");
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["mineralPropertySearch", submitted, page],
+    queryFn: () => searchMineralsByProperties({
+      ...submitted!,
+      limit: PAGE_SIZE,
+      offset: (page - 1) * PAGE_SIZE
+    }),
+    enabled: submitted !== null
+  });
+
+  const updateRange = (key: string, bound: "min" | "max", value: string) => {
+    setRanges(prev => ({ ...prev, [key]: { ...prev[key], [bound]: value } }));
+  };
+
+  const toggleLustre = (value: string, checked: boolean) => {
+    setLustre(prev => checked ? [...prev, value] : prev.filter(item => item !== value));
+  };
+
+  const handleSearch = () => {
+    setPage(1);
+    setSubmitted(toSearchParams(ranges, lustre, { streak, colour, crystalSystem, opticalType, opticalSign }));
+  };
+
+  const handleExport = async (url: string) => {
+    setExportError(null);
+    try {
+      await downloadKeyedExport(url, apiKey);
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : "Failed to export minerals");
+    }
+  };
+
+  const handleReset = () => {
+    setRanges(emptyRanges());
+    setLustre([]);
+    setStreak("");
+    setColour("");
+    setCrystalSystem("any");
+    setOpticalType("any");
+    setOpticalSign("any");
+    setPage(1);
+    setSubmitted(null);
+  };
+
+  const lustreCounts = new Map((data?.facets.lustre || []).map(facet => [facet.value.toLowerCase(), facet.count]));
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / PAGE_SIZE)) : 1;
+
+  return (
+    <Layout>
+      <div className="container mx-auto py-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Determinative Search</h1>
+          <p className="text-muted-foreground">
+            Narrow down an unknown mineral by hardness, density, optical data and appearance.
+            A mineral matches a range when any part of its reported range falls inside it.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card className="lg:col-span-1">
+            <CardHeader>
+              <CardTitle>Properties</CardTitle>
+              <CardDescription>Leave a bound empty to keep it open</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {RANGE_FACETS.map(facet => (
+                <div key={facet.key} className="space-y-1">
+                  <Label>{facet.label}{facet.unit ? ` (${facet.unit})` : ""}</Label>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      step={facet.step}
+                      placeholder="min"
+                      value={ranges[facet.key].min}
+                      onChange={(e) => updateRange(facet.key, "min", e.target.value)}
+                    />
+                    <span className="text-muted-foreground">–</span>
+                    <Input
+                      type="number"
+                      step={facet.step}
+                      placeholder="max"
+                      value={ranges[facet.key].max}
+                      onChange={(e) => updateRange(facet.key, "max", e.target.value)}
+                    />
+                  </div>
+                </div>
+              ))}
+
+              <div className="space-y-2">
+                <Label>Lustre</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  {LUSTRE_OPTIONS.map(option => (
+                    <label key={option} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={lustre.includes(option)}
+                        onCheckedChange={(checked) => toggleLustre(option, checked === true)}
+                      />
+                      <span>{option}</span>
+                      {lustreCounts.has(option.toLowerCase()) && (
+                        <span className="text-xs text-muted-foreground">({lustreCounts.get(option.toLowerCase())})</span>
+                      )}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="streak">Streak</Label>
+                <Input id="streak" placeholder="e.g. white" value={streak} onChange={(e) => setStreak(e.target.value)} />
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="colour">Colour</Label>
+                <Input id="colour" placeholder="e.g. green" value={colour} onChange={(e) => setColour(e.target.value)} />
+              </div>
+
+              <div className="space-y-1">
+                <Label>Crystal system</Label>
+                <Select value={crystalSystem} onValueChange={setCrystalSystem}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Any" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any</SelectItem>
+                    {CRYSTAL_SYSTEMS.map(system => (
+                      <SelectItem key={system} value={system}>{system}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label>Optical type</Label>
+                  <Select value={opticalType} onValueChange={setOpticalType}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Any" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="any">Any</SelectItem>
+                      <SelectItem value="Isotropic">Isotropic</SelectItem>
+                      <SelectItem value="Uniaxial">Uniaxial</SelectItem>
+                      <SelectItem value="Biaxial">Biaxial</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Optical sign</Label>
+                  <Select value={opticalSign} onValueChange={setOpticalSign}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Any" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="any">Any</SelectItem>
+                      <SelectItem value="+">(+)</SelectItem>
+                      <SelectItem value="-">(−)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="export-api-key">Minerals API key (for export)</Label>
+                <Input
+                  id="export-api-key"
+                  type="password"
+                  value={apiKey}
+                  onChange={event => setApiKey(event.target.value)}
+                  placeholder="Bearer token"
+                />
+              </div>
+
+              <div className="flex gap-2 pt-2">
+                <Button className="flex-1" onClick={handleSearch}>
+                  <Search className="h-4 w-4 mr-2" />
+                  Search
+                </Button>
+                <Button variant="outline" onClick={handleReset}>
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Reset
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1.5">
+                  <CardTitle>Matching Minerals</CardTitle>
+                  <CardDescription>
+                    {data
+                      ? `${data.total} minerals match`
+                      : "Set one or more properties and search"}
+                  </CardDescription>
+                </div>
+                {submitted && (
+                  <ExportMenu
+                    getUrl={format => getPropertySearchExportUrl(submitted, format)}
+                    download={handleExport}
+                    disabled={!data || data.total === 0 || !apiKey.trim()}
+                  />
+                )}
+              </div>
+              {data && data.facets.crystalSystem.length > 0 && (
+                <div className="flex flex-wrap gap-1 pt-2">
+                  {data.facets.crystalSystem.map(facet => (
+                    <span key={facet.value} className="px-2 py-1 bg-secondary text-secondary-foreground rounded-md text-xs">
+                      {facet.value} ({facet.count})
+                    </span>
+                  ))}
+                </div>
+              )}
+            </CardHeader>
+            <CardContent>
+              {(error || exportError) && (
+                <Alert variant="destructive" className="mb-4">
+                  <AlertTitle>Error</AlertTitle>
+                  <AlertDescription>
+                    {exportError || (error instanceof Error ? error.message : "Failed to search minerals")}
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {isLoading ? (
+                <div className="flex items-center justify-center py-10 space-x-2">
+                  <Loader2 className="h-5 w-5 animate-spin" />
+                  <span>Searching minerals...</span>
+                </div>
+              ) : data && (
+                <>
+                  <div className="rounded border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Mineral</TableHead>
+                          <TableHead>Formula</TableHead>
+                          <TableHead className="text-right">H</TableHead>
+                          <TableHead className="text-right">D</TableHead>
+                          <TableHead>Refractive indices</TableHead>
+                          <TableHead className="text-right">δ</TableHead>
+                          <TableHead>Lustre</TableHead>
+                          <TableHead>Streak</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {data.minerals.length === 0 ? (
+                          <TableRow>
+                            <TableCell colSpan={8} className="text-center py-10">
+                              No minerals match these properties.
+                            </TableCell>
+                          </TableRow>
+                        ) : data.minerals.map(mineral => (
+                          <TableRow key={mineral.id}>
+                            <TableCell className="font-medium">{mineral.name}</TableCell>
+                            <TableCell dangerouslySetInnerHTML={{ __html: mineral.mindatFormula || mineral.imaFormula || "–" }} />
+                            <TableCell className="text-right font-mono">{formatRange(mineral.hmin, mineral.hmax, 1)}</TableCell>
+                            <TableCell className="text-right font-mono">{formatRange(mineral.densityMin, mineral.densityMax, 2)}</TableCell>
+                            <TableCell className="font-mono text-xs">{formatIndices(mineral)}</TableCell>
+                            <TableCell className="text-right font-mono">
+                              {mineral.birefringence !== null ? mineral.birefringence.toFixed(3) : "–"}
+                            </TableCell>
+                            <TableCell className="text-xs">{mineral.lustretype || "–"}</TableCell>
+                            <TableCell className="text-xs">{mineral.streak || "–"}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+
+                  {totalPages > 1 && (
+                    <div className="flex items-center justify-between pt-4">
+                      <Button variant="outline" disabled={page <= 1} onClick={() => setPage(prev => prev - 1)}>
+                        Previous
+                      </Button>
+                      <span className="text-sm text-muted-foreground">Page {page} of {totalPages}</span>
+                      <Button variant="outline" disabled={page >= totalPages} onClick={() => setPage(prev => prev + 1)}>
+                        Next
+                      </Button>
+                    </div>
+                  )}
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,320 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import Layout from "../components/layout";
+import TileMap, { MapView } from "@/components/map/tile-map";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Loader2, Search, MapPin, Crosshair } from "lucide-react";
+import {
+  LocalityFilterParams,
+  MapBounds,
+  getMapTileInfo,
+  searchLocalitiesInBounds,
+  searchLocalitiesNearPoint
+} from "@/lib/locality-map-service";
+import { getLocalityCoordinates } from "@/lib/mindat-service";
+
+type SearchMode = "area" | "radius";
+
+type SubmittedSearch =
+  | { mode: "area"; bounds: MapBounds; filters: LocalityFilterParams }
+  | { mode: "radius"; latitude: number; longitude: number; radiusKm: number; filters: LocalityFilterParams };
+
+// Zoom that roughly fits a radius search in the map
+function zoomForRadius(radiusKm: number): number {
+  return Math.max(1, Math.min(14, Math.round(Math.log2(20000 / radiusKm))));
+}
+
+export default function LocalityMapPage() {
+  const [view, setView] = useState<MapView>({ latitude: 20, longitude: 0, zoom: 2 });
+  const [bounds, setBounds] = useState<MapBounds | null>(null);
+  const [mode, setMode] = useState<SearchMode>("area");
+  const [latitude, setLatitude] = useState("");
+  const [longitude, setLongitude] = useState("");
+  const [radiusKm, setRadiusKm] = useState("50");
+  const [place, setPlace] = useState("");
+  const [placeError, setPlaceError] = useState<string | null>(null);
+  const [lookingUpPlace, setLookingUpPlace] = useState(false);
+  const [elements, setElements] = useState("");
+  const [mineral, setMineral] = useState("");
+  const [country, setCountry] = useState("");
+  const [typeOnly, setTypeOnly] = useState(false);
+  const [submitted, setSubmitted] = useState<SubmittedSearch | null>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const { data: tileInfo } = useQuery({
+    queryKey: ["mapTileInfo"],
+    queryFn: getMapTileInfo,
+    staleTime: Infinity
+  });
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["localityMapSearch", submitted],
+    queryFn: () => submitted!.mode === "area"
+      ? searchLocalitiesInBounds(submitted!.bounds, submitted!.filters)
+      : searchLocalitiesNearPoint(submitted!.latitude, submitted!.longitude, submitted!.radiusKm, submitted!.filters),
+    enabled: submitted !== null
+  });
+
+  const localities = data?.localities || [];
+  const selected = localities.find(locality => locality.id === selectedId) || null;
+  const radiusCenter = latitude.trim() && longitude.trim()
+    ? { latitude: parseFloat(latitude), longitude: parseFloat(longitude) }
+    : null;
+  const radiusValid = radiusCenter !== null
+    && Number.isFinite(radiusCenter.latitude)
+    && Number.isFinite(radiusCenter.longitude)
+    && parseFloat(radiusKm) > 0;
+
+  const setRadiusCenter = (lat: number, lon: number) => {
+    setLatitude(lat.toFixed(4));
+    setLongitude(lon.toFixed(4));
+  };
+
+  const handlePlaceLookup = async () => {
+    if (!place.trim()) return;
+
+    setLookingUpPlace(true);
+    setPlaceError(null);
+    try {
+      const coordinates = await getLocalityCoordinates(place.trim());
+      if (!coordinates) {
+        setPlaceError(`No coordinates found for "${place.trim()}"`);
+        return;
+      }
+      setRadiusCenter(coordinates.latitude, coordinates.longitude);
+      setView({ latitude: coordinates.latitude, longitude: coordinates.longitude, zoom: zoomForRadius(parseFloat(radiusKm) || 50) });
+    } catch (err: any) {
+      setPlaceError(err.message || "Failed to look up locality");
+    } finally {
+      setLookingUpPlace(false);
+    }
+  };
+
+  const handleSearch = () => {
+    const filters: LocalityFilterParams = {
+      elements: elements.trim() || undefined,
+      mineral: mineral.trim() || undefined,
+      country: country.trim() || undefined,
+      typeOnly
+    };
+
+    setSelectedId(null);
+    if (mode === "area") {
+      if (bounds) setSubmitted({ mode, bounds, filters });
+      return;
+    }
+
+    if (!radiusValid) return;
+    const radius = parseFloat(radiusKm);
+    setSubmitted({ mode, latitude: radiusCenter!.latitude, longitude: radiusCenter!.longitude, radiusKm: radius, filters });
+    setView({ latitude: radiusCenter!.latitude, longitude: radiusCenter!.longitude, zoom: zoomForRadius(radius) });
+  };
+
+  const selectLocality = (id: number) => {
+    setSelectedId(id);
+    const locality = localities.find(item => item.id === id);
+    if (locality) {
+      setView(prev => ({ ...prev, latitude: locality.latitude, longitude: locality.longitude }));
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="container mx-auto py-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Locality Map</h1>
+          <p className="text-muted-foreground">
+            Plot synced localities and type localities, within the visible map area or a radius of a point.
+            Filter by the elements recorded at a locality, a mineral or a country.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <Card className="lg:col-span-1">
+            <CardHeader>
+              <CardTitle>Search</CardTitle>
+              <CardDescription>Click the map to set the radius center</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Tabs value={mode} onValueChange={(value) => setMode(value as SearchMode)}>
+                <TabsList className="grid grid-cols-2 w-full">
+                  <TabsTrigger value="area">Map area</TabsTrigger>
+                  <TabsTrigger value="radius">Radius</TabsTrigger>
+                </TabsList>
+              </Tabs>
+
+              {mode === "radius" && (
+                <div className="space-y-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="place">Locality name</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        id="place"
+                        placeholder="e.g. Tsumeb"
+                        value={place}
+                        onChange={(e) => setPlace(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === "Enter") handlePlaceLookup(); }}
+                      />
+                      <Button variant="outline" size="icon" onClick={handlePlaceLookup} disabled={lookingUpPlace} aria-label="Look up coordinates">
+                        {lookingUpPlace ? <Loader2 className="h-4 w-4 animate-spin" /> : <Crosshair className="h-4 w-4" />}
+                      </Button>
+                    </div>
+                    {placeError && <p className="text-xs text-destructive">{placeError}</p>}
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-1">
+                      <Label htmlFor="lat">Latitude</Label>
+                      <Input id="lat" type="number" step="0.0001" value={latitude} onChange={(e) => setLatitude(e.target.value)} />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="lon">Longitude</Label>
+                      <Input id="lon" type="number" step="0.0001" value={longitude} onChange={(e) => setLongitude(e.target.value)} />
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="radius">Radius (km)</Label>
+                    <Input id="radius" type="number" min="1" max="2000" value={radiusKm} onChange={(e) => setRadiusKm(e.target.value)} />
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-1">
+                <Label htmlFor="elements">Elements</Label>
+                <Input id="elements" placeholder="e.g. Te or Au,Te" value={elements} onChange={(e) => setElements(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="mineral">Mineral</Label>
+                <Input id="mineral" placeholder="e.g. Calaverite" value={mineral} onChange={(e) => setMineral(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="country">Country</Label>
+                <Input id="country" placeholder="e.g. Canada" value={country} onChange={(e) => setCountry(e.target.value)} />
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox checked={typeOnly} onCheckedChange={(checked) => setTypeOnly(checked === true)} />
+                <span>Type localities only{mineral.trim() ? ` of ${mineral.trim()}` : ""}</span>
+              </label>
+
+              <Button
+                className="w-full"
+                onClick={handleSearch}
+                disabled={mode === "area" ? !bounds : !radiusValid}
+              >
+                <Search className="h-4 w-4 mr-2" />
+                {mode === "area" ? "Search this area" : "Search radius"}
+              </Button>
+            </CardContent>
+          </Card>
+
+          <div className="lg:col-span-3 space-y-4">
+            <TileMap
+              view={view}
+              onViewChange={setView}
+              onBoundsChange={setBounds}
+              tileInfo={tileInfo}
+              markers={localities.map(locality => ({
+                id: locality.id,
+                latitude: locality.latitude,
+                longitude: locality.longitude,
+                label: locality.txt,
+                highlighted: locality.hasTypeLocality
+              }))}
+              selectedId={selectedId}
+              onMarkerClick={setSelectedId}
+              onMapClick={mode === "radius" ? setRadiusCenter : undefined}
+              circle={mode === "radius" && radiusValid
+                ? { latitude: radiusCenter!.latitude, longitude: radiusCenter!.longitude, radiusKm: parseFloat(radiusKm) }
+                : null}
+            />
+
+            <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+              <span className="flex items-center gap-1"><span className="inline-block h-3 w-3 rounded-full bg-blue-600" /> Locality</span>
+              <span className="flex items-center gap-1"><span className="inline-block h-3 w-3 rounded-full bg-amber-500" /> Type locality</span>
+              {data && (
+                <span>
+                  Showing {localities.length} of {data.total} localities
+                  {data.total > localities.length ? " (zoom in or add filters to see the rest)" : ""}
+                </span>
+              )}
+            </div>
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertTitle>Search failed</AlertTitle>
+                <AlertDescription>{(error as Error).message}</AlertDescription>
+              </Alert>
+            )}
+
+            {selected && (
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <MapPin className="h-4 w-4" />
+                    {selected.name}
+                    {selected.hasTypeLocality && <Badge variant="secondary">Type locality</Badge>}
+                  </CardTitle>
+                  <CardDescription>{selected.txt}</CardDescription>
+                </CardHeader>
+                <CardContent className="text-sm space-y-1">
+                  <div>{selected.latitude.toFixed(4)}, {selected.longitude.toFixed(4)}
+                    {selected.distanceKm !== undefined && ` · ${selected.distanceKm.toFixed(1)} km away`}
+                  </div>
+                  {selected.elements.length > 0 && (
+                    <div className="text-muted-foreground">Elements: {selected.elements.join(", ")}</div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg">Results</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {isLoading ? (
+                  <div className="flex items-center gap-2 text-muted-foreground">
+                    <Loader2 className="h-4 w-4 animate-spin" /> Searching localities...
+                  </div>
+                ) : localities.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    {submitted ? "No synced localities match this search." : "Pan and zoom the map, then search."}
+                  </p>
+                ) : (
+                  <ScrollArea className="h-72">
+                    <ul className="divide-y">
+                      {localities.map(locality => (
+                        <li key={locality.id}>
+                          <button
+                            className={`w-full text-left py-2 px-1 hover:bg-muted rounded ${locality.id === selectedId ? "bg-muted" : ""}`}
+                            onClick={() => selectLocality(locality.id)}
+                          >
+                            <div className="flex items-center gap-2">
+                              <span className="font-medium">{locality.name}</span>
+                              {locality.hasTypeLocality && <Badge variant="outline" className="text-amber-600 border-amber-500">TL</Badge>}
+                              {locality.distanceKm !== undefined && (
+                                <span className="ml-auto text-xs text-muted-foreground">{locality.distanceKm.toFixed(1)} km</span>
+                              )}
+                            </div>
+                            <div className="text-xs text-muted-foreground truncate">{locality.txt}</div>
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </ScrollArea>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import Layout from "../components/layout";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Input } from "@/components/ui/input";
@@ -8,23 +8,44 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Label } from "@/components/ui/label";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
-import { Search, Database, Filter, ExternalLink, AlertCircle, Loader2, Clock } from "lucide-react";
+import { Search, Database, Filter, ExternalLink, AlertCircle, Loader2, Clock, Pin, X, Download } from "lucide-react";
 import { Progress } from "@/components/ui/progress";
+import SpectrumSearch from "@/components/rruff/spectrum-search";
+import PeakSearch from "@/components/rruff/peak-search";
+import SpectrumViewer, { ViewerSpectrum } from "@/components/rruff/spectrum-viewer";
+import XrdStickPattern from "@/components/xrd-stick-pattern";
+import { LinkedMindatData } from "@/components/linked-species";
+import { ExportMenu } from "@/components/export-menu";
 import { 
   searchRruffMinerals, 
   searchRruffByKeyword, 
+  getRruffMineralsExportUrl,
+  getRruffMineralCifUrl,
   getRruffMineralById, 
   getImportProgress,
   RruffMineral, 
+  RruffSpectra,
   ImportProgress 
 } from "../lib/rruff-service";
 
+function toViewerSpectrum(mineral: RruffMineral, spectrum: RruffSpectra): ViewerSpectrum {
+  return {
+    id: spectrum.id,
+    label: `${mineral.mineralName} ${spectrum.sampleId || `#${spectrum.id}`}`,
+    spectraType: spectrum.spectraType,
+    wavelength: spectrum.wavelength,
+    dataPoints: spectrum.dataPoints || []
+  };
+}
+
 export default function RruffPage() {
   const [searchTerm, setSearchTerm] = useState("");
   const [crystalSystem, setCrystalSystem] = useState("");
   const [elements, setElements] = useState("");
   const [searchResults, setSearchResults] = useState<RruffMineral[]>([]);
   const [selectedMineral, setSelectedMineral] = useState<RruffMineral | null>(null);
+  const [selectedSpectra, setSelectedSpectra] = useState<RruffSpectra[]>([]);
+  const [comparisonSpectra, setComparisonSpectra] = useState<ViewerSpectrum[]>([]);
   const [loading, setLoading] = useState(false);
   const [noResults, setNoResults] = useState(false);
   const [importProgress, setImportProgress] = useState<ImportProgress | null>(null);
@@ -77,6 +98,7 @@ export default function RruffPage() {
       console.log("Search results:", result);
       setSearchResults(result.minerals || []);
       setSelectedMineral(null);
+      setSelectedSpectra([]);
       
       // Set the no results state based on search results
       setNoResults(result.minerals.length === 0);
@@ -102,6 +124,7 @@ export default function RruffPage() {
       console.log("Keyword search results:", result);
       setSearchResults(result.minerals || []);
       setSelectedMineral(null);
+      setSelectedSpectra([]);
     } catch (error) {
       console.error("Keyword search error:", error);
       setSearchResults([]);
@@ -115,6 +138,7 @@ export default function RruffPage() {
     try {
       const result = await getRruffMineralById(mineralId);
       setSelectedMineral(result.mineral);
+      setSelectedSpectra(result.spectra || []);
     } catch (error) {
       console.error("Error fetching mineral details:", error);
     } finally {
@@ -122,6 +146,28 @@ export default function RruffPage() {
     }
   };
 
+  // Spectra of the selected mineral plotted on top of any pinned spectra from other minerals
+  const viewerSpectra = useMemo(() => {
+    const current = selectedMineral
+      ? selectedSpectra
+          .filter(spectrum => spectrum.dataPoints && spectrum.dataPoints.length > 0)
+          .map(spectrum => toViewerSpectrum(selectedMineral, spectrum))
+      : [];
+    const currentIds = new Set(current.map(spectrum => spectrum.id));
+    return [...comparisonSpectra.filter(spectrum => !currentIds.has(spectrum.id)), ...current];
+  }, [selectedMineral, selectedSpectra, comparisonSpectra]);
+
+  const pinSelectedSpectra = () => {
+    if (!selectedMineral) return;
+    const pinned = selectedSpectra
+      .filter(spectrum => spectrum.dataPoints && spectrum.dataPoints.length > 0)
+      .map(spectrum => toViewerSpectrum(selectedMineral, spectrum));
+    setComparisonSpectra(prev => [
+      ...prev.filter(existing => !pinned.some(spectrum => spectrum.id === existing.id)),
+      ...pinned
+    ]);
+  };
+
   return (
     <Layout>
       <div className="container py-6">
@@ -176,8 +222,10 @@ export default function RruffPage() {
         )}
         
         <Tabs defaultValue="search">
-          <TabsList className="grid w-full grid-cols-1">
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="search">Search Minerals</TabsTrigger>
+            <TabsTrigger value="spectrum-match">Spectrum Match</TabsTrigger>
+            <TabsTrigger value="peak-search">Peak Search</TabsTrigger>
           </TabsList>
           
           <TabsContent value="search" className="space-y-4">
@@ -241,7 +289,15 @@ export default function RruffPage() {
                   </div>
                 </div>
                 
-                <div className="flex justify-end">
+                <div className="flex justify-end gap-2">
+                  <ExportMenu
+                    getUrl={format => getRruffMineralsExportUrl({
+                      name: searchTerm || undefined,
+                      crystalSystem: crystalSystem !== "any" ? crystalSystem : undefined,
+                      elements: elements || undefined
+                    }, format)}
+                    disabled={loading || !searchTerm && !elements && (!crystalSystem || crystalSystem === "any")}
+                  />
                   <Button 
                     className="w-full md:w-1/3" 
                     onClick={handleSearch}
@@ -382,6 +438,14 @@ export default function RruffPage() {
                           ) : (
                             <p className="text-muted-foreground">No unit cell data available</p>
                           )}
+                          {selectedMineral.unitCell?.a && selectedMineral.spaceGroup && (
+                            <Button variant="outline" size="sm" className="mt-3" asChild>
+                              <a href={getRruffMineralCifUrl(selectedMineral.id)} download>
+                                <Download className="h-4 w-4 mr-2" />
+                                Download CIF
+                              </a>
+                            </Button>
+                          )}
                         </div>
                         
                         <Separator />
@@ -389,15 +453,40 @@ export default function RruffPage() {
                         <div>
                           <h4 className="font-medium mb-2">Elements</h4>
                           {selectedMineral.elementComposition && typeof selectedMineral.elementComposition === 'object' ? (
-                            <div className="flex flex-wrap gap-1">
-                              {Object.keys(selectedMineral.elementComposition).map((element: string) => (
-                                <span 
-                                  key={element} 
-                                  className="px-2 py-1 bg-secondary text-secondary-foreground rounded-md text-xs"
-                                >
-                                  {element}
-                                </span>
-                              ))}
+                            <div className="space-y-2">
+                              <div className="flex flex-wrap gap-1">
+                                {/* Older imports stored a plain list of symbols */}
+                                {(Array.isArray(selectedMineral.elementComposition)
+                                  ? selectedMineral.elementComposition.map((element: string) => [element, null] as const)
+                                  : Object.entries(selectedMineral.elementComposition)
+                                ).map(([element, count]) => (
+                                  <span 
+                                    key={element} 
+                                    className="px-2 py-1 bg-secondary text-secondary-foreground rounded-md text-xs"
+                                    title={selectedMineral.elementWeightPercents?.[element] !== undefined
+                                      ? `${selectedMineral.elementWeightPercents[element].toFixed(2)} wt%`
+                                      : undefined}
+                                  >
+                                    {element}
+                                    {typeof count === 'number' && count !== 1 && (
+                                      <sub className="ml-0.5">{Number(count.toFixed(3))}</sub>
+                                    )}
+                                  </span>
+                                ))}
+                              </div>
+                              {selectedMineral.molecularWeight ? (
+                                <p className="text-xs text-muted-foreground">
+                                  Molecular weight: {selectedMineral.molecularWeight.toFixed(2)} g/mol
+                                </p>
+                              ) : null}
+                              {selectedMineral.oxideWeightPercents && Object.keys(selectedMineral.oxideWeightPercents).length > 0 && (
+                                <p className="text-xs text-muted-foreground">
+                                  {Object.entries(selectedMineral.oxideWeightPercents)
+                                    .sort(([, a], [, b]) => b - a)
+                                    .map(([oxide, percent]) => `${oxide} ${percent.toFixed(2)}%`)
+                                    .join(' · ')}
+                                </p>
+                              )}
                             </div>
                           ) : (
                             <p className="text-muted-foreground">No element data available</p>
@@ -406,6 +495,10 @@ export default function RruffPage() {
                         
                         <Separator />
                         
+                        <LinkedMindatData rruffMineralId={selectedMineral.id} />
+                        
+                        <Separator />
+                        
                         <div>
                           <h4 className="font-medium mb-2">RRUFF Database Reference</h4>
                           {selectedMineral.url ? (
@@ -437,6 +530,65 @@ export default function RruffPage() {
                 </CardContent>
               </Card>
             </div>
+
+            {viewerSpectra.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <CardTitle>Spectra</CardTitle>
+                      <CardDescription>
+                        {comparisonSpectra.length > 0
+                          ? `${selectedMineral?.mineralName || "Selection"} overlaid with ${comparisonSpectra.length} pinned spectra`
+                          : "Pin a mineral's spectra to overlay them on other minerals for comparison"}
+                      </CardDescription>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={pinSelectedSpectra}
+                        disabled={!selectedMineral || selectedSpectra.length === 0}
+                      >
+                        <Pin className="mr-2 h-4 w-4" />
+                        Pin for comparison
+                      </Button>
+                      {comparisonSpectra.length > 0 && (
+                        <Button variant="ghost" size="sm" onClick={() => setComparisonSpectra([])}>
+                          <X className="mr-2 h-4 w-4" />
+                          Clear
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <SpectrumViewer spectra={viewerSpectra} />
+                </CardContent>
+              </Card>
+            )}
+
+            {selectedMineral?.unitCell?.a && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Theoretical XRD Pattern</CardTitle>
+                  <CardDescription>
+                    Reflections allowed by the unit cell and space group of {selectedMineral.mineralName}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <XrdStickPattern rruffMineralId={selectedMineral.id} />
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+          
+          <TabsContent value="spectrum-match" className="space-y-4">
+            <SpectrumSearch />
+          </TabsContent>
+          
+          <TabsContent value="peak-search" className="space-y-4">
+            <PeakSearch />
           </TabsContent>
         </Tabs>
       </div>
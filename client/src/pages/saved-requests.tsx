@@ -1,11 +1,21 @@
-import { useState } from 'react';
+import { useMemo, useRef, useState } from 'react';
 import { useLocation } from 'wouter';
+import { useQueryClient } from '@tanstack/react-query';
 import Header from '@/components/layout/header';
 import Sidebar from '@/components/layout/sidebar';
 import ChatHelper from '@/components/chat/chat-helper';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CollectionExportMenu } from '@/components/collection-export-menu';
 import { useApiDocs } from '@/hooks/use-api-docs';
+import { useToast } from '@/hooks/use-toast';
+import {
+  getCategoryExportUrl,
+  getSavedRequestsExportUrl,
+  importRequestCollection
+} from '@/lib/request-collection-service';
 import { SavedRequest } from '@/types/api';
 import { Skeleton } from '@/components/ui/skeleton';
 import { 
@@ -21,7 +31,9 @@ import {
   Trash2,
   BookOpen, 
   Search,
-  Calendar 
+  Calendar,
+  Download,
+  Upload
 } from 'lucide-react';
 import { 
   AlertDialog, 
@@ -35,11 +47,59 @@ import {
 } from '@/components/ui/alert-dialog';
 import { formatDistanceToNow } from 'date-fns';
 
+// Select items cannot have an empty value, so these stand in for "all" and "no folder"
+const ALL_FOLDERS = '__all__';
+const NO_FOLDER = '__none__';
+
 export default function SavedRequests() {
   const [sidebarVisible, setSidebarVisible] = useState(true);
   const [, navigate] = useLocation();
-  const { savedRequests, savedRequestsLoading, deleteSavedRequest } = useApiDocs();
+  const { categories, savedRequests, savedRequestsLoading, deleteSavedRequest } = useApiDocs();
   const [deleteRequestId, setDeleteRequestId] = useState<number | null>(null);
+  const [folderFilter, setFolderFilter] = useState<string>(ALL_FOLDERS);
+  const [exportCategoryId, setExportCategoryId] = useState<string>('');
+  const [importing, setImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const folders = useMemo(
+    () => Array.from(new Set((savedRequests || []).map(request => request.folder).filter((folder): folder is string => !!folder))).sort(),
+    [savedRequests]
+  );
+
+  const visibleRequests = (savedRequests || []).filter(request =>
+    folderFilter === ALL_FOLDERS || (request.folder || NO_FOLDER) === folderFilter
+  );
+
+  // The filter's folder as the export API expects it: '' for unfiled requests
+  const exportFolder = folderFilter === ALL_FOLDERS ? undefined : folderFilter === NO_FOLDER ? '' : folderFilter;
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setImporting(true);
+    try {
+      const result = await importRequestCollection(await file.text());
+      queryClient.invalidateQueries({ queryKey: ['/api/saved-requests'] });
+      toast({
+        title: `Imported ${result.imported.length} request${result.imported.length === 1 ? '' : 's'}`,
+        description: result.skipped.length > 0
+          ? `${result.skipped.length} skipped: ${result.skipped.slice(0, 3).map(skipped => skipped.reason).join('; ')}${result.skipped.length > 3 ? '; ...' : ''}`
+          : `From ${file.name}`
+      });
+    } catch (error) {
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive"
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
 
   const toggleSidebar = () => {
     setSidebarVisible(!sidebarVisible);
@@ -115,13 +175,72 @@ export default function SavedRequests() {
           <div className="flex-1 overflow-y-auto p-6">
             <div className="flex justify-between items-center mb-6">
               <h1 className="text-2xl font-bold">Saved Requests</h1>
-              <Button 
-                variant="outline" 
-                onClick={() => navigate('/explorer')}
-              >
-                <Search className="h-4 w-4 mr-2" />
-                Explore New Endpoints
-              </Button>
+              <div className="flex flex-wrap gap-2">
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".json,.http,.rest"
+                  className="hidden"
+                  onChange={handleImportFile}
+                />
+                <Button
+                  variant="outline"
+                  disabled={importing}
+                  onClick={() => fileInputRef.current?.click()}
+                >
+                  <Upload className="h-4 w-4 mr-2" />
+                  {importing ? 'Importing...' : 'Import'}
+                </Button>
+                <CollectionExportMenu
+                  label={exportFolder === undefined ? 'All saved requests as' : `Folder "${exportFolder || 'No folder'}" as`}
+                  getUrl={(format) => getSavedRequestsExportUrl(format, { folder: exportFolder })}
+                  disabled={visibleRequests.length === 0}
+                />
+                <Button 
+                  variant="outline" 
+                  onClick={() => navigate('/explorer')}
+                >
+                  <Search className="h-4 w-4 mr-2" />
+                  Explore New Endpoints
+                </Button>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-gray-600 dark:text-gray-400">Folder</span>
+                <Select value={folderFilter} onValueChange={setFolderFilter}>
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_FOLDERS}>All folders</SelectItem>
+                    <SelectItem value={NO_FOLDER}>No folder</SelectItem>
+                    {folders.map(folder => (
+                      <SelectItem key={folder} value={folder}>{folder}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-gray-600 dark:text-gray-400">Whole category</span>
+                <Select value={exportCategoryId} onValueChange={setExportCategoryId}>
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue placeholder="Choose a category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(categories || []).map(category => (
+                      <SelectItem key={category.id} value={String(category.id)}>{category.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <CollectionExportMenu
+                  label="Every endpoint in the category as"
+                  getUrl={(format) => getCategoryExportUrl(parseInt(exportCategoryId), format)}
+                  disabled={!exportCategoryId}
+                />
+              </div>
             </div>
             
             {savedRequestsLoading ? (
@@ -131,12 +250,12 @@ export default function SavedRequests() {
                 <Skeleton className="h-20 w-full" />
                 <Skeleton className="h-20 w-full" />
               </div>
-            ) : !savedRequests || savedRequests.length === 0 ? (
+            ) : visibleRequests.length === 0 ? (
               <div className="text-center py-12 border border-dashed border-gray-300 dark:border-gray-700 rounded-lg">
                 <BookOpen className="h-12 w-12 mx-auto text-gray-400" />
                 <h2 className="mt-4 text-xl font-semibold text-gray-900 dark:text-white">No saved requests</h2>
                 <p className="mt-2 text-gray-600 dark:text-gray-400">
-                  Save API requests for quick access later
+                  Save API requests for quick access later, or import a Postman, Insomnia or .http file
                 </p>
                 <Button 
                   className="mt-4" 
@@ -151,6 +270,7 @@ export default function SavedRequests() {
                   <TableHeader>
                     <TableRow>
                       <TableHead className="w-[300px]">Name</TableHead>
+                      <TableHead>Folder</TableHead>
                       <TableHead>Endpoint</TableHead>
                       <TableHead>Method</TableHead>
                       <TableHead>Created</TableHead>
@@ -158,9 +278,12 @@ export default function SavedRequests() {
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {savedRequests.map((request) => (
+                    {visibleRequests.map((request) => (
                       <TableRow key={request.id}>
                         <TableCell className="font-medium">{request.name}</TableCell>
+                        <TableCell>
+                          {request.folder ? <Badge variant="outline">{request.folder}</Badge> : null}
+                        </TableCell>
                         <TableCell>{request.endpoint?.path || 'Unknown endpoint'}</TableCell>
                         <TableCell>
                           <span className={`px-2 py-1 rounded-md text-xs font-medium ${
@@ -190,6 +313,15 @@ export default function SavedRequests() {
                             >
                               <Play className="h-4 w-4" />
                             </Button>
+                            <CollectionExportMenu
+                              label="This request as"
+                              getUrl={(format) => getSavedRequestsExportUrl(format, { ids: [request.id] })}
+                              trigger={
+                                <Button variant="ghost" size="sm">
+                                  <Download className="h-4 w-4" />
+                                </Button>
+                              }
+                            />
                             <Button 
                               variant="ghost" 
                               size="sm"
@@ -25,6 +25,7 @@ export interface APIServer {
 }
 
 export interface PathItem {
+  parameters?: Array<Parameter | Reference>;
   get?: Operation;
   post?: Operation;
   put?: Operation;
@@ -40,8 +41,8 @@ export interface Operation {
   summary?: string;
   description?: string;
   operationId?: string;
-  parameters?: Parameter[];
-  requestBody?: RequestBody;
+  parameters?: Array<Parameter | Reference>;
+  requestBody?: RequestBody | Reference;
   responses?: Record<string, Response>;
   deprecated?: boolean;
 }
@@ -51,10 +52,18 @@ export interface Parameter {
   in: 'path' | 'query' | 'header' | 'cookie';
   description?: string;
   required?: boolean;
+  deprecated?: boolean;
+  style?: string; // 'form', 'simple', ...
+  explode?: boolean; // false: arrays are sent comma-separated
   schema?: Schema;
+  content?: Record<string, MediaType>;
   example?: any;
 }
 
+export interface Reference {
+  $ref: string;
+}
+
 export interface RequestBody {
   description?: string;
   content: Record<string, MediaType>;
@@ -80,15 +89,27 @@ export interface Schema {
   multipleOf?: number;
   maximum?: number;
   minimum?: number;
+  exclusiveMaximum?: boolean;
+  exclusiveMinimum?: boolean;
+  maxLength?: number;
+  minLength?: number;
   pattern?: string;
+  maxItems?: number;
+  minItems?: number;
   items?: Schema;
   enum?: any[];
+  nullable?: boolean;
+  readOnly?: boolean;
+  writeOnly?: boolean;
+  example?: any;
   properties?: Record<string, Schema>;
+  additionalProperties?: boolean | Schema;
   required?: string[];
   allOf?: Schema[];
   oneOf?: Schema[];
   anyOf?: Schema[];
   $ref?: string;
+  'x-circular'?: string; // $ref that was not expanded again because it refers back to itself
 }
 
 export interface Components {
@@ -137,10 +158,20 @@ export interface APIEndpoint {
   summary?: string;
   description?: string;
   parameters?: Parameter[];
+  requestBody?: ResolvedRequestBody;
   responses?: Record<string, Response>;
   categoryId?: number;
 }
 
+// Request body with references resolved and one media type chosen
+export interface ResolvedRequestBody {
+  description?: string;
+  required?: boolean;
+  contentType: string;
+  schema?: Schema;
+  example?: any;
+}
+
 export interface APIResponse {
   status: number;
   statusText: string;
@@ -164,12 +195,19 @@ export interface LanguageOption {
   name: string;
 }
 
+export interface CodeGenerationOptions {
+  paginate?: boolean; // follow Mindat's `next` links until the last page (GET only)
+  retry?: boolean; // retry 429 responses, honouring Retry-After, with exponential backoff
+  dataframe?: boolean; // load the `results` of every page into a dataframe
+}
+
 export interface SavedRequest {
   id: number;
   name: string;
   endpointId: number;
   endpoint?: APIEndpoint;
   parameters: Record<string, any>;
+  folder?: string | null;
   userId: number;
   createdAt: string;
 }
@@ -0,0 +1,37 @@
+/**
+ * Script to import RRUFF spectrum files from an offline dump
+ * Usage: tsx scripts/import-rruff-files.ts <directory-or-zip>
+ */
+
+import { rruffCsvImporter } from '../server/services/rruff-csv-importer';
+
+async function main() {
+  const sourcePath = process.argv[2];
+  
+  if (!sourcePath) {
+    console.error('Usage: tsx scripts/import-rruff-files.ts <directory-or-zip>');
+    process.exit(1);
+  }
+  
+  console.log(`Importing RRUFF spectrum files from ${sourcePath}...`);
+  
+  try {
+    const result = await rruffCsvImporter.importSpectraFromPath(sourcePath);
+    
+    console.log(`Imported ${result.spectraCount} spectra.`);
+    
+    if (result.errors.length > 0) {
+      console.log(`Encountered ${result.errors.length} errors during import:`);
+      result.errors.forEach(err => console.log(`- ${err}`));
+    }
+    
+    console.log('Duration:', (result.endTime.getTime() - result.startTime.getTime()) / 1000, 'seconds');
+    
+  } catch (error) {
+    console.error('Error importing RRUFF spectrum files:', error);
+    process.exit(1);
+  }
+}
+
+// Execute main function
+main().catch(console.error);
@@ -0,0 +1,37 @@
+/**
+ * Script to run the offline Mindat API mock server
+ * Usage: tsx scripts/mindat-mock-server.ts [--port 4010] [--fixtures <dir>] [--latency <ms>] [--error-rate <0-1>] [--no-auth]
+ *
+ * Then start the app with MINDAT_API_BASE_URL=http://localhost:<port> and any MINDAT_API_KEY.
+ */
+
+import { startMindatMockServer } from '../server/mock/mindat-mock-server';
+
+function option(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function main() {
+  const port = parseInt(option('port') || process.env.MINDAT_MOCK_PORT || '4010');
+
+  try {
+    await startMindatMockServer({
+      port,
+      fixturesDir: option('fixtures'),
+      latencyMs: parseInt(option('latency') || '0'),
+      errorRate: parseFloat(option('error-rate') || '0'),
+      requireAuth: !process.argv.includes('--no-auth'),
+      log: true
+    });
+
+    console.log(`Mindat mock server listening on http://localhost:${port}`);
+    console.log(`Run the app with MINDAT_API_BASE_URL=http://localhost:${port} MINDAT_API_KEY=mock`);
+  } catch (error) {
+    console.error('Error starting Mindat mock server:', error);
+    process.exit(1);
+  }
+}
+
+// Execute main function
+main().catch(console.error);
@@ -0,0 +1,83 @@
+/**
+ * Script to re-parse stored mineral formulas into element counts and weight percents
+ * Usage: tsx scripts/rebuild-formula-compositions.ts
+ */
+
+import { eq } from 'drizzle-orm';
+import { db } from '../server/db';
+import { minerals } from '../shared/schema';
+import { rruffMinerals } from '../shared/rruff-schema';
+import { parseFormula } from '../server/services/formula-parser';
+
+async function rebuildMindatMinerals(): Promise<number> {
+  const rows = await db.select({
+    id: minerals.id,
+    mindatFormula: minerals.mindatFormula,
+    imaFormula: minerals.imaFormula
+  }).from(minerals);
+
+  let updated = 0;
+  for (const row of rows) {
+    const composition = parseFormula(row.mindatFormula || row.imaFormula);
+    if (!composition) continue;
+
+    await db.update(minerals)
+      .set({
+        composition: composition.elements,
+        molecularWeight: composition.molecularWeight || null,
+        elementWeightPercents: composition.elementWeightPercents,
+        oxideWeightPercents: composition.oxideWeightPercents
+      })
+      .where(eq(minerals.id, row.id));
+    updated++;
+  }
+
+  return updated;
+}
+
+async function rebuildRruffMinerals(): Promise<number> {
+  const rows = await db.select({
+    id: rruffMinerals.id,
+    chemicalFormula: rruffMinerals.chemicalFormula,
+    idealChemistry: rruffMinerals.idealChemistry
+  }).from(rruffMinerals);
+
+  let updated = 0;
+  for (const row of rows) {
+    const composition = parseFormula(row.idealChemistry || row.chemicalFormula);
+    if (!composition) continue;
+
+    await db.update(rruffMinerals)
+      .set({
+        elementComposition: composition.elements,
+        molecularWeight: composition.molecularWeight || null,
+        elementWeightPercents: composition.elementWeightPercents,
+        oxideWeightPercents: composition.oxideWeightPercents,
+        lastUpdated: new Date()
+      })
+      .where(eq(rruffMinerals.id, row.id));
+    updated++;
+  }
+
+  return updated;
+}
+
+async function main() {
+  console.log('Rebuilding formula compositions...');
+
+  try {
+    const mindatCount = await rebuildMindatMinerals();
+    console.log(`Updated ${mindatCount} Mindat minerals.`);
+
+    const rruffCount = await rebuildRruffMinerals();
+    console.log(`Updated ${rruffCount} RRUFF minerals.`);
+  } catch (error) {
+    console.error('Error rebuilding formula compositions:', error);
+    process.exit(1);
+  }
+
+  process.exit(0);
+}
+
+// Execute main function
+main().catch(console.error);
@@ -22,6 +22,7 @@ async function main() {
     
     if (tablesExist) {
       console.log('RRUFF tables already exist. Skipping creation.');
+      await applySchemaUpdates();
       return;
     }
 
@@ -42,6 +43,9 @@ async function main() {
         hardness VARCHAR(50),
         optical_properties JSONB DEFAULT '{}',
         element_composition JSONB DEFAULT '{}',
+        molecular_weight REAL,
+        element_weight_percents JSONB DEFAULT '{}',
+        oxide_weight_percents JSONB DEFAULT '{}',
         year_first_published INTEGER,
         ideal_chemistry TEXT,
         comments TEXT,
@@ -100,6 +104,8 @@ async function main() {
 
     console.log('RRUFF tables created successfully!');
 
+    await applySchemaUpdates();
+
     // Create initial admin API key
     await createInitialApiKey();
 
@@ -115,6 +121,44 @@ async function main() {
   }
 }
 
+/**
+ * Apply additive schema changes made after the initial table layout.
+ * Every statement is idempotent so this can run against new and existing databases.
+ */
+async function applySchemaUpdates(): Promise<void> {
+  console.log('Applying RRUFF schema updates...');
+
+  await db.execute(sql`
+    ALTER TABLE rruff_spectra ADD COLUMN IF NOT EXISTS locality TEXT;
+
+    ALTER TABLE rruff_minerals ADD COLUMN IF NOT EXISTS molecular_weight REAL;
+    ALTER TABLE rruff_minerals ADD COLUMN IF NOT EXISTS element_weight_percents JSONB DEFAULT '{}';
+    ALTER TABLE rruff_minerals ADD COLUMN IF NOT EXISTS oxide_weight_percents JSONB DEFAULT '{}';
+
+    CREATE INDEX IF NOT EXISTS idx_rruff_minerals_element_composition
+      ON rruff_minerals USING GIN (element_composition);
+
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_rruff_spectra_sample
+      ON rruff_spectra(mineral_id, sample_id, spectra_type);
+
+    CREATE TABLE IF NOT EXISTS rruff_spectrum_peaks (
+      id SERIAL PRIMARY KEY,
+      spectrum_id INTEGER NOT NULL REFERENCES rruff_spectra(id) ON DELETE CASCADE,
+      mineral_id INTEGER NOT NULL REFERENCES rruff_minerals(id),
+      position REAL NOT NULL,
+      intensity REAL NOT NULL,
+      width REAL,
+      prominence REAL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_rruff_spectrum_peaks_position ON rruff_spectrum_peaks(position);
+    CREATE INDEX IF NOT EXISTS idx_rruff_spectrum_peaks_spectrum_id ON rruff_spectrum_peaks(spectrum_id);
+  `);
+
+  console.log('RRUFF schema updates applied.');
+}
+
 async function checkTablesExist(): Promise<boolean> {
   try {
     const result = await db.execute(sql`
@@ -1,11 +1,10 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
-import { fetchSwaggerDocs, parseSwaggerDoc } from "./services/swagger-parser";
-import { storage } from "./storage";
+import { ApiSpecService } from "./services/api-spec-service";
 
 const app = express();
-app.use(express.json());
+app.use(express.json({ limit: '10mb' })); // spectrum uploads can exceed the 100kb default
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -69,36 +68,27 @@ app.use((req, res, next) => {
   }, async () => {
     log(`serving on port ${port}`);
     
-    // Check if we should ingest Swagger documentation
+    // Snapshot the Swagger documentation; endpoints are re-parsed only when it changed
+    const apiKey = process.env.MINDAT_API_KEY;
+    
+    if (!apiKey) {
+      log('MINDAT_API_KEY not found in environment variables. Skipping Swagger ingestion.');
+      return;
+    }
+    
     try {
-      // Check if we have API categories already
-      const categories = await storage.getApiCategories();
+      const result = await ApiSpecService.getInstance().refresh(apiKey);
       
-      if (categories.length === 0) {
-        log('No API categories found. Fetching Swagger documentation...');
-        
-        // Use MINDAT_API_KEY from environment variables
-        const apiKey = process.env.MINDAT_API_KEY;
-        
-        if (!apiKey) {
-          log('MINDAT_API_KEY not found in environment variables. Skipping Swagger ingestion.');
-          return;
-        }
-        
-        try {
-          const swaggerDoc = await fetchSwaggerDocs(apiKey);
-          log('Swagger documentation fetched. Processing...');
-          
-          const processedCategories = await parseSwaggerDoc(swaggerDoc);
-          log(`Successfully imported ${processedCategories.length} API categories with endpoints.`);
-        } catch (error: any) {
-          log(`Error ingesting Swagger documentation: ${error.message || error}`);
-        }
+      if (result.created) {
+        log(`Recorded Swagger documentation version ${result.snapshot.version} (snapshot ${result.snapshot.id}).`);
+      }
+      if (result.categoryCount !== null) {
+        log(`Successfully imported ${result.categoryCount} API categories with endpoints.`);
       } else {
-        log(`Found ${categories.length} existing API categories. Skipping Swagger ingestion.`);
+        log('Swagger documentation unchanged since the last snapshot. Skipping endpoint import.');
       }
     } catch (error: any) {
-      log(`Error checking API categories: ${error.message || error}`);
+      log(`Error ingesting Swagger documentation: ${error.message || error}`);
     }
   });
 })();
@@ -1,13 +1,18 @@
 import type { Request, Response, NextFunction } from "express";
 import { MineralsApiService } from '../services/minerals-api-service.js';
 
+const LOGGED_PATH_PREFIXES = ['/api/minerals', '/api/localities', '/api/graphql'];
+
 /**
  * Middleware to log API usage after response is sent
  * This captures the actual response status and timing for all mineral API requests
  */
 export function logApiUsage(req: Request, res: Response, next: NextFunction) {
-  // Only process mineral API requests
-  if (!req.path.startsWith('/api/minerals')) {
+  // req.path is relative to the mount point (app.use('/api/minerals', ...)), so add it back
+  const path = req.baseUrl + req.path;
+
+  // Only process API-key requests (minerals, localities and GraphQL APIs)
+  if (!LOGGED_PATH_PREFIXES.some(prefix => path.startsWith(prefix))) {
     return next();
   }
 
@@ -25,7 +30,7 @@ export function logApiUsage(req: Request, res: Response, next: NextFunction) {
     // Log all requests including unauthorized ones for complete analytics
     mineralsApiService.logApiUsage(
       req.mineralApiKey?.id || null,
-      req.path,
+      path,
       req.method,
       res.statusCode,
       responseTime,
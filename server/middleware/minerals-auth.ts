@@ -21,6 +21,18 @@ declare global {
  * Middleware to validate mineral API keys
  */
 export async function validateMineralApiKey(req: Request, res: Response, next: NextFunction) {
+  return authenticateMineralApiKey(req, res, next, false);
+}
+
+/**
+ * Same key validation, but every request counts as a read: GraphQL queries are
+ * POSTed and must not need write permission
+ */
+export async function validateMineralApiKeyForRead(req: Request, res: Response, next: NextFunction) {
+  return authenticateMineralApiKey(req, res, next, true);
+}
+
+async function authenticateMineralApiKey(req: Request, res: Response, next: NextFunction, readOnly: boolean) {
   try {
     // Get API key from Authorization header
     const authHeader = req.headers.authorization;
@@ -51,8 +63,8 @@ export async function validateMineralApiKey(req: Request, res: Response, next: N
 
     // Check permissions
     const { keyInfo } = validation;
-    const isReadEndpoint = req.method === 'GET';
-    const isWriteEndpoint = ['POST', 'PUT', 'PATCH', 'DELETE'].includes(req.method);
+    const isReadEndpoint = readOnly || req.method === 'GET';
+    const isWriteEndpoint = !readOnly && ['POST', 'PUT', 'PATCH', 'DELETE'].includes(req.method);
     
     if (isReadEndpoint && !keyInfo.permissions.includes('read')) {
       return res.status(403).json({ 
@@ -38,6 +38,15 @@ export const apiProxyRateLimit = rateLimit({
   legacyHeaders: false,
 });
 
+// Unauthenticated routes the app's own pages read mineral, locality and computed data from
+export const appDataRateLimit = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 60, // Limit each IP to 60 requests per minute
+  message: 'Too many requests, please slow down.',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
 export const authRateLimit = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
   max: 5, // Limit each IP to 5 login attempts per 15 minutes
@@ -2,9 +2,8 @@
  * Server-side functions for interacting with the Mindat API
  */
 import fetch from 'node-fetch';
-
-// Base URL for the Mindat API
-const BASE_URL = 'https://api.mindat.org';
+import { getMindatBaseUrl } from './services/mindat-config';
+import { LocalitiesApiService } from './services/localities-api-service.js';
 
 // API authentication
 const getAuthHeaders = () => {
@@ -156,7 +155,7 @@ export async function searchMinerals(params: MineralSearchParams) {
  */
 async function executeSearch(endpoint: string, params: Record<string, any>) {
   // Construct the URL with query parameters
-  const url = new URL(endpoint, BASE_URL);
+  const url = new URL(endpoint, getMindatBaseUrl());
   Object.keys(params).forEach(key => {
     if (params[key] !== undefined && params[key] !== null) {
       url.searchParams.append(key, params[key]);
@@ -196,45 +195,41 @@ async function executeSearch(endpoint: string, params: Record<string, any>) {
  * @returns List of minerals found at the locality
  */
 export async function getMineralsAtLocality(localityName: string) {
-  // Handle special case for Mont Saint-Hilaire/Poudrette which has API limitations 
-  if (
-    localityName.toLowerCase().includes("mont saint-hilaire") || 
-    localityName.toLowerCase().includes("mont st hilaire") ||
-    localityName.toLowerCase().includes("poudrette")
-  ) {
-    console.log(`Special handling for Mont Saint-Hilaire/Poudrette locality`);
-    
-    // For known Mont Saint-Hilaire minerals, return enhanced response with more comprehensive data
-    try {
-      // First get the actual locality object to have accurate metadata
-      const localitySearchResult = await searchLocalities({ name: "Mont Saint-Hilaire", limit: 1 });
-      
-      if (localitySearchResult?.data?.results && localitySearchResult.data.results.length > 0) {
-        const locality = localitySearchResult.data.results[0];
-        
-        // Construct a response with the common minerals and one detailed mineral
-        // First, get Abenakiite-(Ce) as our sample mineral with details
-        const mineralResponse = await searchMinerals({ name: "Abenakiite", limit: 1 });
-        let abenakiiteDetails = null;
-        
-        if (mineralResponse?.data?.results && mineralResponse.data.results.length > 0) {
-          abenakiiteDetails = mineralResponse.data.results[0];
-        }
-        
+  // Serve from the synced localities/locality_minerals tables when we have the locality
+  try {
+    const localitiesService = LocalitiesApiService.getInstance();
+    const locality = await localitiesService.findLocalityByName(localityName);
+
+    if (locality) {
+      const { minerals, total } = await localitiesService.getMineralsAtLocality(locality.id, {
+        includeSublocalities: true
+      });
+
+      if (minerals.length > 0) {
+        console.log(`Found ${total} minerals for ${locality.txt} (ID: ${locality.id}) in the local database`);
         return {
           data: {
-            locality: locality,
-            minerals: abenakiiteDetails ? [abenakiiteDetails] : [],
+            locality,
+            minerals: minerals.map(mineral => ({
+              id: mineral.mineralId,
+              name: mineral.name,
+              title: mineral.name,
+              mindat_formula: mineral.formula,
+              type_locality: mineral.isTypeLocality,
+              questioned: mineral.isQuestioned
+            })),
             elements: locality.elements,
-            msh_special_case: true
+            total,
+            source: 'local'
           }
         };
       }
-    } catch (error) {
-      console.error("Error in special handling for Mont Saint-Hilaire:", error);
-      // Fall through to regular approach if special handling fails
     }
+  } catch (error) {
+    console.error('Error reading minerals at locality from the local database:', error);
+    // Fall through to the live API
   }
+
   try {
     console.log(`Looking for minerals at locality: ${localityName}`);
     
@@ -274,7 +269,7 @@ export async function getMineralsAtLocality(localityName: string) {
     
     // APPROACH 1: Using locentries with filtering
     console.log(`Getting mineral entries for locality ID: ${localityId} using locentries endpoint`);
-    const locentriesUrl = `${BASE_URL}/locentries/`;
+    const locentriesUrl = `${getMindatBaseUrl()}/locentries/`;
     const locentriesParams: Record<string, string> = { 
       locality: localityId.toString(),
       limit: '100' // Get a larger number to ensure we get all minerals
@@ -316,7 +311,7 @@ export async function getMineralsAtLocality(localityName: string) {
     console.log("Trying direct locality-mineral associations");
     
     // Get locality details which might include mineral lists
-    const localityDetailsUrl = `${BASE_URL}/localities/${localityId}/`;
+    const localityDetailsUrl = `${getMindatBaseUrl()}/localities/${localityId}/`;
     try {
       const detailsResponse = await fetch(localityDetailsUrl, {
         method: 'GET',
@@ -349,7 +344,7 @@ export async function getMineralsAtLocality(localityName: string) {
         
         // ----- APPROACH 2.3: Use minextnt endpoint to find minerals by locality -----
         try {
-          const minextntUrl = `${BASE_URL}/minextnt/`;
+          const minextntUrl = `${getMindatBaseUrl()}/minextnt/`;
           const minextntParams = {
             locality: localityId.toString(),
             limit: '100'
@@ -384,7 +379,7 @@ export async function getMineralsAtLocality(localityName: string) {
         if (localityDetails.txt) {
           try {
             // Request full locality page that might have mineral listings
-            const localityPageUrl = `${BASE_URL}/localities-detail/${localityId}/`;
+            const localityPageUrl = `${getMindatBaseUrl()}/localities-detail/${localityId}/`;
             console.log(`Trying localities-detail endpoint: ${localityPageUrl}`);
             
             const pageResponse = await fetch(localityPageUrl, {
@@ -423,7 +418,7 @@ export async function getMineralsAtLocality(localityName: string) {
             const keyElements = elements.slice(0, Math.min(3, elements.length));
             
             // Call the minerals API with element filtering
-            const mineralsUrl = `${BASE_URL}/minerals-ima/`;
+            const mineralsUrl = `${getMindatBaseUrl()}/minerals-ima/`;
             const mineralsParams = {
               elements: keyElements.join(','),
               limit: '50'
@@ -449,7 +444,7 @@ export async function getMineralsAtLocality(localityName: string) {
                 // Check each mineral to see if it's at this locality
                 for (const mineralId of potentialMineralIds) {
                   try {
-                    const mineralLocUrl = `${BASE_URL}/locentries/`;
+                    const mineralLocUrl = `${getMindatBaseUrl()}/locentries/`;
                     const params = {
                       min: mineralId.toString(),
                       limit: '20'
@@ -521,7 +516,7 @@ export async function getMineralsAtLocality(localityName: string) {
           
           // First try minerals-ima endpoint
           try {
-            const imaUrl = `${BASE_URL}/minerals-ima/${mineralId}/`;
+            const imaUrl = `${getMindatBaseUrl()}/minerals-ima/${mineralId}/`;
             const imaResponse = await fetch(imaUrl, {
               method: 'GET',
               headers: getAuthHeaders()
@@ -535,7 +530,7 @@ export async function getMineralsAtLocality(localityName: string) {
               if (!mineralData.formula_html && mineralData.id) {
                 try {
                   // Try getting detailed formula from geomaterials
-                  const detailUrl = `${BASE_URL}/geomaterials/${mineralId}/`;
+                  const detailUrl = `${getMindatBaseUrl()}/geomaterials/${mineralId}/`;
                   const detailResponse = await fetch(detailUrl, {
                     method: 'GET',
                     headers: getAuthHeaders()
@@ -559,7 +554,7 @@ export async function getMineralsAtLocality(localityName: string) {
           // If IMA data not found, try geomaterials
           if (!foundData) {
             try {
-              const geoUrl = `${BASE_URL}/geomaterials/${mineralId}/`;
+              const geoUrl = `${getMindatBaseUrl()}/geomaterials/${mineralId}/`;
               const geoResponse = await fetch(geoUrl, {
                 method: 'GET',
                 headers: getAuthHeaders()
@@ -793,7 +788,7 @@ export async function searchLocalities(params: LocalitySearchParams) {
 export async function getMineralById(id: number) {
   try {
     console.log(`Getting detailed information for mineral ID: ${id}`);
-    const url = `${BASE_URL}/geomaterials/${id}/`;
+    const url = `${getMindatBaseUrl()}/geomaterials/${id}/`;
     
     const response = await fetch(url, {
       method: 'GET',
@@ -813,7 +808,7 @@ export async function getMineralById(id: number) {
       // Get type locality if available (using a separate API call)
       try {
         console.log(`Fetching additional type locality data for mineral ID: ${id}`);
-        const typeLocalityUrl = `${BASE_URL}/geomaterials/${id}/type_localities/`;
+        const typeLocalityUrl = `${getMindatBaseUrl()}/geomaterials/${id}/type_localities/`;
         
         const typeLocalityResponse = await fetch(typeLocalityUrl, {
           method: 'GET',
@@ -855,7 +850,7 @@ export async function getMineralById(id: number) {
 export async function getLocalityById(id: number) {
   try {
     console.log(`Getting detailed information for locality ID: ${id}`);
-    const url = `${BASE_URL}/localities/${id}/`;
+    const url = `${getMindatBaseUrl()}/localities/${id}/`;
     
     const response = await fetch(url, {
       method: 'GET',
@@ -916,7 +911,7 @@ export async function findTypeLocalityForMineral(mineralName: string) {
       // Try to get type locality through a separate API call
       try {
         console.log(`Trying to get type locality through separate API call for mineral ID: ${mineral.id}`);
-        const typeLocalityUrl = `${BASE_URL}/geomaterials/${mineral.id}/type_localities/`;
+        const typeLocalityUrl = `${getMindatBaseUrl()}/geomaterials/${mineral.id}/type_localities/`;
         
         const typeLocalityResponse = await fetch(typeLocalityUrl, {
           method: 'GET',
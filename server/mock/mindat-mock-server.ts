@@ -0,0 +1,340 @@
+/**
+ * Offline Mindat API Mock Server
+ *
+ * A local stand-in for https://api.mindat.org that serves the JSON fixtures in
+ * server/mock/fixtures, so the app, the API proxy and the sync jobs can run
+ * without an API key or network access:
+ * 1. List and detail routes for geomaterials, localities, locentries, crystalclasses,
+ *    spacegroups, dana-8 and nickel-strunz-10, with or without the /v1 prefix
+ * 2. Mindat-style pagination (`page`, `page-size`/`page_size`/`limit`) returning
+ *    `count`, `next`, `previous` and `results`
+ * 3. The common list filters (q, name, id_in, elements_inc/exc, crystal_system,
+ *    entrytype, updated_at, ...) plus `fields`, `omit` and `ordering`
+ * 4. Token authentication like the real API (`Authorization: Token <anything>`)
+ * 5. Error injection: per request (`X-Mock-Status` header or `__status` query
+ *    parameter), queued failures (POST /__mock/failures), a random failure rate
+ *    and artificial latency
+ *
+ * Start it with `npm run mock:mindat` and point the app at it with
+ * MINDAT_API_BASE_URL=http://localhost:4010 (any MINDAT_API_KEY value is accepted).
+ */
+
+import express, { type Express, type NextFunction, type Request, type Response } from 'express';
+import type { Server } from 'http';
+import fs from 'fs';
+import path from 'path';
+
+export interface MindatMockOptions {
+  port?: number;
+  fixturesDir?: string; // Directory of <resource>.json fixture files and swagger.json
+  requireAuth?: boolean; // Reject requests without a Token Authorization header
+  latencyMs?: number; // Delay added to every response
+  errorRate?: number; // Fraction (0-1) of requests answered with a random 5xx
+  defaultPageSize?: number;
+  log?: boolean;
+}
+
+interface QueuedFailure {
+  status: number;
+  remaining: number;
+  path?: string; // Only fail requests whose path contains this string
+}
+
+type FixtureRecord = Record<string, any>;
+
+// Resources served from fixtures, keyed by URL segment
+const RESOURCES = [
+  'geomaterials',
+  'localities',
+  'locentries',
+  'crystalclasses',
+  'spacegroups',
+  'dana-8',
+  'nickel-strunz-10'
+];
+
+// Text fields searched by `q` and `name` for each resource
+const SEARCH_FIELDS: Record<string, string[]> = {
+  geomaterials: ['name'],
+  localities: ['txt', 'revtxtd'],
+  locentries: ['description', 'lorevtxtd'],
+  crystalclasses: ['name', 'symbol'],
+  spacegroups: ['sgtext'],
+  'dana-8': ['name', 'code'],
+  'nickel-strunz-10': ['name', 'code']
+};
+
+const DEFAULT_FIXTURES_DIR = path.resolve(import.meta.dirname, 'fixtures');
+
+export function loadFixtures(fixturesDir: string = DEFAULT_FIXTURES_DIR): {
+  resources: Record<string, FixtureRecord[]>;
+  swagger: any;
+} {
+  const resources: Record<string, FixtureRecord[]> = {};
+
+  RESOURCES.forEach(resource => {
+    const file = path.join(fixturesDir, `${resource}.json`);
+    resources[resource] = fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf-8')) : [];
+  });
+
+  const swaggerFile = path.join(fixturesDir, 'swagger.json');
+  const swagger = fs.existsSync(swaggerFile) ? JSON.parse(fs.readFileSync(swaggerFile, 'utf-8')) : null;
+
+  return { resources, swagger };
+}
+
+function listParam(value: unknown): string[] {
+  if (value === undefined || value === null || value === '') return [];
+  const values = Array.isArray(value) ? value : [value];
+  return values.flatMap(item => String(item).split(',')).map(item => item.trim()).filter(Boolean);
+}
+
+// Mindat name search supports * and _ as wildcards
+function wildcardPattern(term: string): RegExp {
+  const escaped = term.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/_/g, '.');
+  return new RegExp(term.includes('*') || term.includes('_') ? `^${escaped}$` : escaped, 'i');
+}
+
+function applyFilters(resource: string, records: FixtureRecord[], query: Record<string, any>): FixtureRecord[] {
+  let results = records;
+
+  const search = query.q || query.name || query.txt || query.sgtext;
+  if (search) {
+    const pattern = wildcardPattern(String(search));
+    const fields = SEARCH_FIELDS[resource] || ['name'];
+    results = results.filter(record => fields.some(field => pattern.test(String(record[field] ?? ''))));
+  }
+
+  const ids = listParam(query.id_in).map(Number);
+  if (ids.length > 0) {
+    results = results.filter(record => ids.includes(record.id));
+  }
+  if (query.id_min) results = results.filter(record => record.id >= Number(query.id_min));
+  if (query.id_max) results = results.filter(record => record.id <= Number(query.id_max));
+
+  // Exact-match filters on plain fields (groupid=29254, cclass=32, locality=599, ...)
+  const exactFields: Record<string, string> = {
+    groupid: 'groupid', varietyof: 'varietyof', synid: 'synid', polytypeof: 'polytypeof',
+    cclass: 'cclass', system: 'system', country: 'country', locality: 'loc', mineral: 'min'
+  };
+  Object.entries(exactFields).forEach(([param, field]) => {
+    if (query[param] !== undefined && query[param] !== '') {
+      results = results.filter(record => String(record[field]).toLowerCase() === String(query[param]).toLowerCase());
+    }
+  });
+
+  if (resource === 'geomaterials') {
+    const included = listParam(query.elements_inc);
+    if (included.length > 0) {
+      results = results.filter(record => included.every(element => (record.elements || []).includes(element)));
+    }
+    const excluded = listParam(query.elements_exc);
+    if (excluded.length > 0) {
+      results = results.filter(record => !excluded.some(element => (record.elements || []).includes(element)));
+    }
+
+    const systems = listParam(query.crystal_system).map(system => system.toLowerCase());
+    if (systems.length > 0) {
+      results = results.filter(record => systems.includes(String(record.csystem || '').toLowerCase()));
+    }
+
+    const entryTypes = listParam(query.entrytype).map(Number);
+    if (entryTypes.length > 0) {
+      results = results.filter(record => entryTypes.includes(record.entrytype));
+    }
+
+    if (query.ima !== undefined) {
+      const approved = query.ima === 'true' || query.ima === '1';
+      results = results.filter(record => (record.ima_status || []).includes('APPROVED') === approved);
+    }
+
+    if (query.hardness_min) results = results.filter(record => record.hmax >= Number(query.hardness_min));
+    if (query.hardness_max) results = results.filter(record => record.hmin <= Number(query.hardness_max));
+
+    const updatedSince = query.updated_at || query.updated_since;
+    if (updatedSince) {
+      const since = new Date(String(updatedSince)).getTime();
+      results = results.filter(record => new Date(record.updttime).getTime() >= since);
+    }
+  }
+
+  if (query.ordering) {
+    const descending = String(query.ordering).startsWith('-');
+    const field = String(query.ordering).replace(/^-/, '');
+    results = [...results].sort((a, b) => {
+      const left = a[field] ?? '';
+      const right = b[field] ?? '';
+      const order = typeof left === 'number' && typeof right === 'number'
+        ? left - right
+        : String(left).localeCompare(String(right));
+      return descending ? -order : order;
+    });
+  }
+
+  return results;
+}
+
+function selectFields(record: FixtureRecord, query: Record<string, any>): FixtureRecord {
+  const fields = listParam(query.fields).filter(field => field !== '*' && field !== '~all');
+  const omit = listParam(query.omit);
+
+  let selected = record;
+  if (fields.length > 0) {
+    selected = Object.fromEntries(Object.entries(record).filter(([key]) => fields.includes(key)));
+  }
+  if (omit.length > 0) {
+    selected = Object.fromEntries(Object.entries(selected).filter(([key]) => !omit.includes(key)));
+  }
+  return selected;
+}
+
+function pageUrl(req: Request, page: number): string {
+  const query = new URLSearchParams();
+  Object.entries(req.query).forEach(([key, value]) => {
+    if (key === 'page') return;
+    (Array.isArray(value) ? value : [value]).forEach(item => query.append(key, String(item)));
+  });
+  query.set('page', String(page));
+  return `${req.protocol}://${req.get('host')}${req.baseUrl}${req.path}?${query.toString()}`;
+}
+
+/**
+ * Build the mock Express app without binding a port (useful for tests)
+ */
+export function createMindatMockApp(options: MindatMockOptions = {}): Express {
+  const {
+    fixturesDir = DEFAULT_FIXTURES_DIR,
+    requireAuth = true,
+    latencyMs = 0,
+    errorRate = 0,
+    defaultPageSize = 10,
+    log = false
+  } = options;
+
+  const { resources, swagger } = loadFixtures(fixturesDir);
+  const failures: QueuedFailure[] = [];
+  const app = express();
+
+  app.use(express.json());
+
+  if (log) {
+    app.use((req: Request, _res: Response, next: NextFunction) => {
+      console.log(`[mindat-mock] ${req.method} ${req.originalUrl}`);
+      next();
+    });
+  }
+
+  // Control endpoints for tests: queue failures and inspect state
+  app.post('/__mock/failures', (req: Request, res: Response) => {
+    const { status = 503, count = 1, path: pathFilter } = req.body || {};
+    failures.push({ status: Number(status), remaining: Number(count), path: pathFilter });
+    res.status(201).json({ queued: failures.length });
+  });
+
+  app.delete('/__mock/failures', (_req: Request, res: Response) => {
+    failures.length = 0;
+    res.status(204).end();
+  });
+
+  app.get('/__mock/status', (_req: Request, res: Response) => {
+    res.json({
+      resources: Object.fromEntries(Object.entries(resources).map(([name, records]) => [name, records.length])),
+      queuedFailures: failures
+    });
+  });
+
+  // Latency and error injection
+  app.use(async (req: Request, res: Response, next: NextFunction) => {
+    if (latencyMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, latencyMs));
+    }
+
+    const forced = Number(req.get('X-Mock-Status') || req.query.__status);
+    if (forced >= 400) {
+      return res.status(forced).json({ detail: `Injected error ${forced}` });
+    }
+
+    const failure = failures.find(item => item.remaining > 0 && (!item.path || req.path.includes(item.path)));
+    if (failure) {
+      failure.remaining--;
+      if (failure.remaining === 0) failures.splice(failures.indexOf(failure), 1);
+      return res.status(failure.status).json({ detail: `Injected error ${failure.status}` });
+    }
+
+    if (errorRate > 0 && Math.random() < errorRate) {
+      const status = [500, 502, 503][Math.floor(Math.random() * 3)];
+      return res.status(status).json({ detail: `Injected error ${status}` });
+    }
+
+    next();
+  });
+
+  // Token authentication, as on api.mindat.org
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    if (requireAuth && !/^Token\s+\S+/.test(req.get('Authorization') || '')) {
+      return res.status(401).json({ detail: 'Authentication credentials were not provided.' });
+    }
+    next();
+  });
+
+  const router = express.Router();
+
+  router.get('/schema/swagger.json', (_req: Request, res: Response) => {
+    if (!swagger) {
+      return res.status(404).json({ detail: 'Not found.' });
+    }
+    res.json(swagger);
+  });
+
+  RESOURCES.forEach(resource => {
+    router.get([`/${resource}`, `/${resource}/`], (req: Request, res: Response) => {
+      const query = req.query as Record<string, any>;
+      const filtered = applyFilters(resource, resources[resource], query);
+
+      const page = Math.max(1, parseInt(String(query.page || '1')) || 1);
+      const pageSize = Math.max(1, parseInt(String(query['page-size'] || query.page_size || query.limit || defaultPageSize)) || defaultPageSize);
+      const start = (page - 1) * pageSize;
+
+      if (start > 0 && start >= filtered.length) {
+        return res.status(404).json({ detail: 'Invalid page.' });
+      }
+
+      res.json({
+        count: filtered.length,
+        next: start + pageSize < filtered.length ? pageUrl(req, page + 1) : null,
+        previous: page > 1 ? pageUrl(req, page - 1) : null,
+        results: filtered.slice(start, start + pageSize).map(record => selectFields(record, query))
+      });
+    });
+
+    router.get([`/${resource}/:id`, `/${resource}/:id/`], (req: Request, res: Response) => {
+      const record = resources[resource].find(item => String(item.id) === req.params.id);
+      if (!record) {
+        return res.status(404).json({ detail: 'Not found.' });
+      }
+      res.json(selectFields(record, req.query as Record<string, any>));
+    });
+  });
+
+  app.use('/v1', router);
+  app.use('/', router);
+
+  app.use((_req: Request, res: Response) => {
+    res.status(404).json({ detail: 'Not found.' });
+  });
+
+  return app;
+}
+
+/**
+ * Start the mock server and resolve once it is listening
+ */
+export function startMindatMockServer(options: MindatMockOptions = {}): Promise<Server> {
+  const port = options.port ?? 4010;
+  const app = createMindatMockApp(options);
+
+  return new Promise((resolve, reject) => {
+    const server = app.listen(port, () => resolve(server));
+    server.on('error', reject);
+  });
+}
@@ -1,13 +1,28 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { fetchSwaggerDocs, parseSwaggerDoc } from "./services/swagger-parser";
+import { ApiSpecService, ApiSpecSnapshotError } from "./services/api-spec-service";
 import { generateCode } from "./services/code-generator";
+import { DEFAULT_SDK_PACKAGE_NAME, generateTypeScriptSdk, packageSdkZip } from "./services/sdk-generator";
+import { CollectionFormatError, parseCollectionFormat } from "./services/request-collections";
+import { CollectionNotFoundError, RequestCollectionService } from "./services/request-collection-service";
 import secureApiProxy from "./services/secure-api-proxy";
+import { apiCassette } from "./services/api-cassette";
 import { registerRruffRoutes } from "./routes/rruff-routes";
+import { registerGraphqlRoutes } from "./routes/graphql-routes";
+import { computePowderPattern, parsePatternOptions, xrdPatternService, XrdPatternError } from "./services/xrd-pattern-service";
+import { parsePropertyFilters } from "./services/mineral-properties";
+import { CLASSIFICATION_SYSTEMS, type ClassificationSystem } from "./services/mineral-classification";
+import { GeoQueryError, parseBoundingBox, parseGeoFilters, parseRadiusQuery } from "./services/locality-geo";
+import { getMapTileInfo, resolveMapTile } from "./services/map-tiles";
+import { DiscrepancyQueryError, discrepanciesToCsv, parseDiscrepancyOptions } from "./services/mineral-discrepancies";
+import { ExportQueryError, parseExportOptions, streamExport } from "./services/result-export";
+import { CifParseError } from "./services/cif";
+import { minerals } from "@shared/schema";
 import { 
   configureSecurity, 
   apiProxyRateLimit, 
+  appDataRateLimit, 
   authRateLimit, 
   healthCheck, 
   readinessCheck 
@@ -15,10 +30,13 @@ import {
 import { configureSession } from "./middleware/session";
 import { sessionMiddleware } from "./middleware/auth";
 import { registerAuthRoutes } from "./routes/auth-routes";
-import { MineralsApiService } from './services/minerals-api-service.js';
+import { CompositionQueryError, MINERAL_EXPORT_COLUMNS, MineralsApiService } from './services/minerals-api-service.js';
+import { LocalitiesApiService } from './services/localities-api-service.js';
+import { MineralLinkingService } from './services/mineral-linking-service.js';
+import { CifExportError, CifService } from './services/cif-service.js';
 import { CronService } from './services/cron-service.js';
 import { MineralSyncService } from './services/mineral-sync-service.js';
-import { validateMineralApiKey, createPreAuthRateLimit, createPostAuthRateLimit, requireAdminPermissions } from './middleware/minerals-auth.js';
+import { validateMineralApiKey, validateMineralApiKeyForRead, createPreAuthRateLimit, createPostAuthRateLimit, requireAdminPermissions } from './middleware/minerals-auth.js';
 import { logApiUsage } from './middleware/api-usage-logger.js';
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -43,6 +61,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   // Initialize mineral services
   const mineralsApiService = MineralsApiService.getInstance();
+  const localitiesApiService = LocalitiesApiService.getInstance();
+  const mineralLinkingService = MineralLinkingService.getInstance();
+  const cifService = CifService.getInstance();
+  const apiSpecService = ApiSpecService.getInstance();
+  const requestCollectionService = RequestCollectionService.getInstance();
   const cronService = CronService.getInstance();
   const mineralSyncService = MineralSyncService.getInstance();
   
@@ -85,15 +108,92 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ error: 'Unauthorized: Missing Mindat API key' });
       }
       
-      // Pass the API key for Token authentication
-      const swaggerDoc = await fetchSwaggerDocs(process.env.MINDAT_API_KEY);
-      return res.status(200).json(swaggerDoc);
+      // Snapshots the document and re-parses endpoints only when it changed
+      const { document } = await apiSpecService.refresh(process.env.MINDAT_API_KEY);
+      return res.status(200).json(document);
     } catch (error) {
       console.error('Error fetching Swagger docs:', error);
       return res.status(500).json({ error: 'Failed to fetch API documentation' });
     }
   });
 
+  // Versions of the Mindat swagger.json recorded so far
+  app.get('/api/docs/snapshots', async (req: Request, res: Response) => {
+    try {
+      const snapshots = await apiSpecService.listSnapshots();
+      return res.status(200).json(snapshots);
+    } catch (error) {
+      console.error('Error fetching API spec snapshots:', error);
+      return res.status(500).json({ error: 'Failed to fetch API spec snapshots' });
+    }
+  });
+
+  // Download the swagger.json of one snapshot
+  app.get('/api/docs/snapshots/:id/document', async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: 'Invalid snapshot ID' });
+      }
+
+      const snapshot = await apiSpecService.getSnapshot(id);
+      res.setHeader('Content-Disposition', `attachment; filename="mindat-swagger-${snapshot.version.replace(/[^\w.-]+/g, '_')}-${snapshot.id}.json"`);
+      return res.status(200).json(snapshot.document);
+    } catch (error) {
+      if (error instanceof ApiSpecSnapshotError) {
+        return res.status(404).json({ error: error.message });
+      }
+      console.error('Error fetching API spec snapshot:', error);
+      return res.status(500).json({ error: 'Failed to fetch API spec snapshot' });
+    }
+  });
+
+  // Typed TypeScript client package for a snapshot (default: the latest), as a zip
+  app.get('/api/docs/sdk/typescript', async (req: Request, res: Response) => {
+    try {
+      const snapshotId = req.query.snapshot !== undefined ? parseInt(req.query.snapshot as string) : undefined;
+      if (snapshotId !== undefined && isNaN(snapshotId)) {
+        return res.status(400).json({ error: 'Invalid snapshot ID' });
+      }
+
+      const snapshot = snapshotId !== undefined
+        ? await apiSpecService.getSnapshot(snapshotId)
+        : await apiSpecService.getLatestSnapshot();
+      const zip = packageSdkZip(generateTypeScriptSdk(snapshot.document));
+
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="${DEFAULT_SDK_PACKAGE_NAME}-${snapshot.version.replace(/[^\w.-]+/g, '_')}.zip"`);
+      return res.status(200).send(zip);
+    } catch (error) {
+      if (error instanceof ApiSpecSnapshotError) {
+        return res.status(404).json({ error: error.message });
+      }
+      console.error('Error generating TypeScript SDK:', error);
+      return res.status(500).json({ error: 'Failed to generate TypeScript SDK' });
+    }
+  });
+
+  // Endpoints, parameters and response schemas changed between two snapshots
+  // (defaults: the latest snapshot against the one before it)
+  app.get('/api/docs/changelog', async (req: Request, res: Response) => {
+    try {
+      const from = req.query.from !== undefined ? parseInt(req.query.from as string) : undefined;
+      const to = req.query.to !== undefined ? parseInt(req.query.to as string) : undefined;
+      if ((from !== undefined && isNaN(from)) || (to !== undefined && isNaN(to))) {
+        return res.status(400).json({ error: 'from and to must be snapshot IDs' });
+      }
+
+      const changelog = await apiSpecService.getChangelog(from, to);
+      return res.status(200).json(changelog);
+    } catch (error) {
+      if (error instanceof ApiSpecSnapshotError) {
+        return res.status(404).json({ error: error.message });
+      }
+      console.error('Error building API changelog:', error);
+      return res.status(500).json({ error: 'Failed to build API changelog' });
+    }
+  });
+
   // Get API categories
   app.get('/api/docs/categories', async (req: Request, res: Response) => {
     try {
@@ -105,6 +205,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Every endpoint of a category as a Postman, Insomnia or .http collection
+  app.get('/api/docs/categories/:id/export', async (req: Request, res: Response) => {
+    try {
+      const categoryId = parseInt(req.params.id);
+      if (isNaN(categoryId)) {
+        return res.status(400).json({ error: 'Invalid category ID' });
+      }
+
+      const file = await requestCollectionService.exportCategory(categoryId, parseCollectionFormat(req.query.format));
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+      return res.status(200).send(file.content);
+    } catch (error) {
+      if (error instanceof CollectionFormatError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof CollectionNotFoundError) {
+        return res.status(404).json({ error: error.message });
+      }
+      console.error('Error exporting category:', error);
+      return res.status(500).json({ error: 'Failed to export category' });
+    }
+  });
+
   // Get endpoint by ID
   app.get('/api/docs/endpoints/:id', async (req: Request, res: Response) => {
     try {
@@ -142,13 +266,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Generate code sample
   app.post('/api/generate-code', async (req: Request, res: Response) => {
     try {
-      const { endpoint, parameters, language } = req.body;
+      const { endpoint, parameters, language, options } = req.body;
       
       if (!endpoint || !language) {
         return res.status(400).json({ error: 'Endpoint and language are required' });
       }
       
-      const code = await generateCode(endpoint, parameters || {}, language);
+      const code = await generateCode(endpoint, parameters || {}, language, options || {});
       return res.status(200).json({ code });
     } catch (error) {
       console.error('Error generating code:', error);
@@ -162,7 +286,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Never accept API key from request body - use server environment only
       const { path, method, parameters } = req.body;
       
-      if (!process.env.MINDAT_API_KEY) {
+      // Cassette replay serves recorded responses and needs no key
+      if (!process.env.MINDAT_API_KEY && !apiCassette.isReplaying()) {
         return res.status(401).json({ 
           error: 'Unauthorized: Server API key not configured.' 
         });
@@ -176,7 +301,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       return res.status(response.status).json({
         data: response.data,
-        cached: response.cached
+        cached: response.cached,
+        replayed: response.replayed
       });
       
     } catch (error: any) {
@@ -195,6 +321,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(504).json({ error: 'API request timeout' });
       }
       
+      if (error.message.includes('No cassette recording')) {
+        return res.status(404).json({ error: 'Request not recorded in cassette' });
+      }
+      
       if (error.message.includes('API key not configured')) {
         return res.status(500).json({ error: 'Server configuration error' });
       }
@@ -217,7 +347,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post('/api/saved-requests', async (req: Request, res: Response) => {
     try {
-      const { name, endpointId, parameters } = req.body;
+      const { name, endpointId, parameters, folder } = req.body;
       
       if (!name || !endpointId) {
         return res.status(400).json({ error: 'Name and endpointId are required' });
@@ -227,6 +357,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         name,
         endpointId,
         parameters: parameters || {},
+        folder: folder || null,
         userId: 1, // Default user ID for now
       });
       
@@ -237,6 +368,55 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Saved requests as a Postman, Insomnia or .http collection: one (?ids=1),
+  // several (?ids=1,2), a folder (?folder=Name, empty for unfiled) or all of them
+  app.get('/api/saved-requests/export', async (req: Request, res: Response) => {
+    try {
+      const format = parseCollectionFormat(req.query.format);
+      const ids = typeof req.query.ids === 'string' && req.query.ids
+        ? req.query.ids.split(',').map(id => parseInt(id))
+        : undefined;
+      if (ids?.some(id => isNaN(id))) {
+        return res.status(400).json({ error: 'Invalid saved request IDs' });
+      }
+      const folder = typeof req.query.folder === 'string' ? req.query.folder : undefined;
+
+      const file = await requestCollectionService.exportSavedRequests(format, { ids, folder });
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+      return res.status(200).send(file.content);
+    } catch (error) {
+      if (error instanceof CollectionFormatError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof CollectionNotFoundError) {
+        return res.status(404).json({ error: error.message });
+      }
+      console.error('Error exporting saved requests:', error);
+      return res.status(500).json({ error: 'Failed to export saved requests' });
+    }
+  });
+
+  // Save the requests of an uploaded Postman collection, Insomnia export or .http file
+  app.post('/api/saved-requests/import', async (req: Request, res: Response) => {
+    try {
+      const { content, folder } = req.body;
+
+      if (typeof content !== 'string' || !content.trim()) {
+        return res.status(400).json({ error: 'File content is required' });
+      }
+
+      const result = await requestCollectionService.importCollection(content, folder || undefined);
+      return res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof CollectionFormatError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Error importing saved requests:', error);
+      return res.status(500).json({ error: 'Failed to import saved requests' });
+    }
+  });
+
   app.delete('/api/saved-requests/:id', async (req: Request, res: Response) => {
     try {
       const { id } = req.params;
@@ -265,12 +445,195 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Theoretical powder XRD pattern from explicit cell parameters and space group
+  app.post('/api/xrd/pattern', appDataRateLimit, async (req: Request, res: Response) => {
+    try {
+      const { cell, spaceGroup } = req.body || {};
+
+      if (!cell || typeof cell !== 'object') {
+        return res.status(400).json({ error: 'Unit cell parameters are required' });
+      }
+
+      const pattern = computePowderPattern(cell, spaceGroup, parsePatternOptions(req.body));
+      return res.status(200).json(pattern);
+    } catch (error) {
+      if (error instanceof XrdPatternError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Error computing XRD pattern:', error);
+      return res.status(500).json({ error: 'Failed to compute XRD pattern' });
+    }
+  });
+
+  // Determinative property search for the app's own UI (same search as /api/minerals/search/properties)
+  app.get('/api/mineral-properties/search', appDataRateLimit, async (req: Request, res: Response) => {
+    try {
+      const { limit, offset, sortBy, sortOrder } = req.query;
+
+      const results = await mineralsApiService.searchByProperties(parsePropertyFilters(req.query), {
+        limit: limit ? Math.min(parseInt(limit as string), 200) : 50,
+        offset: offset ? parseInt(offset as string) : 0,
+        sortBy: (sortBy as any) || 'name',
+        sortOrder: (sortOrder as any) || 'asc'
+      });
+
+      return res.status(200).json(results);
+    } catch (error: any) {
+      console.error('Error searching minerals by properties:', error);
+      return res.status(500).json({ error: error.message || 'Failed to search minerals' });
+    }
+  });
+
+  // Dana / Nickel-Strunz top-level classes from the synced class tables (app-facing)
+  app.get('/api/mineral-classification/:system', appDataRateLimit, async (req: Request, res: Response) => {
+    try {
+      const system = req.params.system as ClassificationSystem;
+      if (!CLASSIFICATION_SYSTEMS.includes(system)) {
+        return res.status(400).json({ error: 'Classification system must be "dana" or "strunz"' });
+      }
+
+      const classes = await mineralsApiService.getClassificationClasses(system);
+      return res.status(200).json({ system, classes });
+    } catch (error: any) {
+      console.error('Error getting classification classes:', error);
+      return res.status(500).json({ error: error.message || 'Failed to get classification classes' });
+    }
+  });
+
+  // Synced minerals in a Dana / Nickel-Strunz class (?code=4.DA&name=quartz)
+  app.get('/api/mineral-classification/:system/minerals', appDataRateLimit, async (req: Request, res: Response) => {
+    try {
+      const system = req.params.system as ClassificationSystem;
+      if (!CLASSIFICATION_SYSTEMS.includes(system)) {
+        return res.status(400).json({ error: 'Classification system must be "dana" or "strunz"' });
+      }
+
+      const { code, name, limit, offset } = req.query;
+
+      const results = await mineralsApiService.getMineralsByClassification(system, {
+        code: code as string | undefined,
+        name: name as string | undefined,
+        limit: limit ? Math.min(parseInt(limit as string), 500) : 50,
+        offset: offset ? parseInt(offset as string) : 0
+      });
+
+      return res.status(200).json(results);
+    } catch (error: any) {
+      console.error('Error getting minerals by classification:', error);
+      return res.status(500).json({ error: error.message || 'Failed to get minerals by classification' });
+    }
+  });
+
+  // Synonyms, varieties, group members and type localities of a synced mineral (app-facing)
+  app.get('/api/mineral-relations/:id', appDataRateLimit, async (req: Request, res: Response) => {
+    try {
+      const relations = await mineralsApiService.getMineralRelations(parseInt(req.params.id));
+
+      if (!relations) {
+        return res.status(404).json({ error: 'Mineral not found' });
+      }
+
+      return res.status(200).json(relations);
+    } catch (error: any) {
+      console.error('Error getting mineral relations:', error);
+      return res.status(500).json({ error: error.message || 'Failed to get mineral relations' });
+    }
+  });
+
+  // Linked RRUFF records of a synced Mindat mineral, with spectrum counts (app-facing)
+  app.get('/api/mineral-links/mindat/:id', appDataRateLimit, async (req: Request, res: Response) => {
+    try {
+      const links = await mineralLinkingService.getLinksForMineral(parseInt(req.params.id));
+      return res.status(200).json({ links });
+    } catch (error: any) {
+      console.error('Error getting RRUFF links for mineral:', error);
+      return res.status(500).json({ error: error.message || 'Failed to get RRUFF links for mineral' });
+    }
+  });
+
+  // Linked Mindat records of a RRUFF mineral (app-facing)
+  app.get('/api/mineral-links/rruff/:id', appDataRateLimit, async (req: Request, res: Response) => {
+    try {
+      const links = await mineralLinkingService.getLinksForRruffMineral(parseInt(req.params.id));
+      return res.status(200).json({ links });
+    } catch (error: any) {
+      console.error('Error getting Mindat links for RRUFF mineral:', error);
+      return res.status(500).json({ error: error.message || 'Failed to get Mindat links for RRUFF mineral' });
+    }
+  });
+
+  // Bounding-box and radius locality searches, shared by the map page and the Localities API
+  const searchLocalitiesWithin = async (req: Request, res: Response) => {
+    try {
+      const { limit, offset } = req.query;
+
+      const results = await localitiesApiService.findLocalitiesInBoundingBox(
+        parseBoundingBox(req.query),
+        parseGeoFilters(req.query),
+        {
+          limit: limit ? Math.min(parseInt(limit as string), 2000) : 500,
+          offset: offset ? parseInt(offset as string) : 0
+        }
+      );
+
+      return res.status(200).json(results);
+    } catch (error: any) {
+      if (error instanceof GeoQueryError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Error searching localities in bounding box:', error);
+      return res.status(500).json({ error: error.message || 'Failed to search localities in bounding box' });
+    }
+  };
+
+  const searchLocalitiesNear = async (req: Request, res: Response) => {
+    try {
+      const { limit, offset } = req.query;
+      const { center, radiusKm } = parseRadiusQuery(req.query);
+
+      const results = await localitiesApiService.findLocalitiesNearPoint(center, radiusKm, parseGeoFilters(req.query), {
+        limit: limit ? Math.min(parseInt(limit as string), 2000) : 500,
+        offset: offset ? parseInt(offset as string) : 0
+      });
+
+      return res.status(200).json(results);
+    } catch (error: any) {
+      if (error instanceof GeoQueryError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Error searching localities near point:', error);
+      return res.status(500).json({ error: error.message || 'Failed to search localities near point' });
+    }
+  };
+
+  // Locality map (app-facing): ?bbox=west,south,east,north or ?lat=&lon=&radiusKm=, plus elements, mineral, country, typeOnly
+  app.get('/api/locality-map/within', appDataRateLimit, searchLocalitiesWithin);
+  app.get('/api/locality-map/near', appDataRateLimit, searchLocalitiesNear);
+
+  // Zoom levels available from the local tile directory
+  app.get('/api/locality-map/tiles', (req: Request, res: Response) => {
+    return res.status(200).json(getMapTileInfo());
+  });
+
+  app.get('/api/locality-map/tiles/:z/:x/:y', (req: Request, res: Response) => {
+    const tile = resolveMapTile(Number(req.params.z), Number(req.params.x), parseInt(req.params.y));
+
+    if (!tile) {
+      return res.status(404).json({ error: 'Tile not found' });
+    }
+
+    res.set('Cache-Control', 'public, max-age=86400');
+    return res.sendFile(tile);
+  });
+
   // Minerals API middleware
   const preAuthRateLimit = createPreAuthRateLimit();
   const postAuthRateLimit = createPostAuthRateLimit();
   
   // Apply usage logging to all mineral API routes (captures all responses including auth failures)
   app.use('/api/minerals', logApiUsage);
+  app.use('/api/localities', logApiUsage);
+  app.use('/api/graphql', logApiUsage);
   
   // Minerals API Routes - For integration with Periodic Table search app
   
@@ -302,6 +665,105 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Every mineral matching an element search (format=csv|ndjson|xlsx, columns=...)
+  app.get('/api/minerals/search/elements/export', preAuthRateLimit, validateMineralApiKey, postAuthRateLimit, async (req: Request, res: Response) => {
+    try {
+      const { elements, includeAll, sortBy, sortOrder } = req.query;
+
+      if (!elements) {
+        return res.status(400).json({ 
+          error: 'Elements parameter is required. Provide comma-separated element symbols (e.g., "Si,O")' 
+        });
+      }
+
+      const options = parseExportOptions(req.query, minerals, MINERAL_EXPORT_COLUMNS);
+      const batches = mineralsApiService.exportByElements((elements as string).split(',').map(el => el.trim()), {
+        includeAll: includeAll === 'true',
+        sortBy: (sortBy as any) || 'name',
+        sortOrder: (sortOrder as any) || 'asc'
+      });
+
+      await streamExport(res, batches, { ...options, filename: 'minerals-by-elements' });
+    } catch (error: any) {
+      if (error instanceof ExportQueryError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Error exporting minerals by elements:', error);
+      return res.status(500).json({ error: error.message || 'Failed to export minerals' });
+    }
+  });
+
+  // Rank minerals against a measured composition (element or oxide weight percents)
+  app.post('/api/minerals/search/composition', preAuthRateLimit, validateMineralApiKey, postAuthRateLimit, async (req: Request, res: Response) => {
+    try {
+      const { analysis, basis, tolerance, tolerances, ignoreLightElements, withinToleranceOnly, limit, offset } = req.body;
+      
+      if (!analysis || typeof analysis !== 'object' || Array.isArray(analysis)) {
+        return res.status(400).json({ 
+          error: 'analysis must be an object of element or oxide weight percents, e.g. {"Si": 21.5, "O": 45.9}' 
+        });
+      }
+      
+      const results = await mineralsApiService.searchByComposition(analysis, {
+        basis: basis === 'oxide' ? 'oxide' : 'element',
+        tolerance: tolerance !== undefined ? Number(tolerance) : undefined,
+        tolerances: tolerances || {},
+        ignoreLightElements: ignoreLightElements !== false,
+        withinToleranceOnly: withinToleranceOnly === true,
+        limit: limit ? parseInt(limit) : 50,
+        offset: offset ? parseInt(offset) : 0
+      });
+      
+      return res.status(200).json(results);
+    } catch (error: any) {
+      if (error instanceof CompositionQueryError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Error searching minerals by composition:', error);
+      return res.status(500).json({ error: error.message || 'Failed to search minerals' });
+    }
+  });
+
+  // Faceted search on hardness, density, refractive index and other numeric ranges
+  app.get('/api/minerals/search/properties', preAuthRateLimit, validateMineralApiKey, postAuthRateLimit, async (req: Request, res: Response) => {
+    try {
+      const { limit, offset, sortBy, sortOrder } = req.query;
+      
+      const results = await mineralsApiService.searchByProperties(parsePropertyFilters(req.query), {
+        limit: limit ? Math.min(parseInt(limit as string), 1000) : 100,
+        offset: offset ? parseInt(offset as string) : 0,
+        sortBy: (sortBy as any) || 'name',
+        sortOrder: (sortOrder as any) || 'asc'
+      });
+      
+      return res.status(200).json(results);
+    } catch (error: any) {
+      console.error('Error searching minerals by properties:', error);
+      return res.status(500).json({ error: error.message || 'Failed to search minerals' });
+    }
+  });
+
+  // Every mineral matching a property search (format=csv|ndjson|xlsx, columns=...)
+  app.get('/api/minerals/search/properties/export', preAuthRateLimit, validateMineralApiKey, postAuthRateLimit, async (req: Request, res: Response) => {
+    try {
+      const options = parseExportOptions(req.query, minerals, MINERAL_EXPORT_COLUMNS);
+      const { sortBy, sortOrder } = req.query;
+
+      const batches = mineralsApiService.exportByProperties(parsePropertyFilters(req.query), {
+        sortBy: (sortBy as any) || 'name',
+        sortOrder: (sortOrder as any) || 'asc'
+      });
+
+      await streamExport(res, batches, { ...options, filename: 'minerals-by-properties' });
+    } catch (error: any) {
+      if (error instanceof ExportQueryError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Error exporting minerals by properties:', error);
+      return res.status(500).json({ error: error.message || 'Failed to export minerals' });
+    }
+  });
+
   // Search minerals by name or formula
   app.get('/api/minerals/search', preAuthRateLimit, validateMineralApiKey, postAuthRateLimit, async (req: Request, res: Response) => {
     try {
@@ -324,6 +786,175 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Every mineral matching a name search (format=csv|ndjson|xlsx, columns=...)
+  app.get('/api/minerals/search/export', preAuthRateLimit, validateMineralApiKey, postAuthRateLimit, async (req: Request, res: Response) => {
+    try {
+      const { q, includeFormula } = req.query;
+
+      if (!q) {
+        return res.status(400).json({ error: 'Search query (q) is required' });
+      }
+
+      const options = parseExportOptions(req.query, minerals, MINERAL_EXPORT_COLUMNS);
+      const batches = mineralsApiService.exportByName(q as string, { includeFormula: includeFormula !== 'false' });
+
+      await streamExport(res, batches, { ...options, filename: 'minerals-by-name' });
+    } catch (error: any) {
+      if (error instanceof ExportQueryError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Error exporting minerals by name:', error);
+      return res.status(500).json({ error: error.message || 'Failed to export minerals' });
+    }
+  });
+
+  // Theoretical powder XRD pattern for a synced mineral
+  app.get('/api/minerals/:id/xrd-pattern', preAuthRateLimit, validateMineralApiKey, postAuthRateLimit, async (req: Request, res: Response) => {
+    try {
+      const pattern = await xrdPatternService.getPatternForMineral(parseInt(req.params.id), parsePatternOptions(req.query));
+
+      if (!pattern) {
+        return res.status(404).json({ error: 'Mineral not found' });
+      }
+
+      return res.status(200).json(pattern);
+    } catch (error: any) {
+      if (error instanceof XrdPatternError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Error computing XRD pattern:', error);
+      return res.status(500).json({ error: error.message || 'Failed to compute XRD pattern' });
+    }
+  });
+
+  // Mineral cell and space group (plus atom sites, if a structure was uploaded) as a CIF download
+  app.get('/api/minerals/:id/cif', preAuthRateLimit, validateMineralApiKey, postAuthRateLimit, async (req: Request, res: Response) => {
+    try {
+      const file = await cifService.getMineralCif(parseInt(req.params.id));
+
+      if (!file) {
+        return res.status(404).json({ error: 'Mineral not found' });
+      }
+
+      res.set('Content-Type', 'chemical/x-cif; charset=utf-8');
+      res.set('Content-Disposition', `attachment; filename="${file.filename}"`);
+      return res.status(200).send(file.cif);
+    } catch (error: any) {
+      if (error instanceof CifExportError) {
+        return res.status(404).json({ error: error.message });
+      }
+      console.error('Error exporting CIF:', error);
+      return res.status(500).json({ error: error.message || 'Failed to export CIF' });
+    }
+  });
+
+  // Structure (cell, symmetry operations and atom sites) uploaded for a mineral
+  app.get('/api/minerals/:id/structure', preAuthRateLimit, validateMineralApiKey, postAuthRateLimit, async (req: Request, res: Response) => {
+    try {
+      const structure = await cifService.getStructure(parseInt(req.params.id));
+
+      if (!structure) {
+        return res.status(404).json({ error: 'No structure has been uploaded for this mineral' });
+      }
+
+      return res.status(200).json(structure);
+    } catch (error: any) {
+      console.error('Error getting mineral structure:', error);
+      return res.status(500).json({ error: error.message || 'Failed to get mineral structure' });
+    }
+  });
+
+  // Synonyms, varieties, polytypes, group members and type localities of a mineral
+  app.get('/api/minerals/:id/relations', preAuthRateLimit, validateMineralApiKey, postAuthRateLimit, async (req: Request, res: Response) => {
+    try {
+      const relations = await mineralsApiService.getMineralRelations(parseInt(req.params.id));
+
+      if (!relations) {
+        return res.status(404).json({ error: 'Mineral not found' });
+      }
+
+      return res.status(200).json(relations);
+    } catch (error: any) {
+      console.error('Error getting mineral relations:', error);
+      return res.status(500).json({ error: error.message || 'Failed to get mineral relations' });
+    }
+  });
+
+  // Synced localities where a mineral occurs (?typeOnly=true&country=Canada)
+  app.get('/api/minerals/:id/localities', preAuthRateLimit, validateMineralApiKey, postAuthRateLimit, async (req: Request, res: Response) => {
+    try {
+      const { typeOnly, country, limit, offset } = req.query;
+
+      const results = await localitiesApiService.getLocalitiesForMineral(parseInt(req.params.id), {
+        typeLocalitiesOnly: typeOnly === 'true',
+        country: country as string | undefined,
+        limit: limit ? Math.min(parseInt(limit as string), 1000) : 100,
+        offset: offset ? parseInt(offset as string) : 0
+      });
+
+      return res.status(200).json(results);
+    } catch (error: any) {
+      console.error('Error getting localities for mineral:', error);
+      return res.status(500).json({ error: error.message || 'Failed to get localities for mineral' });
+    }
+  });
+
+  // Field-level change history of a synced mineral (?fields=mindatFormula,imaStatus)
+  app.get('/api/minerals/:id/history', preAuthRateLimit, validateMineralApiKey, postAuthRateLimit, async (req: Request, res: Response) => {
+    try {
+      const { fields, limit, offset } = req.query;
+
+      const history = await mineralsApiService.getMineralHistory(parseInt(req.params.id), {
+        fields: fields ? (fields as string).split(',').map(field => field.trim()).filter(Boolean) : undefined,
+        limit: limit ? Math.min(parseInt(limit as string), 500) : 100,
+        offset: offset ? parseInt(offset as string) : 0
+      });
+
+      if (!history) {
+        return res.status(404).json({ error: 'Mineral not found' });
+      }
+
+      return res.status(200).json(history);
+    } catch (error: any) {
+      console.error('Error getting mineral history:', error);
+      return res.status(500).json({ error: error.message || 'Failed to get mineral history' });
+    }
+  });
+
+  // What changed since a date, across all minerals (?since=2024-01-01&fields=imaFormula,imaStatus)
+  app.get('/api/minerals/changes', preAuthRateLimit, validateMineralApiKey, postAuthRateLimit, async (req: Request, res: Response) => {
+    try {
+      const { since, until, fields, changeType, limit, offset } = req.query;
+
+      const sinceDate = since ? new Date(since as string) : null;
+      if (!sinceDate || isNaN(sinceDate.getTime())) {
+        return res.status(400).json({ error: 'A valid "since" date is required (e.g. since=2024-01-01)' });
+      }
+
+      const untilDate = until ? new Date(until as string) : undefined;
+      if (untilDate && isNaN(untilDate.getTime())) {
+        return res.status(400).json({ error: 'Invalid "until" date' });
+      }
+
+      if (changeType && changeType !== 'created' && changeType !== 'updated') {
+        return res.status(400).json({ error: 'changeType must be "created" or "updated"' });
+      }
+
+      const feed = await mineralsApiService.getChangesSince(sinceDate, {
+        until: untilDate,
+        fields: fields ? (fields as string).split(',').map(field => field.trim()).filter(Boolean) : undefined,
+        changeType: changeType as 'created' | 'updated' | undefined,
+        limit: limit ? Math.min(parseInt(limit as string), 1000) : 100,
+        offset: offset ? parseInt(offset as string) : 0
+      });
+
+      return res.status(200).json(feed);
+    } catch (error: any) {
+      console.error('Error getting mineral changes:', error);
+      return res.status(500).json({ error: error.message || 'Failed to get mineral changes' });
+    }
+  });
+
   // Get mineral by ID
   app.get('/api/minerals/:id', preAuthRateLimit, validateMineralApiKey, postAuthRateLimit, async (req: Request, res: Response) => {
     try {
@@ -381,16 +1012,104 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Localities API Routes - served from the synced localities and locality_minerals tables
+
+  // Search localities by name and country
+  app.get('/api/localities/search', preAuthRateLimit, validateMineralApiKey, postAuthRateLimit, async (req: Request, res: Response) => {
+    try {
+      const { name, country, limit, offset } = req.query;
+
+      if (!name && !country) {
+        return res.status(400).json({ error: 'name or country parameter is required' });
+      }
+
+      const results = await localitiesApiService.searchLocalities({
+        name: name as string | undefined,
+        country: country as string | undefined,
+        limit: limit ? Math.min(parseInt(limit as string), 500) : 50,
+        offset: offset ? parseInt(offset as string) : 0
+      });
+
+      return res.status(200).json(results);
+    } catch (error: any) {
+      console.error('Error searching localities:', error);
+      return res.status(500).json({ error: error.message || 'Failed to search localities' });
+    }
+  });
+
+  // Localities inside a box (?bbox=west,south,east,north&elements=Te&typeOnly=true)
+  app.get('/api/localities/within', preAuthRateLimit, validateMineralApiKey, postAuthRateLimit, searchLocalitiesWithin);
+
+  // Localities within a radius of a point, nearest first (?lat=46.5&lon=-72.9&radiusKm=50&elements=Te)
+  app.get('/api/localities/near', preAuthRateLimit, validateMineralApiKey, postAuthRateLimit, searchLocalitiesNear);
+
+  // Locality with its hierarchy (country -> region -> ... -> this locality)
+  app.get('/api/localities/:id', preAuthRateLimit, validateMineralApiKey, postAuthRateLimit, async (req: Request, res: Response) => {
+    try {
+      const result = await localitiesApiService.getLocalityById(parseInt(req.params.id));
+
+      if (!result) {
+        return res.status(404).json({ error: 'Locality not found' });
+      }
+
+      return res.status(200).json(result);
+    } catch (error: any) {
+      console.error('Error getting locality:', error);
+      return res.status(500).json({ error: error.message || 'Failed to get locality' });
+    }
+  });
+
+  // Direct sub-localities (regions of a country, mines of a district, ...)
+  app.get('/api/localities/:id/children', preAuthRateLimit, validateMineralApiKey, postAuthRateLimit, async (req: Request, res: Response) => {
+    try {
+      const { limit, offset } = req.query;
+
+      const results = await localitiesApiService.getChildLocalities(parseInt(req.params.id), {
+        limit: limit ? Math.min(parseInt(limit as string), 1000) : 100,
+        offset: offset ? parseInt(offset as string) : 0
+      });
+
+      return res.status(200).json(results);
+    } catch (error: any) {
+      console.error('Error getting child localities:', error);
+      return res.status(500).json({ error: error.message || 'Failed to get child localities' });
+    }
+  });
+
+  // Minerals at a locality (?includeSublocalities=true&typeOnly=true)
+  app.get('/api/localities/:id/minerals', preAuthRateLimit, validateMineralApiKey, postAuthRateLimit, async (req: Request, res: Response) => {
+    try {
+      const { includeSublocalities, typeOnly, limit, offset } = req.query;
+
+      const results = await localitiesApiService.getMineralsAtLocality(parseInt(req.params.id), {
+        includeSublocalities: includeSublocalities === 'true',
+        typeLocalitiesOnly: typeOnly === 'true',
+        limit: limit ? Math.min(parseInt(limit as string), 5000) : 500,
+        offset: offset ? parseInt(offset as string) : 0
+      });
+
+      return res.status(200).json(results);
+    } catch (error: any) {
+      console.error('Error getting minerals at locality:', error);
+      return res.status(500).json({ error: error.message || 'Failed to get minerals at locality' });
+    }
+  });
+
+  // GraphQL over minerals, RRUFF minerals and spectra, and classifications.
+  // Same API keys and rate limits as the REST API; queries only need read permission.
+  registerGraphqlRoutes(app, [preAuthRateLimit, validateMineralApiKeyForRead, postAuthRateLimit]);
+
   // Manual sync triggers (for administrative use)
   app.post('/api/minerals/sync', preAuthRateLimit, validateMineralApiKey, postAuthRateLimit, requireAdminPermissions, async (req: Request, res: Response) => {
     try {
-      const { type = 'incremental' } = req.body;
+      const { type = 'incremental', force = false } = req.body;
       
-      if (type !== 'full' && type !== 'incremental') {
-        return res.status(400).json({ error: 'Sync type must be "full" or "incremental"' });
+      if (type !== 'full' && type !== 'incremental' && type !== 'localities') {
+        return res.status(400).json({ error: 'Sync type must be "full", "incremental" or "localities"' });
       }
       
-      const result = await cronService.triggerMineralSync(type);
+      // force (full sync only) rewrites every record, e.g. to backfill new columns and relations
+      const result = await cronService.triggerMineralSync(type, { force: force === true });
       return res.status(200).json({ success: true, result });
     } catch (error: any) {
       console.error('Error triggering mineral sync:', error);
@@ -404,7 +1123,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get sync status
   app.get('/api/minerals/sync/status', preAuthRateLimit, validateMineralApiKey, postAuthRateLimit, async (req: Request, res: Response) => {
     try {
-      const status = cronService.getSyncStatus();
+      const status = await cronService.getSyncStatus();
       return res.status(200).json(status);
     } catch (error: any) {
       console.error('Error getting sync status:', error);
@@ -412,6 +1131,147 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Mindat/RRUFF species links: rebuild, review queue and curator decisions (admin)
+  app.post('/api/minerals/admin/rruff-links/rebuild', preAuthRateLimit, validateMineralApiKey, postAuthRateLimit, requireAdminPermissions, async (req: Request, res: Response) => {
+    try {
+      const result = await mineralLinkingService.rebuildLinks();
+      return res.status(200).json({ success: true, result });
+    } catch (error: any) {
+      console.error('Error rebuilding RRUFF links:', error);
+      return res.status(500).json({ error: error.message || 'Failed to rebuild RRUFF links' });
+    }
+  });
+
+  app.get('/api/minerals/admin/rruff-links/review', preAuthRateLimit, validateMineralApiKey, postAuthRateLimit, requireAdminPermissions, async (req: Request, res: Response) => {
+    try {
+      const { limit, offset } = req.query;
+
+      const results = await mineralLinkingService.getReviewQueue({
+        limit: limit ? Math.min(parseInt(limit as string), 200) : 50,
+        offset: offset ? parseInt(offset as string) : 0
+      });
+
+      return res.status(200).json(results);
+    } catch (error: any) {
+      console.error('Error getting RRUFF link review queue:', error);
+      return res.status(500).json({ error: error.message || 'Failed to get RRUFF link review queue' });
+    }
+  });
+
+  app.put('/api/minerals/admin/rruff-links/:id', preAuthRateLimit, validateMineralApiKey, postAuthRateLimit, requireAdminPermissions, async (req: Request, res: Response) => {
+    try {
+      const { status } = req.body;
+
+      if (status !== 'confirmed' && status !== 'rejected') {
+        return res.status(400).json({ error: 'Status must be "confirmed" or "rejected"' });
+      }
+
+      const link = await mineralLinkingService.reviewLink(parseInt(req.params.id), status, req.mineralApiKey!.name);
+
+      if (!link) {
+        return res.status(404).json({ error: 'Link not found' });
+      }
+
+      return res.status(200).json(link);
+    } catch (error: any) {
+      console.error('Error reviewing RRUFF link:', error);
+      return res.status(500).json({ error: error.message || 'Failed to review RRUFF link' });
+    }
+  });
+
+  app.post('/api/minerals/admin/rruff-links', preAuthRateLimit, validateMineralApiKey, postAuthRateLimit, requireAdminPermissions, async (req: Request, res: Response) => {
+    try {
+      const mineralId = parseInt(req.body.mineralId);
+      const rruffMineralId = parseInt(req.body.rruffMineralId);
+
+      if (isNaN(mineralId) || isNaN(rruffMineralId)) {
+        return res.status(400).json({ error: 'mineralId and rruffMineralId are required' });
+      }
+
+      const link = await mineralLinkingService.createManualLink(mineralId, rruffMineralId, req.mineralApiKey!.name);
+
+      if (!link) {
+        return res.status(404).json({ error: 'Mineral or RRUFF mineral not found' });
+      }
+
+      return res.status(201).json(link);
+    } catch (error: any) {
+      console.error('Error creating RRUFF link:', error);
+      return res.status(500).json({ error: error.message || 'Failed to create RRUFF link' });
+    }
+  });
+
+  // Where synced Mindat data and RRUFF data disagree (admin); ?format=csv downloads every row
+  app.get('/api/minerals/admin/discrepancies', preAuthRateLimit, validateMineralApiKey, postAuthRateLimit, requireAdminPermissions, async (req: Request, res: Response) => {
+    try {
+      const options = parseDiscrepancyOptions(req.query);
+
+      if (req.query.format === 'csv') {
+        const rows = await mineralLinkingService.exportDiscrepancies(options);
+        res.set('Content-Type', 'text/csv; charset=utf-8');
+        res.set('Content-Disposition', 'attachment; filename="mindat-rruff-discrepancies.csv"');
+        return res.status(200).send(discrepanciesToCsv(rows));
+      }
+
+      const report = await mineralLinkingService.getDiscrepancyReport(options);
+      return res.status(200).json(report);
+    } catch (error: any) {
+      if (error instanceof DiscrepancyQueryError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Error getting discrepancy report:', error);
+      return res.status(500).json({ error: error.message || 'Failed to get discrepancy report' });
+    }
+  });
+
+  // Attach a CIF upload ({ cif, filename }) to a mineral, replacing any earlier upload (admin)
+  app.put('/api/minerals/admin/structures/:mineralId', preAuthRateLimit, validateMineralApiKey, postAuthRateLimit, requireAdminPermissions, async (req: Request, res: Response) => {
+    try {
+      const mineralId = parseInt(req.params.mineralId);
+      const { cif, filename } = req.body || {};
+
+      if (isNaN(mineralId)) {
+        return res.status(400).json({ error: 'Invalid mineral ID' });
+      }
+      if (typeof cif !== 'string' || !cif.trim()) {
+        return res.status(400).json({ error: 'CIF content is required' });
+      }
+
+      const structure = await cifService.importCif(mineralId, cif, {
+        filename: typeof filename === 'string' ? filename : null,
+        uploadedBy: req.mineralApiKey!.name
+      });
+
+      if (!structure) {
+        return res.status(404).json({ error: 'Mineral not found' });
+      }
+
+      return res.status(200).json(structure);
+    } catch (error: any) {
+      if (error instanceof CifParseError) {
+        return res.status(400).json({ error: `Invalid CIF: ${error.message}` });
+      }
+      console.error('Error importing CIF:', error);
+      return res.status(500).json({ error: error.message || 'Failed to import CIF' });
+    }
+  });
+
+  // Remove the uploaded structure of a mineral (admin)
+  app.delete('/api/minerals/admin/structures/:mineralId', preAuthRateLimit, validateMineralApiKey, postAuthRateLimit, requireAdminPermissions, async (req: Request, res: Response) => {
+    try {
+      const deleted = await cifService.deleteStructure(parseInt(req.params.mineralId));
+
+      if (!deleted) {
+        return res.status(404).json({ error: 'No structure has been uploaded for this mineral' });
+      }
+
+      return res.status(200).json({ success: true });
+    } catch (error: any) {
+      console.error('Error deleting mineral structure:', error);
+      return res.status(500).json({ error: error.message || 'Failed to delete mineral structure' });
+    }
+  });
+
   // API key management for the minerals API
   app.post('/api/minerals/api-keys', preAuthRateLimit, validateMineralApiKey, postAuthRateLimit, requireAdminPermissions, async (req: Request, res: Response) => {
     try {
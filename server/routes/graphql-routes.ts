@@ -0,0 +1,63 @@
+import type { Express, Request, RequestHandler, Response } from 'express';
+import { GraphQLError, Kind, execute, parse, specifiedRules, validate, type DocumentNode } from 'graphql';
+import { createGraphqlContext, depthLimitRule, graphqlSchema } from '../services/graphql-schema.js';
+
+/**
+ * Register the GraphQL endpoint (GET ?query=... or POST { query, variables, operationName })
+ * @param authMiddleware API key validation and rate limiting, shared with the Minerals API
+ */
+export function registerGraphqlRoutes(app: Express, authMiddleware: RequestHandler[]) {
+  const handleGraphqlRequest = async (req: Request, res: Response) => {
+    const params = req.method === 'GET' ? req.query : (req.body || {});
+    const { query, operationName } = params;
+
+    if (!query || typeof query !== 'string') {
+      return res.status(400).json({ errors: [{ message: 'Must provide a query string' }] });
+    }
+
+    let variables = params.variables;
+    if (typeof variables === 'string') {
+      try {
+        variables = JSON.parse(variables);
+      } catch {
+        return res.status(400).json({ errors: [{ message: 'variables must be a JSON object' }] });
+      }
+    }
+
+    let document: DocumentNode;
+    try {
+      document = parse(query);
+    } catch (error) {
+      return res.status(400).json({ errors: [error instanceof GraphQLError ? error : { message: String(error) }] });
+    }
+
+    const validationErrors = validate(graphqlSchema, document, [...specifiedRules, depthLimitRule()]);
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ errors: validationErrors });
+    }
+
+    // The schema is read-only; refuse anything but queries rather than fail later
+    const operations = document.definitions.filter(definition => definition.kind === Kind.OPERATION_DEFINITION);
+    if (operations.some(operation => operation.kind === Kind.OPERATION_DEFINITION && operation.operation !== 'query')) {
+      return res.status(405).json({ errors: [{ message: 'Only query operations are supported' }] });
+    }
+
+    try {
+      const result = await execute({
+        schema: graphqlSchema,
+        document,
+        variableValues: variables || undefined,
+        operationName: typeof operationName === 'string' ? operationName : undefined,
+        contextValue: createGraphqlContext()
+      });
+
+      return res.status(200).json(result);
+    } catch (error: any) {
+      console.error('Error executing GraphQL query:', error);
+      return res.status(500).json({ errors: [{ message: error.message || 'Failed to execute query' }] });
+    }
+  };
+
+  app.get('/api/graphql', ...authMiddleware, handleGraphqlRequest);
+  app.post('/api/graphql', ...authMiddleware, handleGraphqlRequest);
+}
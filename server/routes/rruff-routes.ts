@@ -7,7 +7,14 @@ import {
   rruffSpectra, 
   insertRruffApiKeySchema 
 } from '@shared/rruff-schema';
-import { rruffCsvImporter } from '../services/rruff-csv-importer';
+import { resolveImportPath, rruffCsvImporter, RruffImportPathError } from '../services/rruff-csv-importer';
+import { spectrumMatcher, SpectrumQueryError } from '../services/spectrum-matcher';
+import { rruffPeakService } from '../services/rruff-peak-service';
+import { parseSpectrumText, SpectrumPoint } from '../services/spectrum-processing';
+import { xrdPatternService, parsePatternOptions, XrdPatternError } from '../services/xrd-pattern-service';
+import { toElementSymbol } from '../services/formula-parser';
+import { ExportQueryError, inBatches, parseExportOptions, streamExport } from '../services/result-export';
+import { CifExportError, CifService } from '../services/cif-service';
 import { and, asc, desc, eq, ilike, inArray, like, or, sql } from 'drizzle-orm';
 import { randomBytes } from 'crypto';
 
@@ -94,6 +101,56 @@ export function updateImportProgress(completed: number, inProgress: boolean = tr
   }
 }
 
+// Columns exported when the request does not choose any
+const RRUFF_EXPORT_COLUMNS = [
+  'id', 'rruffId', 'mineralName', 'imaStatus', 'chemicalFormula', 'idealChemistry', 'crystalSystem',
+  'crystalClass', 'spaceGroup', 'unitCell', 'hardness', 'density', 'color', 'elementComposition', 'url'
+];
+
+/**
+ * Filters and sort order of the RRUFF mineral search (name, elements, crystalSystem, sortBy, sortOrder)
+ */
+function rruffMineralSearch(query: Record<string, unknown>) {
+  const { name, elements, crystalSystem, sortBy = 'name', sortOrder = 'asc' } = query;
+
+  // Build query conditions
+  const conditions = [];
+  
+  if (name) {
+    // Use case-insensitive search with ilike
+    conditions.push(ilike(rruffMinerals.mineralName, `%${name}%`));
+  }
+  
+  if (crystalSystem && crystalSystem !== 'any') {
+    // Use case-insensitive search for crystal system
+    conditions.push(ilike(rruffMinerals.crystalSystem, `%${crystalSystem}%`));
+  }
+  
+  if (elements) {
+    // Match element symbols as keys of the parsed composition, so that
+    // "S" no longer matches every mineral containing Si or Sn
+    const elementList = (elements as string).split(',').map(toElementSymbol).filter(Boolean);
+    elementList.forEach(element => {
+      conditions.push(sql`${rruffMinerals.elementComposition}::jsonb ? ${element}`);
+    });
+  }
+  
+  // Determine sort column and direction
+  let orderColumn: any;
+  if (sortBy === 'name') orderColumn = rruffMinerals.mineralName;
+  else if (sortBy === 'crystalSystem') orderColumn = rruffMinerals.crystalSystem;
+  else if (sortBy === 'formula') orderColumn = rruffMinerals.chemicalFormula;
+  else if (sortBy === 'updated') orderColumn = rruffMinerals.lastUpdated;
+  else orderColumn = rruffMinerals.mineralName;
+  
+  const sortDirection = sortOrder === 'desc' ? desc : asc;
+
+  return {
+    where: conditions.length > 0 ? and(...conditions) : undefined,
+    orderBy: sortDirection(orderColumn)
+  };
+}
+
 export function registerRruffRoutes(app: any) {
   // Public endpoints (no API key required)
   
@@ -124,69 +181,29 @@ export function registerRruffRoutes(app: any) {
         elements, 
         crystalSystem, 
         page = 1, 
-        limit = 20,
-        sortBy = 'name',
-        sortOrder = 'asc'
+        limit = 20
       } = req.query;
       
       console.log('Search request:', { name, elements, crystalSystem, page, limit });
       
       const offset = (Number(page) - 1) * Number(limit);
-      
-      // Build query conditions
-      const conditions = [];
-      
-      if (name) {
-        // Use case-insensitive search with ilike
-        conditions.push(ilike(rruffMinerals.mineralName, `%${name}%`));
-      }
-      
-      if (crystalSystem && crystalSystem !== 'any') {
-        // Use case-insensitive search for crystal system
-        conditions.push(ilike(rruffMinerals.crystalSystem, `%${crystalSystem}%`));
-      }
-      
-      if (elements) {
-        // This is a simplified approach for element composition search
-        const elementList = (elements as string).split(',');
-        elementList.forEach(element => {
-          conditions.push(sql`${rruffMinerals.elementComposition}::text ILIKE ${'%' + element.trim() + '%'}`);
-        });
-      }
-      
-      // Determine sort column and direction
-      let orderColumn: any;
-      if (sortBy === 'name') orderColumn = rruffMinerals.mineralName;
-      else if (sortBy === 'crystalSystem') orderColumn = rruffMinerals.crystalSystem;
-      else if (sortBy === 'formula') orderColumn = rruffMinerals.chemicalFormula;
-      else if (sortBy === 'updated') orderColumn = rruffMinerals.lastUpdated;
-      else orderColumn = rruffMinerals.mineralName;
-      
-      const sortDirection = sortOrder === 'desc' ? desc : asc;
+      const { where, orderBy } = rruffMineralSearch(req.query);
       
       // Build and execute query
       const query = db.select()
         .from(rruffMinerals)
+        .where(where)
         .limit(Number(limit))
         .offset(offset)
-        .orderBy(sortDirection(orderColumn));
-        
-      if (conditions.length > 0) {
-        query.where(and(...conditions));
-      }
+        .orderBy(orderBy);
       
       const minerals = await query;
       console.log(`Found ${minerals.length} minerals matching the criteria`);
       
       // Count total matching records for pagination
-      const countQuery = db.select({ count: sql<number>`count(*)` })
-        .from(rruffMinerals);
-        
-      if (conditions.length > 0) {
-        countQuery.where(and(...conditions));
-      }
-      
-      const [countResult] = await countQuery;
+      const [countResult] = await db.select({ count: sql<number>`count(*)` })
+        .from(rruffMinerals)
+        .where(where);
       const totalCount = countResult?.count || 0;
       
       return res.json({
@@ -204,6 +221,30 @@ export function registerRruffRoutes(app: any) {
     }
   });
   
+  // Export every mineral matching the /api/rruff/minerals filters (format=csv|ndjson|xlsx, columns=...)
+  app.get('/api/rruff/minerals/export', async (req: Request, res: Response) => {
+    try {
+      const options = parseExportOptions(req.query, rruffMinerals, RRUFF_EXPORT_COLUMNS);
+      const { where, orderBy } = rruffMineralSearch(req.query);
+
+      const batches = inBatches((limit, offset) => db.select()
+        .from(rruffMinerals)
+        .where(where)
+        .orderBy(orderBy, asc(rruffMinerals.id))
+        .limit(limit)
+        .offset(offset)
+      );
+
+      await streamExport(res, batches, { ...options, filename: 'rruff-minerals' });
+    } catch (error: any) {
+      if (error instanceof ExportQueryError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Error exporting minerals:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+  
   // Get a specific mineral by ID - temporarily removing API key requirement for testing
   app.get('/api/rruff/minerals/:id', async (req: Request, res: Response) => {
     try {
@@ -237,6 +278,9 @@ export function registerRruffRoutes(app: any) {
         density: mineral.density,
         hardness: mineral.hardness,
         elementComposition: mineral.elementComposition,
+        molecularWeight: mineral.molecularWeight,
+        elementWeightPercents: mineral.elementWeightPercents,
+        oxideWeightPercents: mineral.oxideWeightPercents,
         yearFirstPublished: mineral.yearFirstPublished,
         comments: mineral.comments,
         url: mineral.url,
@@ -275,7 +319,7 @@ export function registerRruffRoutes(app: any) {
           ilike(rruffMinerals.crystalSystem, `%${term}%`),
           ilike(rruffMinerals.crystalClass, `%${term}%`),
           ilike(rruffMinerals.color, `%${term}%`),
-          sql`${rruffMinerals.elementComposition}::text ILIKE ${'%' + term + '%'}`
+          sql`${rruffMinerals.elementComposition}::jsonb ? ${toElementSymbol(term)}`
         );
       });
       
@@ -341,6 +385,124 @@ export function registerRruffRoutes(app: any) {
     }
   });
   
+  // Theoretical powder XRD pattern from the mineral's unit cell and space group
+  app.get('/api/rruff/minerals/:id/xrd-pattern', async (req: Request, res: Response) => {
+    try {
+      const pattern = await xrdPatternService.getPatternForRruffMineral(parseInt(req.params.id), parsePatternOptions(req.query));
+
+      if (!pattern) {
+        return res.status(404).json({ error: 'Mineral not found' });
+      }
+
+      return res.json(pattern);
+    } catch (error) {
+      if (error instanceof XrdPatternError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error(`Error computing XRD pattern for mineral ID ${req.params.id}:`, error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+  
+  // Unit cell and space group as a CIF download
+  app.get('/api/rruff/minerals/:id/cif', async (req: Request, res: Response) => {
+    try {
+      const file = await CifService.getInstance().getRruffMineralCif(parseInt(req.params.id));
+
+      if (!file) {
+        return res.status(404).json({ error: 'Mineral not found' });
+      }
+
+      res.set('Content-Type', 'chemical/x-cif; charset=utf-8');
+      res.set('Content-Disposition', `attachment; filename="${file.filename}"`);
+      return res.send(file.cif);
+    } catch (error) {
+      if (error instanceof CifExportError) {
+        return res.status(404).json({ error: error.message });
+      }
+      console.error(`Error exporting CIF for mineral ID ${req.params.id}:`, error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+  
+  // Find stored spectra most similar to an uploaded unknown spectrum
+  app.post('/api/rruff/spectra/search', async (req: Request, res: Response) => {
+    try {
+      const { spectrum, dataPoints, spectraType, limit = 10, correctBaseline = true } = req.body || {};
+      
+      // Accept either raw two-column text or pre-parsed [x, y] pairs
+      let points: SpectrumPoint[] = [];
+      if (typeof spectrum === 'string') {
+        points = parseSpectrumText(spectrum);
+      } else if (Array.isArray(dataPoints)) {
+        points = dataPoints
+          .filter((point: any) => Array.isArray(point) && point.length >= 2)
+          .map((point: any) => [Number(point[0]), Number(point[1])] as SpectrumPoint);
+      }
+      
+      if (points.length < 10) {
+        return res.status(400).json({ error: 'A spectrum with at least 10 x,y data points is required' });
+      }
+      
+      const result = await spectrumMatcher.search(points, {
+        spectraType: spectraType || undefined,
+        limit: Math.min(Number(limit) || 10, 50),
+        correctBaseline: correctBaseline !== false
+      });
+      
+      return res.json(result);
+    } catch (error) {
+      if (error instanceof SpectrumQueryError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Error searching similar spectra:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+  
+  // Rank minerals by how many observed peak positions they match
+  app.post('/api/rruff/peaks/search', async (req: Request, res: Response) => {
+    try {
+      const { peaks, tolerance = 5, spectraType, minMatches = 1, limit = 20 } = req.body || {};
+      
+      // Accept an array of numbers or a comma/whitespace separated string
+      const positions: number[] = (Array.isArray(peaks) ? peaks : String(peaks || '').split(/[\s,;]+/))
+        .map((value: any) => parseFloat(value))
+        .filter((value: number) => Number.isFinite(value));
+      
+      if (positions.length === 0) {
+        return res.status(400).json({ error: 'At least one peak position is required' });
+      }
+      
+      if (!(Number(tolerance) > 0)) {
+        return res.status(400).json({ error: 'Tolerance must be a positive number' });
+      }
+      
+      const matches = await rruffPeakService.searchByPeaks(positions, {
+        tolerance: Number(tolerance),
+        spectraType: spectraType || undefined,
+        minMatches: Number(minMatches) || 1,
+        limit: Math.min(Number(limit) || 20, 100)
+      });
+      
+      return res.json({ matches, observedPeaks: positions.length, tolerance: Number(tolerance) });
+    } catch (error) {
+      console.error('Error searching minerals by peaks:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+  
+  // Get the extracted peak list for a spectrum
+  app.get('/api/rruff/spectra/:id/peaks', async (req: Request, res: Response) => {
+    try {
+      const peaks = await rruffPeakService.getPeaksForSpectrum(parseInt(req.params.id));
+      return res.json({ peaks });
+    } catch (error) {
+      console.error(`Error fetching peaks for spectrum ID ${req.params.id}:`, error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+  
   // --- Admin endpoints ---
   
   // Get import progress
@@ -411,6 +573,58 @@ export function registerRruffRoutes(app: any) {
     }
   });
   
+  // Import spectrum files from a directory or zip archive inside the server's
+  // import directory (admin only)
+  app.post('/api/rruff/admin/import-files', validateRruffApiKey, async (req: Request, res: Response) => {
+    try {
+      const { path: requestedPath } = req.body || {};
+      
+      if (!requestedPath || typeof requestedPath !== 'string') {
+        return res.status(400).json({ error: 'A directory or zip archive path is required' });
+      }
+      
+      const sourcePath = resolveImportPath(requestedPath);
+      res.json({ message: 'Spectrum file import started' });
+      
+      rruffCsvImporter.importSpectraFromPath(sourcePath)
+        .then(result => {
+          console.log(`Imported ${result.spectraCount} spectra from ${sourcePath}.`);
+          if (result.errors.length > 0) {
+            console.log(`Encountered ${result.errors.length} errors during import.`);
+            result.errors.forEach(err => console.error(`- ${err}`));
+          }
+        })
+        .catch(error => {
+          console.error('Spectrum file import failed:', error);
+        });
+    } catch (error) {
+      if (error instanceof RruffImportPathError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Error starting spectrum file import:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+  
+  // Re-extract peak lists for every stored spectrum (admin only)
+  app.post('/api/rruff/admin/peaks/rebuild', async (req: Request, res: Response) => {
+    try {
+      res.json({ message: 'Peak extraction started' });
+      
+      rruffPeakService.rebuildAllPeaks()
+        .then(result => {
+          console.log(`Peak extraction completed: ${result.peaks} peaks from ${result.spectra} spectra.`);
+          result.errors.forEach(err => console.error(`- ${err}`));
+        })
+        .catch(error => {
+          console.error('Peak extraction failed:', error);
+        });
+    } catch (error) {
+      console.error('Error starting peak extraction:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+  
   // Get import logs (admin only)
   app.get('/api/rruff/admin/import-logs', async (req: Request, res: Response) => {
     try {
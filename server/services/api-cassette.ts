@@ -0,0 +1,196 @@
+/**
+ * Mindat API Cassettes
+ *
+ * Record-and-replay storage for the requests SecureApiProxy sends to Mindat:
+ * 1. Record mode appends every request/response pair to a JSON cassette file
+ * 2. Replay mode answers requests from the cassette without touching the network,
+ *    so demos, local CI runs and bug reports are reproducible
+ * 3. Authorization (and cookie) headers are scrubbed before anything is written
+ * 4. Requests are matched on method, path and sorted query string, so a cassette
+ *    recorded against api.mindat.org replays under any MINDAT_API_BASE_URL
+ *
+ * Configured from the environment:
+ *   MINDAT_CASSETTE_MODE   off (default) | record | replay
+ *   MINDAT_CASSETTE        cassette file (default cassettes/mindat.json)
+ *   MINDAT_CASSETTE_SCRUB  set to "false" to keep the Authorization header
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+export interface CassetteInteraction {
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    body: any;
+  };
+  recordedAt: string;
+}
+
+export interface Cassette {
+  version: number;
+  createdAt: string;
+  interactions: CassetteInteraction[];
+}
+
+export interface CassetteOptions {
+  mode?: CassetteMode;
+  file?: string;
+  scrubAuthorization?: boolean;
+}
+
+const CASSETTE_VERSION = 1;
+const DEFAULT_CASSETTE_FILE = 'cassettes/mindat.json';
+const REDACTED = '[REDACTED]';
+const SENSITIVE_HEADERS = ['authorization', 'cookie', 'set-cookie'];
+
+function parseMode(value: string | undefined): CassetteMode {
+  return value === 'record' || value === 'replay' ? value : 'off';
+}
+
+/**
+ * Match key for a request: method plus path and query with parameters sorted,
+ * ignoring the host so recordings are portable between base URLs
+ */
+export function cassetteKey(method: string, url: string): string {
+  const parsed = new URL(url);
+  const params = Array.from(parsed.searchParams.entries())
+    .sort(([a, av], [b, bv]) => a.localeCompare(b) || av.localeCompare(bv));
+  const query = new URLSearchParams(params).toString();
+  return `${method.toUpperCase()} ${parsed.pathname}${query ? `?${query}` : ''}`;
+}
+
+export class ApiCassette {
+  private mode: CassetteMode;
+  private file: string;
+  private scrubAuthorization: boolean;
+  private cassette: Cassette | null = null;
+  // Replay position for each key, so repeated requests get successive recordings
+  private playback = new Map<string, number>();
+
+  constructor(options: CassetteOptions = {}) {
+    this.mode = options.mode ?? parseMode(process.env.MINDAT_CASSETTE_MODE);
+    this.file = path.resolve(options.file ?? process.env.MINDAT_CASSETTE ?? DEFAULT_CASSETTE_FILE);
+    this.scrubAuthorization = options.scrubAuthorization ?? process.env.MINDAT_CASSETTE_SCRUB !== 'false';
+  }
+
+  /**
+   * Switch mode or cassette file at runtime (scripts and reproduction runs)
+   */
+  configure(options: CassetteOptions): void {
+    if (options.mode !== undefined) this.mode = options.mode;
+    if (options.file !== undefined) this.file = path.resolve(options.file);
+    if (options.scrubAuthorization !== undefined) this.scrubAuthorization = options.scrubAuthorization;
+    this.cassette = null;
+    this.playback.clear();
+  }
+
+  getMode(): CassetteMode {
+    return this.mode;
+  }
+
+  isRecording(): boolean {
+    return this.mode === 'record';
+  }
+
+  isReplaying(): boolean {
+    return this.mode === 'replay';
+  }
+
+  /**
+   * Find the recorded response for a request. Repeated requests are served the
+   * matching recordings in order, and the last one once they run out.
+   */
+  replay(method: string, url: string): CassetteInteraction['response'] {
+    const key = cassetteKey(method, url);
+    const matches = this.load().interactions.filter(interaction =>
+      cassetteKey(interaction.request.method, interaction.request.url) === key
+    );
+
+    if (matches.length === 0) {
+      throw new Error(`No cassette recording for ${key} in ${this.file}`);
+    }
+
+    const position = this.playback.get(key) ?? 0;
+    this.playback.set(key, position + 1);
+    return matches[Math.min(position, matches.length - 1)].response;
+  }
+
+  /**
+   * Append a request/response pair and write the cassette to disk
+   */
+  record(
+    request: { method: string; url: string; headers: Record<string, string> },
+    response: { status: number; headers: Record<string, string>; body: any }
+  ): void {
+    const cassette = this.load();
+
+    cassette.interactions.push({
+      request: {
+        method: request.method.toUpperCase(),
+        url: request.url,
+        headers: this.scrubHeaders(request.headers)
+      },
+      response: {
+        status: response.status,
+        headers: this.scrubHeaders(response.headers),
+        body: response.body
+      },
+      recordedAt: new Date().toISOString()
+    });
+
+    this.save(cassette);
+  }
+
+  getStatus() {
+    return {
+      mode: this.mode,
+      file: this.file,
+      scrubAuthorization: this.scrubAuthorization,
+      interactions: this.cassette || fs.existsSync(this.file) ? this.load().interactions.length : 0
+    };
+  }
+
+  private scrubHeaders(headers: Record<string, string>): Record<string, string> {
+    if (!this.scrubAuthorization) return { ...headers };
+
+    return Object.fromEntries(Object.entries(headers).map(([name, value]) =>
+      [name, SENSITIVE_HEADERS.includes(name.toLowerCase()) ? REDACTED : value]
+    ));
+  }
+
+  private load(): Cassette {
+    if (this.cassette) return this.cassette;
+
+    if (fs.existsSync(this.file)) {
+      const cassette = JSON.parse(fs.readFileSync(this.file, 'utf-8')) as Cassette;
+      if (cassette.version !== CASSETTE_VERSION || !Array.isArray(cassette.interactions)) {
+        throw new Error(`Unsupported cassette format in ${this.file}`);
+      }
+      this.cassette = cassette;
+    } else if (this.mode === 'replay') {
+      throw new Error(`Cassette not found: ${this.file}`);
+    } else {
+      this.cassette = { version: CASSETTE_VERSION, createdAt: new Date().toISOString(), interactions: [] };
+    }
+
+    return this.cassette;
+  }
+
+  // Write to a temporary file first so an interrupted run never leaves a truncated cassette
+  private save(cassette: Cassette): void {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    const temporary = `${this.file}.tmp`;
+    fs.writeFileSync(temporary, JSON.stringify(cassette, null, 2));
+    fs.renameSync(temporary, this.file);
+  }
+}
+
+export const apiCassette = new ApiCassette();
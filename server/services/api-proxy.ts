@@ -1,3 +1,5 @@
+import { DEFAULT_MINDAT_BASE_URL, getMindatBaseUrl, isMindatBaseUrlOverridden } from './mindat-config';
+
 /**
  * Proxies requests to the Mindat API
  * @param path - The API path to request
@@ -16,8 +18,9 @@ export async function proxyApiRequest(
 ): Promise<any> {
   try {
     // Try several API base URLs based on the updated documentation
-    const baseUrls = [
-      'https://api.mindat.org',
+    // A configured MINDAT_API_BASE_URL (e.g. the offline mock) replaces the fallback list
+    const baseUrls = isMindatBaseUrlOverridden() ? [getMindatBaseUrl()] : [
+      DEFAULT_MINDAT_BASE_URL,
       'https://www.mindat.org/api',
       'https://mindat.org/api',
       'https://147.135.28.115' // Alternate URL during migration (per documentation) - Try last as it may be offline
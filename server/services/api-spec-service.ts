@@ -0,0 +1,194 @@
+/**
+ * Mindat API Spec Snapshot Service
+ *
+ * 1. Stores every distinct swagger.json fetched from Mindat as a snapshot, with
+ *    the changes from the snapshot before it (see openapi-diff.ts)
+ * 2. Re-parses the document into the explorer's categories and endpoints only
+ *    when it differs from the latest snapshot; endpoints it no longer lists are
+ *    deactivated
+ * 3. Builds the changelog between any two snapshots
+ */
+
+import { createHash } from 'crypto';
+import { db } from '../db';
+import { desc, eq } from 'drizzle-orm';
+import { apiSpecSnapshots, type ApiSpecSnapshot } from '@shared/schema';
+import type { OpenAPIDocument } from '../../client/src/types/api';
+import { storage } from '../storage';
+import { fetchSwaggerDocs, parseSwaggerDoc } from './swagger-parser';
+import { diffSpecs, type SpecDiff, type SpecDiffSummary } from './openapi-diff';
+
+export class ApiSpecSnapshotError extends Error {}
+
+export interface ApiSpecSnapshotSummary {
+  id: number;
+  version: string;
+  title: string | null;
+  specHash: string;
+  endpointCount: number;
+  previousSnapshotId: number | null;
+  fetchedAt: Date | null;
+  changes: SpecDiffSummary | null;
+}
+
+export interface ApiSpecChangelog extends SpecDiff {
+  from: ApiSpecSnapshotSummary | null;
+  to: ApiSpecSnapshotSummary;
+}
+
+export interface ApiSpecRefreshResult {
+  snapshot: ApiSpecSnapshotSummary;
+  created: boolean; // false when the document matched the latest snapshot
+  categoryCount: number | null; // categories parsed, null when parsing was skipped
+}
+
+// JSON with object keys sorted, so key order does not change the hash
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value as Record<string, unknown>)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function hashSpec(doc: OpenAPIDocument): string {
+  return createHash('sha256').update(stableStringify(doc)).digest('hex');
+}
+
+function countEndpoints(doc: OpenAPIDocument): number {
+  const methods = ['get', 'post', 'put', 'delete', 'patch', 'options'];
+  return Object.values(doc.paths || {}).reduce(
+    (count, pathItem) => count + methods.filter(method => (pathItem as Record<string, unknown>)[method]).length,
+    0
+  );
+}
+
+function toSummary(row: ApiSpecSnapshot): ApiSpecSnapshotSummary {
+  return {
+    id: row.id,
+    version: row.version,
+    title: row.title,
+    specHash: row.specHash,
+    endpointCount: row.endpointCount,
+    previousSnapshotId: row.previousSnapshotId,
+    fetchedAt: row.fetchedAt,
+    changes: (row.changes as SpecDiff | null)?.summary ?? null
+  };
+}
+
+export class ApiSpecService {
+  private static instance: ApiSpecService;
+
+  private constructor() {}
+
+  static getInstance(): ApiSpecService {
+    if (!ApiSpecService.instance) {
+      ApiSpecService.instance = new ApiSpecService();
+    }
+    return ApiSpecService.instance;
+  }
+
+  /**
+   * Store the document unless it is identical to the latest snapshot
+   */
+  async recordSnapshot(doc: OpenAPIDocument): Promise<{ snapshot: ApiSpecSnapshotSummary; created: boolean }> {
+    const specHash = hashSpec(doc);
+
+    try {
+      const [latest] = await db.select().from(apiSpecSnapshots).orderBy(desc(apiSpecSnapshots.id)).limit(1);
+      if (latest && latest.specHash === specHash) {
+        return { snapshot: toSummary(latest), created: false };
+      }
+
+      const changes = diffSpecs(latest ? latest.document as OpenAPIDocument : null, doc);
+      const [row] = await db
+        .insert(apiSpecSnapshots)
+        .values({
+          version: doc.info?.version || 'unknown',
+          title: doc.info?.title || null,
+          specHash,
+          document: doc,
+          endpointCount: countEndpoints(doc),
+          previousSnapshotId: latest?.id ?? null,
+          changes
+        })
+        .returning();
+
+      return { snapshot: toSummary(row), created: true };
+    } catch (error) {
+      console.error('Error recording API spec snapshot:', error);
+      throw new Error('Failed to record API spec snapshot');
+    }
+  }
+
+  /**
+   * Fetch swagger.json from Mindat, snapshot it and re-parse the explorer's
+   * endpoints when the document changed (or none have been parsed yet)
+   */
+  async refresh(apiKey: string): Promise<ApiSpecRefreshResult & { document: OpenAPIDocument }> {
+    const document = await fetchSwaggerDocs(apiKey);
+    const { snapshot, created } = await this.recordSnapshot(document);
+
+    const existingCategories = await storage.getApiCategories();
+    if (!created && existingCategories.length > 0) {
+      return { snapshot, created, categoryCount: null, document };
+    }
+
+    const categories = await parseSwaggerDoc(document);
+    return { snapshot, created, categoryCount: categories.length, document };
+  }
+
+  /**
+   * Every snapshot, newest first, without the documents
+   */
+  async listSnapshots(): Promise<ApiSpecSnapshotSummary[]> {
+    try {
+      const rows = await db.select().from(apiSpecSnapshots).orderBy(desc(apiSpecSnapshots.id));
+      return rows.map(toSummary);
+    } catch (error) {
+      console.error('Error fetching API spec snapshots:', error);
+      throw new Error('Failed to fetch API spec snapshots');
+    }
+  }
+
+  /**
+   * Snapshot with its stored swagger.json; throws ApiSpecSnapshotError if unknown
+   */
+  async getSnapshot(id: number): Promise<ApiSpecSnapshotSummary & { document: OpenAPIDocument }> {
+    const [row] = await db.select().from(apiSpecSnapshots).where(eq(apiSpecSnapshots.id, id)).limit(1);
+    if (!row) throw new ApiSpecSnapshotError(`API spec snapshot ${id} not found`);
+    return { ...toSummary(row), document: row.document as OpenAPIDocument };
+  }
+
+  /**
+   * Most recent snapshot with its swagger.json; throws ApiSpecSnapshotError if none was recorded
+   */
+  async getLatestSnapshot(): Promise<ApiSpecSnapshotSummary & { document: OpenAPIDocument }> {
+    const [latest] = await db.select().from(apiSpecSnapshots).orderBy(desc(apiSpecSnapshots.id)).limit(1);
+    if (!latest) throw new ApiSpecSnapshotError('No API spec snapshots have been recorded yet');
+    return { ...toSummary(latest), document: latest.document as OpenAPIDocument };
+  }
+
+  /**
+   * Changes between two snapshots. Without `toId` the latest snapshot is used, and
+   * without `fromId` the snapshot recorded before `toId`.
+   */
+  async getChangelog(fromId?: number, toId?: number): Promise<ApiSpecChangelog> {
+    const to = toId !== undefined ? await this.getSnapshot(toId) : await this.getLatestSnapshot();
+
+    const fromSnapshotId = fromId ?? to.previousSnapshotId;
+    const from = fromSnapshotId !== null ? await this.getSnapshot(fromSnapshotId) : null;
+
+    const { document: toDocument, ...toSummaryFields } = to;
+    const diff = diffSpecs(from ? from.document : null, toDocument);
+
+    if (!from) return { ...diff, from: null, to: toSummaryFields };
+
+    const { document: _fromDocument, ...fromSummaryFields } = from;
+    return { ...diff, from: fromSummaryFields, to: toSummaryFields };
+  }
+}
@@ -0,0 +1,248 @@
+/**
+ * CIF Export and Import Service
+ *
+ * 1. Exports a Mindat or RRUFF mineral as a CIF built from its stored cell
+ *    parameters and space group; a Mindat mineral with an uploaded structure is
+ *    exported from that structure instead, atom sites included
+ * 2. Imports a CIF upload (see cif.ts) and attaches its cell, symmetry and atom
+ *    sites to a Mindat mineral, replacing any earlier upload
+ */
+
+import { db } from '../db';
+import { eq } from 'drizzle-orm';
+import { minerals, mineralStructures, type MineralStructure } from '@shared/schema';
+import { rruffMinerals } from '@shared/rruff-schema';
+import {
+  cellVolume,
+  cifFormulaSum,
+  cifSpaceGroupSymbol,
+  formatCif,
+  parseCif,
+  type CifAtomSite,
+  type CifCell,
+  type CifStructure
+} from './cif';
+import { completeCell } from './xrd-pattern-service';
+import { crystalSystemForName, crystalSystemForNumber, parseSpaceGroup } from './space-groups';
+
+export class CifExportError extends Error {}
+
+export interface CifFile {
+  filename: string;
+  cif: string;
+}
+
+export interface MineralStructureRecord {
+  id: number;
+  mineralId: number;
+  cell: CifCell;
+  spaceGroup: string | null;
+  spaceGroupNumber: number | null;
+  symmetryOperations: string[];
+  atomSites: CifAtomSite[];
+  formula: string | null;
+  sourceFilename: string | null;
+  uploadedBy: string | null;
+  updatedAt: Date | null;
+}
+
+export interface CifImportOptions {
+  filename?: string | null;
+  uploadedBy?: string | null;
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+// Lower-case, underscore-separated name for download filenames
+function fileSlug(name: string): string {
+  return name.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^\w-]+/g, '_').replace(/^_+|_+$/g, '').toLowerCase() || 'mineral';
+}
+
+function toStructureRecord(row: MineralStructure): MineralStructureRecord {
+  return {
+    id: row.id,
+    mineralId: row.mineralId,
+    cell: row.cell as CifCell,
+    spaceGroup: row.spaceGroup,
+    spaceGroupNumber: row.spaceGroupNumber,
+    symmetryOperations: (row.symmetryOperations as string[] | null) || [],
+    atomSites: (row.atomSites as CifAtomSite[] | null) || [],
+    formula: row.formula,
+    sourceFilename: row.sourceFilename,
+    uploadedBy: row.uploadedBy,
+    updatedAt: row.updatedAt
+  };
+}
+
+export class CifService {
+  private static instance: CifService;
+
+  private constructor() {}
+
+  static getInstance(): CifService {
+    if (!CifService.instance) {
+      CifService.instance = new CifService();
+    }
+    return CifService.instance;
+  }
+
+  /**
+   * CIF for a synced Mindat mineral; null when the mineral does not exist
+   */
+  async getMineralCif(mineralId: number): Promise<CifFile | null> {
+    const [mineral] = await db.select().from(minerals).where(eq(minerals.id, mineralId)).limit(1);
+    if (!mineral) return null;
+
+    const filename = `${fileSlug(mineral.name)}_mindat_${mineral.id}.cif`;
+    const source = `Mindat mineral ${mineral.id} (${mineral.name}), https://www.mindat.org/min-${mineral.id}.html`;
+
+    const structure = await this.getStructure(mineralId);
+    if (structure) {
+      return {
+        filename,
+        cif: formatCif(
+          {
+            blockName: mineral.name,
+            mineralName: mineral.name,
+            formula: structure.formula,
+            cell: structure.cell,
+            spaceGroup: structure.spaceGroup,
+            spaceGroupNumber: structure.spaceGroupNumber,
+            symmetryOperations: structure.symmetryOperations,
+            atomSites: structure.atomSites
+          },
+          `Structure uploaded${structure.sourceFilename ? ` from ${structure.sourceFilename}` : ''} for ${source}`
+        )
+      };
+    }
+
+    const spaceGroupNumber = mineral.spacegroup && mineral.spacegroup >= 1 && mineral.spacegroup <= 230 ? mineral.spacegroup : null;
+    const cell = completeCell(
+      { a: toNumber(mineral.a), b: toNumber(mineral.b), c: toNumber(mineral.c), alpha: toNumber(mineral.alpha), beta: toNumber(mineral.beta), gamma: toNumber(mineral.gamma) },
+      spaceGroupNumber ? crystalSystemForNumber(spaceGroupNumber) : crystalSystemForName(mineral.csystem)
+    );
+    if (!cell || !spaceGroupNumber) {
+      throw new CifExportError(`${mineral.name} has no ${cell ? 'space group' : 'unit cell parameters'} to export`);
+    }
+
+    return {
+      filename,
+      cif: formatCif(
+        {
+          blockName: mineral.name,
+          mineralName: mineral.name,
+          formula: cifFormulaSum(mineral.imaFormula || mineral.mindatFormula),
+          cell: { ...cell, volume: cellVolume(cell), z: mineral.z || null },
+          spaceGroup: cifSpaceGroupSymbol(spaceGroupNumber),
+          spaceGroupNumber,
+          symmetryOperations: [],
+          atomSites: []
+        },
+        `Cell and space group of ${source}`
+      )
+    };
+  }
+
+  /**
+   * CIF for a RRUFF mineral from its unit cell JSON and space group symbol
+   */
+  async getRruffMineralCif(rruffMineralId: number): Promise<CifFile | null> {
+    const [mineral] = await db.select().from(rruffMinerals).where(eq(rruffMinerals.id, rruffMineralId)).limit(1);
+    if (!mineral) return null;
+
+    const unitCell = mineral.unitCell || {};
+    const spaceGroup = parseSpaceGroup(mineral.spaceGroup || '');
+    const cell = completeCell(unitCell, spaceGroup?.crystalSystem ?? null);
+    if (!cell || !mineral.spaceGroup) {
+      throw new CifExportError(`${mineral.mineralName} has no ${cell ? 'space group' : 'unit cell parameters'} to export`);
+    }
+
+    return {
+      filename: `${fileSlug(mineral.mineralName)}_rruff_${fileSlug(mineral.rruffId || String(mineral.id))}.cif`,
+      cif: formatCif(
+        {
+          blockName: mineral.mineralName,
+          mineralName: mineral.mineralName,
+          formula: cifFormulaSum(mineral.chemicalFormula),
+          cell: { ...cell, volume: toNumber(unitCell.volume) ?? cellVolume(cell), z: toNumber(unitCell.z) },
+          spaceGroup: cifSpaceGroupSymbol(mineral.spaceGroup),
+          spaceGroupNumber: spaceGroup?.number ?? null,
+          symmetryOperations: [],
+          atomSites: []
+        },
+        `Cell and space group of RRUFF mineral ${mineral.rruffId || mineral.id} (${mineral.mineralName})${mineral.url ? `, ${mineral.url}` : ''}`
+      )
+    };
+  }
+
+  /**
+   * Structure uploaded for a mineral, or null if none has been uploaded
+   */
+  async getStructure(mineralId: number): Promise<MineralStructureRecord | null> {
+    try {
+      const [row] = await db.select().from(mineralStructures).where(eq(mineralStructures.mineralId, mineralId)).limit(1);
+      return row ? toStructureRecord(row) : null;
+    } catch (error) {
+      console.error('Error fetching mineral structure:', error);
+      throw new Error('Failed to fetch mineral structure');
+    }
+  }
+
+  /**
+   * Parse a CIF and attach its structure to a mineral, replacing any earlier upload.
+   * Throws CifParseError for unreadable files; returns null when the mineral does not exist.
+   */
+  async importCif(mineralId: number, text: string, options: CifImportOptions = {}): Promise<MineralStructureRecord | null> {
+    const parsed: CifStructure = parseCif(text);
+
+    try {
+      const [mineral] = await db.select({ id: minerals.id }).from(minerals).where(eq(minerals.id, mineralId));
+      if (!mineral) return null;
+
+      const now = new Date();
+      const values = {
+        cell: parsed.cell,
+        spaceGroup: parsed.spaceGroup,
+        spaceGroupNumber: parsed.spaceGroupNumber,
+        symmetryOperations: parsed.symmetryOperations,
+        atomSites: parsed.atomSites,
+        formula: parsed.formula,
+        sourceFilename: options.filename || null,
+        cif: text,
+        uploadedBy: options.uploadedBy || null,
+        updatedAt: now
+      };
+
+      const [row] = await db
+        .insert(mineralStructures)
+        .values({ mineralId, ...values, createdAt: now })
+        .onConflictDoUpdate({ target: mineralStructures.mineralId, set: values })
+        .returning();
+
+      return toStructureRecord(row);
+    } catch (error) {
+      console.error('Error importing CIF:', error);
+      throw new Error('Failed to import CIF');
+    }
+  }
+
+  /**
+   * Remove the uploaded structure of a mineral; false if there was none
+   */
+  async deleteStructure(mineralId: number): Promise<boolean> {
+    try {
+      const deleted = await db
+        .delete(mineralStructures)
+        .where(eq(mineralStructures.mineralId, mineralId))
+        .returning({ id: mineralStructures.id });
+      return deleted.length > 0;
+    } catch (error) {
+      console.error('Error deleting mineral structure:', error);
+      throw new Error('Failed to delete mineral structure');
+    }
+  }
+}
@@ -0,0 +1,460 @@
+/**
+ * Crystallographic Information File (CIF) Reading and Writing
+ *
+ * Handles the CIF 1.1 subset that mineral structure files use:
+ * 1. Tokenizes data blocks, `loop_` tables, quoted strings, `;` text fields and comments
+ * 2. Reads the unit cell, Z, space group (symbol and number), symmetry operations
+ *    and fractional atom sites, accepting both the current `_space_group_*` names
+ *    and the older `_symmetry_*` ones
+ * 3. Strips standard uncertainties from numbers (`4.9134(3)` -> 4.9134) and converts
+ *    B(iso) to U(iso)
+ * 4. Writes a structure back out as a single data block
+ *
+ * Only the first data block that has a unit cell is read; multi-structure files
+ * should be split before upload.
+ */
+
+import { parseFormula } from './formula-parser';
+import { parseSpaceGroup, spaceGroupSymbol } from './space-groups';
+
+export interface CifCell {
+  a: number;
+  b: number;
+  c: number;
+  alpha: number;
+  beta: number;
+  gamma: number;
+  volume: number | null;
+  z: number | null; // formula units per cell
+}
+
+export interface CifAtomSite {
+  label: string;
+  typeSymbol: string | null;
+  x: number;
+  y: number;
+  z: number;
+  occupancy: number | null;
+  uIso: number | null; // Å²
+}
+
+export interface CifStructure {
+  blockName: string;
+  mineralName: string | null;
+  formula: string | null; // _chemical_formula_sum, e.g. 'Si O2'
+  cell: CifCell;
+  spaceGroup: string | null; // Hermann-Mauguin symbol as written in the file
+  spaceGroupNumber: number | null;
+  symmetryOperations: string[]; // e.g. 'x,y,z', '-y,x-y,z+1/3'
+  atomSites: CifAtomSite[];
+}
+
+export class CifParseError extends Error {}
+
+interface CifToken {
+  text: string;
+  quoted: boolean;
+}
+
+interface CifLoop {
+  tags: string[];
+  rows: string[][];
+}
+
+interface CifBlock {
+  name: string;
+  items: Map<string, string>;
+  loops: CifLoop[];
+}
+
+const NULL_VALUES = new Set(['?', '.']);
+
+/**
+ * Split CIF text into tokens, keeping track of which values were quoted so a
+ * quoted `_value` or `loop_` is not mistaken for a keyword
+ */
+function tokenize(text: string): CifToken[] {
+  const tokens: CifToken[] = [];
+  const lines = text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+
+  for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
+    const line = lines[lineIndex];
+
+    // Semicolon text field: runs to the next line starting with ';'
+    if (line.startsWith(';')) {
+      const fieldLines = [line.slice(1)];
+      lineIndex++;
+      while (lineIndex < lines.length && !lines[lineIndex].startsWith(';')) {
+        fieldLines.push(lines[lineIndex]);
+        lineIndex++;
+      }
+      if (lineIndex >= lines.length) {
+        throw new CifParseError('Unterminated semicolon text field');
+      }
+      tokens.push({ text: fieldLines.join('\n').trim(), quoted: true });
+      continue;
+    }
+
+    let position = 0;
+    while (position < line.length) {
+      const char = line[position];
+
+      if (/\s/.test(char)) {
+        position++;
+        continue;
+      }
+      if (char === '#') break;
+
+      if (char === "'" || char === '"') {
+        // A quote only closes when followed by whitespace or the end of the line
+        let end = position + 1;
+        while (end < line.length && !(line[end] === char && (end + 1 === line.length || /\s/.test(line[end + 1])))) {
+          end++;
+        }
+        if (end >= line.length) {
+          throw new CifParseError(`Unterminated quoted string on line ${lineIndex + 1}`);
+        }
+        tokens.push({ text: line.slice(position + 1, end), quoted: true });
+        position = end + 1;
+        continue;
+      }
+
+      let end = position;
+      while (end < line.length && !/\s/.test(line[end])) end++;
+      tokens.push({ text: line.slice(position, end), quoted: false });
+      position = end;
+    }
+  }
+
+  return tokens;
+}
+
+const isKeyword = (token: CifToken) =>
+  !token.quoted && (/^(data_|loop_$|save_|global_$|stop_$)/i.test(token.text) || token.text.startsWith('_'));
+
+/**
+ * Group tokens into data blocks of single items and loops (tags are lower-cased)
+ */
+function readBlocks(tokens: CifToken[]): CifBlock[] {
+  const blocks: CifBlock[] = [];
+  let block: CifBlock | null = null;
+  let index = 0;
+
+  while (index < tokens.length) {
+    const token = tokens[index];
+
+    if (!token.quoted && /^data_/i.test(token.text)) {
+      block = { name: token.text.slice(5), items: new Map(), loops: [] };
+      blocks.push(block);
+      index++;
+      continue;
+    }
+
+    if (!block) {
+      throw new CifParseError('CIF content must start with a data_ block header');
+    }
+
+    if (!token.quoted && token.text.toLowerCase() === 'loop_') {
+      index++;
+      const tags: string[] = [];
+      while (index < tokens.length && !tokens[index].quoted && tokens[index].text.startsWith('_')) {
+        tags.push(tokens[index].text.toLowerCase());
+        index++;
+      }
+      const values: string[] = [];
+      while (index < tokens.length && !isKeyword(tokens[index])) {
+        values.push(tokens[index].text);
+        index++;
+      }
+      if (tags.length === 0) {
+        throw new CifParseError('loop_ without any data names');
+      }
+      if (values.length % tags.length !== 0) {
+        throw new CifParseError(`Loop starting with ${tags[0]} has ${values.length} values for ${tags.length} columns`);
+      }
+      const rows: string[][] = [];
+      for (let start = 0; start < values.length; start += tags.length) {
+        rows.push(values.slice(start, start + tags.length));
+      }
+      block.loops.push({ tags, rows });
+      continue;
+    }
+
+    if (!token.quoted && token.text.startsWith('_')) {
+      const value = tokens[index + 1];
+      if (!value || isKeyword(value)) {
+        throw new CifParseError(`Data name ${token.text} has no value`);
+      }
+      block.items.set(token.text.toLowerCase(), value.text);
+      index += 2;
+      continue;
+    }
+
+    // save frames, global_ and stray values are not used by structure files
+    index++;
+  }
+
+  return blocks;
+}
+
+// First value for any of `tags`, from a single item or the first row of a loop
+function itemValue(block: CifBlock, ...tags: string[]): string | null {
+  for (const tag of tags) {
+    const single = block.items.get(tag);
+    if (single !== undefined) return NULL_VALUES.has(single) ? null : single;
+
+    const loop = block.loops.find(candidate => candidate.tags.includes(tag));
+    if (loop && loop.rows.length > 0) {
+      const value = loop.rows[0][loop.tags.indexOf(tag)];
+      return NULL_VALUES.has(value) ? null : value;
+    }
+  }
+  return null;
+}
+
+/**
+ * Numeric CIF value with any standard uncertainty removed; null for '?' and '.'
+ */
+export function cifNumber(value: string | null | undefined): number | null {
+  if (value === null || value === undefined || NULL_VALUES.has(value)) return null;
+  const match = value.trim().match(/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/);
+  if (!match) return null;
+  const parsed = parseFloat(match[0]);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function readAtomSites(block: CifBlock): CifAtomSite[] {
+  const loop = block.loops.find(candidate => candidate.tags.includes('_atom_site_fract_x'));
+  if (!loop) return [];
+
+  const column = (tag: string) => loop.tags.indexOf(tag);
+  const label = column('_atom_site_label');
+  const typeSymbol = column('_atom_site_type_symbol');
+  const [x, y, z] = ['_atom_site_fract_x', '_atom_site_fract_y', '_atom_site_fract_z'].map(column);
+  const occupancy = column('_atom_site_occupancy');
+  const uIso = column('_atom_site_u_iso_or_equiv');
+  const bIso = column('_atom_site_b_iso_or_equiv');
+
+  const sites: CifAtomSite[] = [];
+  loop.rows.forEach((row, index) => {
+    const coordinates = [x, y, z].map(col => (col >= 0 ? cifNumber(row[col]) : null));
+    if (coordinates.some(value => value === null)) return;
+
+    const b = bIso >= 0 ? cifNumber(row[bIso]) : null;
+    sites.push({
+      label: label >= 0 && !NULL_VALUES.has(row[label]) ? row[label] : `site${index + 1}`,
+      typeSymbol: typeSymbol >= 0 && !NULL_VALUES.has(row[typeSymbol]) ? row[typeSymbol] : null,
+      x: coordinates[0]!,
+      y: coordinates[1]!,
+      z: coordinates[2]!,
+      occupancy: occupancy >= 0 ? cifNumber(row[occupancy]) : null,
+      uIso: uIso >= 0 ? cifNumber(row[uIso]) : b !== null ? b / (8 * Math.PI * Math.PI) : null
+    });
+  });
+  return sites;
+}
+
+/**
+ * Parse the cell, symmetry and atom sites from CIF text
+ */
+export function parseCif(text: string): CifStructure {
+  if (!text || !text.trim()) {
+    throw new CifParseError('CIF content is empty');
+  }
+
+  const blocks = readBlocks(tokenize(text));
+  const block = blocks.find(candidate => itemValue(candidate, '_cell_length_a') !== null);
+  if (!block) {
+    throw new CifParseError(blocks.length === 0 ? 'No data_ block found' : 'No data block has unit cell parameters (_cell_length_a)');
+  }
+
+  const a = cifNumber(itemValue(block, '_cell_length_a'));
+  const b = cifNumber(itemValue(block, '_cell_length_b'));
+  const c = cifNumber(itemValue(block, '_cell_length_c'));
+  if (!a || !b || !c || a <= 0 || b <= 0 || c <= 0) {
+    throw new CifParseError('Cell lengths _cell_length_a, _cell_length_b and _cell_length_c must be positive numbers');
+  }
+
+  const angle = (tag: string) => {
+    const value = cifNumber(itemValue(block, tag)) ?? 90;
+    if (value <= 0 || value >= 180) {
+      throw new CifParseError(`${tag} must be between 0 and 180 degrees`);
+    }
+    return value;
+  };
+
+  const spaceGroup = itemValue(block, '_space_group_name_h-m_alt', '_symmetry_space_group_name_h-m')?.trim() || null;
+  const numberValue = cifNumber(itemValue(block, '_space_group_it_number', '_symmetry_int_tables_number'));
+  const spaceGroupNumber = numberValue && Number.isInteger(numberValue) && numberValue >= 1 && numberValue <= 230
+    ? numberValue
+    : spaceGroup ? parseSpaceGroup(spaceGroup)?.number ?? null : null;
+
+  const symopLoop = block.loops.find(candidate =>
+    candidate.tags.includes('_space_group_symop_operation_xyz') || candidate.tags.includes('_symmetry_equiv_pos_as_xyz')
+  );
+  const symopColumn = symopLoop
+    ? Math.max(symopLoop.tags.indexOf('_space_group_symop_operation_xyz'), symopLoop.tags.indexOf('_symmetry_equiv_pos_as_xyz'))
+    : -1;
+
+  return {
+    blockName: block.name,
+    mineralName: itemValue(block, '_chemical_name_mineral'),
+    formula: itemValue(block, '_chemical_formula_sum'),
+    cell: {
+      a,
+      b,
+      c,
+      alpha: angle('_cell_angle_alpha'),
+      beta: angle('_cell_angle_beta'),
+      gamma: angle('_cell_angle_gamma'),
+      volume: cifNumber(itemValue(block, '_cell_volume')),
+      z: cifNumber(itemValue(block, '_cell_formula_units_z'))
+    },
+    spaceGroup: spaceGroup ?? (spaceGroupNumber ? spaceGroupSymbol(spaceGroupNumber) : null),
+    spaceGroupNumber,
+    symmetryOperations: symopLoop ? symopLoop.rows.map(row => row[symopColumn].replace(/\s+/g, '')) : [],
+    atomSites: readAtomSites(block)
+  };
+}
+
+/**
+ * Unit cell volume (Å³) from the six cell parameters
+ */
+export function cellVolume(cell: Pick<CifCell, 'a' | 'b' | 'c' | 'alpha' | 'beta' | 'gamma'>): number {
+  const rad = Math.PI / 180;
+  const [cosAlpha, cosBeta, cosGamma] = [cell.alpha, cell.beta, cell.gamma].map(angle => Math.cos(angle * rad));
+  const root = 1 - cosAlpha ** 2 - cosBeta ** 2 - cosGamma ** 2 + 2 * cosAlpha * cosBeta * cosGamma;
+  return cell.a * cell.b * cell.c * Math.sqrt(Math.max(root, 0));
+}
+
+/**
+ * `_chemical_formula_sum` style formula ('Si O2') from a Mindat or RRUFF formula,
+ * or null when the formula has variables or ranges that make the sum approximate
+ */
+export function cifFormulaSum(formula: string | null | undefined): string | null {
+  const composition = parseFormula(formula);
+  if (!composition || composition.warnings.length > 0 || composition.unknownSymbols.length > 0) return null;
+
+  const entries = Object.entries(composition.elements);
+  if (entries.length === 0) return null;
+  return entries
+    .map(([element, count]) => {
+      const rounded = Math.round(count * 1e4) / 1e4;
+      return rounded === 1 ? element : `${element}${rounded}`;
+    })
+    .join(' ');
+}
+
+/**
+ * Hermann-Mauguin symbol in CIF spelling, one symmetry direction per word
+ * ('P2_1/c' -> 'P 21/c', 'Fd-3m' -> 'F d -3 m')
+ */
+export function cifSpaceGroupSymbol(symbol: string | number | null | undefined): string | null {
+  if (symbol === null || symbol === undefined || symbol === '') return null;
+  const parsed = parseSpaceGroup(symbol);
+  if (!parsed) return typeof symbol === 'string' ? symbol : null;
+
+  const directions = parsed.components.map(component => {
+    const rotation = component.rotation?.replace('_', '') ?? null;
+    if (rotation && component.plane) return `${rotation}/${component.plane}`;
+    return rotation ?? component.plane ?? '';
+  });
+  return [parsed.lattice, ...directions].join(' ');
+}
+
+// Quote a value when CIF syntax requires it
+function cifValue(value: string | number | null | undefined): string {
+  if (value === null || value === undefined || value === '') return '?';
+  if (typeof value === 'number') return formatNumber(value);
+
+  if (value.includes('\n') || (value.includes("'") && value.includes('"'))) {
+    return `\n;${value}\n;`;
+  }
+  if (/\s/.test(value) || /^[_#$'"[\];]/.test(value) || /^(data_|loop_|save_|global_|stop_)/i.test(value) || NULL_VALUES.has(value)) {
+    return value.includes("'") ? `"${value}"` : `'${value}'`;
+  }
+  return value;
+}
+
+function formatNumber(value: number, decimals: number = 6): string {
+  return String(Number(value.toFixed(decimals)));
+}
+
+// Data block names cannot contain whitespace
+function blockName(name: string): string {
+  return name.trim().replace(/\s+/g, '_').replace(/[^\w.+-]/g, '') || 'structure';
+}
+
+/**
+ * Write a structure as a CIF data block; symmetry operations and atom sites are
+ * only written when present
+ */
+export function formatCif(structure: CifStructure, comment?: string): string {
+  const lines: string[] = [];
+  const item = (tag: string, value: string | number | null | undefined) => lines.push(`${tag.padEnd(34)} ${cifValue(value)}`);
+
+  if (comment) {
+    comment.split('\n').forEach(line => lines.push(`# ${line}`));
+  }
+  lines.push(`data_${blockName(structure.blockName)}`);
+  lines.push('');
+
+  if (structure.mineralName) item('_chemical_name_mineral', structure.mineralName);
+  if (structure.formula) item('_chemical_formula_sum', structure.formula);
+  if (structure.mineralName || structure.formula) lines.push('');
+
+  const { cell } = structure;
+  item('_cell_length_a', cell.a);
+  item('_cell_length_b', cell.b);
+  item('_cell_length_c', cell.c);
+  item('_cell_angle_alpha', cell.alpha);
+  item('_cell_angle_beta', cell.beta);
+  item('_cell_angle_gamma', cell.gamma);
+  lines.push(`${'_cell_volume'.padEnd(34)} ${formatNumber(cell.volume ?? cellVolume(cell), 3)}`);
+  if (cell.z) item('_cell_formula_units_Z', cell.z);
+  lines.push('');
+
+  const symbol = structure.spaceGroup ?? cifSpaceGroupSymbol(structure.spaceGroupNumber);
+  if (symbol) {
+    item('_space_group_name_H-M_alt', symbol);
+    item('_symmetry_space_group_name_H-M', symbol);
+  }
+  if (structure.spaceGroupNumber) {
+    item('_space_group_IT_number', structure.spaceGroupNumber);
+    item('_symmetry_Int_Tables_number', structure.spaceGroupNumber);
+  }
+
+  if (structure.symmetryOperations.length > 0) {
+    lines.push('');
+    lines.push('loop_');
+    lines.push('_space_group_symop_id');
+    lines.push('_space_group_symop_operation_xyz');
+    structure.symmetryOperations.forEach((operation, index) => lines.push(`${index + 1} ${cifValue(operation)}`));
+  }
+
+  if (structure.atomSites.length > 0) {
+    lines.push('');
+    lines.push('loop_');
+    lines.push('_atom_site_label');
+    lines.push('_atom_site_type_symbol');
+    lines.push('_atom_site_fract_x');
+    lines.push('_atom_site_fract_y');
+    lines.push('_atom_site_fract_z');
+    lines.push('_atom_site_occupancy');
+    lines.push('_atom_site_U_iso_or_equiv');
+    structure.atomSites.forEach(site => {
+      lines.push([
+        cifValue(site.label),
+        cifValue(site.typeSymbol),
+        cifValue(site.x),
+        cifValue(site.y),
+        cifValue(site.z),
+        cifValue(site.occupancy),
+        cifValue(site.uIso)
+      ].join(' '));
+    });
+  }
+
+  lines.push('');
+  return lines.join('\n');
+}
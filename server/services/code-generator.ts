@@ -1,24 +1,45 @@
-import { APIEndpoint } from "../../client/src/types/api";
+import { APIEndpoint, CodeGenerationOptions } from "../../client/src/types/api";
+
+const MAX_RETRIES = 5;
 
 /**
  * Generates code for a given API endpoint in the specified language
  * @param endpoint - The API endpoint
  * @param parameters - The parameters to use in the code
  * @param language - The programming language to generate code for
+ * @param options - Pagination, retry and dataframe extras; python and javascript take
+ *   pagination and retry only, and curl none of them
  * @returns The generated code as a string
  */
 export async function generateCode(
   endpoint: APIEndpoint, 
   parameters: Record<string, any>, 
-  language: string
+  language: string,
+  options: CodeGenerationOptions = {}
 ): Promise<string> {
   switch (language.toLowerCase()) {
     case 'python':
-      return generatePythonCode(endpoint, parameters);
+      return options.paginate || options.retry
+        ? generatePythonPandasCode(buildSnippetRequest(endpoint, parameters, { ...options, dataframe: false }))
+        : generatePythonCode(endpoint, parameters);
     case 'javascript':
-      return generateJavaScriptCode(endpoint, parameters);
+      return options.paginate || options.retry
+        ? generateJavaScriptFetchCode(buildSnippetRequest(endpoint, parameters, options))
+        : generateJavaScriptCode(endpoint, parameters);
     case 'curl':
       return generateCurlCommand(endpoint, parameters);
+    case 'python-pandas':
+      return generatePythonPandasCode(buildSnippetRequest(endpoint, parameters, options));
+    case 'r':
+      return generateRCode(buildSnippetRequest(endpoint, parameters, options));
+    case 'julia':
+      return generateJuliaCode(buildSnippetRequest(endpoint, parameters, options));
+    case 'go':
+      return generateGoCode(buildSnippetRequest(endpoint, parameters, options));
+    case 'java':
+      return generateJavaCode(buildSnippetRequest(endpoint, parameters, options));
+    case 'powershell':
+      return generatePowerShellCode(buildSnippetRequest(endpoint, parameters, options));
     default:
       throw new Error(`Unsupported language: ${language}`);
   }
@@ -315,6 +336,788 @@ curl -X ${method} \\`;
   return curlCommand;
 }
 
+/**
+ * The request a pagination-aware snippet makes, with everything resolved up front
+ */
+interface SnippetRequest {
+  method: string; // upper case
+  url: string; // path parameters filled in, no query string
+  query: Array<[string, string | string[]]>; // arrays are sent as repeated parameters
+  body: Record<string, any> | null;
+  paginate: boolean;
+  retry: boolean;
+  dataframe: boolean;
+}
+
+function buildSnippetRequest(
+  endpoint: APIEndpoint,
+  parameters: Record<string, any>,
+  options: CodeGenerationOptions
+): SnippetRequest {
+  const method = endpoint.method.toUpperCase();
+  let url = `https://api.mindat.org${endpoint.path}`;
+
+  for (const param of endpoint.parameters || []) {
+    if (param.in === 'path') {
+      const value = parameters[param.name] || `{${param.name}}`;
+      url = url.replace(`{${param.name}}`, encodeURIComponent(String(value)));
+    }
+  }
+
+  const query = Object.entries(getQueryParams(endpoint, parameters))
+    .filter(([_, value]) => value !== '' && value !== null && !(Array.isArray(value) && value.length === 0))
+    .map(([key, value]): [string, string | string[]] => [key, Array.isArray(value) ? value.map(String) : String(value)]);
+
+  const body = method === 'GET' ? {} : getBodyParams(endpoint, parameters);
+
+  return {
+    method,
+    url,
+    query,
+    body: Object.keys(body).length > 0 ? body : null,
+    paginate: !!options.paginate && method === 'GET',
+    retry: !!options.retry,
+    dataframe: !!options.dataframe
+  };
+}
+
+// Query string for the targets that take the first page's URL as a single literal
+function urlWithQuery(request: SnippetRequest): string {
+  const searchParams = new URLSearchParams();
+  for (const [key, value] of request.query) {
+    for (const item of Array.isArray(value) ? value : [value]) searchParams.append(key, item);
+  }
+  const queryString = searchParams.toString();
+  return queryString ? `${request.url}?${queryString}` : request.url;
+}
+
+function pythonLiteral(value: any, indent: string = ''): string {
+  if (value === null || value === undefined) return 'None';
+  if (typeof value === 'boolean') return value ? 'True' : 'False';
+  if (Array.isArray(value)) return `[${value.map(item => pythonLiteral(item, indent)).join(', ')}]`;
+  if (typeof value === 'object') {
+    const entries = Object.entries(value)
+      .map(([key, item]) => `${indent}    ${JSON.stringify(key)}: ${pythonLiteral(item, `${indent}    `)}`);
+    return entries.length > 0 ? `{\n${entries.join(',\n')}\n${indent}}` : '{}';
+  }
+  return JSON.stringify(value);
+}
+
+function rName(name: string): string {
+  return /^[A-Za-z][A-Za-z0-9_.]*$/.test(name) ? name : `\`${name}\``;
+}
+
+function rLiteral(value: any): string {
+  if (value === null || value === undefined) return 'NULL';
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  if (Array.isArray(value)) return `list(${value.map(rLiteral).join(', ')})`;
+  if (typeof value === 'object') {
+    return `list(${Object.entries(value).map(([key, item]) => `${rName(key)} = ${rLiteral(item)}`).join(', ')})`;
+  }
+  return JSON.stringify(value);
+}
+
+function juliaString(value: string): string {
+  return JSON.stringify(value).replace(/\$/g, '\\$');
+}
+
+function juliaLiteral(value: any): string {
+  if (value === null || value === undefined) return 'nothing';
+  if (typeof value === 'string') return juliaString(value);
+  if (Array.isArray(value)) return `Any[${value.map(juliaLiteral).join(', ')}]`;
+  if (typeof value === 'object') {
+    return `Dict{String,Any}(${Object.entries(value).map(([key, item]) => `${juliaString(key)} => ${juliaLiteral(item)}`).join(', ')})`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Generates Python (requests) code, loading the results into a pandas DataFrame
+ * when asked to
+ */
+function generatePythonPandasCode(request: SnippetRequest): string {
+  const { method, paginate, retry, dataframe } = request;
+  const imports = [retry && 'import time', 'import requests', dataframe && 'import pandas as pd'].filter(Boolean);
+  const params = request.query.length > 0 ? 'params' : 'None';
+  const requestArgs = `"${method}", url, headers=headers, params=params${request.body ? ', json=payload' : ''}`;
+
+  let code = `${imports.join('\n')}
+
+API_KEY = "YOUR_API_KEY"
+headers = {"Authorization": f"Token {API_KEY}"}
+
+url = ${JSON.stringify(request.url)}
+`;
+
+  if (request.query.length > 0) {
+    code += `params = ${pythonLiteral(Object.fromEntries(request.query))}
+`;
+  }
+  if (request.body) {
+    code += `payload = ${pythonLiteral(request.body)}
+`;
+  }
+
+  if (retry) {
+    code += `
+
+def fetch(url, params=None):
+    """Request a page, waiting and retrying while the API answers 429 Too Many Requests"""
+    for attempt in range(${MAX_RETRIES}):
+        response = requests.request(${requestArgs})
+        if response.status_code == 429 and attempt < ${MAX_RETRIES - 1}:
+            time.sleep(float(response.headers.get("Retry-After", 2 ** attempt)))
+            continue
+        response.raise_for_status()
+        return response.json()
+`;
+  } else {
+    code += `
+
+def fetch(url, params=None):
+    response = requests.request(${requestArgs})
+    response.raise_for_status()
+    return response.json()
+`;
+  }
+
+  if (!paginate && !dataframe) {
+    code += `
+
+data = fetch(url, ${params})
+print(data)
+`;
+    return code;
+  }
+
+  code += `
+
+page = fetch(url, ${params})
+records = page.get("results", [page])
+`;
+  if (paginate) {
+    code += `
+# Follow the "next" links until the last page
+while page.get("next"):
+    page = fetch(page["next"])
+    records.extend(page["results"])
+`;
+  }
+  code += dataframe
+    ? `
+df = pd.json_normalize(records)
+print(df.head())
+`
+    : `
+print(f"{len(records)} records")
+`;
+
+  return code;
+}
+
+/**
+ * Generates JavaScript code using fetch, as an ES module (top-level await)
+ */
+function generateJavaScriptFetchCode(request: SnippetRequest): string {
+  const { method, paginate, retry } = request;
+  const headers = request.body
+    ? '{ "Authorization": `Token ${API_KEY}`, "Content-Type": "application/json" }'
+    : '{ "Authorization": `Token ${API_KEY}` }';
+  const fetchArgs = `url, { method: "${method}", headers${request.body ? ', body: JSON.stringify(payload)' : ''} }`;
+
+  let code = `const API_KEY = "YOUR_API_KEY";
+const headers = ${headers};
+
+const url = new URL(${JSON.stringify(request.url)});
+`;
+  for (const [key, value] of request.query) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      code += `url.searchParams.append(${JSON.stringify(key)}, ${JSON.stringify(item)});
+`;
+    }
+  }
+  if (request.body) {
+    code += `const payload = ${JSON.stringify(request.body, null, 2)};
+`;
+  }
+
+  if (retry) {
+    code += `
+// Request a page, waiting and retrying while the API answers 429 Too Many Requests
+async function fetchPage(url) {
+  for (let attempt = 0; ; attempt++) {
+    const response = await fetch(${fetchArgs});
+    if (response.status === 429 && attempt < ${MAX_RETRIES - 1}) {
+      const delay = Number(response.headers.get("Retry-After")) || 2 ** attempt;
+      await new Promise(resolve => setTimeout(resolve, delay * 1000));
+      continue;
+    }
+    if (!response.ok) throw new Error(\`\${response.status} \${response.statusText}\`);
+    return response.json();
+  }
+}
+`;
+  } else {
+    code += `
+async function fetchPage(url) {
+  const response = await fetch(${fetchArgs});
+  if (!response.ok) throw new Error(\`\${response.status} \${response.statusText}\`);
+  return response.json();
+}
+`;
+  }
+
+  if (!paginate) {
+    code += `
+const data = await fetchPage(url);
+console.log(data);
+`;
+    return code;
+  }
+
+  code += `
+let page = await fetchPage(url);
+const records = page.results ?? [page];
+
+// Follow the "next" links until the last page
+while (page.next) {
+  page = await fetchPage(page.next);
+  records.push(...page.results);
+}
+console.log(\`\${records.length} records\`);
+`;
+
+  return code;
+}
+
+/**
+ * Generates R code using httr2
+ */
+function generateRCode(request: SnippetRequest): string {
+  const { method, paginate, retry, dataframe } = request;
+  const hasArrays = request.query.some(([_, value]) => Array.isArray(value));
+
+  const pipeline = [`request(${JSON.stringify(request.url)})`];
+  if (method !== 'GET') pipeline.push(`req_method("${method}")`);
+  pipeline.push('req_headers(Authorization = paste("Token", api_key))');
+  if (request.query.length > 0) {
+    const args = request.query.map(([key, value]) =>
+      `${rName(key)} = ${Array.isArray(value) ? `c(${value.map(item => JSON.stringify(item)).join(', ')})` : JSON.stringify(value)}`
+    );
+    if (hasArrays) args.push('.multi = "explode"');
+    pipeline.push(`req_url_query(${args.join(', ')})`);
+  }
+  if (request.body) pipeline.push(`req_body_json(${rLiteral(request.body)})`);
+  if (retry) {
+    pipeline.push(`req_retry(
+    max_tries = ${MAX_RETRIES},
+    is_transient = function(resp) resp_status(resp) == 429,
+    backoff = function(attempt) 2^attempt
+  )`);
+  }
+
+  let code = `library(httr2)
+${dataframe ? 'library(dplyr)\n' : ''}
+api_key <- "YOUR_API_KEY"
+
+${retry ? '# req_retry() waits for Retry-After when the API answers 429 Too Many Requests\n' : ''}req <- ${pipeline.join(' |>\n  ')}
+`;
+
+  if (!paginate && !dataframe) {
+    code += `
+resp <- req_perform(req)
+data <- resp_body_json(resp)
+str(data)
+`;
+    return code;
+  }
+
+  const parse = dataframe ? 'resp_body_json(simplifyVector = TRUE, flatten = TRUE)' : 'resp_body_json()';
+  code += `
+body <- req |> req_perform() |> ${parse}
+${dataframe
+    ? 'pages <- list(if (is.null(body$results)) body else body$results)'
+    : 'records <- if (is.null(body$results)) list(body) else body$results'}
+`;
+  if (paginate) {
+    code += `
+# Follow the "next" links until the last page
+while (!is.null(body[["next"]])) {
+  body <- req |> req_url(body[["next"]]) |> req_perform() |> ${parse}
+  ${dataframe ? 'pages[[length(pages) + 1]] <- body$results' : 'records <- c(records, body$results)'}
+}
+`;
+  }
+  code += dataframe
+    ? `
+records <- bind_rows(pages)
+print(records)
+`
+    : `
+length(records)
+`;
+
+  return code;
+}
+
+/**
+ * Generates Julia code using HTTP.jl and JSON3
+ */
+function generateJuliaCode(request: SnippetRequest): string {
+  const { method, paginate, retry, dataframe } = request;
+  const packages = ['HTTP', 'JSON3', ...(dataframe ? ['DataFrames', 'Tables'] : [])];
+  const query = request.query.length > 0 ? 'query' : 'nothing';
+  const bodyArg = request.body ? ', payload' : '';
+
+  let code = `using ${packages.join(', ')}
+
+const API_KEY = "YOUR_API_KEY"
+const HEADERS = ["Authorization" => "Token $API_KEY"${request.body ? ', "Content-Type" => "application/json"' : ''}]
+
+url = ${juliaString(request.url)}
+`;
+
+  if (request.query.length > 0) {
+    const pairs = request.query.flatMap(([key, value]) =>
+      (Array.isArray(value) ? value : [value]).map(item => `${juliaString(key)} => ${juliaString(item)}`)
+    );
+    code += `query = [${pairs.join(', ')}]
+`;
+  }
+  if (request.body) {
+    code += `payload = JSON3.write(${juliaLiteral(request.body)})
+`;
+  }
+
+  if (retry) {
+    code += `
+# Request a page, waiting and retrying while the API answers 429 Too Many Requests
+function fetch(url; query = nothing)
+    for attempt in 0:${MAX_RETRIES - 1}
+        response = HTTP.request("${method}", url, HEADERS${bodyArg}; query = query, status_exception = false)
+        if response.status == 429 && attempt < ${MAX_RETRIES - 1}
+            retry_after = HTTP.header(response, "Retry-After", "")
+            sleep(isempty(retry_after) ? 2.0^attempt : parse(Float64, retry_after))
+            continue
+        end
+        response.status >= 400 && error("HTTP $(response.status): $(String(response.body))")
+        return JSON3.read(response.body)
+    end
+end
+`;
+  } else {
+    code += `
+function fetch(url; query = nothing)
+    response = HTTP.request("${method}", url, HEADERS${bodyArg}; query = query)
+    return JSON3.read(response.body)
+end
+`;
+  }
+
+  if (!paginate && !dataframe) {
+    code += `
+data = fetch(url; query = ${query})
+JSON3.pretty(data)
+`;
+    return code;
+  }
+
+  code += `
+page = fetch(url; query = ${query})
+records = Any[]
+append!(records, get(page, :results, [page]))
+`;
+  if (paginate) {
+    code += `
+# Follow the "next" links until the last page
+while !isnothing(get(page, :next, nothing))
+    global page = fetch(page[:next])
+    append!(records, page[:results])
+end
+`;
+  }
+  code += dataframe
+    ? `
+df = DataFrame(Tables.dictrowtable(records))
+println(first(df, 5))
+`
+    : `
+println(length(records), " records")
+`;
+
+  return code;
+}
+
+/**
+ * Generates a Go program using net/http
+ */
+function generateGoCode(request: SnippetRequest): string {
+  const { method, paginate, retry, dataframe } = request;
+  const imports = ['encoding/json', 'fmt', 'io', 'net/http'];
+  if (request.query.length > 0) imports.push('net/url');
+  imports.push('os');
+  if (retry) imports.push('strconv');
+  if (request.body) imports.push('strings');
+  imports.push('time');
+
+  let code = `package main
+
+import (
+${imports.map(name => `\t"${name}"`).join('\n')}
+${dataframe ? '\n\t"github.com/go-gota/gota/dataframe"\n' : ''})
+
+const apiKey = "YOUR_API_KEY"
+`;
+
+  if (request.body) {
+    const json = JSON.stringify(request.body, null, 2);
+    code += `
+const payload = ${json.includes('`') ? JSON.stringify(JSON.stringify(request.body)) : `\`${json}\``}
+`;
+  }
+
+  const bodyReader = request.body ? 'strings.NewReader(payload)' : 'nil';
+  const newRequest = `req, err := http.NewRequest("${method}", pageURL, ${bodyReader})
+\tif err != nil {
+\t\treturn nil, err
+\t}
+\treq.Header.Set("Authorization", "Token "+apiKey)${request.body ? '\n\treq.Header.Set("Content-Type", "application/json")' : ''}
+\tresp, err := client.Do(req)
+\tif err != nil {
+\t\treturn nil, err
+\t}
+\tbody, err := io.ReadAll(resp.Body)
+\tresp.Body.Close()
+\tif err != nil {
+\t\treturn nil, err
+\t}`;
+
+  if (retry) {
+    code += `
+const maxRetries = ${MAX_RETRIES}
+
+// fetch requests a page and decodes the JSON response, waiting and retrying
+// while the API answers 429 Too Many Requests
+func fetch(client *http.Client, pageURL string) (map[string]interface{}, error) {
+\tfor attempt := 0; ; attempt++ {
+\t\t${newRequest.replace(/\n/g, '\n\t')}
+\t\tif resp.StatusCode == http.StatusTooManyRequests && attempt < maxRetries-1 {
+\t\t\tdelay := time.Duration(1<<attempt) * time.Second
+\t\t\tif seconds, err := strconv.Atoi(resp.Header.Get("Retry-After")); err == nil {
+\t\t\t\tdelay = time.Duration(seconds) * time.Second
+\t\t\t}
+\t\t\ttime.Sleep(delay)
+\t\t\tcontinue
+\t\t}
+\t\tif resp.StatusCode >= 400 {
+\t\t\treturn nil, fmt.Errorf("HTTP %d: %s", resp.StatusCode, body)
+\t\t}
+\t\tvar page map[string]interface{}
+\t\terr = json.Unmarshal(body, &page)
+\t\treturn page, err
+\t}
+}
+`;
+  } else {
+    code += `
+// fetch requests a page and decodes the JSON response
+func fetch(client *http.Client, pageURL string) (map[string]interface{}, error) {
+\t${newRequest}
+\tif resp.StatusCode >= 400 {
+\t\treturn nil, fmt.Errorf("HTTP %d: %s", resp.StatusCode, body)
+\t}
+\tvar page map[string]interface{}
+\terr = json.Unmarshal(body, &page)
+\treturn page, err
+}
+`;
+  }
+
+  if (paginate || dataframe) {
+    code += `
+// results returns a page's "results", or the response itself when it is not paginated
+func results(page map[string]interface{}) []map[string]interface{} {
+\titems, ok := page["results"].([]interface{})
+\tif !ok {
+\t\treturn []map[string]interface{}{page}
+\t}
+\trecords := make([]map[string]interface{}, 0, len(items))
+\tfor _, item := range items {
+\t\tif record, ok := item.(map[string]interface{}); ok {
+\t\t\trecords = append(records, record)
+\t\t}
+\t}
+\treturn records
+}
+`;
+  }
+
+  code += `
+func main() {
+\tclient := &http.Client{Timeout: 30 * time.Second}
+`;
+  if (request.query.length > 0) {
+    code += `
+\tquery := url.Values{}
+${request.query
+  .flatMap(([key, value]) => (Array.isArray(value) ? value : [value]).map(item => `\tquery.Add(${JSON.stringify(key)}, ${JSON.stringify(item)})`))
+  .join('\n')}
+\tpageURL := ${JSON.stringify(`${request.url}?`)} + query.Encode()
+`;
+  } else {
+    code += `\tpageURL := ${JSON.stringify(request.url)}
+`;
+  }
+
+  if (!paginate && !dataframe) {
+    code += `
+\tpage, err := fetch(client, pageURL)
+\tif err != nil {
+\t\tfmt.Fprintln(os.Stderr, err)
+\t\tos.Exit(1)
+\t}
+\tout, _ := json.MarshalIndent(page, "", "  ")
+\tfmt.Println(string(out))
+}
+`;
+    return code;
+  }
+
+  if (paginate) {
+    code += `
+\t// Follow the "next" links until the last page
+\tvar records []map[string]interface{}
+\tfor pageURL != "" {
+\t\tpage, err := fetch(client, pageURL)
+\t\tif err != nil {
+\t\t\tfmt.Fprintln(os.Stderr, err)
+\t\t\tos.Exit(1)
+\t\t}
+\t\trecords = append(records, results(page)...)
+\t\tpageURL, _ = page["next"].(string)
+\t}
+`;
+  } else {
+    code += `
+\tpage, err := fetch(client, pageURL)
+\tif err != nil {
+\t\tfmt.Fprintln(os.Stderr, err)
+\t\tos.Exit(1)
+\t}
+\trecords := results(page)
+`;
+  }
+  code += dataframe
+    ? `
+\tdf := dataframe.LoadMaps(records)
+\tfmt.Println(df)
+}
+`
+    : `
+\tfmt.Printf("%d records\\n", len(records))
+}
+`;
+
+  return code;
+}
+
+/**
+ * Generates a Java program using java.net.http and Jackson
+ */
+function generateJavaCode(request: SnippetRequest): string {
+  const { method, paginate, retry, dataframe } = request;
+  const dependencies = ['com.fasterxml.jackson.core:jackson-databind'];
+  if (dataframe) dependencies.push('tech.tablesaw:tablesaw-core', 'tech.tablesaw:tablesaw-json');
+
+  const imports = ['com.fasterxml.jackson.databind.JsonNode', 'com.fasterxml.jackson.databind.ObjectMapper'];
+  if (paginate || dataframe) imports.push('com.fasterxml.jackson.databind.node.ArrayNode');
+  imports.push('java.io.IOException', 'java.net.URI', 'java.net.http.HttpClient', 'java.net.http.HttpRequest', 'java.net.http.HttpResponse');
+  if (dataframe) imports.push('tech.tablesaw.api.Table');
+
+  const publisher = request.body ? 'HttpRequest.BodyPublishers.ofString(PAYLOAD)' : 'HttpRequest.BodyPublishers.noBody()';
+
+  let code = `// Dependencies: ${dependencies.join(', ')}
+${imports.map(name => `import ${name};`).join('\n')}
+
+public class MindatExample {
+    private static final String API_KEY = "YOUR_API_KEY";
+    private static final HttpClient CLIENT = HttpClient.newHttpClient();
+    private static final ObjectMapper MAPPER = new ObjectMapper();
+`;
+  if (retry) code += `    private static final int MAX_RETRIES = ${MAX_RETRIES};
+`;
+  if (request.body) code += `    private static final String PAYLOAD = ${JSON.stringify(JSON.stringify(request.body))};
+`;
+
+  code += `
+    ${retry
+    ? '// Requests a page and parses the JSON response, waiting and retrying while the API answers 429 Too Many Requests'
+    : '// Requests a page and parses the JSON response'}
+    static JsonNode fetch(String url) throws IOException, InterruptedException {
+        HttpRequest request = HttpRequest.newBuilder(URI.create(url))
+            .header("Authorization", "Token " + API_KEY)${request.body ? '\n            .header("Content-Type", "application/json")' : ''}
+            .method("${method}", ${publisher})
+            .build();
+`;
+  if (retry) {
+    code += `        for (int attempt = 0; ; attempt++) {
+            HttpResponse<String> response = CLIENT.send(request, HttpResponse.BodyHandlers.ofString());
+            if (response.statusCode() == 429 && attempt < MAX_RETRIES - 1) {
+                long delay = response.headers().firstValue("Retry-After")
+                    .filter(value -> value.matches("\\\\d+"))
+                    .map(Long::parseLong)
+                    .orElse(1L << attempt);
+                Thread.sleep(delay * 1000);
+                continue;
+            }
+            if (response.statusCode() >= 400) {
+                throw new IOException("HTTP " + response.statusCode() + ": " + response.body());
+            }
+            return MAPPER.readTree(response.body());
+        }
+    }
+`;
+  } else {
+    code += `        HttpResponse<String> response = CLIENT.send(request, HttpResponse.BodyHandlers.ofString());
+        if (response.statusCode() >= 400) {
+            throw new IOException("HTTP " + response.statusCode() + ": " + response.body());
+        }
+        return MAPPER.readTree(response.body());
+    }
+`;
+  }
+
+  code += `
+    public static void main(String[] args) throws Exception {
+        String url = ${JSON.stringify(urlWithQuery(request))};
+`;
+
+  if (!paginate && !dataframe) {
+    code += `        JsonNode page = fetch(url);
+        System.out.println(page.toPrettyString());
+    }
+}
+`;
+    return code;
+  }
+
+  const collect = `if (page.has("results")) {
+            page.get("results").forEach(records::add);
+        } else {
+            records.add(page);
+        }`;
+  if (paginate) {
+    code += `        ArrayNode records = MAPPER.createArrayNode();
+
+        // Follow the "next" links until the last page
+        while (url != null) {
+            JsonNode page = fetch(url);
+            ${collect.replace(/\n/g, '\n    ')}
+            url = page.path("next").isTextual() ? page.get("next").asText() : null;
+        }
+`;
+  } else {
+    code += `        ArrayNode records = MAPPER.createArrayNode();
+        JsonNode page = fetch(url);
+        ${collect}
+`;
+  }
+  code += dataframe
+    ? `
+        Table table = Table.read().string(records.toString(), "json");
+        System.out.println(table.first(5));
+    }
+}
+`
+    : `
+        System.out.println(records.size() + " records");
+    }
+}
+`;
+
+  return code;
+}
+
+/**
+ * Generates PowerShell code using Invoke-RestMethod
+ */
+function generatePowerShellCode(request: SnippetRequest): string {
+  const { method, paginate, retry, dataframe } = request;
+  const psMethod = method.charAt(0) + method.slice(1).toLowerCase();
+  const bodyArgs = request.body ? ' -Body $Body -ContentType "application/json"' : '';
+  const invoke = `Invoke-RestMethod -Uri $Uri -Method ${psMethod} -Headers $Headers${bodyArgs}`;
+
+  let code = `$ApiKey = "YOUR_API_KEY"
+$Headers = @{ Authorization = "Token $ApiKey" }
+$Uri = '${urlWithQuery(request).replace(/'/g, "''")}'
+`;
+  if (request.body) {
+    code += `$Body = @'
+${JSON.stringify(request.body, null, 2)}
+'@
+`;
+  }
+
+  if (retry) {
+    code += `
+# Request a page, waiting and retrying while the API answers 429 Too Many Requests
+function Invoke-MindatRequest([string]$Uri) {
+    $MaxRetries = ${MAX_RETRIES}
+    for ($attempt = 0; ; $attempt++) {
+        try {
+            return ${invoke}
+        } catch {
+            $response = $_.Exception.Response
+            if ($null -eq $response -or [int]$response.StatusCode -ne 429 -or $attempt -ge $MaxRetries - 1) { throw }
+            $delay = [math]::Pow(2, $attempt)
+            if ($response.Headers.RetryAfter.Delta) { $delay = $response.Headers.RetryAfter.Delta.TotalSeconds }
+            Start-Sleep -Seconds $delay
+        }
+    }
+}
+`;
+  } else {
+    code += `
+function Invoke-MindatRequest([string]$Uri) {
+    ${invoke}
+}
+`;
+  }
+
+  if (!paginate && !dataframe) {
+    code += `
+$page = Invoke-MindatRequest $Uri
+$page | ConvertTo-Json -Depth 10
+`;
+    return code;
+  }
+
+  code += `
+$page = Invoke-MindatRequest $Uri
+$records = @(if ($null -ne $page.results) { $page.results } else { $page })
+`;
+  if (paginate) {
+    code += `
+# Follow the "next" links until the last page
+while ($page.next) {
+    $page = Invoke-MindatRequest $page.next
+    $records += $page.results
+}
+`;
+  }
+  code += dataframe
+    ? `
+# PowerShell objects already behave as table rows: view them, or save them for Excel, R or pandas
+$records | Select-Object -First 10 | Format-Table
+$records | Export-Csv -Path mindat.csv -NoTypeInformation
+`
+    : `
+"$($records.Count) records"
+`;
+
+  return code;
+}
+
 /**
  * Extracts query parameters for an endpoint
  */
@@ -1,5 +1,6 @@
 import cron from 'node-cron';
 import { MineralSyncService } from './mineral-sync-service.js';
+import { MineralLinkingService } from './mineral-linking-service.js';
 
 export class CronService {
   private static instance: CronService;
@@ -51,7 +52,7 @@ export class CronService {
       timezone: 'UTC'
     });
 
-    // Weekly full sync on Sundays at 3:00 AM UTC
+    // Weekly full sync on Sundays at 3:00 AM UTC, followed by the Mindat/RRUFF link rebuild
     cron.schedule('0 3 * * 0', async () => {
       if (this.isRunning) {
         console.log('Mineral sync already running, skipping weekly full sync...');
@@ -65,6 +66,14 @@ export class CronService {
         console.log('Scheduled full mineral sync completed:', result);
       } catch (error) {
         console.error('Scheduled full mineral sync failed:', error);
+      }
+
+      try {
+        console.log('Starting scheduled weekly RRUFF link rebuild...');
+        const result = await MineralLinkingService.getInstance().rebuildLinks();
+        console.log('Scheduled RRUFF link rebuild completed:', result);
+      } catch (error) {
+        console.error('Scheduled RRUFF link rebuild failed:', error);
       } finally {
         this.isRunning = false;
       }
@@ -72,11 +81,65 @@ export class CronService {
       timezone: 'UTC'
     });
 
+    // Weekly locality and occurrence sync on Saturdays at 3:00 AM UTC
+    cron.schedule('0 3 * * 6', async () => {
+      if (this.isRunning) {
+        console.log('Mineral sync already running, skipping weekly locality sync...');
+        return;
+      }
+
+      this.isRunning = true;
+      try {
+        console.log('Starting scheduled weekly locality sync...');
+        const result = await this.mineralSyncService.performLocalitySync();
+        console.log('Scheduled locality sync completed:', result);
+      } catch (error) {
+        console.error('Scheduled locality sync failed:', error);
+      } finally {
+        this.isRunning = false;
+      }
+    }, {
+      timezone: 'UTC'
+    });
+
+
+    // Every 5 minutes, pick up syncs interrupted by a crash or restart
+    cron.schedule('*/5 * * * *', () => this.resumeInterruptedSync(), {
+      timezone: 'UTC'
+    });
+
     this.isStarted = true;
 
     console.log('Cron jobs scheduled:');
     console.log('- Daily incremental sync: 2:00 AM UTC');
-    console.log('- Weekly full sync: 3:00 AM UTC on Sundays');
+    console.log('- Weekly full sync and RRUFF link rebuild: 3:00 AM UTC on Sundays');
+    console.log('- Weekly locality sync: 3:00 AM UTC on Saturdays');
+    console.log('- Interrupted sync check: every 5 minutes');
+
+    // Resume straight away if the previous process died mid-sync
+    this.resumeInterruptedSync();
+  }
+
+  /**
+   * Continue a sync another process left unfinished. The lease-based sync lock
+   * keeps this from racing other processes doing the same.
+   */
+  private async resumeInterruptedSync(): Promise<void> {
+    if (this.isRunning) {
+      return;
+    }
+
+    this.isRunning = true;
+    try {
+      const result = await this.mineralSyncService.resumeInterruptedSync();
+      if (result) {
+        console.log('Interrupted mineral sync resumed and completed:', result);
+      }
+    } catch (error) {
+      console.error('Resuming interrupted mineral sync failed:', error);
+    } finally {
+      this.isRunning = false;
+    }
   }
 
   /**
@@ -90,7 +153,7 @@ export class CronService {
   /**
    * Manually trigger mineral sync
    */
-  async triggerMineralSync(type: 'full' | 'incremental' = 'incremental'): Promise<any> {
+  async triggerMineralSync(type: 'full' | 'incremental' | 'localities' = 'incremental', options: { force?: boolean } = {}): Promise<any> {
     if (this.isRunning) {
       throw new Error('Mineral sync is already running');
     }
@@ -100,7 +163,9 @@ export class CronService {
       console.log(`Manually triggering ${type} mineral sync...`);
       
       if (type === 'full') {
-        return await this.mineralSyncService.performFullSync();
+        return await this.mineralSyncService.performFullSync({ force: options.force });
+      } else if (type === 'localities') {
+        return await this.mineralSyncService.performLocalitySync();
       } else {
         return await this.mineralSyncService.performIncrementalSync();
       }
@@ -110,9 +175,14 @@ export class CronService {
   }
 
   /**
-   * Get sync status
+   * Get sync status, including syncs running in other processes
    */
-  getSyncStatus(): { isRunning: boolean } {
-    return { isRunning: this.isRunning };
+  async getSyncStatus() {
+    const progress = await this.mineralSyncService.getSyncProgress();
+    return {
+      isRunning: this.isRunning || !!progress.lock,
+      runningInThisProcess: this.isRunning,
+      ...progress
+    };
   }
 }
\ No newline at end of file
@@ -0,0 +1,397 @@
+/**
+ * Chemical Formula Parser
+ *
+ * Turns the free-text mineral formulas stored from Mindat and RRUFF into a
+ * structured composition:
+ * 1. Normalizes Mindat HTML (`<sub>`, `<sup>`), RRUFF `_2_`/`^2+^` markup and Unicode sub/superscripts
+ * 2. Parses nested (), [] and {} groups, hydrate and adduct dots (`·nH2O`, or `.10H2O` and oxide sums such as
+ *    `Al2O3.2SiO2` in plain text) and site-sharing
+ *    alternatives such as `(Fe,Mg)2`, which are split equally between the listed elements
+ * 3. Resolves subscript ranges (`2-3` -> 2.5) and variables (`1-x` -> 1, `nH2O` -> 1 H2O)
+ * 4. Counts vacancies (□) separately
+ * 5. Computes molecular weight, element weight percents and oxide weight percents
+ * 6. Converts oxide analyses back into element weight percents
+ *
+ * Variables and ranges are approximations and are reported in `warnings`.
+ * Oxide percents only sum to ~100 for oxygen-based minerals; halides and
+ * sulfides are better described by the element percents.
+ */
+
+export interface FormulaComposition {
+  formula: string; // normalized plain-text formula
+  elements: Record<string, number>; // atoms per formula unit
+  vacancies: number;
+  molecularWeight: number;
+  elementWeightPercents: Record<string, number>;
+  oxideWeightPercents: Record<string, number>;
+  unknownSymbols: string[]; // placeholders such as REE or M that have no atomic weight
+  warnings: string[];
+}
+
+// Standard atomic weights (IUPAC conventional values; mass number for elements without a stable isotope)
+export const ATOMIC_WEIGHTS: Record<string, number> = {
+  H: 1.008, He: 4.0026, Li: 6.94, Be: 9.0122, B: 10.81, C: 12.011, N: 14.007, O: 15.999,
+  F: 18.998, Ne: 20.18, Na: 22.99, Mg: 24.305, Al: 26.982, Si: 28.085, P: 30.974, S: 32.06,
+  Cl: 35.45, Ar: 39.948, K: 39.098, Ca: 40.078, Sc: 44.956, Ti: 47.867, V: 50.942, Cr: 51.996,
+  Mn: 54.938, Fe: 55.845, Co: 58.933, Ni: 58.693, Cu: 63.546, Zn: 65.38, Ga: 69.723, Ge: 72.63,
+  As: 74.922, Se: 78.971, Br: 79.904, Kr: 83.798, Rb: 85.468, Sr: 87.62, Y: 88.906, Zr: 91.224,
+  Nb: 92.906, Mo: 95.95, Tc: 98, Ru: 101.07, Rh: 102.91, Pd: 106.42, Ag: 107.87, Cd: 112.41,
+  In: 114.82, Sn: 118.71, Sb: 121.76, Te: 127.6, I: 126.9, Xe: 131.29, Cs: 132.91, Ba: 137.33,
+  La: 138.91, Ce: 140.12, Pr: 140.91, Nd: 144.24, Pm: 145, Sm: 150.36, Eu: 151.96, Gd: 157.25,
+  Tb: 158.93, Dy: 162.5, Ho: 164.93, Er: 167.26, Tm: 168.93, Yb: 173.05, Lu: 174.97, Hf: 178.49,
+  Ta: 180.95, W: 183.84, Re: 186.21, Os: 190.23, Ir: 192.22, Pt: 195.08, Au: 196.97, Hg: 200.59,
+  Tl: 204.38, Pb: 207.2, Bi: 208.98, Po: 209, At: 210, Rn: 222, Fr: 223, Ra: 226,
+  Ac: 227, Th: 232.04, Pa: 231.04, U: 238.03, Np: 237, Pu: 244
+};
+
+// Oxide each element is conventionally reported as: [cations, oxygens] per oxide formula
+const OXIDES: Record<string, [number, number]> = {
+  H: [2, 1], Li: [2, 1], Be: [1, 1], B: [2, 3], C: [1, 2], N: [2, 5], Na: [2, 1], Mg: [1, 1],
+  Al: [2, 3], Si: [1, 2], P: [2, 5], S: [1, 3], K: [2, 1], Ca: [1, 1], Sc: [2, 3], Ti: [1, 2],
+  V: [2, 5], Cr: [2, 3], Mn: [1, 1], Fe: [1, 1], Co: [1, 1], Ni: [1, 1], Cu: [1, 1], Zn: [1, 1],
+  Ga: [2, 3], Ge: [1, 2], As: [2, 5], Se: [1, 2], Rb: [2, 1], Sr: [1, 1], Y: [2, 3], Zr: [1, 2],
+  Nb: [2, 5], Mo: [1, 3], Ag: [2, 1], Cd: [1, 1], In: [2, 3], Sn: [1, 2], Sb: [2, 5], Te: [1, 2],
+  Cs: [2, 1], Ba: [1, 1], La: [2, 3], Ce: [2, 3], Pr: [2, 3], Nd: [2, 3], Sm: [2, 3], Eu: [2, 3],
+  Gd: [2, 3], Tb: [2, 3], Dy: [2, 3], Ho: [2, 3], Er: [2, 3], Tm: [2, 3], Yb: [2, 3], Lu: [2, 3],
+  Hf: [1, 2], Ta: [2, 5], W: [1, 3], Hg: [1, 1], Tl: [2, 1], Pb: [1, 1], Bi: [2, 3], Th: [1, 2],
+  U: [1, 3]
+};
+
+// Multi-letter placeholders used in mineral formulas
+const PLACEHOLDERS = ['REE', 'Ln'];
+
+const VARIABLES = 'xyznδ';
+
+// A plain-text hydrate dot followed by a water coefficient: `.10H2O`, `.0.5H2O`, `.nH2O`
+const HYDRATE_DOT = /^\.(?:\d+(?:\.\d+)?|n)?[(\[]?H2O/;
+
+// An integer subscript right before a hydrate dot, so `O7.10H2O` reads as O7 · 10H2O rather than O7.1
+const SUBSCRIPT_BEFORE_HYDRATE = /^[1-9]\d*(?=\.(?:\d+(?:\.\d+)?|n)?[(\[]?H2O)/;
+
+// Oxide notation adducts (`Al2O3.2SiO2`): a dot after an oxygen subscript, then a coefficient and a group
+const OXIDE_ADDUCT_DOT = /^\.\d+(?:\.\d+)?[A-Z]/;
+const SUBSCRIPT_BEFORE_OXIDE_ADDUCT = /^[1-9]\d*(?=\.\d+(?:\.\d+)?[A-Z])/;
+
+type Composition = Map<string, number>;
+
+function addInto(target: Composition, source: Composition, factor: number = 1): void {
+  source.forEach((count, symbol) => {
+    target.set(symbol, (target.get(symbol) || 0) + count * factor);
+  });
+}
+
+/**
+ * Strip markup and unify separators so the parser only sees plain text
+ */
+export function normalizeFormula(formula: string): string {
+  return formula
+    .replace(/&middot;|&#183;|&bull;/gi, '·')
+    .replace(/&#9633;|&square;/gi, '□')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/<sup>.*?<\/sup>/gi, '')
+    .replace(/<\/?sub>/gi, '')
+    .replace(/<[^>]+>/g, '')
+    .replace(/\^[^^]*\^/g, '')
+    .replace(/_([^_]*)_/g, '$1')
+    .replace(/[₀-₉]/g, digit => String(digit.charCodeAt(0) - 0x2080))
+    .replace(/[⁰¹²³⁴⁵⁶⁷⁸⁹⁺⁻]/g, '')
+    .replace(/[•∙⋅*]/g, '·')
+    .replace(/[–—−]/g, '-')
+    .replace(/\s+/g, '');
+}
+
+class FormulaReader {
+  private index = 0;
+  readonly unknownSymbols = new Set<string>();
+  readonly warnings: string[] = [];
+
+  constructor(private readonly text: string) {}
+
+  parse(): Composition {
+    const total: Composition = new Map();
+
+    // Hydrate dots and other adducts: CaSO4·2H2O
+    while (this.index < this.text.length) {
+      const coefficient = this.readCount(false);
+      const part = this.readSequence();
+      addInto(total, part, coefficient ?? 1);
+
+      if (this.peek() === '·' || this.atDotSeparator()) {
+        this.index++;
+      } else if (this.index < this.text.length) {
+        this.warnings.push(`Unexpected '${this.peek()}' at position ${this.index + 1}`);
+        this.index++;
+      }
+    }
+
+    return total;
+  }
+
+  private peek(): string {
+    return this.text[this.index] || '';
+  }
+
+  /**
+   * A `.` separates a hydrate or other adduct unless it is a decimal point (`Fe0.5`)
+   */
+  private atDotSeparator(): boolean {
+    if (this.peek() !== '.') return false;
+
+    const rest = this.text.slice(this.index);
+    return !/\d/.test(this.text[this.index + 1] || '') ||
+      HYDRATE_DOT.test(rest) ||
+      (OXIDE_ADDUCT_DOT.test(rest) && /O\d*$/.test(this.text.slice(0, this.index)));
+  }
+
+  /**
+   * Read elements and groups until a separator or a closing bracket.
+   * Vacancies are tracked under the `□` key so site sharing and multipliers apply to them too.
+   */
+  private readSequence(): Composition {
+    const composition: Composition = new Map();
+
+    while (this.index < this.text.length) {
+      const char = this.peek();
+
+      if (char === '·' || char === ',' || /[)\]}]/.test(char)) break;
+      if (char === '.' && this.atDotSeparator()) break;
+
+      if (/[(\[{]/.test(char)) {
+        const group = this.readGroup();
+        const count = this.readCount(true) ?? 1;
+        addInto(composition, group, count);
+      } else if (char === '□') {
+        this.index++;
+        const count = this.readCount(true) ?? 1;
+        composition.set('□', (composition.get('□') || 0) + count);
+      } else if (/[A-Z]/.test(char)) {
+        const symbol = this.readSymbol();
+        this.skipCharge();
+        const count = this.readCount(true) ?? 1;
+        composition.set(symbol, (composition.get(symbol) || 0) + count);
+      } else {
+        this.warnings.push(`Unexpected '${char}' at position ${this.index + 1}`);
+        this.index++;
+      }
+    }
+
+    return composition;
+  }
+
+  /**
+   * Read a bracketed group; comma-separated alternatives share the site equally
+   */
+  private readGroup(): Composition {
+    const opening = this.peek();
+    const closing = opening === '(' ? ')' : opening === '[' ? ']' : '}';
+    this.index++;
+
+    const alternatives: Composition[] = [];
+
+    while (true) {
+      alternatives.push(this.readSequence());
+
+      if (this.peek() === ',') {
+        this.index++;
+        continue;
+      }
+      break;
+    }
+
+    if (this.peek() === closing) {
+      this.index++;
+    } else {
+      this.warnings.push(`Unbalanced '${opening}'`);
+    }
+
+    if (alternatives.length === 1) return alternatives[0];
+
+    const share = 1 / alternatives.length;
+    const averaged: Composition = new Map();
+    alternatives.forEach(alternative => addInto(averaged, alternative, share));
+    return averaged;
+  }
+
+  private readSymbol(): string {
+    const placeholder = PLACEHOLDERS.find(name => this.text.startsWith(name, this.index));
+    if (placeholder) {
+      this.index += placeholder.length;
+      this.unknownSymbols.add(placeholder);
+      return placeholder;
+    }
+
+    const twoLetters = this.text.slice(this.index, this.index + 2);
+    const symbol = /^[A-Z][a-z]$/.test(twoLetters) && ATOMIC_WEIGHTS[twoLetters] ? twoLetters : this.peek();
+    this.index += symbol.length;
+
+    if (!ATOMIC_WEIGHTS[symbol]) {
+      this.unknownSymbols.add(symbol);
+    }
+    return symbol;
+  }
+
+  /**
+   * Skip plain-text valence markers such as `Fe2+` or `Fe3+`
+   */
+  private skipCharge(): void {
+    const match = this.text.slice(this.index).match(/^\d?\+(?![xyznδ])/);
+    if (match) this.index += match[0].length;
+  }
+
+  /**
+   * Read a subscript or coefficient: a number, a range (`2-3`) or an expression
+   * with variables (`1-x`, `n`). Variables count as 0 inside expressions and a
+   * bare variable counts as 1.
+   */
+  private readCount(allowVariable: boolean): number | null {
+    if (allowVariable) {
+      const subscript = this.text.slice(this.index).match(SUBSCRIPT_BEFORE_HYDRATE) ||
+        (this.text[this.index - 1] === 'O' ? this.text.slice(this.index).match(SUBSCRIPT_BEFORE_OXIDE_ADDUCT) : null);
+      if (subscript) {
+        this.index += subscript[0].length;
+        return parseInt(subscript[0], 10);
+      }
+    }
+
+    const match = this.text.slice(this.index).match(
+      allowVariable
+        ? /^(\d+(?:\.\d+)?|[xyznδ])((?:[-+](?:\d+(?:\.\d+)?|[xyznδ]))*)/
+        : /^(\d+(?:\.\d+)?|n)((?:[-+](?:\d+(?:\.\d+)?|[xyznδ]))*)/
+    );
+    if (!match) return null;
+
+    this.index += match[0].length;
+
+    const [, first, rest] = match;
+    const base = VARIABLES.includes(first) ? 1 : parseFloat(first);
+
+    if (VARIABLES.includes(first)) {
+      this.warnings.push(`Variable '${first}' treated as 1`);
+    }
+    if (!rest) return base;
+
+    const terms = rest.match(/[-+](?:\d+(?:\.\d+)?|[xyznδ])/g) || [];
+
+    // A single numeric upper bound is a range, e.g. 2-3
+    if (!VARIABLES.includes(first) && terms.length === 1 && /^-\d/.test(terms[0])) {
+      const upper = parseFloat(terms[0].slice(1));
+      if (upper > base) {
+        this.warnings.push(`Range ${first}${terms[0]} replaced by its midpoint`);
+        return (base + upper) / 2;
+      }
+    }
+
+    let value = base;
+    terms.forEach(term => {
+      const operand = term.slice(1);
+      if (VARIABLES.includes(operand)) {
+        this.warnings.push(`Variable '${operand}' treated as 0`);
+        return;
+      }
+      value += term[0] === '-' ? -parseFloat(operand) : parseFloat(operand);
+    });
+
+    return Math.max(0, value);
+  }
+}
+
+/**
+ * Capitalize user input such as "fe" or "SI" into an element symbol ("Fe", "Si")
+ */
+export function toElementSymbol(input: string): string {
+  const trimmed = input.trim();
+  return trimmed.charAt(0).toUpperCase() + trimmed.slice(1).toLowerCase();
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Parse a mineral formula into element counts, molecular weight and weight percents
+ */
+export function parseFormula(formula: string | null | undefined): FormulaComposition | null {
+  if (!formula || !formula.trim()) return null;
+
+  const normalized = normalizeFormula(formula);
+  if (!normalized) return null;
+
+  const reader = new FormulaReader(normalized);
+  const composition = reader.parse();
+
+  const elements: Record<string, number> = {};
+  let molecularWeight = 0;
+
+  const vacancies = composition.get('□') || 0;
+  composition.delete('□');
+
+  composition.forEach((count, symbol) => {
+    if (count <= 0) return;
+    elements[symbol] = round(count, 4);
+    if (ATOMIC_WEIGHTS[symbol]) {
+      molecularWeight += count * ATOMIC_WEIGHTS[symbol];
+    }
+  });
+
+  const elementWeightPercents: Record<string, number> = {};
+  const oxideWeightPercents: Record<string, number> = {};
+
+  if (molecularWeight > 0) {
+    composition.forEach((count, symbol) => {
+      const atomicWeight = ATOMIC_WEIGHTS[symbol];
+      if (!atomicWeight || count <= 0) return;
+
+      elementWeightPercents[symbol] = round((count * atomicWeight / molecularWeight) * 100, 3);
+
+      const oxide = OXIDES[symbol];
+      if (oxide) {
+        const [cations, oxygens] = oxide;
+        const name = `${symbol}${cations > 1 ? cations : ''}O${oxygens > 1 ? oxygens : ''}`;
+        const oxideWeight = cations * atomicWeight + oxygens * ATOMIC_WEIGHTS.O;
+        oxideWeightPercents[name] = round(((count / cations) * oxideWeight / molecularWeight) * 100, 3);
+      }
+    });
+  }
+
+  return {
+    formula: normalized,
+    elements,
+    vacancies: round(vacancies, 4),
+    molecularWeight: round(molecularWeight, 3),
+    elementWeightPercents,
+    oxideWeightPercents,
+    unknownSymbols: Array.from(reader.unknownSymbols),
+    warnings: Array.from(new Set(reader.warnings))
+  };
+}
+
+/**
+ * Convert an analysis reported as oxide weight percents (SiO2, FeO, Fe2O3, H2O...)
+ * into element weight percents, including the oxygen carried by the oxides
+ */
+export function oxideToElementPercents(oxides: Record<string, number>): {
+  elements: Record<string, number>;
+  unknownOxides: string[];
+} {
+  const elements: Record<string, number> = {};
+  const unknownOxides: string[] = [];
+
+  Object.entries(oxides).forEach(([oxide, percent]) => {
+    const composition = parseFormula(oxide);
+    if (!composition || composition.molecularWeight <= 0 || composition.unknownSymbols.length > 0) {
+      unknownOxides.push(oxide);
+      return;
+    }
+
+    Object.entries(composition.elementWeightPercents).forEach(([symbol, fraction]) => {
+      elements[symbol] = (elements[symbol] || 0) + percent * fraction / 100;
+    });
+  });
+
+  Object.keys(elements).forEach(symbol => {
+    elements[symbol] = round(elements[symbol], 3);
+  });
+
+  return { elements, unknownOxides };
+}
@@ -0,0 +1,651 @@
+/**
+ * GraphQL Schema
+ *
+ * One query surface over the synced Mindat minerals, the RRUFF minerals and
+ * spectra, and the Dana / Nickel-Strunz classification, so a view can be
+ * assembled in a single request instead of several REST calls:
+ * 1. Mineral and RruffMineral are cross-linked through mineral_rruff_links
+ *    (auto or confirmed links), falling back to the normalized species name
+ *    for records the linking job has not matched yet
+ * 2. Nested lookups are batched per request (one query per level, not per row)
+ * 3. List sizes are capped and query depth is limited, since one request counts
+ *    once against the API key rate limit
+ */
+
+import {
+  GraphQLBoolean,
+  GraphQLEnumType,
+  GraphQLError,
+  GraphQLFloat,
+  GraphQLInt,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLObjectType,
+  GraphQLSchema,
+  GraphQLString,
+  Kind,
+  type ASTVisitor,
+  type SelectionSetNode,
+  type ValidationContext
+} from 'graphql';
+import { and, asc, desc, eq, inArray, sql, type SQL } from 'drizzle-orm';
+import { db } from '../db.js';
+import { mineralRruffLinks, minerals, type Mineral } from '@shared/schema';
+import { rruffMinerals, rruffSpectra } from '@shared/rruff-schema';
+import { MineralsApiService, type ClassificationClassSummary } from './minerals-api-service.js';
+import {
+  CLASSIFICATION_COLUMNS,
+  parseClassificationCode,
+  type ClassificationSystem
+} from './mineral-classification.js';
+import { normalizeSpeciesName } from './mineral-matching.js';
+import { ACTIVE_LINK_STATUSES } from './mineral-linking-service.js';
+
+type RruffMineral = typeof rruffMinerals.$inferSelect;
+type RruffSpectrum = typeof rruffSpectra.$inferSelect;
+
+export const MAX_QUERY_DEPTH = 8;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Collects the keys requested while a level of the query resolves and loads
+ * them with one batch call (a minimal DataLoader)
+ */
+class BatchLoader<K, V> {
+  private cache = new Map<K, Promise<V>>();
+  private pending: Array<{ key: K; resolve: (value: V) => void; reject: (error: unknown) => void }> = [];
+
+  constructor(private loadBatch: (keys: K[]) => Promise<Map<K, V>>, private missing: V) {}
+
+  load(key: K): Promise<V> {
+    const cached = this.cache.get(key);
+    if (cached) return cached;
+
+    const promise = new Promise<V>((resolve, reject) => {
+      if (this.pending.length === 0) {
+        setImmediate(() => this.dispatch());
+      }
+      this.pending.push({ key, resolve, reject });
+    });
+    this.cache.set(key, promise);
+    return promise;
+  }
+
+  private async dispatch() {
+    const batch = this.pending;
+    this.pending = [];
+
+    try {
+      const values = await this.loadBatch(Array.from(new Set(batch.map(entry => entry.key))));
+      batch.forEach(entry => entry.resolve(values.has(entry.key) ? values.get(entry.key)! : this.missing));
+    } catch (error) {
+      batch.forEach(entry => entry.reject(error));
+    }
+  }
+}
+
+function groupBy<K, V>(rows: V[], key: (row: V) => K): Map<K, V[]> {
+  const groups = new Map<K, V[]>();
+  rows.forEach(row => {
+    const group = groups.get(key(row)) || [];
+    group.push(row);
+    groups.set(key(row), group);
+  });
+  return groups;
+}
+
+function createLoaders() {
+  return {
+    mineralById: new BatchLoader<number, Mineral | null>(async ids => {
+      const rows = await db.select().from(minerals).where(inArray(minerals.id, ids));
+      return new Map(rows.map(row => [row.id, row]));
+    }, null),
+
+    // Mindat has several records per name (species, varieties, synonyms); prefer the active, lowest id
+    mineralByName: new BatchLoader<string, Mineral | null>(async names => {
+      const rows = await db
+        .select()
+        .from(minerals)
+        .where(and(eq(minerals.isActive, true), inArray(sql`LOWER(TRIM(${minerals.name}))`, names)))
+        .orderBy(asc(minerals.id));
+      const result = new Map<string, Mineral>();
+      rows.forEach(row => {
+        const key = normalizeSpeciesName(row.name);
+        if (!result.has(key)) result.set(key, row);
+      });
+      return result;
+    }, null),
+
+    rruffByName: new BatchLoader<string, RruffMineral[]>(async names => {
+      const rows = await db
+        .select()
+        .from(rruffMinerals)
+        .where(and(eq(rruffMinerals.isActive, true), inArray(sql`LOWER(TRIM(${rruffMinerals.mineralName}))`, names)))
+        .orderBy(asc(rruffMinerals.id));
+      return groupBy(rows, row => normalizeSpeciesName(row.mineralName));
+    }, []),
+
+    // Linked records; a missing key (null) means "no links", so resolvers fall back to the name
+    linkedRruffByMineralId: new BatchLoader<number, RruffMineral[] | null>(async ids => {
+      const rows = await db
+        .select({ mineralId: mineralRruffLinks.mineralId, rruff: rruffMinerals })
+        .from(mineralRruffLinks)
+        .innerJoin(rruffMinerals, eq(rruffMinerals.id, mineralRruffLinks.rruffMineralId))
+        .where(and(inArray(mineralRruffLinks.mineralId, ids), inArray(mineralRruffLinks.status, ACTIVE_LINK_STATUSES)))
+        .orderBy(asc(rruffMinerals.id));
+      const groups = groupBy(rows, row => row.mineralId);
+      return new Map(Array.from(groups, ([mineralId, group]) => [mineralId, group.map(row => row.rruff)]));
+    }, null),
+
+    linkedMineralByRruffId: new BatchLoader<number, Mineral | null>(async ids => {
+      const rows = await db
+        .select({ rruffMineralId: mineralRruffLinks.rruffMineralId, mineral: minerals })
+        .from(mineralRruffLinks)
+        .innerJoin(minerals, eq(minerals.id, mineralRruffLinks.mineralId))
+        .where(and(inArray(mineralRruffLinks.rruffMineralId, ids), inArray(mineralRruffLinks.status, ACTIVE_LINK_STATUSES)))
+        .orderBy(desc(mineralRruffLinks.confidence), asc(minerals.id));
+      const result = new Map<number, Mineral>();
+      rows.forEach(row => {
+        if (!result.has(row.rruffMineralId)) result.set(row.rruffMineralId, row.mineral);
+      });
+      return result;
+    }, null),
+
+    spectraByRruffId: new BatchLoader<number, RruffSpectrum[]>(async ids => {
+      const rows = await db
+        .select()
+        .from(rruffSpectra)
+        .where(inArray(rruffSpectra.mineralId, ids))
+        .orderBy(asc(rruffSpectra.id));
+      return groupBy(rows, row => row.mineralId);
+    }, [])
+  };
+}
+
+export interface GraphqlContext {
+  loaders: ReturnType<typeof createLoaders>;
+}
+
+async function linkedRruff(mineral: Mineral, context: GraphqlContext): Promise<RruffMineral[]> {
+  return (await context.loaders.linkedRruffByMineralId.load(mineral.id))
+    ?? context.loaders.rruffByName.load(normalizeSpeciesName(mineral.name));
+}
+
+/**
+ * Fresh per-request context; loaders cache only for the length of one query
+ */
+export function createGraphqlContext(): GraphqlContext {
+  return { loaders: createLoaders() };
+}
+
+/**
+ * Rejects queries nested deeper than `maxDepth` fields (introspection fields excepted)
+ */
+export function depthLimitRule(maxDepth: number = MAX_QUERY_DEPTH) {
+  return (context: ValidationContext): ASTVisitor => {
+    const depthOf = (selectionSet: SelectionSetNode | undefined, visited: Set<string>): number => {
+      if (!selectionSet) return 0;
+
+      return Math.max(0, ...selectionSet.selections.map(selection => {
+        if (selection.kind === Kind.FIELD) {
+          if (selection.name.value.startsWith('__')) return 0;
+          return selection.selectionSet ? 1 + depthOf(selection.selectionSet, visited) : 1;
+        }
+        if (selection.kind === Kind.INLINE_FRAGMENT) {
+          return depthOf(selection.selectionSet, visited);
+        }
+        const name = selection.name.value;
+        if (visited.has(name)) return 0;
+        return depthOf(context.getFragment(name)?.selectionSet, new Set(visited).add(name));
+      }));
+    };
+
+    return {
+      OperationDefinition(node) {
+        const depth = depthOf(node.selectionSet, new Set());
+        if (depth > maxDepth) {
+          context.reportError(new GraphQLError(`Query depth ${depth} exceeds the maximum of ${maxDepth}`, { nodes: [node] }));
+        }
+      }
+    };
+  };
+}
+
+const pageArgs = {
+  limit: { type: GraphQLInt, defaultValue: 20, description: `At most ${MAX_PAGE_SIZE}` },
+  offset: { type: GraphQLInt, defaultValue: 0 }
+};
+
+function pageSize(args: { limit?: number | null; offset?: number | null }) {
+  return {
+    limit: Math.min(Math.max(args.limit ?? 20, 0), MAX_PAGE_SIZE),
+    offset: Math.max(args.offset ?? 0, 0)
+  };
+}
+
+const toIsoString = (value: Date | null | undefined) => (value ? value.toISOString() : null);
+const toStringList = (value: unknown) => (Array.isArray(value) ? value.map(String) : []);
+
+const ClassificationSystemEnum = new GraphQLEnumType({
+  name: 'ClassificationSystem',
+  values: {
+    DANA: { value: 'dana', description: 'Dana 8th edition' },
+    STRUNZ: { value: 'strunz', description: 'Nickel-Strunz 10th edition' }
+  }
+});
+
+const ClassificationCodeType = new GraphQLObjectType<{ code: string; levels: string[] }>({
+  name: 'ClassificationCode',
+  fields: {
+    code: { type: new GraphQLNonNull(GraphQLString), description: 'e.g. "75.1.3.1" or "4.DA.05"' },
+    levels: { type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(GraphQLString))) }
+  }
+});
+
+const ElementAmountType = new GraphQLObjectType<{ element: string; value: number }>({
+  name: 'ElementAmount',
+  fields: {
+    element: { type: new GraphQLNonNull(GraphQLString) },
+    value: { type: new GraphQLNonNull(GraphQLFloat) }
+  }
+});
+
+const RelatedMineralType = new GraphQLObjectType<{ id: number; name: string | null; formula: string | null }, GraphqlContext>({
+  name: 'RelatedMineral',
+  fields: () => ({
+    id: { type: new GraphQLNonNull(GraphQLInt) },
+    name: { type: GraphQLString, description: 'null when the related geomaterial is not synced' },
+    formula: { type: GraphQLString },
+    mineral: {
+      type: MineralType,
+      resolve: (related, _args, context) => context.loaders.mineralById.load(related.id)
+    }
+  })
+});
+
+const relatedList = { type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(RelatedMineralType))) };
+
+const MineralRelationsType = new GraphQLObjectType({
+  name: 'MineralRelations',
+  fields: {
+    synonymOf: relatedList,
+    varietyOf: relatedList,
+    polytypeOf: relatedList,
+    memberOf: relatedList,
+    synonyms: relatedList,
+    varieties: relatedList,
+    polytypes: relatedList,
+    members: relatedList,
+    typeLocalities: { type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(GraphQLInt))), description: 'Mindat locality IDs' }
+  }
+});
+
+const MindatUnitCellType = new GraphQLObjectType<Mineral>({
+  name: 'MindatUnitCell',
+  description: 'Cell parameters as Mindat reports them (text, may carry uncertainties)',
+  fields: {
+    a: { type: GraphQLString },
+    b: { type: GraphQLString },
+    c: { type: GraphQLString },
+    alpha: { type: GraphQLString },
+    beta: { type: GraphQLString },
+    gamma: { type: GraphQLString },
+    z: { type: GraphQLInt }
+  }
+});
+
+const MineralType: GraphQLObjectType<Mineral, GraphqlContext> = new GraphQLObjectType<Mineral, GraphqlContext>({
+  name: 'Mineral',
+  description: 'A synced Mindat geomaterial',
+  fields: () => ({
+    id: { type: new GraphQLNonNull(GraphQLInt), description: 'Mindat ID' },
+    longid: { type: GraphQLString },
+    name: { type: new GraphQLNonNull(GraphQLString) },
+    mindatFormula: { type: GraphQLString },
+    imaFormula: { type: GraphQLString },
+    imaStatus: { type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(GraphQLString))), resolve: mineral => toStringList(mineral.imaStatus) },
+    elements: { type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(GraphQLString))), resolve: mineral => mineral.elements || [] },
+    molecularWeight: { type: GraphQLFloat },
+    elementWeightPercents: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(ElementAmountType))),
+      resolve: mineral => Object.entries((mineral.elementWeightPercents || {}) as Record<string, number>)
+        .map(([element, value]) => ({ element, value }))
+    },
+    crystalSystem: { type: GraphQLString, resolve: mineral => mineral.csystem },
+    spaceGroup: { type: GraphQLInt, resolve: mineral => mineral.spacegroup },
+    unitCell: { type: new GraphQLNonNull(MindatUnitCellType), resolve: mineral => mineral },
+    hardnessMin: { type: GraphQLFloat, resolve: mineral => mineral.hmin },
+    hardnessMax: { type: GraphQLFloat, resolve: mineral => mineral.hmax },
+    densityMin: { type: GraphQLFloat },
+    densityMax: { type: GraphQLFloat },
+    colour: { type: GraphQLString },
+    streak: { type: GraphQLString },
+    lustre: { type: GraphQLString },
+    opticalType: { type: GraphQLString, resolve: mineral => mineral.opticaltype },
+    opticalSign: { type: GraphQLString, resolve: mineral => mineral.opticalsign },
+    birefringence: { type: GraphQLFloat },
+    discoveryYear: { type: GraphQLString },
+    descriptionShort: { type: GraphQLString },
+    dana: {
+      type: ClassificationCodeType,
+      resolve: mineral => mineral.danaCode
+        ? { code: mineral.danaCode, levels: parseClassificationCode('dana', mineral.danaCode) }
+        : null
+    },
+    strunz: {
+      type: ClassificationCodeType,
+      resolve: mineral => mineral.strunzCode
+        ? { code: mineral.strunzCode, levels: parseClassificationCode('strunz', mineral.strunzCode) }
+        : null
+    },
+    relations: {
+      type: MineralRelationsType,
+      resolve: mineral => MineralsApiService.getInstance().getMineralRelations(mineral.id)
+    },
+    rruff: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(RruffMineralType))),
+      description: 'RRUFF records of the same species',
+      resolve: (mineral, _args, context) => linkedRruff(mineral, context)
+    },
+    updatedAt: { type: GraphQLString, resolve: mineral => toIsoString(mineral.updatedAt) }
+  })
+});
+
+const RruffUnitCellType = new GraphQLObjectType<NonNullable<RruffMineral['unitCell']>>({
+  name: 'RruffUnitCell',
+  fields: {
+    a: { type: GraphQLFloat },
+    b: { type: GraphQLFloat },
+    c: { type: GraphQLFloat },
+    alpha: { type: GraphQLFloat },
+    beta: { type: GraphQLFloat },
+    gamma: { type: GraphQLFloat },
+    z: { type: GraphQLInt },
+    volume: { type: GraphQLFloat }
+  }
+});
+
+const RruffSpectrumType = new GraphQLObjectType<RruffSpectrum, GraphqlContext>({
+  name: 'RruffSpectrum',
+  fields: {
+    id: { type: new GraphQLNonNull(GraphQLInt) },
+    spectraType: { type: new GraphQLNonNull(GraphQLString), description: 'Raman, Infrared, Powder, ...' },
+    sampleId: { type: GraphQLString },
+    orientation: { type: GraphQLString },
+    wavelength: { type: GraphQLString },
+    temperature: { type: GraphQLString },
+    pressure: { type: GraphQLString },
+    locality: { type: GraphQLString },
+    dataUrl: { type: GraphQLString },
+    pointCount: { type: new GraphQLNonNull(GraphQLInt), resolve: spectrum => (spectrum.dataPoints || []).length },
+    dataPoints: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(GraphQLFloat))))),
+      description: '[x, y] pairs; maxPoints keeps every n-th point',
+      args: { maxPoints: { type: GraphQLInt } },
+      resolve: (spectrum, args: { maxPoints?: number | null }) => {
+        const points = spectrum.dataPoints || [];
+        if (!args.maxPoints || args.maxPoints <= 0 || points.length <= args.maxPoints) return points;
+        const step = Math.ceil(points.length / args.maxPoints);
+        return points.filter((_point, index) => index % step === 0);
+      }
+    }
+  }
+});
+
+const RruffMineralType: GraphQLObjectType<RruffMineral, GraphqlContext> = new GraphQLObjectType<RruffMineral, GraphqlContext>({
+  name: 'RruffMineral',
+  description: 'A mineral from the RRUFF IMA list',
+  fields: () => ({
+    id: { type: new GraphQLNonNull(GraphQLInt) },
+    rruffId: { type: GraphQLString },
+    mineralName: { type: new GraphQLNonNull(GraphQLString) },
+    chemicalFormula: { type: GraphQLString },
+    imaStatus: { type: GraphQLString },
+    crystalSystem: { type: GraphQLString },
+    crystalClass: { type: GraphQLString },
+    spaceGroup: { type: GraphQLString },
+    unitCell: { type: RruffUnitCellType },
+    color: { type: GraphQLString },
+    density: { type: GraphQLString },
+    hardness: { type: GraphQLString },
+    molecularWeight: { type: GraphQLFloat },
+    yearFirstPublished: { type: GraphQLInt },
+    url: { type: GraphQLString },
+    spectra: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(RruffSpectrumType))),
+      args: { type: { type: GraphQLString, description: 'Only spectra of this type' } },
+      resolve: async (mineral, args: { type?: string | null }, context) => {
+        const spectra = await context.loaders.spectraByRruffId.load(mineral.id);
+        return args.type
+          ? spectra.filter(spectrum => spectrum.spectraType.toLowerCase() === args.type!.toLowerCase())
+          : spectra;
+      }
+    },
+    mindat: {
+      type: MineralType,
+      description: 'The synced Mindat mineral of the same species',
+      resolve: async (mineral, _args, context) =>
+        (await context.loaders.linkedMineralByRruffId.load(mineral.id))
+          ?? context.loaders.mineralByName.load(normalizeSpeciesName(mineral.mineralName))
+    }
+  })
+});
+
+function pageType<T>(name: string, itemType: GraphQLObjectType<T, GraphqlContext>) {
+  return new GraphQLObjectType<{ items: T[]; total: number }>({
+    name,
+    fields: {
+      items: { type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(itemType))) },
+      total: { type: new GraphQLNonNull(GraphQLInt) }
+    }
+  });
+}
+
+const MineralPageType = pageType('MineralPage', MineralType);
+const RruffMineralPageType = pageType('RruffMineralPage', RruffMineralType);
+
+const ClassificationClassType = new GraphQLObjectType<ClassificationClassSummary & { system: ClassificationSystem }>({
+  name: 'ClassificationClass',
+  fields: {
+    system: { type: new GraphQLNonNull(ClassificationSystemEnum) },
+    id: { type: GraphQLInt, description: 'null for classes only seen on minerals' },
+    code: { type: new GraphQLNonNull(GraphQLString) },
+    name: { type: new GraphQLNonNull(GraphQLString) },
+    description: { type: GraphQLString },
+    mineralCount: { type: new GraphQLNonNull(GraphQLInt) },
+    minerals: {
+      type: new GraphQLNonNull(MineralPageType),
+      args: pageArgs,
+      resolve: async (entry, args) => {
+        const result = await MineralsApiService.getInstance().getMineralsByClassification(entry.system, {
+          code: entry.code,
+          ...pageSize(args)
+        });
+        return { items: result.minerals, total: result.total };
+      }
+    }
+  }
+});
+
+const SpeciesType = new GraphQLObjectType<{ name: string }, GraphqlContext>({
+  name: 'Species',
+  description: 'Mindat and RRUFF records of one species',
+  fields: {
+    name: { type: new GraphQLNonNull(GraphQLString) },
+    mindat: {
+      type: MineralType,
+      resolve: (species, _args, context) => context.loaders.mineralByName.load(normalizeSpeciesName(species.name))
+    },
+    rruff: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(RruffMineralType))),
+      resolve: async (species, _args, context) => {
+        const mineral = await context.loaders.mineralByName.load(normalizeSpeciesName(species.name));
+        return mineral ? linkedRruff(mineral, context) : context.loaders.rruffByName.load(normalizeSpeciesName(species.name));
+      }
+    }
+  }
+});
+
+interface MineralSearchArgs {
+  name?: string | null;
+  elements?: string[] | null;
+  crystalSystem?: string | null;
+  danaCode?: string | null;
+  strunzCode?: string | null;
+  limit?: number | null;
+  offset?: number | null;
+}
+
+async function searchMinerals(args: MineralSearchArgs): Promise<{ items: Mineral[]; total: number }> {
+  const conditions: SQL[] = [eq(minerals.isActive, true)];
+
+  if (args.name) {
+    conditions.push(sql`LOWER(${minerals.name}) LIKE ${`%${args.name.trim().toLowerCase()}%`}`);
+  }
+  if (args.elements && args.elements.length > 0) {
+    conditions.push(sql`${minerals.elements} @> ARRAY[${sql.join(args.elements.map(element => sql`${element}`), sql`, `)}]::text[]`);
+  }
+  if (args.crystalSystem) {
+    conditions.push(sql`LOWER(${minerals.csystem}) = ${args.crystalSystem.toLowerCase()}`);
+  }
+  ([['dana', args.danaCode], ['strunz', args.strunzCode]] as const).forEach(([system, code]) => {
+    if (!code) return;
+    parseClassificationCode(system, code).forEach((level, index) => {
+      conditions.push(eq(CLASSIFICATION_COLUMNS[system].levels[index], level));
+    });
+  });
+
+  const { limit, offset } = pageSize(args);
+
+  try {
+    const whereCondition = and(...conditions);
+
+    const totalResult = await db
+      .select({ count: sql<number>`COUNT(*)::int` })
+      .from(minerals)
+      .where(whereCondition);
+
+    const items = await db
+      .select()
+      .from(minerals)
+      .where(whereCondition)
+      .orderBy(asc(minerals.name))
+      .limit(limit)
+      .offset(offset);
+
+    return { items, total: Number(totalResult[0]?.count || 0) };
+  } catch (error) {
+    console.error('Error searching minerals for GraphQL:', error);
+    throw new Error('Failed to search minerals');
+  }
+}
+
+async function searchRruffMinerals(args: {
+  name?: string | null;
+  crystalSystem?: string | null;
+  limit?: number | null;
+  offset?: number | null;
+}): Promise<{ items: RruffMineral[]; total: number }> {
+  const conditions: SQL[] = [eq(rruffMinerals.isActive, true)];
+
+  if (args.name) {
+    conditions.push(sql`LOWER(${rruffMinerals.mineralName}) LIKE ${`%${args.name.trim().toLowerCase()}%`}`);
+  }
+  if (args.crystalSystem) {
+    conditions.push(sql`LOWER(${rruffMinerals.crystalSystem}) = ${args.crystalSystem.toLowerCase()}`);
+  }
+
+  const { limit, offset } = pageSize(args);
+
+  try {
+    const whereCondition = and(...conditions);
+
+    const totalResult = await db
+      .select({ count: sql<number>`COUNT(*)::int` })
+      .from(rruffMinerals)
+      .where(whereCondition);
+
+    const items = await db
+      .select()
+      .from(rruffMinerals)
+      .where(whereCondition)
+      .orderBy(asc(rruffMinerals.mineralName))
+      .limit(limit)
+      .offset(offset);
+
+    return { items, total: Number(totalResult[0]?.count || 0) };
+  } catch (error) {
+    console.error('Error searching RRUFF minerals for GraphQL:', error);
+    throw new Error('Failed to search RRUFF minerals');
+  }
+}
+
+const QueryType = new GraphQLObjectType<unknown, GraphqlContext>({
+  name: 'Query',
+  fields: {
+    mineral: {
+      type: MineralType,
+      args: { id: { type: new GraphQLNonNull(GraphQLInt), description: 'Mindat ID' } },
+      resolve: (_root, args: { id: number }, context) => context.loaders.mineralById.load(args.id)
+    },
+    minerals: {
+      type: new GraphQLNonNull(MineralPageType),
+      args: {
+        name: { type: GraphQLString, description: 'Part of the name' },
+        elements: { type: new GraphQLList(new GraphQLNonNull(GraphQLString)), description: 'Must contain all of these' },
+        crystalSystem: { type: GraphQLString },
+        danaCode: { type: GraphQLString, description: 'Dana class prefix, e.g. "75.1"' },
+        strunzCode: { type: GraphQLString, description: 'Nickel-Strunz class prefix, e.g. "4.DA"' },
+        ...pageArgs
+      },
+      resolve: (_root, args: MineralSearchArgs) => searchMinerals(args)
+    },
+    rruffMineral: {
+      type: RruffMineralType,
+      args: {
+        id: { type: GraphQLInt },
+        rruffId: { type: GraphQLString, description: 'e.g. "R040031"' }
+      },
+      resolve: async (_root, args: { id?: number | null; rruffId?: string | null }) => {
+        if (!args.id && !args.rruffId) {
+          throw new GraphQLError('id or rruffId is required');
+        }
+        const rows = await db
+          .select()
+          .from(rruffMinerals)
+          .where(args.id ? eq(rruffMinerals.id, args.id) : eq(rruffMinerals.rruffId, args.rruffId!))
+          .limit(1);
+        return rows[0] || null;
+      }
+    },
+    rruffMinerals: {
+      type: new GraphQLNonNull(RruffMineralPageType),
+      args: {
+        name: { type: GraphQLString },
+        crystalSystem: { type: GraphQLString },
+        ...pageArgs
+      },
+      resolve: (_root, args) => searchRruffMinerals(args)
+    },
+    species: {
+      type: new GraphQLNonNull(SpeciesType),
+      args: { name: { type: new GraphQLNonNull(GraphQLString) } },
+      resolve: (_root, args: { name: string }) => ({ name: args.name.trim() })
+    },
+    classificationClasses: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(ClassificationClassType))),
+      args: {
+        system: { type: new GraphQLNonNull(ClassificationSystemEnum) },
+        nonEmpty: { type: GraphQLBoolean, defaultValue: false, description: 'Only classes with synced minerals' }
+      },
+      resolve: async (_root, args: { system: ClassificationSystem; nonEmpty: boolean }) => {
+        const classes = await MineralsApiService.getInstance().getClassificationClasses(args.system);
+        return classes
+          .filter(entry => !args.nonEmpty || entry.mineralCount > 0)
+          .map(entry => ({ ...entry, system: args.system }));
+      }
+    }
+  }
+});
+
+export const graphqlSchema = new GraphQLSchema({ query: QueryType });
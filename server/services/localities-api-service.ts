@@ -0,0 +1,507 @@
+import { and, asc, eq, inArray, isNotNull, sql, type SQL } from 'drizzle-orm';
+import { db } from '../db.js';
+import { localities, localityMinerals, minerals, type Locality } from '@shared/schema';
+import { EARTH_RADIUS_KM, boundingBoxAround, type BoundingBox, type GeoFilters, type GeoPoint } from './locality-geo.js';
+
+export interface LocalityMineralSummary {
+  mineralId: number;
+  name: string | null; // null when the mineral has not been synced yet
+  formula: string | null;
+  isTypeLocality: boolean;
+  isQuestioned: boolean;
+  occurrences: number; // Number of (sub)localities the mineral is recorded at
+}
+
+export interface MineralLocalitySummary {
+  localityId: number;
+  txt: string | null; // null when the locality has not been synced yet
+  name: string | null;
+  country: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  isTypeLocality: boolean;
+  isQuestioned: boolean;
+}
+
+export interface LocalityGeoResult {
+  id: number;
+  txt: string;
+  name: string;
+  country: string | null;
+  level: number | null;
+  latitude: number;
+  longitude: number;
+  elements: string[];
+  hasTypeLocality: boolean; // Type locality of the filtered mineral, or of any mineral without a mineral filter
+  distanceKm?: number; // Radius searches only
+}
+
+/**
+ * Locality and occurrence queries against the synced localities and
+ * locality_minerals tables
+ */
+export class LocalitiesApiService {
+  private static instance: LocalitiesApiService;
+
+  private constructor() {}
+
+  static getInstance(): LocalitiesApiService {
+    if (!LocalitiesApiService.instance) {
+      LocalitiesApiService.instance = new LocalitiesApiService();
+    }
+    return LocalitiesApiService.instance;
+  }
+
+  /**
+   * Search localities by name and country
+   */
+  async searchLocalities(options: {
+    name?: string;
+    country?: string;
+    limit?: number;
+    offset?: number;
+  } = {}): Promise<{ localities: Locality[]; total: number }> {
+    const { name, country, limit = 50, offset = 0 } = options;
+
+    const conditions = [];
+    if (name) {
+      conditions.push(sql`LOWER(${localities.txt}) LIKE ${`%${name.toLowerCase()}%`}`);
+    }
+    if (country) {
+      conditions.push(sql`LOWER(${localities.country}) = ${country.toLowerCase()}`);
+    }
+
+    try {
+      const whereCondition = conditions.length > 0 ? and(...conditions) : undefined;
+
+      const totalResult = await db
+        .select({ count: sql<number>`COUNT(*)::int` })
+        .from(localities)
+        .where(whereCondition);
+
+      // Names that start with the search term first, then broader localities first
+      const results = await db
+        .select()
+        .from(localities)
+        .where(whereCondition)
+        .orderBy(
+          name ? sql`CASE WHEN LOWER(${localities.name}) LIKE ${`${name.toLowerCase()}%`} THEN 0 ELSE 1 END` : sql`0`,
+          sql`${localities.level} ASC NULLS LAST`,
+          asc(localities.txt)
+        )
+        .limit(limit)
+        .offset(offset);
+
+      return {
+        localities: results,
+        total: Number(totalResult[0]?.count || 0)
+      };
+    } catch (error) {
+      console.error('Error searching localities:', error);
+      throw new Error('Failed to search localities');
+    }
+  }
+
+  /**
+   * Best local match for a locality name: exact name, then name prefix, then anywhere in the full name
+   */
+  async findLocalityByName(name: string): Promise<Locality | null> {
+    const { localities: matches } = await this.searchLocalities({ name, limit: 10 });
+    const normalized = name.toLowerCase().trim();
+
+    return matches.find(locality => locality.name.toLowerCase() === normalized)
+      || matches.find(locality => locality.txt.toLowerCase() === normalized)
+      || matches[0]
+      || null;
+  }
+
+  /**
+   * A locality with its ancestors (country first) and number of direct sub-localities
+   */
+  async getLocalityById(id: number): Promise<{ locality: Locality; ancestors: Locality[]; childCount: number } | null> {
+    try {
+      const rows = await db.select().from(localities).where(eq(localities.id, id)).limit(1);
+      if (rows.length === 0) {
+        return null;
+      }
+
+      const ancestorResult = await db.execute(sql`
+        WITH RECURSIVE chain AS (
+          SELECT parent_id AS id, 1 AS depth FROM ${localities} WHERE id = ${id}
+          UNION ALL
+          SELECT l.parent_id, chain.depth + 1
+          FROM ${localities} l JOIN chain ON l.id = chain.id
+          WHERE chain.depth < 20
+        )
+        SELECT id, depth FROM chain WHERE id IS NOT NULL AND id > 0
+      `);
+
+      const depthById = new Map<number, number>(
+        ancestorResult.rows.map((row: any) => [Number(row.id), Number(row.depth)])
+      );
+      const ancestors = depthById.size > 0
+        ? (await db.select().from(localities).where(inArray(localities.id, Array.from(depthById.keys()))))
+          .sort((a, b) => (depthById.get(b.id) || 0) - (depthById.get(a.id) || 0))
+        : [];
+
+      const childResult = await db
+        .select({ count: sql<number>`COUNT(*)::int` })
+        .from(localities)
+        .where(eq(localities.parentId, id));
+
+      return {
+        locality: rows[0],
+        ancestors,
+        childCount: Number(childResult[0]?.count || 0)
+      };
+    } catch (error) {
+      console.error('Error getting locality by ID:', error);
+      throw new Error('Failed to get locality');
+    }
+  }
+
+  /**
+   * Direct sub-localities of a locality
+   */
+  async getChildLocalities(id: number, options: { limit?: number; offset?: number } = {}): Promise<{ localities: Locality[]; total: number }> {
+    const { limit = 100, offset = 0 } = options;
+
+    try {
+      const totalResult = await db
+        .select({ count: sql<number>`COUNT(*)::int` })
+        .from(localities)
+        .where(eq(localities.parentId, id));
+
+      const results = await db
+        .select()
+        .from(localities)
+        .where(eq(localities.parentId, id))
+        .orderBy(asc(localities.name))
+        .limit(limit)
+        .offset(offset);
+
+      return {
+        localities: results,
+        total: Number(totalResult[0]?.count || 0)
+      };
+    } catch (error) {
+      console.error('Error getting child localities:', error);
+      throw new Error('Failed to get child localities');
+    }
+  }
+
+  /**
+   * Minerals recorded at a locality, optionally including all of its sub-localities
+   * (a region or country), one row per mineral
+   */
+  async getMineralsAtLocality(
+    id: number,
+    options: {
+      includeSublocalities?: boolean;
+      typeLocalitiesOnly?: boolean;
+      limit?: number;
+      offset?: number;
+    } = {}
+  ): Promise<{ localityId: number; minerals: LocalityMineralSummary[]; total: number }> {
+    const { includeSublocalities = false, typeLocalitiesOnly = false, limit = 500, offset = 0 } = options;
+
+    const typeFlag = this.typeLocalityFlag();
+    const conditions = [
+      includeSublocalities
+        ? sql`${localityMinerals.localityId} IN (
+            WITH RECURSIVE tree AS (
+              SELECT id FROM ${localities} WHERE id = ${id}
+              UNION ALL
+              SELECT l.id FROM ${localities} l JOIN tree ON l.parent_id = tree.id
+            )
+            SELECT ${id}::int UNION SELECT id FROM tree
+          )`
+        : eq(localityMinerals.localityId, id)
+    ];
+    if (typeLocalitiesOnly) {
+      conditions.push(typeFlag);
+    }
+
+    try {
+      const whereCondition = and(...conditions);
+
+      const totalResult = await db
+        .select({ count: sql<number>`COUNT(DISTINCT ${localityMinerals.mineralId})::int` })
+        .from(localityMinerals)
+        .where(whereCondition);
+
+      const rows = await db
+        .select({
+          mineralId: localityMinerals.mineralId,
+          name: minerals.name,
+          formula: minerals.mindatFormula,
+          isTypeLocality: sql<boolean>`BOOL_OR(${typeFlag})`,
+          isQuestioned: sql<boolean>`BOOL_AND(COALESCE(${localityMinerals.isQuestioned}, false))`,
+          occurrences: sql<number>`COUNT(*)::int`
+        })
+        .from(localityMinerals)
+        .leftJoin(minerals, eq(minerals.id, localityMinerals.mineralId))
+        .where(whereCondition)
+        .groupBy(localityMinerals.mineralId, minerals.name, minerals.mindatFormula)
+        .orderBy(sql`${minerals.name} ASC NULLS LAST`, asc(localityMinerals.mineralId))
+        .limit(limit)
+        .offset(offset);
+
+      return {
+        localityId: id,
+        minerals: rows.map(row => ({
+          mineralId: row.mineralId,
+          name: row.name,
+          formula: row.formula,
+          isTypeLocality: !!row.isTypeLocality,
+          isQuestioned: !!row.isQuestioned,
+          occurrences: Number(row.occurrences)
+        })),
+        total: Number(totalResult[0]?.count || 0)
+      };
+    } catch (error) {
+      console.error('Error getting minerals at locality:', error);
+      throw new Error('Failed to get minerals at locality');
+    }
+  }
+
+  /**
+   * Localities where a mineral is recorded, type localities first
+   */
+  async getLocalitiesForMineral(
+    mineralId: number,
+    options: {
+      typeLocalitiesOnly?: boolean;
+      country?: string;
+      limit?: number;
+      offset?: number;
+    } = {}
+  ): Promise<{ mineralId: number; localities: MineralLocalitySummary[]; total: number }> {
+    const { typeLocalitiesOnly = false, country, limit = 100, offset = 0 } = options;
+
+    const typeFlag = this.typeLocalityFlag();
+    const conditions = [eq(localityMinerals.mineralId, mineralId)];
+    if (typeLocalitiesOnly) {
+      conditions.push(typeFlag);
+    }
+    if (country) {
+      conditions.push(sql`LOWER(${localities.country}) = ${country.toLowerCase()}`);
+    }
+
+    try {
+      const whereCondition = and(...conditions);
+
+      const totalResult = await db
+        .select({ count: sql<number>`COUNT(*)::int` })
+        .from(localityMinerals)
+        .leftJoin(localities, eq(localities.id, localityMinerals.localityId))
+        .where(whereCondition);
+
+      const rows = await db
+        .select({
+          localityId: localityMinerals.localityId,
+          txt: localities.txt,
+          name: localities.name,
+          country: localities.country,
+          latitude: localities.latitude,
+          longitude: localities.longitude,
+          isTypeLocality: sql<boolean>`${typeFlag}`,
+          isQuestioned: localityMinerals.isQuestioned
+        })
+        .from(localityMinerals)
+        .leftJoin(localities, eq(localities.id, localityMinerals.localityId))
+        .where(whereCondition)
+        .orderBy(sql`${typeFlag} DESC`, sql`${localities.txt} ASC NULLS LAST`)
+        .limit(limit)
+        .offset(offset);
+
+      return {
+        mineralId,
+        localities: rows.map(row => ({
+          ...row,
+          isTypeLocality: !!row.isTypeLocality,
+          isQuestioned: !!row.isQuestioned
+        })),
+        total: Number(totalResult[0]?.count || 0)
+      };
+    } catch (error) {
+      console.error('Error getting localities for mineral:', error);
+      throw new Error('Failed to get localities for mineral');
+    }
+  }
+
+  /**
+   * Localities with coordinates inside a box, type localities first
+   */
+  async findLocalitiesInBoundingBox(
+    box: BoundingBox,
+    filters: GeoFilters = {},
+    options: { limit?: number; offset?: number } = {}
+  ): Promise<{ localities: LocalityGeoResult[]; total: number }> {
+    const { limit = 500, offset = 0 } = options;
+    const typeFlag = this.geoTypeLocalityFlag(filters.mineral);
+
+    try {
+      const whereCondition = and(this.boundingBoxCondition(box), ...this.geoFilterConditions(filters, typeFlag));
+
+      const totalResult = await db
+        .select({ count: sql<number>`COUNT(*)::int` })
+        .from(localities)
+        .where(whereCondition);
+
+      const rows = await db
+        .select({ ...this.geoColumns(), hasTypeLocality: sql<boolean>`${typeFlag}` })
+        .from(localities)
+        .where(whereCondition)
+        .orderBy(sql`${typeFlag} DESC`, sql`${localities.level} ASC NULLS LAST`, asc(localities.txt))
+        .limit(limit)
+        .offset(offset);
+
+      return {
+        localities: rows.map(row => this.toGeoResult(row)),
+        total: Number(totalResult[0]?.count || 0)
+      };
+    } catch (error) {
+      console.error('Error searching localities in bounding box:', error);
+      throw new Error('Failed to search localities in bounding box');
+    }
+  }
+
+  /**
+   * Localities within `radiusKm` of a point, nearest first
+   */
+  async findLocalitiesNearPoint(
+    center: GeoPoint,
+    radiusKm: number,
+    filters: GeoFilters = {},
+    options: { limit?: number; offset?: number } = {}
+  ): Promise<{ center: GeoPoint; radiusKm: number; localities: LocalityGeoResult[]; total: number }> {
+    const { limit = 500, offset = 0 } = options;
+    const typeFlag = this.geoTypeLocalityFlag(filters.mineral);
+
+    const distance = sql<number>`(2 * ${EARTH_RADIUS_KM}::float8 * ASIN(LEAST(1, SQRT(
+      POWER(SIN(RADIANS(${localities.latitude} - ${center.latitude}::float8) / 2), 2)
+      + COS(RADIANS(${center.latitude}::float8)) * COS(RADIANS(${localities.latitude}))
+      * POWER(SIN(RADIANS(${localities.longitude} - ${center.longitude}::float8) / 2), 2)
+    ))))`;
+
+    try {
+      // The enclosing box lets the coordinate index discard most rows before the exact distance
+      const whereCondition = and(
+        this.boundingBoxCondition(boundingBoxAround(center, radiusKm)),
+        sql`${distance} <= ${radiusKm}`,
+        ...this.geoFilterConditions(filters, typeFlag)
+      );
+
+      const totalResult = await db
+        .select({ count: sql<number>`COUNT(*)::int` })
+        .from(localities)
+        .where(whereCondition);
+
+      const rows = await db
+        .select({ ...this.geoColumns(), hasTypeLocality: sql<boolean>`${typeFlag}`, distanceKm: distance })
+        .from(localities)
+        .where(whereCondition)
+        .orderBy(distance, asc(localities.id))
+        .limit(limit)
+        .offset(offset);
+
+      return {
+        center,
+        radiusKm,
+        localities: rows.map(row => ({
+          ...this.toGeoResult(row),
+          distanceKm: Math.round(Number(row.distanceKm) * 100) / 100
+        })),
+        total: Number(totalResult[0]?.count || 0)
+      };
+    } catch (error) {
+      console.error('Error searching localities near point:', error);
+      throw new Error('Failed to search localities near point');
+    }
+  }
+
+  // Type locality per the locentry flag or the geomaterial's own type_localities list
+  private typeLocalityFlag() {
+    return sql`(COALESCE(${localityMinerals.isTypeLocality}, false) OR EXISTS (
+      SELECT 1 FROM mineral_type_localities mtl
+      WHERE mtl.mineral_id = ${localityMinerals.mineralId} AND mtl.locality_id = ${localityMinerals.localityId}
+    ))`;
+  }
+
+
+  private geoColumns() {
+    return {
+      id: localities.id,
+      txt: localities.txt,
+      name: localities.name,
+      country: localities.country,
+      level: localities.level,
+      latitude: localities.latitude,
+      longitude: localities.longitude,
+      elements: localities.elements
+    };
+  }
+
+  private toGeoResult(row: Pick<Locality, 'id' | 'txt' | 'name' | 'country' | 'level' | 'latitude' | 'longitude' | 'elements'> & { hasTypeLocality: boolean }): LocalityGeoResult {
+    return {
+      id: row.id,
+      txt: row.txt,
+      name: row.name,
+      country: row.country,
+      level: row.level,
+      latitude: Number(row.latitude),
+      longitude: Number(row.longitude),
+      elements: row.elements || [],
+      hasTypeLocality: !!row.hasTypeLocality
+    };
+  }
+
+  private boundingBoxCondition(box: BoundingBox): SQL {
+    const longitude = box.west <= box.east
+      ? sql`${localities.longitude} BETWEEN ${box.west} AND ${box.east}`
+      // Crosses the antimeridian
+      : sql`(${localities.longitude} >= ${box.west} OR ${localities.longitude} <= ${box.east})`;
+
+    return and(
+      isNotNull(localities.latitude),
+      isNotNull(localities.longitude),
+      sql`${localities.latitude} BETWEEN ${box.south} AND ${box.north}`,
+      longitude
+    )!;
+  }
+
+  private geoFilterConditions(filters: GeoFilters, typeFlag: SQL): SQL[] {
+    const conditions: SQL[] = [];
+
+    if (filters.elements && filters.elements.length > 0) {
+      conditions.push(sql`${localities.elements} @> ARRAY[${sql.join(filters.elements.map(element => sql`${element}`), sql`, `)}]::text[]`);
+    }
+    if (filters.country) {
+      conditions.push(sql`LOWER(${localities.country}) = ${filters.country.toLowerCase()}`);
+    }
+    if (filters.typeLocalitiesOnly) {
+      conditions.push(typeFlag);
+    } else if (filters.mineral) {
+      conditions.push(sql`EXISTS (
+        SELECT 1 FROM ${localityMinerals} JOIN ${minerals} ON ${minerals.id} = ${localityMinerals.mineralId}
+        WHERE ${localityMinerals.localityId} = ${localities.id} AND LOWER(${minerals.name}) = ${filters.mineral.toLowerCase()}
+      )`);
+    }
+
+    return conditions;
+  }
+
+  // Whether a locality is a type locality, of `mineral` when given
+  private geoTypeLocalityFlag(mineral?: string): SQL {
+    const mineralMatch = mineral ? sql`AND LOWER(${minerals.name}) = ${mineral.toLowerCase()}` : sql``;
+
+    return sql`(EXISTS (
+      SELECT 1 FROM ${localityMinerals} LEFT JOIN ${minerals} ON ${minerals.id} = ${localityMinerals.mineralId}
+      WHERE ${localityMinerals.localityId} = ${localities.id} AND ${this.typeLocalityFlag()} ${mineralMatch}
+    ) OR EXISTS (
+      SELECT 1 FROM mineral_type_localities mtl LEFT JOIN ${minerals} ON ${minerals.id} = mtl.mineral_id
+      WHERE mtl.locality_id = ${localities.id} ${mineralMatch}
+    ))`;
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Locality Geospatial Queries
+ *
+ * Helpers for bounding-box and radius searches over synced locality coordinates:
+ * 1. Great-circle (haversine) distances in kilometres
+ * 2. The bounding box that encloses a radius, used to prefilter before the exact distance
+ * 3. Boxes that cross the antimeridian (west > east) and boxes that reach a pole
+ * 4. Parses boxes, points and occurrence filters from request query strings
+ */
+
+export const EARTH_RADIUS_KM = 6371.0088;
+
+// Largest radius a search may ask for
+export const MAX_RADIUS_KM = 2000;
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+// Degrees; west > east means the box crosses the antimeridian
+export interface BoundingBox {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+export interface GeoFilters {
+  elements?: string[]; // Locality element list must contain all of these ("Te" for telluride hosts)
+  mineral?: string; // Mineral name recorded at the locality
+  country?: string;
+  typeLocalitiesOnly?: boolean; // Only type localities (of `mineral`, when given)
+}
+
+export class GeoQueryError extends Error {}
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+/**
+ * Great-circle distance between two points in kilometres
+ */
+export function haversineKm(a: GeoPoint, b: GeoPoint): number {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+function wrapLongitude(longitude: number): number {
+  return ((longitude + 540) % 360) - 180;
+}
+
+/**
+ * Smallest latitude/longitude box containing every point within `radiusKm` of `center`
+ */
+export function boundingBoxAround(center: GeoPoint, radiusKm: number): BoundingBox {
+  const latDelta = (radiusKm / EARTH_RADIUS_KM) * 180 / Math.PI;
+  const south = center.latitude - latDelta;
+  const north = center.latitude + latDelta;
+
+  // The circle contains a pole: every longitude is in range
+  if (south <= -90 || north >= 90) {
+    return { south: Math.max(south, -90), west: -180, north: Math.min(north, 90), east: 180 };
+  }
+
+  const lonDelta = Math.asin(Math.sin(radiusKm / EARTH_RADIUS_KM) / Math.cos(toRadians(center.latitude))) * 180 / Math.PI;
+  if (!Number.isFinite(lonDelta) || lonDelta >= 180) {
+    return { south, west: -180, north, east: 180 };
+  }
+
+  return {
+    south,
+    west: wrapLongitude(center.longitude - lonDelta),
+    north,
+    east: wrapLongitude(center.longitude + lonDelta)
+  };
+}
+
+function parseNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const number = parseFloat(String(value));
+  return Number.isFinite(number) ? number : undefined;
+}
+
+function requireCoordinate(value: number | undefined, name: string, limit: number): number {
+  if (value === undefined) {
+    throw new GeoQueryError(`${name} parameter is required`);
+  }
+  if (Math.abs(value) > limit) {
+    throw new GeoQueryError(`${name} must be between -${limit} and ${limit}`);
+  }
+  return value;
+}
+
+/**
+ * Box from `bbox=west,south,east,north` (GeoJSON order) or separate south/west/north/east parameters
+ */
+export function parseBoundingBox(query: Record<string, unknown>): BoundingBox {
+  let south = parseNumber(query.south);
+  let west = parseNumber(query.west);
+  let north = parseNumber(query.north);
+  let east = parseNumber(query.east);
+
+  if (typeof query.bbox === 'string') {
+    const parts = query.bbox.split(',').map(parseNumber);
+    if (parts.length !== 4 || parts.some(part => part === undefined)) {
+      throw new GeoQueryError('bbox must be "west,south,east,north"');
+    }
+    [west, south, east, north] = parts;
+  }
+
+  const box = {
+    south: requireCoordinate(south, 'south', 90),
+    west: requireCoordinate(west, 'west', 180),
+    north: requireCoordinate(north, 'north', 90),
+    east: requireCoordinate(east, 'east', 180)
+  };
+
+  if (box.south > box.north) {
+    throw new GeoQueryError('south must not be greater than north');
+  }
+
+  return box;
+}
+
+/**
+ * Center and radius from lat/lon (or latitude/longitude, lng) and radiusKm (default 50 km)
+ */
+export function parseRadiusQuery(query: Record<string, unknown>): { center: GeoPoint; radiusKm: number } {
+  const center = {
+    latitude: requireCoordinate(parseNumber(query.lat ?? query.latitude), 'lat', 90),
+    longitude: requireCoordinate(parseNumber(query.lon ?? query.lng ?? query.longitude), 'lon', 180)
+  };
+
+  const radiusKm = parseNumber(query.radiusKm ?? query.radius) ?? 50;
+  if (radiusKm <= 0 || radiusKm > MAX_RADIUS_KM) {
+    throw new GeoQueryError(`radiusKm must be greater than 0 and at most ${MAX_RADIUS_KM}`);
+  }
+
+  return { center, radiusKm };
+}
+
+/**
+ * Occurrence filters shared by the box and radius searches
+ */
+export function parseGeoFilters(query: Record<string, unknown>): GeoFilters {
+  const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+  const elements = text(query.elements);
+
+  return {
+    // "te, AU" -> ["Te", "Au"], matching Mindat's element symbols
+    elements: elements
+      ? elements.split(',')
+        .map(element => element.trim())
+        .filter(Boolean)
+        .map(element => element[0].toUpperCase() + element.slice(1).toLowerCase())
+      : undefined,
+    mineral: text(query.mineral),
+    country: text(query.country),
+    typeLocalitiesOnly: query.typeOnly === 'true'
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * Mindat Locality Records
+ *
+ * Maps /localities and /locentries records onto the localities and
+ * locality_minerals tables:
+ * 1. Splits the locality name from its hierarchy ("Jegdalek ruby deposit, Surobi District, ...")
+ * 2. Treats Mindat's 0, 0 coordinates as "no coordinates"
+ * 3. Turns the "-Ca-O-C-" element string into an array
+ * 4. Converts locentry flags (typeloc, questioned) to booleans
+ */
+
+import { localities, localityMinerals } from '@shared/schema';
+
+export type LocalityValues = typeof localities.$inferInsert;
+export type LocalityMineralValues = typeof localityMinerals.$inferInsert;
+
+function parseDate(value: unknown): Date | null {
+  if (!value) return null;
+  const date = new Date(String(value).replace(' ', 'T'));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function parseCoordinate(value: unknown, limit: number): number | null {
+  const number = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(number) && Math.abs(number) <= limit ? number : null;
+}
+
+export function transformLocality(data: any): LocalityValues {
+  const txt = String(data.txt || '').trim();
+  let latitude = parseCoordinate(data.latitude, 90);
+  let longitude = parseCoordinate(data.longitude, 180);
+
+  // Mindat reports unknown coordinates as 0, 0
+  if (!latitude && !longitude) {
+    latitude = null;
+    longitude = null;
+  }
+
+  return {
+    id: data.id,
+    longid: data.longid || null,
+    guid: data.guid || null,
+    txt,
+    revtxtd: data.revtxtd || null,
+    name: txt.split(',')[0].trim() || txt,
+    parentId: data.parent ? Number(data.parent) : null,
+    level: data.level ?? null,
+    localityType: data.locality_type ?? null,
+    country: data.country || null,
+    latitude,
+    longitude,
+    elements: String(data.elements || '').split('-').map((element: string) => element.trim()).filter(Boolean),
+    descriptionShort: data.description_short || null,
+    mindatModifiedAt: parseDate(data.datemodify)
+  };
+}
+
+export function transformLocalityEntry(data: any): LocalityMineralValues {
+  return {
+    id: data.id,
+    localityId: Number(data.loc),
+    mineralId: Number(data.min),
+    isTypeLocality: Number(data.typeloc) === 1,
+    isQuestioned: Number(data.questioned) === 1,
+    rarity: data.rarity ?? null,
+    colour: data.colour || null,
+    habit: data.habit || null,
+    description: data.description || null,
+    reference: data.reftxt || null,
+    mindatModifiedAt: parseDate(data.datemodify)
+  };
+}
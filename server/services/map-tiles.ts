@@ -0,0 +1,68 @@
+/**
+ * Local Map Tiles
+ *
+ * The locality map draws from a directory of pre-rendered XYZ tiles instead of a
+ * hosted tile server, so it works offline:
+ * 1. Tiles live at MAP_TILE_DIR/{z}/{x}/{y}.png (also .jpg, .jpeg or .webp), e.g. an
+ *    export from a local tile cache or an unpacked MBTiles archive; defaults to ./map-tiles
+ * 2. Zoom levels present are read from the directory, so the client never asks for missing ones
+ * 3. MAP_TILE_ATTRIBUTION is passed through for display under the map
+ *
+ * Without a tile directory the map still renders its coordinate grid and markers.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+const TILE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'webp'];
+
+export interface MapTileInfo {
+  available: boolean;
+  minZoom: number;
+  maxZoom: number;
+  attribution: string | null;
+}
+
+export function getMapTileDir(): string {
+  return path.resolve(process.env.MAP_TILE_DIR || 'map-tiles');
+}
+
+/**
+ * Zoom levels the tile directory provides
+ */
+export function getMapTileInfo(): MapTileInfo {
+  const attribution = process.env.MAP_TILE_ATTRIBUTION || null;
+
+  let zooms: number[] = [];
+  try {
+    zooms = fs.readdirSync(getMapTileDir(), { withFileTypes: true })
+      .filter(entry => entry.isDirectory() && /^\d+$/.test(entry.name))
+      .map(entry => parseInt(entry.name))
+      .sort((a, b) => a - b);
+  } catch {
+    // No tile directory
+  }
+
+  return zooms.length > 0
+    ? { available: true, minZoom: zooms[0], maxZoom: zooms[zooms.length - 1], attribution }
+    : { available: false, minZoom: 0, maxZoom: 0, attribution };
+}
+
+/**
+ * Path of a tile file, or null if the directory does not have it
+ */
+export function resolveMapTile(z: number, x: number, y: number): string | null {
+  if (![z, x, y].every(value => Number.isInteger(value) && value >= 0) || z > 22) {
+    return null;
+  }
+
+  const tileBase = path.join(getMapTileDir(), String(z), String(x), String(y));
+  for (const extension of TILE_EXTENSIONS) {
+    const file = `${tileBase}.${extension}`;
+    if (fs.existsSync(file)) {
+      return file;
+    }
+  }
+
+  return null;
+}
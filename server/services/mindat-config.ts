@@ -0,0 +1,18 @@
+/**
+ * Mindat API base URL
+ *
+ * Defaults to the public API. Set MINDAT_API_BASE_URL (for example
+ * http://localhost:4010 for the offline mock server in server/mock) to send every
+ * server-side Mindat request, sync jobs and Swagger ingestion included, elsewhere.
+ * Read on each call so scripts and tests can change it at runtime.
+ */
+
+export const DEFAULT_MINDAT_BASE_URL = 'https://api.mindat.org';
+
+export function getMindatBaseUrl(): string {
+  return (process.env.MINDAT_API_BASE_URL || DEFAULT_MINDAT_BASE_URL).replace(/\/+$/, '');
+}
+
+export function isMindatBaseUrlOverridden(): boolean {
+  return !!process.env.MINDAT_API_BASE_URL;
+}
@@ -0,0 +1,72 @@
+/**
+ * Dana and Nickel-Strunz Classification Codes
+ *
+ * Mindat stores both classifications as four separate fields (dana8ed1..4,
+ * strunz10ed1..4). This module:
+ * 1. Joins them into the codes people use ("75.1.3.1", "4.DA.05")
+ * 2. Splits a code typed in either form ("4.DA.05" or "4.D.A.05") back into components
+ * 3. Maps each system to its level columns for component-wise matching
+ */
+
+import { minerals } from '@shared/schema';
+
+export type ClassificationSystem = 'dana' | 'strunz';
+
+export const CLASSIFICATION_SYSTEMS: ClassificationSystem[] = ['dana', 'strunz'];
+
+// Level columns from class down to species, and the joined code column
+export const CLASSIFICATION_COLUMNS = {
+  dana: {
+    levels: [minerals.dana8ed1, minerals.dana8ed2, minerals.dana8ed3, minerals.dana8ed4],
+    code: minerals.danaCode
+  },
+  strunz: {
+    levels: [minerals.strunz10ed1, minerals.strunz10ed2, minerals.strunz10ed3, minerals.strunz10ed4],
+    code: minerals.strunzCode
+  }
+} as const;
+
+function cleanParts(parts: unknown[]): string[] {
+  const cleaned = parts.map(part => (part === undefined || part === null ? '' : String(part).trim()));
+  // Keep the leading levels that are present; a missing level ends the code
+  const firstMissing = cleaned.findIndex(part => part === '' || part === '0');
+  return firstMissing === -1 ? cleaned : cleaned.slice(0, firstMissing);
+}
+
+/**
+ * "75.1.3.1" from dana8ed1..4
+ */
+export function formatDanaCode(...parts: unknown[]): string | null {
+  const levels = cleanParts(parts);
+  return levels.length > 0 ? levels.join('.') : null;
+}
+
+/**
+ * "4.DA.05" from strunz10ed1..4 (subclass and family letters are written together)
+ */
+export function formatStrunzCode(...parts: unknown[]): string | null {
+  const [strunzClass, subclass, family, species] = cleanParts(parts);
+  if (!strunzClass) return null;
+
+  let code = strunzClass;
+  if (subclass) code += `.${subclass}${family || ''}`;
+  if (family && species) code += `.${species}`;
+  return code;
+}
+
+/**
+ * Split a classification code into its level components
+ */
+export function parseClassificationCode(system: ClassificationSystem, code: string): string[] {
+  const segments = code.trim().split('.').map(segment => segment.trim()).filter(Boolean);
+
+  if (system === 'strunz' && segments.length > 1 && /^[A-Za-z]{2}$/.test(segments[1])) {
+    // "4.DA.05" -> ["4", "D", "A", "05"]
+    return [segments[0], segments[1][0].toUpperCase(), segments[1][1].toUpperCase(), ...segments.slice(2)].slice(0, 4);
+  }
+
+  return (system === 'strunz'
+    ? segments.map((segment, index) => (index === 1 || index === 2 ? segment.toUpperCase() : segment))
+    : segments.map(segment => segment.replace(/^0+(?=\d)/, '')) // "01" is Dana class 1
+  ).slice(0, 4);
+}
@@ -0,0 +1,60 @@
+/**
+ * Mineral Record Diffing
+ *
+ * Compares a stored mineral row with the record a sync is about to write and
+ * lists the fields whose values actually change, for the mineral_changes history:
+ * 1. Dates, arrays and JSON objects are compared by value (object keys sorted)
+ * 2. undefined, null and empty strings are treated as the same "no value"
+ * 3. Sync bookkeeping columns (timestamps, syncVersion) are ignored
+ */
+
+export interface FieldChange {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+// Columns that change on every write and are not part of the Mindat record
+const IGNORED_FIELDS = new Set(['id', 'createdAt', 'updatedAt', 'lastSyncAt', 'syncVersion']);
+
+/**
+ * Plain JSON form of a column value, as stored in the history table
+ */
+export function normalizeFieldValue(value: unknown): unknown {
+  if (value === undefined || value === null || value === '') return null;
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(normalizeFieldValue);
+  if (typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value as Record<string, unknown>)
+        .sort()
+        .map(key => [key, normalizeFieldValue((value as Record<string, unknown>)[key])])
+    );
+  }
+  // real columns come back from Postgres with float4 precision
+  if (typeof value === 'number') return Math.round(value * 1e6) / 1e6;
+  return value;
+}
+
+/**
+ * Fields of `incoming` whose values differ from `existing`
+ */
+export function diffMineralRecords(
+  existing: Record<string, unknown>,
+  incoming: Record<string, unknown>
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  Object.keys(incoming).forEach(field => {
+    if (IGNORED_FIELDS.has(field)) return;
+
+    const oldValue = normalizeFieldValue(existing[field]);
+    const newValue = normalizeFieldValue(incoming[field]);
+
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes.push({ field, oldValue, newValue });
+    }
+  });
+
+  return changes;
+}
@@ -0,0 +1,308 @@
+/**
+ * Mindat / RRUFF Discrepancy Report
+ *
+ * Compares a synced Mindat mineral with the RRUFF record of the same species so
+ * curators can find data errors in either source:
+ * 1. Crystal system (hexagonal and trigonal count as the same family)
+ * 2. Space group, compared by ITA number so notation differences do not matter;
+ *    the two hands of an enantiomorphic pair (P3_121 / P3_221) count as the same.
+ *    Minerals synced before space groups were stored need a forced full sync first.
+ * 3. Unit cell lengths (relative tolerance) and angles (absolute tolerance); a cell
+ *    whose lengths only agree in a different order is reported as a setting difference
+ * 4. Hardness and density ranges that do not overlap within a tolerance
+ * 5. IMA status, compared by outcome (valid, discredited, pending, unapproved)
+ * 6. Parses report filters from request query strings and formats the report as CSV
+ */
+
+import { crystalSystemFamily } from './mineral-matching.js';
+import { parseNumericRange, type NumericRange } from './mineral-properties.js';
+import { parseSpaceGroup, spaceGroupSymbol } from './space-groups.js';
+import { csvLine } from './result-export.js';
+
+export const DISCREPANCY_FIELDS = ['crystalSystem', 'spaceGroup', 'unitCell', 'hardness', 'density', 'imaStatus'] as const;
+export type DiscrepancyField = typeof DISCREPANCY_FIELDS[number];
+
+export interface DiscrepancyTolerances {
+  cellLength: number; // Relative, 0.01 = 1%
+  cellAngle: number; // Degrees
+  hardness: number; // Mohs steps
+  density: number; // g/cm³
+}
+
+export const DEFAULT_TOLERANCES: DiscrepancyTolerances = {
+  cellLength: 0.01,
+  cellAngle: 0.5,
+  hardness: 0.5,
+  density: 0.05
+};
+
+export interface MindatComparable {
+  id: number;
+  name: string;
+  crystalSystem: string | null;
+  spaceGroup: number | null; // ITA number
+  cellA: number | null;
+  cellB: number | null;
+  cellC: number | null;
+  alpha: string | null;
+  beta: string | null;
+  gamma: string | null;
+  hardnessMin: number | null;
+  hardnessMax: number | null;
+  densityMin: number | null;
+  densityMax: number | null;
+  imaStatus: string[];
+}
+
+export interface RruffComparable {
+  id: number;
+  rruffId: string | null;
+  name: string;
+  crystalSystem: string | null;
+  spaceGroup: string | null;
+  unitCell: { a?: number; b?: number; c?: number; alpha?: number; beta?: number; gamma?: number } | null;
+  hardness: string | null;
+  density: string | null;
+  imaStatus: string | null;
+}
+
+export interface Discrepancy {
+  field: DiscrepancyField;
+  mindat: string;
+  rruff: string;
+  detail?: string;
+}
+
+export interface DiscrepancyRow {
+  mineralId: number;
+  mineralName: string;
+  rruffMineralId: number;
+  rruffId: string | null;
+  rruffName: string;
+  pairedBy: 'link' | 'name';
+  discrepancies: Discrepancy[];
+}
+
+export interface DiscrepancyReportOptions {
+  fields: DiscrepancyField[];
+  name?: string;
+  pairedBy?: 'link' | 'name';
+  tolerances: DiscrepancyTolerances;
+  limit: number;
+  offset: number;
+}
+
+export class DiscrepancyQueryError extends Error {}
+
+// Enantiomorphic space group pairs (ITA numbers); a species may be reported in either hand
+const ENANTIOMORPHS = new Map<number, number>(
+  [[76, 78], [91, 95], [92, 96], [144, 145], [151, 153], [152, 154], [169, 170], [171, 172], [178, 179], [180, 181], [212, 213]]
+    .flatMap(([left, right]) => [[left, right], [right, left]] as Array<[number, number]>)
+);
+
+const formatRange = (range: NumericRange | null) =>
+  !range ? '' : range.min === range.max ? String(range.min) : `${range.min}-${range.max}`;
+
+const rangeFrom = (min: number | null, max: number | null): NumericRange | null =>
+  min === null && max === null ? null : { min: (min ?? max)!, max: (max ?? min)! };
+
+// Gap between two ranges, 0 when they overlap
+const rangeGap = (a: NumericRange, b: NumericRange) => Math.max(0, a.min - b.max, b.min - a.max);
+
+function compareRanges(field: DiscrepancyField, mindat: NumericRange | null, rruff: NumericRange | null, tolerance: number): Discrepancy | null {
+  if (!mindat || !rruff) return null;
+
+  const gap = rangeGap(mindat, rruff);
+  if (gap <= tolerance) return null;
+
+  return { field, mindat: formatRange(mindat), rruff: formatRange(rruff), detail: `ranges ${Math.round(gap * 1000) / 1000} apart` };
+}
+
+function compareCrystalSystem(mindat: MindatComparable, rruff: RruffComparable): Discrepancy | null {
+  const mindatFamily = crystalSystemFamily(mindat.crystalSystem);
+  const rruffFamily = crystalSystemFamily(rruff.crystalSystem);
+  if (!mindatFamily || !rruffFamily || mindatFamily === rruffFamily) return null;
+
+  return { field: 'crystalSystem', mindat: mindat.crystalSystem!, rruff: rruff.crystalSystem! };
+}
+
+function compareSpaceGroup(mindat: MindatComparable, rruff: RruffComparable): Discrepancy | null {
+  if (!mindat.spaceGroup || mindat.spaceGroup > 230 || !rruff.spaceGroup) return null;
+
+  // Non-standard settings parse without a number and cannot be compared this way
+  const rruffNumber = parseSpaceGroup(rruff.spaceGroup)?.number;
+  if (!rruffNumber || rruffNumber === mindat.spaceGroup || ENANTIOMORPHS.get(rruffNumber) === mindat.spaceGroup) return null;
+
+  return {
+    field: 'spaceGroup',
+    mindat: `${spaceGroupSymbol(mindat.spaceGroup) || '?'} (#${mindat.spaceGroup})`,
+    rruff: `${rruff.spaceGroup} (#${rruffNumber})`
+  };
+}
+
+function compareUnitCell(mindat: MindatComparable, rruff: RruffComparable, tolerances: DiscrepancyTolerances): Discrepancy | null {
+  const cell = rruff.unitCell || {};
+  const lengths: Array<[string, number | null, number | undefined]> = [
+    ['a', mindat.cellA, cell.a],
+    ['b', mindat.cellB, cell.b],
+    ['c', mindat.cellC, cell.c]
+  ];
+  const angles: Array<[string, number | null, number | undefined]> = [
+    ['α', parseNumericRange(mindat.alpha)?.min ?? null, cell.alpha],
+    ['β', parseNumericRange(mindat.beta)?.min ?? null, cell.beta],
+    ['γ', parseNumericRange(mindat.gamma)?.min ?? null, cell.gamma]
+  ];
+
+  const lengthDiffers = (x: number, y: number) => Math.abs(x - y) / Math.max(x, y) > tolerances.cellLength;
+  const differing = [
+    ...lengths.filter(([, x, y]) => x && y && lengthDiffers(x, y)),
+    ...angles.filter(([, x, y]) => x && y && Math.abs(x - y) > tolerances.cellAngle)
+  ];
+  if (differing.length === 0) return null;
+
+  const describe = (values: Array<[string, number | null | undefined]>) =>
+    values.filter(([, value]) => value).map(([label, value]) => `${label}=${value}`).join(' ');
+
+  let detail = `differs in ${differing.map(([label]) => label).join(', ')}`;
+  const mindatLengths = lengths.map(([, x]) => x).filter((x): x is number => !!x).sort((x, y) => x - y);
+  const rruffLengths = lengths.map(([, , y]) => y).filter((y): y is number => !!y).sort((x, y) => x - y);
+  if (
+    mindatLengths.length === 3 && rruffLengths.length === 3 &&
+    mindatLengths.every((x, i) => !lengthDiffers(x, rruffLengths[i]))
+  ) {
+    detail = 'same lengths in a different axis setting';
+  }
+
+  return {
+    field: 'unitCell',
+    mindat: describe([...lengths, ...angles].map(([label, x]) => [label, x])),
+    rruff: describe([...lengths, ...angles].map(([label, , y]) => [label, y])),
+    detail
+  };
+}
+
+type ImaOutcome = 'valid' | 'discredited' | 'pending' | 'unapproved';
+
+function imaOutcome(statuses: string[]): ImaOutcome | null {
+  const normalized = statuses.map(status => status.toLowerCase().replace(/[_-]+/g, ' ').trim());
+  const has = (pattern: RegExp) => normalized.some(status => pattern.test(status));
+
+  if (has(/discredit|reject|renamed/)) return 'discredited';
+  if (has(/approved|grandfathered|redefined/) && !has(/without approval/)) return 'valid';
+  if (has(/pending/)) return 'pending';
+  if (has(/without approval/)) return 'unapproved';
+  return null;
+}
+
+function compareImaStatus(mindat: MindatComparable, rruff: RruffComparable): Discrepancy | null {
+  if (!rruff.imaStatus || mindat.imaStatus.length === 0) return null;
+
+  const rruffStatuses = rruff.imaStatus.split(/[,;]/);
+  const mindatOutcome = imaOutcome(mindat.imaStatus);
+  const rruffOutcome = imaOutcome(rruffStatuses);
+  if (!mindatOutcome || !rruffOutcome || mindatOutcome === rruffOutcome) return null;
+
+  return {
+    field: 'imaStatus',
+    mindat: mindat.imaStatus.join(', '),
+    rruff: rruff.imaStatus,
+    detail: `${mindatOutcome} / ${rruffOutcome}`
+  };
+}
+
+/**
+ * Everything the two records disagree on, limited to `fields`
+ */
+export function compareMineralRecords(
+  mindat: MindatComparable,
+  rruff: RruffComparable,
+  fields: readonly DiscrepancyField[] = DISCREPANCY_FIELDS,
+  tolerances: DiscrepancyTolerances = DEFAULT_TOLERANCES
+): Discrepancy[] {
+  const comparisons: Record<DiscrepancyField, () => Discrepancy | null> = {
+    crystalSystem: () => compareCrystalSystem(mindat, rruff),
+    spaceGroup: () => compareSpaceGroup(mindat, rruff),
+    unitCell: () => compareUnitCell(mindat, rruff, tolerances),
+    hardness: () => compareRanges(
+      'hardness',
+      rangeFrom(mindat.hardnessMin, mindat.hardnessMax),
+      parseNumericRange(rruff.hardness),
+      tolerances.hardness
+    ),
+    density: () => compareRanges(
+      'density',
+      rangeFrom(mindat.densityMin, mindat.densityMax),
+      parseNumericRange(rruff.density),
+      tolerances.density
+    ),
+    imaStatus: () => compareImaStatus(mindat, rruff)
+  };
+
+  return fields
+    .map(field => comparisons[field]())
+    .filter((discrepancy): discrepancy is Discrepancy => discrepancy !== null);
+}
+
+function parseTolerance(value: unknown, fallback: number, label: string): number {
+  if (value === undefined || value === '') return fallback;
+
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < 0) {
+    throw new DiscrepancyQueryError(`${label} must be a non-negative number`);
+  }
+  return number;
+}
+
+/**
+ * Parse report filters: fields (comma-separated), name, pairedBy, tolerances and paging
+ */
+export function parseDiscrepancyOptions(query: Record<string, unknown>): DiscrepancyReportOptions {
+  let fields: DiscrepancyField[] = [...DISCREPANCY_FIELDS];
+  if (typeof query.fields === 'string' && query.fields.trim()) {
+    const requested = query.fields.split(',').map(field => field.trim()).filter(Boolean);
+    const unknown = requested.filter(field => !(DISCREPANCY_FIELDS as readonly string[]).includes(field));
+    if (unknown.length > 0) {
+      throw new DiscrepancyQueryError(`Unknown field(s): ${unknown.join(', ')}. Use ${DISCREPANCY_FIELDS.join(', ')}`);
+    }
+    fields = requested as DiscrepancyField[];
+  }
+
+  if (query.pairedBy !== undefined && query.pairedBy !== 'link' && query.pairedBy !== 'name') {
+    throw new DiscrepancyQueryError('pairedBy must be "link" or "name"');
+  }
+
+  return {
+    fields,
+    name: typeof query.name === 'string' && query.name.trim() ? query.name.trim() : undefined,
+    pairedBy: query.pairedBy as DiscrepancyReportOptions['pairedBy'],
+    tolerances: {
+      cellLength: parseTolerance(query.cellLengthTolerance, DEFAULT_TOLERANCES.cellLength, 'cellLengthTolerance'),
+      cellAngle: parseTolerance(query.cellAngleTolerance, DEFAULT_TOLERANCES.cellAngle, 'cellAngleTolerance'),
+      hardness: parseTolerance(query.hardnessTolerance, DEFAULT_TOLERANCES.hardness, 'hardnessTolerance'),
+      density: parseTolerance(query.densityTolerance, DEFAULT_TOLERANCES.density, 'densityTolerance')
+    },
+    limit: query.limit ? Math.min(Math.max(parseInt(query.limit as string) || 100, 1), 500) : 100,
+    offset: query.offset ? Math.max(parseInt(query.offset as string) || 0, 0) : 0
+  };
+}
+
+/**
+ * One CSV line per discrepancy
+ */
+export function discrepanciesToCsv(rows: DiscrepancyRow[]): string {
+  const header = ['mineral_id', 'mineral_name', 'rruff_mineral_id', 'rruff_id', 'rruff_name', 'paired_by', 'field', 'mindat_value', 'rruff_value', 'detail'];
+  const lines = rows.flatMap(row => row.discrepancies.map(discrepancy => csvLine([
+    row.mineralId,
+    row.mineralName,
+    row.rruffMineralId,
+    row.rruffId,
+    row.rruffName,
+    row.pairedBy,
+    discrepancy.field,
+    discrepancy.mindat,
+    discrepancy.rruff,
+    discrepancy.detail
+  ])));
+
+  return csvLine(header) + lines.join('');
+}
@@ -0,0 +1,584 @@
+import { and, asc, desc, eq, inArray, ne, or, sql } from 'drizzle-orm';
+import { db } from '../db.js';
+import { mineralRruffLinks, minerals, type MineralRruffLink } from '@shared/schema';
+import { rruffMinerals, rruffSpectra } from '@shared/rruff-schema';
+import {
+  buildMindatMatchIndex,
+  classifyCandidates,
+  findLinkCandidates,
+  normalizeSpeciesName,
+  type LinkStatus
+} from './mineral-matching.js';
+import {
+  DISCREPANCY_FIELDS,
+  compareMineralRecords,
+  type DiscrepancyField,
+  type DiscrepancyReportOptions,
+  type DiscrepancyRow,
+  type MindatComparable,
+  type RruffComparable
+} from './mineral-discrepancies.js';
+
+// Links the detail views and GraphQL treat as the same species
+export const ACTIVE_LINK_STATUSES: LinkStatus[] = ['auto', 'confirmed'];
+
+export interface LinkRebuildSummary {
+  rruffMinerals: number;
+  autoLinked: number;
+  needsReview: number; // RRUFF minerals with candidates awaiting review
+  unmatched: number;
+  keptConfirmed: number; // RRUFF minerals with a curator-confirmed link, left as they are
+  duration: number;
+}
+
+export interface LinkedRruffMineral {
+  linkId: number;
+  matchMethod: string;
+  confidence: number;
+  status: string;
+  reasons: string[];
+  rruffMineral: {
+    id: number;
+    rruffId: string | null;
+    name: string;
+    formula: string | null;
+    crystalSystem: string | null;
+    spaceGroup: string | null;
+    url: string | null;
+  };
+  spectra: Record<string, number>; // Spectrum count by type
+}
+
+export interface LinkedMindatMineral {
+  linkId: number;
+  matchMethod: string;
+  confidence: number;
+  status: string;
+  reasons: string[];
+  mineral: {
+    id: number;
+    name: string;
+    formula: string | null;
+    crystalSystem: string | null;
+    imaStatus: string[];
+    elements: string[] | null;
+    danaCode: string | null;
+    strunzCode: string | null;
+  };
+}
+
+export interface LinkReviewGroup {
+  rruffMineral: { id: number; name: string; formula: string | null; crystalSystem: string | null };
+  candidates: Array<{
+    linkId: number;
+    mineralId: number;
+    name: string | null;
+    formula: string | null;
+    crystalSystem: string | null;
+    matchMethod: string;
+    confidence: number;
+    reasons: string[];
+  }>;
+}
+
+export interface DiscrepancyReport {
+  rows: DiscrepancyRow[];
+  total: number; // Pairs with at least one discrepancy
+  pairsCompared: number;
+  pairsWithSpaceGroup: number; // Compared pairs whose Mindat record has a space group to compare
+  countsByField: Record<DiscrepancyField, number>;
+}
+
+const INSERT_BATCH_SIZE = 500;
+
+/**
+ * Links synced Mindat minerals to RRUFF minerals (mineral_rruff_links) and
+ * serves the combined records
+ */
+export class MineralLinkingService {
+  private static instance: MineralLinkingService;
+
+  private constructor() {}
+
+  static getInstance(): MineralLinkingService {
+    if (!MineralLinkingService.instance) {
+      MineralLinkingService.instance = new MineralLinkingService();
+    }
+    return MineralLinkingService.instance;
+  }
+
+  /**
+   * Re-score every RRUFF mineral against the synced Mindat minerals. Automatic and
+   * pending links are replaced; curator decisions are kept and respected.
+   */
+  async rebuildLinks(): Promise<LinkRebuildSummary> {
+    const startTime = Date.now();
+
+    try {
+      const mindatRows = await db
+        .select({
+          id: minerals.id,
+          name: minerals.name,
+          formula: sql<string | null>`COALESCE(${minerals.imaFormula}, ${minerals.mindatFormula})`,
+          crystalSystem: minerals.csystem,
+          entrytype: minerals.entrytype,
+          synid: minerals.synid
+        })
+        .from(minerals)
+        .where(eq(minerals.isActive, true));
+
+      const rruffRows = await db
+        .select({
+          id: rruffMinerals.id,
+          name: rruffMinerals.mineralName,
+          formula: sql<string | null>`COALESCE(${rruffMinerals.idealChemistry}, ${rruffMinerals.chemicalFormula})`,
+          crystalSystem: rruffMinerals.crystalSystem
+        })
+        .from(rruffMinerals)
+        .where(eq(rruffMinerals.isActive, true));
+
+      const reviewed = await db
+        .select({
+          mineralId: mineralRruffLinks.mineralId,
+          rruffMineralId: mineralRruffLinks.rruffMineralId,
+          status: mineralRruffLinks.status
+        })
+        .from(mineralRruffLinks)
+        .where(inArray(mineralRruffLinks.status, ['confirmed', 'rejected']));
+
+      const confirmedRruffIds = new Set(reviewed.filter(link => link.status === 'confirmed').map(link => link.rruffMineralId));
+      const rejectedPairs = new Set(
+        reviewed.filter(link => link.status === 'rejected').map(link => `${link.mineralId}:${link.rruffMineralId}`)
+      );
+
+      const index = buildMindatMatchIndex(mindatRows);
+      const summary: LinkRebuildSummary = {
+        rruffMinerals: rruffRows.length,
+        autoLinked: 0,
+        needsReview: 0,
+        unmatched: 0,
+        keptConfirmed: 0,
+        duration: 0
+      };
+      const newLinks: Array<typeof mineralRruffLinks.$inferInsert> = [];
+
+      rruffRows.forEach(rruff => {
+        if (confirmedRruffIds.has(rruff.id)) {
+          summary.keptConfirmed++;
+          return;
+        }
+
+        const candidates = findLinkCandidates(rruff, index)
+          .filter(candidate => !rejectedPairs.has(`${candidate.mineralId}:${rruff.id}`));
+        const links = classifyCandidates(candidates);
+
+        if (links.length === 0) {
+          summary.unmatched++;
+        } else if (links[0].status === 'auto') {
+          summary.autoLinked++;
+        } else {
+          summary.needsReview++;
+        }
+
+        links.forEach(link => newLinks.push({
+          mineralId: link.mineralId,
+          rruffMineralId: rruff.id,
+          matchMethod: link.method,
+          confidence: link.confidence,
+          status: link.status,
+          reasons: link.reasons
+        }));
+      });
+
+      await db.transaction(async (tx) => {
+        await tx.delete(mineralRruffLinks).where(inArray(mineralRruffLinks.status, ['auto', 'review']));
+
+        for (let i = 0; i < newLinks.length; i += INSERT_BATCH_SIZE) {
+          await tx.insert(mineralRruffLinks).values(newLinks.slice(i, i + INSERT_BATCH_SIZE));
+        }
+      });
+
+      summary.duration = Date.now() - startTime;
+      return summary;
+    } catch (error) {
+      console.error('Error rebuilding Mindat/RRUFF links:', error);
+      throw new Error('Failed to rebuild Mindat/RRUFF links');
+    }
+  }
+
+  /**
+   * RRUFF minerals linked to a Mindat mineral, with their spectrum counts
+   */
+  async getLinksForMineral(mineralId: number): Promise<LinkedRruffMineral[]> {
+    try {
+      const rows = await db
+        .select({
+          link: mineralRruffLinks,
+          rruff: {
+            id: rruffMinerals.id,
+            rruffId: rruffMinerals.rruffId,
+            name: rruffMinerals.mineralName,
+            formula: sql<string | null>`COALESCE(${rruffMinerals.idealChemistry}, ${rruffMinerals.chemicalFormula})`,
+            crystalSystem: rruffMinerals.crystalSystem,
+            spaceGroup: rruffMinerals.spaceGroup,
+            url: rruffMinerals.url
+          }
+        })
+        .from(mineralRruffLinks)
+        .innerJoin(rruffMinerals, eq(rruffMinerals.id, mineralRruffLinks.rruffMineralId))
+        .where(and(
+          eq(mineralRruffLinks.mineralId, mineralId),
+          inArray(mineralRruffLinks.status, ACTIVE_LINK_STATUSES)
+        ))
+        .orderBy(desc(mineralRruffLinks.confidence), asc(rruffMinerals.id));
+
+      if (rows.length === 0) return [];
+
+      const spectraCounts = await db
+        .select({
+          mineralId: rruffSpectra.mineralId,
+          spectraType: rruffSpectra.spectraType,
+          count: sql<number>`COUNT(*)::int`
+        })
+        .from(rruffSpectra)
+        .where(inArray(rruffSpectra.mineralId, rows.map(row => row.rruff.id)))
+        .groupBy(rruffSpectra.mineralId, rruffSpectra.spectraType);
+
+      return rows.map(row => ({
+        ...this.toLinkFields(row.link),
+        rruffMineral: row.rruff,
+        spectra: Object.fromEntries(
+          spectraCounts
+            .filter(count => count.mineralId === row.rruff.id)
+            .map(count => [count.spectraType, count.count])
+        )
+      }));
+    } catch (error) {
+      console.error('Error getting RRUFF links for mineral:', error);
+      throw new Error('Failed to get RRUFF links for mineral');
+    }
+  }
+
+  /**
+   * Mindat minerals linked to a RRUFF mineral
+   */
+  async getLinksForRruffMineral(rruffMineralId: number): Promise<LinkedMindatMineral[]> {
+    try {
+      const rows = await db
+        .select({
+          link: mineralRruffLinks,
+          mineral: {
+            id: minerals.id,
+            name: minerals.name,
+            formula: sql<string | null>`COALESCE(${minerals.imaFormula}, ${minerals.mindatFormula})`,
+            crystalSystem: minerals.csystem,
+            imaStatus: sql<string[]>`COALESCE(${minerals.imaStatus}, '[]'::jsonb)`,
+            elements: minerals.elements,
+            danaCode: minerals.danaCode,
+            strunzCode: minerals.strunzCode
+          }
+        })
+        .from(mineralRruffLinks)
+        .innerJoin(minerals, eq(minerals.id, mineralRruffLinks.mineralId))
+        .where(and(
+          eq(mineralRruffLinks.rruffMineralId, rruffMineralId),
+          inArray(mineralRruffLinks.status, ACTIVE_LINK_STATUSES)
+        ))
+        .orderBy(desc(mineralRruffLinks.confidence), asc(minerals.id));
+
+      return rows.map(row => ({ ...this.toLinkFields(row.link), mineral: row.mineral }));
+    } catch (error) {
+      console.error('Error getting Mindat links for RRUFF mineral:', error);
+      throw new Error('Failed to get Mindat links for RRUFF mineral');
+    }
+  }
+
+  /**
+   * Ambiguous matches awaiting a curator, grouped by RRUFF mineral
+   */
+  async getReviewQueue(options: { limit?: number; offset?: number } = {}): Promise<{ groups: LinkReviewGroup[]; total: number }> {
+    const { limit = 50, offset = 0 } = options;
+
+    try {
+      const totalResult = await db
+        .select({ count: sql<number>`COUNT(DISTINCT ${mineralRruffLinks.rruffMineralId})::int` })
+        .from(mineralRruffLinks)
+        .where(eq(mineralRruffLinks.status, 'review'));
+
+      const pending = await db
+        .selectDistinct({
+          id: rruffMinerals.id,
+          name: rruffMinerals.mineralName,
+          formula: sql<string | null>`COALESCE(${rruffMinerals.idealChemistry}, ${rruffMinerals.chemicalFormula})`,
+          crystalSystem: rruffMinerals.crystalSystem
+        })
+        .from(mineralRruffLinks)
+        .innerJoin(rruffMinerals, eq(rruffMinerals.id, mineralRruffLinks.rruffMineralId))
+        .where(eq(mineralRruffLinks.status, 'review'))
+        .orderBy(asc(rruffMinerals.mineralName), asc(rruffMinerals.id))
+        .limit(limit)
+        .offset(offset);
+
+      if (pending.length === 0) {
+        return { groups: [], total: totalResult[0]?.count || 0 };
+      }
+
+      const candidates = await db
+        .select({
+          link: mineralRruffLinks,
+          name: minerals.name,
+          formula: sql<string | null>`COALESCE(${minerals.imaFormula}, ${minerals.mindatFormula})`,
+          crystalSystem: minerals.csystem
+        })
+        .from(mineralRruffLinks)
+        .leftJoin(minerals, eq(minerals.id, mineralRruffLinks.mineralId))
+        .where(and(
+          eq(mineralRruffLinks.status, 'review'),
+          inArray(mineralRruffLinks.rruffMineralId, pending.map(rruff => rruff.id))
+        ))
+        .orderBy(desc(mineralRruffLinks.confidence), asc(mineralRruffLinks.mineralId));
+
+      return {
+        groups: pending.map(rruff => ({
+          rruffMineral: rruff,
+          candidates: candidates
+            .filter(candidate => candidate.link.rruffMineralId === rruff.id)
+            .map(candidate => ({
+              linkId: candidate.link.id,
+              mineralId: candidate.link.mineralId,
+              name: candidate.name,
+              formula: candidate.formula,
+              crystalSystem: candidate.crystalSystem,
+              matchMethod: candidate.link.matchMethod,
+              confidence: candidate.link.confidence,
+              reasons: (candidate.link.reasons as string[] | null) || []
+            }))
+        })),
+        total: totalResult[0]?.count || 0
+      };
+    } catch (error) {
+      console.error('Error getting link review queue:', error);
+      throw new Error('Failed to get link review queue');
+    }
+  }
+
+  /**
+   * Confirm or reject a link. Confirming a link rejects the other unreviewed
+   * candidates for the same RRUFF mineral.
+   */
+  async reviewLink(linkId: number, status: 'confirmed' | 'rejected', reviewer: string): Promise<MineralRruffLink | null> {
+    try {
+      return await db.transaction(async (tx) => {
+        const now = new Date();
+        const [link] = await tx
+          .update(mineralRruffLinks)
+          .set({ status, reviewedBy: reviewer, reviewedAt: now, updatedAt: now })
+          .where(eq(mineralRruffLinks.id, linkId))
+          .returning();
+
+        if (link && status === 'confirmed') {
+          await tx
+            .update(mineralRruffLinks)
+            .set({ status: 'rejected', reviewedBy: reviewer, reviewedAt: now, updatedAt: now })
+            .where(and(
+              eq(mineralRruffLinks.rruffMineralId, link.rruffMineralId),
+              ne(mineralRruffLinks.id, link.id),
+              inArray(mineralRruffLinks.status, ['auto', 'review'])
+            ));
+        }
+
+        return link || null;
+      });
+    } catch (error) {
+      console.error('Error reviewing Mindat/RRUFF link:', error);
+      throw new Error('Failed to review Mindat/RRUFF link');
+    }
+  }
+
+  /**
+   * Link a pair the matcher missed, as a confirmed link. Returns null if either mineral is unknown.
+   */
+  async createManualLink(mineralId: number, rruffMineralId: number, reviewer: string): Promise<MineralRruffLink | null> {
+    try {
+      const [mineral] = await db.select({ id: minerals.id }).from(minerals).where(eq(minerals.id, mineralId));
+      const [rruff] = await db.select({ id: rruffMinerals.id }).from(rruffMinerals).where(eq(rruffMinerals.id, rruffMineralId));
+      if (!mineral || !rruff) return null;
+
+      const now = new Date();
+      const [link] = await db
+        .insert(mineralRruffLinks)
+        .values({
+          mineralId,
+          rruffMineralId,
+          matchMethod: 'manual',
+          confidence: 1,
+          status: 'review',
+          reasons: ['linked by a curator'],
+          createdAt: now,
+          updatedAt: now
+        })
+        .onConflictDoUpdate({
+          target: [mineralRruffLinks.mineralId, mineralRruffLinks.rruffMineralId],
+          set: { matchMethod: 'manual', confidence: 1, reasons: ['linked by a curator'], updatedAt: now }
+        })
+        .returning();
+
+      return this.reviewLink(link.id, 'confirmed', reviewer);
+    } catch (error) {
+      console.error('Error creating manual Mindat/RRUFF link:', error);
+      throw new Error('Failed to create manual Mindat/RRUFF link');
+    }
+  }
+
+  /**
+   * Mindat/RRUFF pairs that disagree, one page at a time
+   */
+  async getDiscrepancyReport(options: DiscrepancyReportOptions): Promise<DiscrepancyReport> {
+    const { rows, pairsCompared, pairsWithSpaceGroup } = await this.collectDiscrepancies(options);
+
+    const countsByField = Object.fromEntries(DISCREPANCY_FIELDS.map(field => [field, 0])) as Record<DiscrepancyField, number>;
+    rows.forEach(row => row.discrepancies.forEach(discrepancy => countsByField[discrepancy.field]++));
+
+    return {
+      rows: rows.slice(options.offset, options.offset + options.limit),
+      total: rows.length,
+      pairsCompared,
+      pairsWithSpaceGroup,
+      countsByField
+    };
+  }
+
+  /**
+   * Every Mindat/RRUFF pair that disagrees, for CSV export
+   */
+  async exportDiscrepancies(options: DiscrepancyReportOptions): Promise<DiscrepancyRow[]> {
+    return (await this.collectDiscrepancies(options)).rows;
+  }
+
+  /**
+   * Pair each RRUFF mineral with its linked Mindat minerals, or with the Mindat
+   * species of the same name when the linking job has not linked it, and compare
+   */
+  private async collectDiscrepancies(
+    options: DiscrepancyReportOptions
+  ): Promise<{ rows: DiscrepancyRow[]; pairsCompared: number; pairsWithSpaceGroup: number }> {
+    try {
+      const rruffRows: RruffComparable[] = await db
+        .select({
+          id: rruffMinerals.id,
+          rruffId: rruffMinerals.rruffId,
+          name: rruffMinerals.mineralName,
+          crystalSystem: rruffMinerals.crystalSystem,
+          spaceGroup: rruffMinerals.spaceGroup,
+          unitCell: rruffMinerals.unitCell,
+          hardness: rruffMinerals.hardness,
+          density: rruffMinerals.density,
+          imaStatus: rruffMinerals.imaStatus
+        })
+        .from(rruffMinerals)
+        .where(eq(rruffMinerals.isActive, true));
+
+      const links = await db
+        .select({ mineralId: mineralRruffLinks.mineralId, rruffMineralId: mineralRruffLinks.rruffMineralId })
+        .from(mineralRruffLinks)
+        .where(inArray(mineralRruffLinks.status, ACTIVE_LINK_STATUSES));
+
+      const linkedIds = new Map<number, number[]>();
+      links.forEach(link => linkedIds.set(link.rruffMineralId, [...(linkedIds.get(link.rruffMineralId) || []), link.mineralId]));
+
+      const linkedMineralIds = Array.from(new Set(links.map(link => link.mineralId)));
+      const unlinkedNames = Array.from(new Set(
+        rruffRows.filter(rruff => !linkedIds.has(rruff.id)).map(rruff => rruff.name.trim().toLowerCase())
+      ));
+
+      const conditions = [];
+      if (linkedMineralIds.length > 0) conditions.push(inArray(minerals.id, linkedMineralIds));
+      if (unlinkedNames.length > 0) {
+        conditions.push(and(eq(minerals.entrytype, 0), inArray(sql`LOWER(TRIM(${minerals.name}))`, unlinkedNames)));
+      }
+      if (conditions.length === 0) return { rows: [], pairsCompared: 0, pairsWithSpaceGroup: 0 };
+
+      const mindatRows: MindatComparable[] = await db
+        .select({
+          id: minerals.id,
+          name: minerals.name,
+          crystalSystem: minerals.csystem,
+          spaceGroup: minerals.spacegroup,
+          cellA: minerals.cellA,
+          cellB: minerals.cellB,
+          cellC: minerals.cellC,
+          alpha: minerals.alpha,
+          beta: minerals.beta,
+          gamma: minerals.gamma,
+          hardnessMin: minerals.hmin,
+          hardnessMax: minerals.hmax,
+          densityMin: minerals.densityMin,
+          densityMax: minerals.densityMax,
+          imaStatus: sql<string[]>`COALESCE(${minerals.imaStatus}, '[]'::jsonb)`
+        })
+        .from(minerals)
+        .where(and(eq(minerals.isActive, true), or(...conditions)))
+        .orderBy(asc(minerals.id));
+
+      const mindatById = new Map(mindatRows.map(mineral => [mineral.id, mineral]));
+      const mindatByName = new Map<string, MindatComparable>();
+      mindatRows.forEach(mineral => {
+        const key = normalizeSpeciesName(mineral.name);
+        if (!mindatByName.has(key)) mindatByName.set(key, mineral);
+      });
+
+      const nameFilter = options.name?.toLowerCase();
+      const rows: DiscrepancyRow[] = [];
+      let pairsCompared = 0;
+      let pairsWithSpaceGroup = 0;
+
+      rruffRows.forEach(rruff => {
+        const linked = linkedIds.get(rruff.id);
+        const pairedBy = linked ? 'link' : 'name';
+        if (options.pairedBy && options.pairedBy !== pairedBy) return;
+
+        const byName = mindatByName.get(normalizeSpeciesName(rruff.name));
+        const pairs = linked
+          ? linked.map(id => mindatById.get(id)).filter((mineral): mineral is MindatComparable => !!mineral)
+          : byName ? [byName] : [];
+
+        pairs.forEach(mindat => {
+          if (nameFilter && !mindat.name.toLowerCase().includes(nameFilter) && !rruff.name.toLowerCase().includes(nameFilter)) {
+            return;
+          }
+
+          pairsCompared++;
+          if (mindat.spaceGroup) pairsWithSpaceGroup++;
+          const discrepancies = compareMineralRecords(mindat, rruff, options.fields, options.tolerances);
+          if (discrepancies.length === 0) return;
+
+          rows.push({
+            mineralId: mindat.id,
+            mineralName: mindat.name,
+            rruffMineralId: rruff.id,
+            rruffId: rruff.rruffId,
+            rruffName: rruff.name,
+            pairedBy,
+            discrepancies
+          });
+        });
+      });
+
+      rows.sort((a, b) => a.mineralName.localeCompare(b.mineralName) || a.rruffMineralId - b.rruffMineralId);
+      return { rows, pairsCompared, pairsWithSpaceGroup };
+    } catch (error) {
+      console.error('Error building Mindat/RRUFF discrepancy report:', error);
+      throw new Error('Failed to build Mindat/RRUFF discrepancy report');
+    }
+  }
+
+  private toLinkFields(link: MineralRruffLink) {
+    return {
+      linkId: link.id,
+      matchMethod: link.matchMethod,
+      confidence: link.confidence,
+      status: link.status,
+      reasons: (link.reasons as string[] | null) || []
+    };
+  }
+}
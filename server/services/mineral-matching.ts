@@ -0,0 +1,210 @@
+/**
+ * Mindat / RRUFF Species Matching
+ *
+ * Scores which synced Mindat geomaterials a RRUFF mineral is the same species as:
+ * 1. Names are compared after folding case, accents, whitespace and dash variants
+ * 2. A RRUFF name that is a Mindat synonym points at the species it is a synonym of
+ * 3. Formulas are compared by parsed composition, so notation differences do not matter;
+ *    a formula alone only proposes candidates (polymorphs share formulas)
+ * 4. Crystal system agreement nudges the score; disagreement lowers it
+ * 5. A clear winner is linked automatically, anything else is left for review
+ */
+
+import { parseFormula } from './formula-parser.js';
+
+export type LinkMethod = 'name' | 'synonym' | 'formula' | 'manual';
+export type LinkStatus = 'auto' | 'review' | 'confirmed' | 'rejected';
+
+// A candidate is linked without review when it scores at least this...
+export const AUTO_LINK_CONFIDENCE = 0.85;
+// ...and beats the runner-up by this much
+export const AUTO_LINK_MARGIN = 0.15;
+// Weaker candidates are not worth a curator's time
+export const MIN_CANDIDATE_CONFIDENCE = 0.3;
+
+export interface MindatMatchRecord {
+  id: number;
+  name: string;
+  formula: string | null; // IMA formula, else Mindat formula
+  crystalSystem: string | null;
+  entrytype: number | null; // 0 = mineral species
+  synid: number | null; // > 0: synonym of this Mindat ID
+}
+
+export interface RruffMatchRecord {
+  id: number;
+  name: string;
+  formula: string | null;
+  crystalSystem: string | null;
+}
+
+export interface LinkCandidate {
+  mineralId: number;
+  method: LinkMethod;
+  confidence: number;
+  reasons: string[];
+}
+
+export interface MindatMatchIndex {
+  byId: Map<number, MindatMatchRecord>;
+  byName: Map<string, MindatMatchRecord[]>;
+  byFormula: Map<string, MindatMatchRecord[]>;
+}
+
+/**
+ * Comparable form of a species name ("Abenakiite-(Ce)", "abenakiite–(ce) " and "Abénakiite-(Ce)" agree)
+ */
+export function normalizeSpeciesName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\u2010-\u2015\u2212]/g, '-')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Composition key of a formula (element counts, sorted), or null if it does not parse
+ */
+export function formulaKey(formula: string | null | undefined): string | null {
+  const composition = parseFormula(formula);
+  if (!composition || Object.keys(composition.elements).length === 0) return null;
+
+  return Object.keys(composition.elements)
+    .sort()
+    .map(element => `${element}${Math.round(composition.elements[element] * 100) / 100}`)
+    .join(' ');
+}
+
+function elementSet(formula: string | null | undefined): string | null {
+  const composition = parseFormula(formula);
+  if (!composition || Object.keys(composition.elements).length === 0) return null;
+  return Object.keys(composition.elements).sort().join(' ');
+}
+
+function groupInto<T>(map: Map<string, T[]>, key: string | null, value: T) {
+  if (!key) return;
+  const group = map.get(key) || [];
+  group.push(value);
+  map.set(key, group);
+}
+
+export function buildMindatMatchIndex(records: MindatMatchRecord[]): MindatMatchIndex {
+  const index: MindatMatchIndex = { byId: new Map(), byName: new Map(), byFormula: new Map() };
+
+  records.forEach(record => {
+    index.byId.set(record.id, record);
+    groupInto(index.byName, normalizeSpeciesName(record.name), record);
+    // Only species are proposed from a formula
+    if (record.entrytype === 0) {
+      groupInto(index.byFormula, formulaKey(record.formula), record);
+    }
+  });
+
+  return index;
+}
+
+/**
+ * Comparable crystal system; hexagonal and trigonal are often reported interchangeably
+ */
+export function crystalSystemFamily(system: string | null): string | null {
+  const normalized = system?.trim().toLowerCase();
+  if (!normalized) return null;
+  if (normalized === 'trigonal' || normalized === 'hexagonal') return 'hexagonal';
+  if (normalized === 'cubic') return 'isometric';
+  return normalized;
+}
+
+function score(rruff: RruffMatchRecord, mindat: MindatMatchRecord, method: LinkMethod, base: number): LinkCandidate {
+  const reasons: string[] = [];
+  let confidence = base;
+
+  if (method === 'name') reasons.push('name matches');
+  if (method === 'synonym') reasons.push(`RRUFF name is a Mindat synonym of ${mindat.name}`);
+  if (method === 'formula') reasons.push('formula matches (name differs)');
+  if (mindat.entrytype !== 0) {
+    confidence -= 0.2;
+    reasons.push('Mindat record is not a mineral species');
+  }
+
+  const rruffFormula = formulaKey(rruff.formula);
+  const mindatFormula = formulaKey(mindat.formula);
+  if (method !== 'formula' && rruffFormula && mindatFormula) {
+    if (rruffFormula === mindatFormula) {
+      confidence += 0.08;
+      reasons.push('formula matches');
+    } else if (elementSet(rruff.formula) === elementSet(mindat.formula)) {
+      confidence += 0.03;
+      reasons.push('same elements, different proportions');
+    } else {
+      confidence -= 0.25;
+      reasons.push('formulas contain different elements');
+    }
+  }
+
+  const rruffSystem = crystalSystemFamily(rruff.crystalSystem);
+  const mindatSystem = crystalSystemFamily(mindat.crystalSystem);
+  if (rruffSystem && mindatSystem) {
+    if (rruffSystem === mindatSystem) {
+      confidence += 0.02;
+      reasons.push('crystal system matches');
+    } else {
+      confidence -= 0.1;
+      reasons.push(`crystal system differs (${rruff.crystalSystem} / ${mindat.crystalSystem})`);
+    }
+  }
+
+  return {
+    mineralId: mindat.id,
+    method,
+    confidence: Math.round(Math.min(1, Math.max(0, confidence)) * 1000) / 1000,
+    reasons
+  };
+}
+
+/**
+ * Mindat candidates for a RRUFF mineral, best first
+ */
+export function findLinkCandidates(rruff: RruffMatchRecord, index: MindatMatchIndex): LinkCandidate[] {
+  const candidates = new Map<number, LinkCandidate>();
+  const keep = (candidate: LinkCandidate) => {
+    const existing = candidates.get(candidate.mineralId);
+    if (!existing || existing.confidence < candidate.confidence) {
+      candidates.set(candidate.mineralId, candidate);
+    }
+  };
+
+  (index.byName.get(normalizeSpeciesName(rruff.name)) || []).forEach(record => {
+    const species = record.synid ? index.byId.get(record.synid) : undefined;
+    if (species) {
+      keep(score(rruff, species, 'synonym', 0.8));
+    } else {
+      keep(score(rruff, record, 'name', 0.9));
+    }
+  });
+
+  if (candidates.size === 0) {
+    (index.byFormula.get(formulaKey(rruff.formula) || '') || []).forEach(record => {
+      keep(score(rruff, record, 'formula', 0.55));
+    });
+  }
+
+  return Array.from(candidates.values()).sort((a, b) => b.confidence - a.confidence || a.mineralId - b.mineralId);
+}
+
+/**
+ * The automatic link, or the candidates a curator should look at
+ */
+export function classifyCandidates(candidates: LinkCandidate[]): Array<LinkCandidate & { status: LinkStatus }> {
+  const [best, runnerUp] = candidates;
+  if (!best) return [];
+
+  if (best.confidence >= AUTO_LINK_CONFIDENCE && (!runnerUp || best.confidence - runnerUp.confidence >= AUTO_LINK_MARGIN)) {
+    return [{ ...best, status: 'auto' }];
+  }
+
+  return candidates
+    .filter(candidate => candidate.confidence >= MIN_CANDIDATE_CONFIDENCE)
+    .map(candidate => ({ ...candidate, status: 'review' as const }));
+}
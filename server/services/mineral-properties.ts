@@ -0,0 +1,159 @@
+/**
+ * Numeric Mineral Properties
+ *
+ * Mindat reports density, refractive indices and cell parameters as free text
+ * ("2.65", "3.2 - 3.5", "1.544(1)"). This module:
+ * 1. Parses those values into numeric min/max ranges stored alongside the text on sync
+ * 2. Derives birefringence from the refractive indices when Mindat does not give it
+ * 3. Describes the range facets the property search can filter on
+ * 4. Parses facet filters from request query strings
+ */
+
+import { minerals } from '@shared/schema';
+
+export interface NumericRange {
+  min: number;
+  max: number;
+}
+
+export interface RangeFilter {
+  min?: number;
+  max?: number;
+}
+
+export interface PropertyFilters {
+  ranges: Record<string, RangeFilter>;
+  lustre?: string[];
+  streak?: string;
+  colour?: string;
+  crystalSystem?: string;
+  opticalType?: string;
+  opticalSign?: string;
+}
+
+// Facets searchable by numeric range; the query parameters are `${key}Min` and `${key}Max`
+export const RANGE_FACETS = {
+  hardness: { label: 'Mohs hardness', unit: '', min: minerals.hmin, max: minerals.hmax },
+  density: { label: 'Density', unit: 'g/cm³', min: minerals.densityMin, max: minerals.densityMax },
+  nAlpha: { label: 'nα', unit: '', min: minerals.nAlphaMin, max: minerals.nAlphaMax },
+  nBeta: { label: 'nβ', unit: '', min: minerals.nBetaMin, max: minerals.nBetaMax },
+  nGamma: { label: 'nγ', unit: '', min: minerals.nGammaMin, max: minerals.nGammaMax },
+  nOmega: { label: 'nω', unit: '', min: minerals.nOmegaMin, max: minerals.nOmegaMax },
+  nEpsilon: { label: 'nε', unit: '', min: minerals.nEpsilonMin, max: minerals.nEpsilonMax },
+  n: { label: 'n (isotropic)', unit: '', min: minerals.nMin, max: minerals.nMax },
+  birefringence: { label: 'Birefringence (δ)', unit: '', min: minerals.birefringence, max: minerals.birefringence },
+  a: { label: 'Cell a', unit: 'Å', min: minerals.cellA, max: minerals.cellA },
+  b: { label: 'Cell b', unit: 'Å', min: minerals.cellB, max: minerals.cellB },
+  c: { label: 'Cell c', unit: 'Å', min: minerals.cellC, max: minerals.cellC }
+} as const;
+
+export type RangeFacetKey = keyof typeof RANGE_FACETS;
+
+/**
+ * Collect the numbers in one or more property values into a min/max range.
+ * Parenthesised uncertainties ("1.544(1)") are dropped first.
+ */
+export function parseNumericRange(...values: unknown[]): NumericRange | null {
+  const numbers: number[] = [];
+
+  values.forEach(value => {
+    if (typeof value === 'number') {
+      if (Number.isFinite(value) && value > 0) numbers.push(value);
+      return;
+    }
+    if (typeof value !== 'string') return;
+
+    const matches = value.replace(/\(\d+\)/g, '').match(/\d+(?:\.\d+)?/g) || [];
+    matches.forEach(match => {
+      const number = parseFloat(match);
+      if (number > 0) numbers.push(number);
+    });
+  });
+
+  if (numbers.length === 0) return null;
+  return { min: Math.min(...numbers), max: Math.max(...numbers) };
+}
+
+/**
+ * Numeric columns derived from a Mindat geomaterial record
+ */
+export function deriveNumericProperties(data: any) {
+  const density = parseNumericRange(data.dmeas, data.dmeas2) || parseNumericRange(data.dcalc);
+  const nAlpha = parseNumericRange(data.opticalalpha, data.opticalalpha2);
+  const nBeta = parseNumericRange(data.opticalbeta, data.opticalbeta2);
+  const nGamma = parseNumericRange(data.opticalgamma, data.opticalgamma2);
+  const nOmega = parseNumericRange(data.opticalomega, data.opticalomega2);
+  const nEpsilon = parseNumericRange(data.opticalepsilon, data.opticalepsilon2);
+  const n = parseNumericRange(data.opticaln, data.opticaln2);
+
+  // Prefer the reported value; otherwise take the largest spread between the principal indices
+  let birefringence = parseNumericRange(data.opticalbirefringence)?.max ?? null;
+  if (birefringence === null) {
+    const indices = [nAlpha, nBeta, nGamma, nOmega, nEpsilon].filter((range): range is NumericRange => range !== null);
+    if (indices.length >= 2) {
+      const highest = Math.max(...indices.map(range => range.max));
+      const lowest = Math.min(...indices.map(range => range.min));
+      birefringence = Math.round((highest - lowest) * 10000) / 10000;
+    }
+  }
+
+  return {
+    densityMin: density?.min ?? null,
+    densityMax: density?.max ?? null,
+    nAlphaMin: nAlpha?.min ?? null,
+    nAlphaMax: nAlpha?.max ?? null,
+    nBetaMin: nBeta?.min ?? null,
+    nBetaMax: nBeta?.max ?? null,
+    nGammaMin: nGamma?.min ?? null,
+    nGammaMax: nGamma?.max ?? null,
+    nOmegaMin: nOmega?.min ?? null,
+    nOmegaMax: nOmega?.max ?? null,
+    nEpsilonMin: nEpsilon?.min ?? null,
+    nEpsilonMax: nEpsilon?.max ?? null,
+    nMin: n?.min ?? null,
+    nMax: n?.max ?? null,
+    birefringence,
+    cellA: parseNumericRange(data.a)?.min ?? null,
+    cellB: parseNumericRange(data.b)?.min ?? null,
+    cellC: parseNumericRange(data.c)?.min ?? null
+  };
+}
+
+function parseNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const number = parseFloat(String(value));
+  return Number.isFinite(number) ? number : undefined;
+}
+
+function parseText(value: unknown): string | undefined {
+  const text = typeof value === 'string' ? value.trim() : '';
+  return text && text !== 'any' ? text : undefined;
+}
+
+/**
+ * Read facet filters from a query string such as
+ * `hardnessMin=5&hardnessMax=6&densityMin=3.2&lustre=Vitreous,Adamantine&streak=white`
+ */
+export function parsePropertyFilters(query: Record<string, unknown>): PropertyFilters {
+  const ranges: Record<string, RangeFilter> = {};
+
+  (Object.keys(RANGE_FACETS) as RangeFacetKey[]).forEach(key => {
+    const min = parseNumber(query[`${key}Min`]);
+    const max = parseNumber(query[`${key}Max`]);
+    if (min !== undefined || max !== undefined) {
+      ranges[key] = { min, max };
+    }
+  });
+
+  const lustre = parseText(query.lustre);
+
+  return {
+    ranges,
+    lustre: lustre ? lustre.split(',').map(value => value.trim()).filter(Boolean) : undefined,
+    streak: parseText(query.streak),
+    colour: parseText(query.colour),
+    crystalSystem: parseText(query.crystalSystem),
+    opticalType: parseText(query.opticalType),
+    opticalSign: parseText(query.opticalSign)
+  };
+}
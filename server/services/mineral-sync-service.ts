@@ -1,13 +1,54 @@
-import { eq, sql } from 'drizzle-orm';
+import { and, desc, eq, inArray, isNotNull, isNull, ne, not, or, sql, type SQL } from 'drizzle-orm';
 import { db } from '../db.js';
-import { minerals, syncLogs, type InsertMineral, type InsertSyncLog } from '@shared/schema';
+import {
+  minerals,
+  mineralChanges,
+  mineralRelations,
+  mineralTypeLocalities,
+  danaClasses,
+  strunzClasses,
+  localities,
+  localityMinerals,
+  syncLogs,
+  type InsertMineral,
+  type InsertSyncLog,
+  type SyncLog
+} from '@shared/schema';
 import { SecureApiProxy } from './secure-api-proxy.js';
+import {
+  acquireSyncLock,
+  getSyncLock,
+  MINERAL_SYNC_LOCK,
+  PROCESS_OWNER_ID,
+  releaseSyncLock,
+  renewSyncLock
+} from './sync-lock.js';
+import { parseFormula } from './formula-parser.js';
+import { deriveNumericProperties } from './mineral-properties.js';
+import { diffMineralRecords } from './mineral-diff.js';
+import { formatDanaCode, formatStrunzCode } from './mineral-classification.js';
+import { transformLocality, transformLocalityEntry } from './locality-records.js';
+
+type SyncTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Sync types that page through a Mindat list endpoint and can be resumed
+const PAGED_SYNC_TYPES = ['full', 'incremental', 'localities', 'occurrences'] as const;
+type PagedSyncType = typeof PAGED_SYNC_TYPES[number];
+
+// A log this code can resume: it has an owner, a completed page and the request
+// parameters. Older 'running' rows lack them and would restart as a different sync.
+const RESUMABLE_SYNC_LOG: SQL = and(
+  isNotNull(syncLogs.ownerId),
+  sql`COALESCE(${syncLogs.checkpointPage}, 0) > 0`,
+  sql`${syncLogs.details}->'parameters' IS NOT NULL`
+)!;
 
 export class MineralSyncService {
   private static instance: MineralSyncService;
   private readonly apiProxy: SecureApiProxy;
   private readonly BATCH_SIZE = 100;
   private readonly MAX_RETRIES = 3;
+  private readonly LOCK_TTL_MS = 10 * 60 * 1000; // Renewed after every page
 
   private constructor() {
     this.apiProxy = SecureApiProxy.getInstance();
@@ -21,28 +62,217 @@ export class MineralSyncService {
   }
 
   /**
-   * Full sync of all minerals from Mindat API
+   * Full sync of all minerals from Mindat API, refreshing the Dana and Strunz
+   * class tables first. Picks up from the checkpoint of an interrupted full sync
+   * if there is one. `force` rewrites every record even when Mindat's updttime
+   * has not moved (needed once to backfill newly added columns and relations).
    */
-  async performFullSync(): Promise<SyncResult> {
-    const logId = await this.startSyncLog('full', 'running');
-    
+  async performFullSync(options: { force?: boolean } = {}): Promise<SyncResult> {
+    return this.runPagedSync('full', {
+      path: '/geomaterials',
+      buildParameters: async () => {
+        try {
+          await this.syncClassifications();
+        } catch (error) {
+          console.error('Error syncing Dana/Strunz classes, continuing with minerals:', error);
+        }
+        return {};
+      },
+      processRecord: (record, logId, force) => this.processMineralRecord(record, logId, force),
+      retryFailedPages: true,
+      force: !!options.force
+    });
+  }
+
+  /**
+   * Refresh the Dana 8 and Nickel-Strunz 10 class tables
+   */
+  async syncClassifications(): Promise<{ dana: number; strunz: number }> {
+    const dana = await this.syncClassTable('/dana-8', danaClasses);
+    const strunz = await this.syncClassTable('/nickel-strunz-10', strunzClasses);
+    console.log(`Synced ${dana} Dana classes and ${strunz} Strunz classes`);
+    return { dana, strunz };
+  }
+
+  /**
+   * Incremental sync - only fetch minerals updated since last sync.
+   * A resumed run keeps the `updated_since` date it started with.
+   */
+  async performIncrementalSync(): Promise<SyncResult> {
+    return this.runPagedSync('incremental', {
+      path: '/geomaterials',
+      buildParameters: async () => {
+        // Get the latest update time from our database
+        const lastSync = await db
+          .select({ updttime: minerals.updttime })
+          .from(minerals)
+          .orderBy(sql`${minerals.updttime} DESC NULLS LAST`)
+          .limit(1);
+
+        const sinceDate = lastSync[0]?.updttime || new Date('2000-01-01');
+        console.log(`Fetching minerals updated since: ${sinceDate.toISOString()}`);
+
+        return { updated_since: sinceDate.toISOString().split('T')[0] }; // YYYY-MM-DD format
+      },
+      processRecord: (record, logId, force) => this.processMineralRecord(record, logId, force),
+      retryFailedPages: false,
+      force: false
+    });
+  }
+
+  /**
+   * Sync all localities, then all mineral occurrences (locentries). Each runs as
+   * its own checkpointed sync, so an interrupted run resumes where it stopped.
+   */
+  async performLocalitySync(): Promise<{ localities: SyncResult; occurrences: SyncResult }> {
+    const localitiesResult = await this.syncLocalities();
+    const occurrencesResult = await this.syncOccurrences();
+    return { localities: localitiesResult, occurrences: occurrencesResult };
+  }
+
+  /**
+   * Sync /localities into the localities table
+   */
+  async syncLocalities(): Promise<SyncResult> {
+    return this.runPagedSync('localities', {
+      path: '/localities',
+      buildParameters: async () => ({}),
+      processRecord: record => this.processLocalityRecord(record),
+      retryFailedPages: true,
+      force: false
+    });
+  }
+
+  /**
+   * Sync /locentries into the locality_minerals table
+   */
+  async syncOccurrences(): Promise<SyncResult> {
+    return this.runPagedSync('occurrences', {
+      path: '/locentries',
+      buildParameters: async () => ({}),
+      processRecord: record => this.processLocalityEntry(record),
+      retryFailedPages: true,
+      force: false
+    });
+  }
+
+  /**
+   * Resume the most recent sync left at 'running' by a process that crashed or restarted.
+   * Returns null when nothing is interrupted or another process holds the sync lock.
+   */
+  async resumeInterruptedSync(): Promise<SyncResult | null> {
+    if (await getSyncLock(MINERAL_SYNC_LOCK)) {
+      return null;
+    }
+
+    await this.failUnresumableSyncs();
+    const interrupted = await this.findInterruptedSync();
+    if (!interrupted) {
+      return null;
+    }
+
+    console.log(`Resuming interrupted ${interrupted.syncType} sync #${interrupted.id} after page ${interrupted.checkpointPage}`);
+    switch (interrupted.syncType as PagedSyncType) {
+      case 'full':
+        return this.performFullSync();
+      case 'localities':
+        return this.syncLocalities();
+      case 'occurrences':
+        return this.syncOccurrences();
+      default:
+        return this.performIncrementalSync();
+    }
+  }
+
+  /**
+   * Latest checkpoint and lock holder, for status endpoints
+   */
+  async getSyncProgress() {
+    const [latest] = await db
+      .select()
+      .from(syncLogs)
+      .orderBy(desc(syncLogs.startedAt))
+      .limit(1);
+
+    return {
+      lock: await getSyncLock(MINERAL_SYNC_LOCK),
+      latest: latest || null,
+      interrupted: await this.findInterruptedSync()
+    };
+  }
+
+  /**
+   * Page through a Mindat list endpoint under the cross-process sync lock, checkpointing
+   * the sync log after every completed page. If an earlier run of the same type was
+   * interrupted, its log is reused and paging continues after its checkpoint; the
+   * page in flight at the crash is fetched again, which the upsert makes harmless.
+   */
+  private async runPagedSync(
+    syncType: PagedSyncType,
+    options: {
+      path: string;
+      buildParameters: () => Promise<Record<string, string>>;
+      processRecord: (record: any, syncLogId: number, force: boolean) => Promise<'added' | 'updated' | 'skipped'>;
+      retryFailedPages: boolean;
+      force: boolean;
+    }
+  ): Promise<SyncResult> {
+    await acquireSyncLock(MINERAL_SYNC_LOCK, this.LOCK_TTL_MS);
+
+    let logId: number | null = null;
+    let lockLost = false;
+
     try {
-      console.log('Starting full mineral sync from Mindat API...');
+      await this.failUnresumableSyncs();
+      const resumable = await this.findInterruptedSync(syncType);
+      let parameters: Record<string, string>;
+      let force = options.force;
+      let page: number;
       let totalProcessed = 0;
       let totalAdded = 0;
       let totalUpdated = 0;
       let totalErrors = 0;
-      let page = 1;
+
+      if (resumable) {
+        logId = resumable.id;
+        parameters = ((resumable.details as any)?.parameters || {}) as Record<string, string>;
+        force = !!(resumable.details as any)?.force;
+        page = (resumable.checkpointPage || 0) + 1;
+        totalProcessed = resumable.mineralsProcessed || 0;
+        totalAdded = resumable.mineralsAdded || 0;
+        totalUpdated = resumable.mineralsUpdated || 0;
+        totalErrors = resumable.mineralsErrors || 0;
+
+        const resumeCount = ((resumable.details as any)?.resumeCount || 0) + 1;
+        await db
+          .update(syncLogs)
+          .set({
+            ownerId: PROCESS_OWNER_ID,
+            heartbeatAt: new Date(),
+            details: { ...(resumable.details as any), resumeCount }
+          })
+          .where(eq(syncLogs.id, logId));
+
+        console.log(`Resuming ${syncType} sync #${logId} from page ${page}...`);
+      } else {
+        parameters = await options.buildParameters();
+        logId = await this.startSyncLog(syncType, 'running', { parameters, force });
+        page = 1;
+        console.log(`Starting ${syncType} sync from ${options.path} on Mindat API...`);
+      }
+
       let hasMore = true;
+      let pageErrors = 0;
 
       while (hasMore) {
         try {
           console.log(`Fetching page ${page}...`);
-          
+
           const response = await this.apiProxy.proxyRequest({
-            path: '/geomaterials',
+            path: options.path,
             method: 'GET',
             parameters: {
+              ...parameters,
               page,
               limit: this.BATCH_SIZE,
               format: 'json'
@@ -54,12 +284,12 @@ export class MineralSyncService {
             break;
           }
 
-          const minerals = response.data.results;
-          console.log(`Processing ${minerals.length} minerals from page ${page}`);
+          const records = response.data.results;
+          console.log(`Processing ${records.length} records from page ${page}`);
 
-          for (const mineralData of minerals) {
+          for (const record of records) {
             try {
-              const result = await this.processMineralRecord(mineralData);
+              const result = await options.processRecord(record, logId, force);
               totalProcessed++;
               
               if (result === 'added') {
@@ -68,24 +298,45 @@ export class MineralSyncService {
                 totalUpdated++;
               }
             } catch (error) {
-              console.error(`Error processing mineral ${mineralData.id}:`, error);
+              console.error(`Error processing ${options.path} record ${record.id}:`, error);
               totalErrors++;
             }
           }
 
           // Check if there are more pages
           hasMore = !!response.data.next;
+
+          await this.checkpointSyncLog(logId, page, response.data.next || null, {
+            mineralsProcessed: totalProcessed,
+            mineralsAdded: totalAdded,
+            mineralsUpdated: totalUpdated,
+            mineralsErrors: totalErrors
+          });
+
+          if (!await renewSyncLock(MINERAL_SYNC_LOCK, this.LOCK_TTL_MS)) {
+            lockLost = true;
+            throw new Error('Lost the mineral sync lock to another process');
+          }
+
           page++;
+          pageErrors = 0;
           
           // Progress update
           console.log(`Progress: ${totalProcessed} processed, ${totalAdded} added, ${totalUpdated} updated, ${totalErrors} errors`);
           
         } catch (error) {
+          if (lockLost) throw error;
+
           console.error(`Error fetching page ${page}:`, error);
           totalErrors++;
+          pageErrors++;
+
+          if (!options.retryFailedPages) {
+            break;
+          }
           
           // Stop after too many consecutive errors
-          if (totalErrors > 10) {
+          if (pageErrors > 10) {
             throw new Error('Too many consecutive errors, stopping sync');
           }
         }
@@ -98,124 +349,89 @@ export class MineralSyncService {
         mineralsErrors: totalErrors
       });
 
-      console.log(`Full sync completed: ${totalProcessed} processed, ${totalAdded} added, ${totalUpdated} updated, ${totalErrors} errors`);
+      console.log(`${syncType} sync completed: ${totalProcessed} processed, ${totalAdded} added, ${totalUpdated} updated, ${totalErrors} errors`);
       
       return {
         success: true,
         processed: totalProcessed,
         added: totalAdded,
         updated: totalUpdated,
-        errors: totalErrors
+        errors: totalErrors,
+        syncLogId: logId,
+        resumed: !!resumable
       };
 
     } catch (error: any) {
-      await this.completeSyncLog(logId, 'failed', {
-        errorMessage: error.message,
-        mineralsErrors: 1
-      });
+      // A process that took over the lock also took over the sync log
+      if (logId !== null && !lockLost) {
+        await this.completeSyncLog(logId, 'failed', {
+          errorMessage: error.message,
+          mineralsErrors: 1
+        });
+      }
       
-      console.error('Full sync failed:', error);
+      console.error(`${syncType} sync failed:`, error);
       throw error;
+    } finally {
+      if (!lockLost) {
+        await releaseSyncLock(MINERAL_SYNC_LOCK);
+      }
     }
   }
 
   /**
-   * Incremental sync - only fetch minerals updated since last sync
+   * Most recent resumable sync log left at 'running' by another process that no
+   * longer holds the sync lock (it crashed or was restarted), optionally of one type
    */
-  async performIncrementalSync(): Promise<SyncResult> {
-    const logId = await this.startSyncLog('incremental', 'running');
-    
-    try {
-      console.log('Starting incremental mineral sync...');
-      
-      // Get the latest update time from our database
-      const lastSync = await db
-        .select({ updttime: minerals.updttime })
-        .from(minerals)
-        .orderBy(sql`${minerals.updttime} DESC NULLS LAST`)
-        .limit(1);
-
-      const sinceDate = lastSync[0]?.updttime || new Date('2000-01-01');
-      console.log(`Fetching minerals updated since: ${sinceDate.toISOString()}`);
-
-      let totalProcessed = 0;
-      let totalAdded = 0;
-      let totalUpdated = 0;
-      let totalErrors = 0;
-      let page = 1;
-      let hasMore = true;
-
-      while (hasMore) {
-        try {
-          const response = await this.apiProxy.proxyRequest({
-            path: '/geomaterials',
-            method: 'GET',
-            parameters: {
-              page,
-              limit: this.BATCH_SIZE,
-              updated_since: sinceDate.toISOString().split('T')[0], // YYYY-MM-DD format
-              format: 'json'
-            }
-          }, process.env.MINDAT_API_KEY!);
-
-          if (!response.data || !response.data.results) {
-            break;
-          }
-
-          const minerals = response.data.results;
-          console.log(`Processing ${minerals.length} updated minerals from page ${page}`);
-
-          for (const mineralData of minerals) {
-            try {
-              const result = await this.processMineralRecord(mineralData);
-              totalProcessed++;
-              
-              if (result === 'added') {
-                totalAdded++;
-              } else if (result === 'updated') {
-                totalUpdated++;
-              }
-            } catch (error) {
-              console.error(`Error processing mineral ${mineralData.id}:`, error);
-              totalErrors++;
-            }
-          }
-
-          hasMore = !!response.data.next;
-          page++;
-          
-        } catch (error) {
-          console.error(`Error fetching incremental page ${page}:`, error);
-          totalErrors++;
-          break;
-        }
-      }
+  private async findInterruptedSync(syncType?: PagedSyncType): Promise<SyncLog | null> {
+    // While another process holds the lock, its 'running' log really is running
+    const lock = await getSyncLock(MINERAL_SYNC_LOCK);
+    if (lock && lock.ownerId !== PROCESS_OWNER_ID) {
+      return null;
+    }
 
-      await this.completeSyncLog(logId, 'completed', {
-        mineralsProcessed: totalProcessed,
-        mineralsAdded: totalAdded,
-        mineralsUpdated: totalUpdated,
-        mineralsErrors: totalErrors
-      });
+    const rows = await db
+      .select()
+      .from(syncLogs)
+      .where(and(
+        eq(syncLogs.status, 'running'),
+        syncType ? eq(syncLogs.syncType, syncType) : inArray(syncLogs.syncType, [...PAGED_SYNC_TYPES]),
+        or(isNull(syncLogs.ownerId), ne(syncLogs.ownerId, PROCESS_OWNER_ID)),
+        RESUMABLE_SYNC_LOG
+      ))
+      .orderBy(desc(syncLogs.startedAt))
+      .limit(1);
+
+    return rows[0] || null;
+  }
 
-      console.log(`Incremental sync completed: ${totalProcessed} processed, ${totalAdded} added, ${totalUpdated} updated, ${totalErrors} errors`);
-      
-      return {
-        success: true,
-        processed: totalProcessed,
-        added: totalAdded,
-        updated: totalUpdated,
-        errors: totalErrors
-      };
+  /**
+   * Mark interrupted logs that cannot be resumed (no checkpoint yet, or written
+   * before checkpoints existed) as failed, so they are not picked up again
+   */
+  private async failUnresumableSyncs(): Promise<void> {
+    const lock = await getSyncLock(MINERAL_SYNC_LOCK);
+    if (lock && lock.ownerId !== PROCESS_OWNER_ID) {
+      return;
+    }
 
-    } catch (error: any) {
-      await this.completeSyncLog(logId, 'failed', {
-        errorMessage: error.message,
-        mineralsErrors: 1
-      });
-      
-      console.error('Incremental sync failed:', error);
-      throw error;
+    const abandoned = await db
+      .update(syncLogs)
+      .set({
+        status: 'failed',
+        completedAt: new Date(),
+        errorMessage: 'Interrupted before a resumable checkpoint was recorded'
+      })
+      .where(and(
+        eq(syncLogs.status, 'running'),
+        inArray(syncLogs.syncType, [...PAGED_SYNC_TYPES]),
+        or(isNull(syncLogs.ownerId), ne(syncLogs.ownerId, PROCESS_OWNER_ID)),
+        not(RESUMABLE_SYNC_LOG)
+      ))
+      .returning({ id: syncLogs.id });
+
+    if (abandoned.length > 0) {
+      console.log(`Marked ${abandoned.length} unresumable interrupted sync(s) as failed`);
     }
   }
 
@@ -244,41 +460,78 @@ export class MineralSyncService {
   }
 
   /**
-   * Process a single mineral record from Mindat API
+   * Process a single mineral record from Mindat API, recording what changed
+   * in the mineral_changes history and replacing its relations and type localities
    */
-  private async processMineralRecord(mineralData: any): Promise<'added' | 'updated' | 'skipped'> {
+  private async processMineralRecord(
+    mineralData: any,
+    syncLogId?: number,
+    force: boolean = false
+  ): Promise<'added' | 'updated' | 'skipped'> {
     if (!mineralData.id || !mineralData.name) {
       console.warn('Skipping mineral with missing ID or name:', mineralData);
       return 'skipped';
     }
 
     try {
-      // Check if mineral exists
+      // Check if mineral exists (full row, to diff against)
       const existing = await db
-        .select({ id: minerals.id, updttime: minerals.updttime })
+        .select()
         .from(minerals)
         .where(eq(minerals.id, mineralData.id))
         .limit(1);
 
       const mineralRecord: InsertMineral = this.transformMineralData(mineralData);
+      const newUpdttime = mineralData.updttime ? new Date(mineralData.updttime) : null;
 
       if (existing.length === 0) {
         // Insert new mineral
-        await db.insert(minerals).values(mineralRecord);
+        await db.transaction(async (tx) => {
+          await tx.insert(minerals).values({ ...mineralRecord, syncVersion: 1 });
+          await tx.insert(mineralChanges).values({
+            mineralId: mineralData.id,
+            syncLogId: syncLogId ?? null,
+            syncVersion: 1,
+            changeType: 'created',
+            mindatUpdttime: newUpdttime
+          });
+          await this.replaceGeomaterialLinks(tx, mineralData);
+        });
         return 'added';
       } else {
         // Update existing mineral if it's newer
         const existingUpdttime = existing[0].updttime;
-        const newUpdttime = mineralData.updttime ? new Date(mineralData.updttime) : null;
         
-        if (!newUpdttime || !existingUpdttime || newUpdttime > existingUpdttime) {
-          await db
-            .update(minerals)
-            .set({
-              ...mineralRecord,
-              updatedAt: new Date()
-            })
-            .where(eq(minerals.id, mineralData.id));
+        if (force || !newUpdttime || !existingUpdttime || newUpdttime > existingUpdttime) {
+          const changes = diffMineralRecords(existing[0], mineralRecord);
+          // Only a real change to the record starts a new version
+          const syncVersion = (existing[0].syncVersion || 1) + (changes.length > 0 ? 1 : 0);
+
+          await db.transaction(async (tx) => {
+            await tx
+              .update(minerals)
+              .set({
+                ...mineralRecord,
+                syncVersion,
+                updatedAt: new Date()
+              })
+              .where(eq(minerals.id, mineralData.id));
+
+            if (changes.length > 0) {
+              await tx.insert(mineralChanges).values(changes.map(change => ({
+                mineralId: mineralData.id,
+                syncLogId: syncLogId ?? null,
+                syncVersion,
+                changeType: 'updated',
+                field: change.field,
+                oldValue: change.oldValue,
+                newValue: change.newValue,
+                mindatUpdttime: newUpdttime
+              })));
+            }
+
+            await this.replaceGeomaterialLinks(tx, mineralData);
+          });
           return 'updated';
         }
         
@@ -294,6 +547,8 @@ export class MineralSyncService {
    * Transform Mindat API data to our database schema
    */
   private transformMineralData(data: any): InsertMineral {
+    const composition = parseFormula(data.mindat_formula || data.ima_formula);
+
     return {
       id: data.id,
       longid: data.longid || null,
@@ -307,9 +562,13 @@ export class MineralSyncService {
       imaFormula: data.ima_formula || null,
       imaStatus: data.ima_status || [],
       imaNotes: data.ima_notes || [],
-      elements: data.elements || [],
+      elements: data.elements?.length ? data.elements : Object.keys(composition?.elements || {}),
       sigelements: data.sigelements || [],
       impurities: data.impurities || null,
+      composition: composition?.elements || {},
+      molecularWeight: composition?.molecularWeight || null,
+      elementWeightPercents: composition?.elementWeightPercents || {},
+      oxideWeightPercents: composition?.oxideWeightPercents || {},
       
       // Classification
       varietyof: data.varietyof || 0,
@@ -318,6 +577,16 @@ export class MineralSyncService {
       groupid: data.groupid || 0,
       entrytype: data.entrytype || 0,
       entrytypeText: data.entrytype_text || null,
+      dana8ed1: data.dana8ed1 ? String(data.dana8ed1) : null,
+      dana8ed2: data.dana8ed2 ? String(data.dana8ed2) : null,
+      dana8ed3: data.dana8ed3 ? String(data.dana8ed3) : null,
+      dana8ed4: data.dana8ed4 ? String(data.dana8ed4) : null,
+      danaCode: formatDanaCode(data.dana8ed1, data.dana8ed2, data.dana8ed3, data.dana8ed4),
+      strunz10ed1: data.strunz10ed1 ? String(data.strunz10ed1) : null,
+      strunz10ed2: data.strunz10ed2 ? String(data.strunz10ed2) : null,
+      strunz10ed3: data.strunz10ed3 ? String(data.strunz10ed3) : null,
+      strunz10ed4: data.strunz10ed4 ? String(data.strunz10ed4) : null,
+      strunzCode: formatStrunzCode(data.strunz10ed1, data.strunz10ed2, data.strunz10ed3, data.strunz10ed4),
       
       // Physical properties
       colour: data.colour || null,
@@ -335,6 +604,7 @@ export class MineralSyncService {
       
       // Crystal structure
       csystem: data.csystem || null,
+      spacegroup: data.spacegroup || null,
       a: data.a || null,
       b: data.b || null,
       c: data.c || null,
@@ -343,26 +613,210 @@ export class MineralSyncService {
       gamma: data.gamma || null,
       z: data.z || 0,
       
-      // Optical and other properties
+      // Optical properties
+      opticaltype: data.opticaltype || null,
+      opticalsign: data.opticalsign || null,
+      opticalalpha: data.opticalalpha || null,
+      opticalbeta: data.opticalbeta || null,
+      opticalgamma: data.opticalgamma || null,
+      opticalomega: data.opticalomega || null,
+      opticalepsilon: data.opticalepsilon || null,
+      opticalalpha2: data.opticalalpha2 || null,
+      opticalbeta2: data.opticalbeta2 || null,
+      opticalgamma2: data.opticalgamma2 || null,
+      opticalepsilon2: data.opticalepsilon2 || null,
+      opticalomega2: data.opticalomega2 || null,
+      opticaln: data.opticaln || null,
+      opticaln2: data.opticaln2 || null,
+      opticalbirefringence: data.opticalbirefringence || null,
+      
+      // Numeric ranges for property search
+      ...deriveNumericProperties(data),
+      
+      // Other properties
       occurrence: data.occurrence || null,
       discoveryYear: data.discovery_year || null,
       descriptionShort: data.description_short || null,
     };
   }
 
+  /**
+   * Upsert a /localities record; unchanged localities (same datemodify) are skipped
+   */
+  private async processLocalityRecord(data: any): Promise<'added' | 'updated' | 'skipped'> {
+    if (!data.id || !data.txt) {
+      return 'skipped';
+    }
+
+    const values = transformLocality(data);
+    const existing = await db
+      .select({ id: localities.id, mindatModifiedAt: localities.mindatModifiedAt })
+      .from(localities)
+      .where(eq(localities.id, data.id))
+      .limit(1);
+
+    if (existing.length === 0) {
+      await db.insert(localities).values(values);
+      return 'added';
+    }
+
+    const existingModified = existing[0].mindatModifiedAt;
+    if (existingModified && values.mindatModifiedAt && values.mindatModifiedAt <= existingModified) {
+      return 'skipped';
+    }
+
+    await db
+      .update(localities)
+      .set({ ...values, lastSyncAt: new Date(), updatedAt: new Date() })
+      .where(eq(localities.id, data.id));
+    return 'updated';
+  }
+
+  /**
+   * Upsert a /locentries record (one mineral at one locality)
+   */
+  private async processLocalityEntry(data: any): Promise<'added' | 'updated' | 'skipped'> {
+    if (!data.id || !data.loc || !data.min) {
+      return 'skipped';
+    }
+
+    const values = transformLocalityEntry(data);
+    const existing = await db
+      .select({ id: localityMinerals.id, mindatModifiedAt: localityMinerals.mindatModifiedAt })
+      .from(localityMinerals)
+      .where(eq(localityMinerals.id, data.id))
+      .limit(1);
+
+    if (existing.length === 0) {
+      await db.insert(localityMinerals).values(values);
+      return 'added';
+    }
+
+    const existingModified = existing[0].mindatModifiedAt;
+    if (existingModified && values.mindatModifiedAt && values.mindatModifiedAt <= existingModified) {
+      return 'skipped';
+    }
+
+    await db
+      .update(localityMinerals)
+      .set({ ...values, lastSyncAt: new Date() })
+      .where(eq(localityMinerals.id, data.id));
+    return 'updated';
+  }
+
+  /**
+   * Rewrite the synonym/variety/polytype/group links and type localities of a
+   * geomaterial from its Mindat record
+   */
+  private async replaceGeomaterialLinks(tx: SyncTransaction, data: any): Promise<void> {
+    const links = [
+      { relatedId: data.synid, relationType: 'synonym_of' },
+      { relatedId: data.varietyof, relationType: 'variety_of' },
+      { relatedId: data.polytypeof, relationType: 'polytype_of' },
+      { relatedId: data.groupid, relationType: 'member_of' }
+    ].filter(link => Number(link.relatedId) > 0 && Number(link.relatedId) !== data.id);
+
+    await tx.delete(mineralRelations).where(eq(mineralRelations.mineralId, data.id));
+    if (links.length > 0) {
+      await tx.insert(mineralRelations).values(links.map(link => ({
+        mineralId: data.id,
+        relatedId: Number(link.relatedId),
+        relationType: link.relationType
+      })));
+    }
+
+    // type_localities is a list of locality ids (or locality objects when expanded)
+    const localityIds = Array.from(new Set<number>(
+      (Array.isArray(data.type_localities) ? data.type_localities : [])
+        .map((locality: any) => Number(typeof locality === 'object' && locality !== null ? locality.id : locality))
+        .filter((id: number) => Number.isInteger(id) && id > 0)
+    ));
+
+    await tx.delete(mineralTypeLocalities).where(eq(mineralTypeLocalities.mineralId, data.id));
+    if (localityIds.length > 0) {
+      await tx.insert(mineralTypeLocalities).values(localityIds.map(localityId => ({
+        mineralId: data.id,
+        localityId
+      })));
+    }
+  }
+
+  /**
+   * Page through a Mindat classification endpoint and upsert its classes
+   */
+  private async syncClassTable(path: '/dana-8' | '/nickel-strunz-10', table: typeof danaClasses | typeof strunzClasses): Promise<number> {
+    let page = 1;
+    let hasMore = true;
+    let total = 0;
+
+    while (hasMore) {
+      const response = await this.apiProxy.proxyRequest({
+        path,
+        method: 'GET',
+        parameters: { page, limit: this.BATCH_SIZE, format: 'json' }
+      }, process.env.MINDAT_API_KEY!);
+
+      const classes = response.data?.results || [];
+      for (const entry of classes) {
+        if (!entry.id || !entry.code) continue;
+
+        const values = {
+          code: String(entry.code),
+          name: entry.name || String(entry.code),
+          description: entry.description || null,
+          updatedAt: new Date()
+        };
+
+        await db
+          .insert(table)
+          .values({ id: entry.id, ...values })
+          .onConflictDoUpdate({ target: table.id, set: values });
+        total++;
+      }
+
+      hasMore = !!response.data?.next;
+      page++;
+    }
+
+    return total;
+  }
+
   /**
    * Start a sync log entry
    */
-  private async startSyncLog(syncType: string, status: string): Promise<number> {
+  private async startSyncLog(syncType: string, status: string, details: Record<string, any> = {}): Promise<number> {
     const result = await db.insert(syncLogs).values({
       syncType,
       status,
-      startedAt: new Date()
+      startedAt: new Date(),
+      details,
+      ownerId: PROCESS_OWNER_ID,
+      heartbeatAt: new Date()
     }).returning({ id: syncLogs.id });
     
     return result[0].id;
   }
 
+  /**
+   * Record the last completed page and running totals of a sync
+   */
+  private async checkpointSyncLog(
+    logId: number,
+    page: number,
+    cursor: string | null,
+    totals: Partial<InsertSyncLog>
+  ): Promise<void> {
+    await db
+      .update(syncLogs)
+      .set({
+        checkpointPage: page,
+        checkpointCursor: cursor,
+        heartbeatAt: new Date(),
+        ...totals
+      })
+      .where(eq(syncLogs.id, logId));
+  }
+
   /**
    * Complete a sync log entry
    */
@@ -384,4 +838,6 @@ export interface SyncResult {
   added: number;
   updated: number;
   errors: number;
+  syncLogId?: number;
+  resumed?: boolean; // Continued from an interrupted run's checkpoint
 }
\ No newline at end of file
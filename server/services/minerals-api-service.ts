@@ -1,8 +1,59 @@
-import { eq, and, sql, desc, asc, or, inArray } from 'drizzle-orm';
+import { eq, and, sql, desc, asc, or, inArray, gte, lte, type SQL } from 'drizzle-orm';
 import { db } from '../db.js';
-import { minerals, apiKeys, apiUsageEvents, type Mineral } from '@shared/schema';
+import {
+  minerals,
+  mineralChanges,
+  mineralRelations,
+  mineralTypeLocalities,
+  danaClasses,
+  strunzClasses,
+  apiKeys,
+  apiUsageEvents,
+  type Mineral,
+  type MineralChange
+} from '@shared/schema';
 import argon2 from 'argon2';
 import crypto from 'crypto';
+import { oxideToElementPercents, toElementSymbol } from './formula-parser.js';
+import { RANGE_FACETS, RangeFacetKey, PropertyFilters } from './mineral-properties.js';
+import { CLASSIFICATION_COLUMNS, ClassificationSystem, parseClassificationCode } from './mineral-classification.js';
+import { inBatches } from './result-export.js';
+
+// Elements EDS cannot measure reliably; excluded from both sides when ignoreLightElements is set
+export const LIGHT_ELEMENTS = ['H', 'He', 'Li', 'Be', 'B'];
+
+// Columns exported when the request does not choose any
+export const MINERAL_EXPORT_COLUMNS = [
+  'id', 'name', 'mindatFormula', 'imaFormula', 'imaStatus', 'elements', 'csystem', 'spacegroup',
+  'hmin', 'hmax', 'densityMin', 'densityMax', 'danaCode', 'strunzCode', 'discoveryYear'
+];
+
+export class CompositionQueryError extends Error {}
+
+export interface CompositionMatch {
+  id: number;
+  name: string;
+  formula: string | null;
+  distance: number; // Euclidean distance in normalized wt%
+  misfit: number; // RMS of the per-element differences divided by their tolerances
+  withinTolerance: boolean;
+  differences: Record<string, { analysis: number; ideal: number; difference: number; tolerance: number }>;
+}
+
+export interface RelatedMineral {
+  id: number;
+  name: string | null; // null when the related geomaterial has not been synced
+  formula: string | null;
+  entrytype: number | null;
+}
+
+export interface ClassificationClassSummary {
+  id: number | null; // null for classes seen on minerals but missing from the class table
+  code: string;
+  name: string;
+  description: string | null;
+  mineralCount: number;
+}
 
 export class MineralsApiService {
   private static instance: MineralsApiService;
@@ -37,6 +88,54 @@ export class MineralsApiService {
       sortOrder = 'asc'
     } = options;
 
+    const { where: whereCondition, orderBy } = this.elementSearchQuery(elements, { includeAll, sortBy, sortOrder });
+
+    try {
+      // Get total count
+      const totalResult = await db
+        .select({ count: sql<number>`COUNT(*)` })
+        .from(minerals)
+        .where(whereCondition);
+
+      const total = totalResult[0]?.count || 0;
+
+      // Get paginated results
+      const results = await db
+        .select()
+        .from(minerals)
+        .where(whereCondition)
+        .orderBy(orderBy)
+        .limit(limit)
+        .offset(offset);
+
+      return {
+        minerals: results,
+        total
+      };
+
+    } catch (error) {
+      console.error('Error searching minerals by elements:', error);
+      throw new Error('Failed to search minerals by elements');
+    }
+  }
+
+  /**
+   * Every mineral matching an element search, in batches, for export
+   */
+  exportByElements(
+    elements: string[],
+    options: { includeAll?: boolean; sortBy?: 'name' | 'discovery_year' | 'hardness'; sortOrder?: 'asc' | 'desc' } = {}
+  ): AsyncGenerator<Mineral[]> {
+    const { where, orderBy } = this.elementSearchQuery(elements, options);
+    return this.exportMinerals(where, [orderBy]);
+  }
+
+  private elementSearchQuery(
+    elements: string[],
+    options: { includeAll?: boolean; sortBy?: 'name' | 'discovery_year' | 'hardness'; sortOrder?: 'asc' | 'desc' }
+  ): { where: SQL | undefined; orderBy: SQL } {
+    const { includeAll = false, sortBy = 'name', sortOrder = 'asc' } = options;
+
     // Validate elements array
     if (!elements || elements.length === 0) {
       throw new Error('At least one element must be specified');
@@ -51,37 +150,235 @@ export class MineralsApiService {
       throw new Error('No valid element symbols provided');
     }
 
+    // Mineral must contain ALL (array containment) or ANY (overlap) of the specified elements
+    const where = and(
+      eq(minerals.isActive, true),
+      includeAll ? sql`${minerals.elements} @> ${validElements}` : sql`${minerals.elements} && ${validElements}`
+    );
+
+    // Determine sort column
+    let sortColumn;
+    switch (sortBy) {
+      case 'discovery_year':
+        sortColumn = minerals.discoveryYear;
+        break;
+      case 'hardness':
+        sortColumn = minerals.hmin;
+        break;
+      default:
+        sortColumn = minerals.name;
+    }
+
+    return { where, orderBy: sortOrder === 'desc' ? desc(sortColumn) : asc(sortColumn) };
+  }
+
+  /**
+   * Read a filtered minerals query in batches; id breaks ties so batches neither overlap nor skip rows
+   */
+  private exportMinerals(where: SQL | undefined, orderBy: SQL[]): AsyncGenerator<Mineral[]> {
+    return inBatches((limit, offset) => db
+      .select()
+      .from(minerals)
+      .where(where)
+      .orderBy(...orderBy, asc(minerals.id))
+      .limit(limit)
+      .offset(offset)
+    );
+  }
+
+  /**
+   * Rank minerals by how closely their ideal composition matches a measured analysis
+   * (EDS or microprobe). The analysis and each mineral are normalized to 100 wt%
+   * over the elements being compared before differences are taken.
+   */
+  async searchByComposition(
+    analysis: Record<string, number>,
+    options: {
+      basis?: 'element' | 'oxide'; // Analysis given as element or oxide weight percents
+      tolerance?: number; // Default tolerance in absolute wt%
+      tolerances?: Record<string, number>; // Per-element overrides
+      ignoreLightElements?: boolean;
+      withinToleranceOnly?: boolean;
+      limit?: number;
+      offset?: number;
+    } = {}
+  ): Promise<{ matches: CompositionMatch[]; total: number; normalizedAnalysis: Record<string, number> }> {
+    const {
+      basis = 'element',
+      tolerance = 2,
+      tolerances = {},
+      ignoreLightElements = true,
+      withinToleranceOnly = false,
+      limit = 50,
+      offset = 0
+    } = options;
+
+    if (!analysis || Object.keys(analysis).length === 0) {
+      throw new CompositionQueryError('An analysis with at least one element or oxide must be specified');
+    }
+
+    if (!Number.isFinite(tolerance) || tolerance <= 0) {
+      throw new CompositionQueryError('tolerance must be a number greater than 0');
+    }
+    const invalidTolerances = Object.entries(tolerances)
+      .filter(([_, value]) => !Number.isFinite(Number(value)) || Number(value) <= 0)
+      .map(([key]) => key);
+    if (invalidTolerances.length > 0) {
+      throw new CompositionQueryError(`Tolerances must be numbers greater than 0: ${invalidTolerances.join(', ')}`);
+    }
+
+    let elementPercents: Record<string, number> = {};
+    if (basis === 'oxide') {
+      const converted = oxideToElementPercents(analysis);
+      if (converted.unknownOxides.length > 0) {
+        throw new CompositionQueryError(`Unrecognized oxides: ${converted.unknownOxides.join(', ')}`);
+      }
+      elementPercents = converted.elements;
+    } else {
+      Object.entries(analysis).forEach(([element, percent]) => {
+        const symbol = toElementSymbol(element);
+        elementPercents[symbol] = (elementPercents[symbol] || 0) + Number(percent);
+      });
+    }
+
+    const invalid = Object.entries(elementPercents)
+      .filter(([symbol, percent]) => !/^[A-Z][a-z]?$/.test(symbol) || !Number.isFinite(percent) || percent < 0)
+      .map(([symbol]) => symbol);
+    if (invalid.length > 0) {
+      throw new CompositionQueryError(`Invalid analysis entries: ${invalid.join(', ')}`);
+    }
+
+    const ignored = new Set(ignoreLightElements ? LIGHT_ELEMENTS : []);
+    const normalizedAnalysis = this.normalizePercents(elementPercents, ignored);
+    if (Object.keys(normalizedAnalysis).length === 0) {
+      throw new CompositionQueryError('The analysis contains no measurable elements');
+    }
+
+    const toleranceFor = (symbol: string): number => {
+      const override = Object.entries(tolerances).find(([key]) => toElementSymbol(key) === symbol);
+      return override ? Number(override[1]) : tolerance;
+    };
+
+    // Candidates must contain every element the analysis shows above its tolerance;
+    // minor elements may be impurities that the ideal formula does not include
+    const majorElements = Object.entries(normalizedAnalysis)
+      .filter(([symbol, percent]) => percent > toleranceFor(symbol))
+      .map(([symbol]) => symbol);
+
     try {
-      // Build the query based on includeAll option
-      let whereCondition;
-      
-      if (includeAll) {
-        // Mineral must contain ALL specified elements using Postgres array containment
-        whereCondition = and(
-          eq(minerals.isActive, true),
-          sql`${minerals.elements} @> ${validElements}`
-        );
-      } else {
-        // Mineral must contain ANY of the specified elements
-        whereCondition = and(
-          eq(minerals.isActive, true),
-          sql`${minerals.elements} && ${validElements}`
-        );
+      const conditions = [
+        eq(minerals.isActive, true),
+        sql`${minerals.molecularWeight} > 0`
+      ];
+      if (majorElements.length > 0) {
+        conditions.push(sql`${minerals.composition} ?& ${majorElements}`);
       }
 
-      // Determine sort column
-      let sortColumn;
-      switch (sortBy) {
-        case 'discovery_year':
-          sortColumn = minerals.discoveryYear;
-          break;
-        case 'hardness':
-          sortColumn = minerals.hmin;
-          break;
-        default:
-          sortColumn = minerals.name;
+      const candidates = await db
+        .select({
+          id: minerals.id,
+          name: minerals.name,
+          mindatFormula: minerals.mindatFormula,
+          imaFormula: minerals.imaFormula,
+          elementWeightPercents: minerals.elementWeightPercents
+        })
+        .from(minerals)
+        .where(and(...conditions));
+
+      const ranked: CompositionMatch[] = [];
+
+      for (const candidate of candidates) {
+        const ideal = this.normalizePercents((candidate.elementWeightPercents || {}) as Record<string, number>, ignored);
+        if (Object.keys(ideal).length === 0) continue;
+
+        const differences: CompositionMatch['differences'] = {};
+        let sumSquares = 0;
+        let sumScaledSquares = 0;
+        let withinTolerance = true;
+
+        const symbols = new Set([...Object.keys(normalizedAnalysis), ...Object.keys(ideal)]);
+        symbols.forEach(symbol => {
+          const measured = normalizedAnalysis[symbol] || 0;
+          const expected = ideal[symbol] || 0;
+          const difference = measured - expected;
+          const elementTolerance = toleranceFor(symbol);
+
+          differences[symbol] = {
+            analysis: measured,
+            ideal: expected,
+            difference: Math.round(difference * 1000) / 1000,
+            tolerance: elementTolerance
+          };
+          sumSquares += difference * difference;
+          sumScaledSquares += (difference / elementTolerance) ** 2;
+          if (Math.abs(difference) > elementTolerance) withinTolerance = false;
+        });
+
+        if (withinToleranceOnly && !withinTolerance) continue;
+
+        ranked.push({
+          id: candidate.id,
+          name: candidate.name,
+          formula: candidate.mindatFormula || candidate.imaFormula,
+          distance: Math.round(Math.sqrt(sumSquares) * 1000) / 1000,
+          misfit: Math.round(Math.sqrt(sumScaledSquares / symbols.size) * 1000) / 1000,
+          withinTolerance,
+          differences
+        });
       }
 
+      ranked.sort((a, b) => a.misfit - b.misfit || a.distance - b.distance);
+
+      return {
+        matches: ranked.slice(offset, offset + limit),
+        total: ranked.length,
+        normalizedAnalysis
+      };
+
+    } catch (error) {
+      console.error('Error searching minerals by composition:', error);
+      throw new Error('Failed to search minerals by composition');
+    }
+  }
+
+  /**
+   * Rescale weight percents to sum to 100 after dropping ignored elements
+   */
+  private normalizePercents(percents: Record<string, number>, ignored: Set<string>): Record<string, number> {
+    const entries = Object.entries(percents).filter(([symbol, value]) => !ignored.has(symbol) && value > 0);
+    const total = entries.reduce((sum, [, value]) => sum + value, 0);
+    if (total <= 0) return {};
+
+    const normalized: Record<string, number> = {};
+    entries.forEach(([symbol, value]) => {
+      normalized[symbol] = Math.round((value / total) * 100 * 1000) / 1000;
+    });
+    return normalized;
+  }
+
+  /**
+   * Faceted search on numeric property ranges (hardness, density, refractive indices,
+   * birefringence, cell edges) plus lustre, streak and colour. A mineral matches a
+   * range when its own min/max range overlaps the requested one.
+   */
+  async searchByProperties(
+    filters: PropertyFilters,
+    options: {
+      limit?: number;
+      offset?: number;
+      sortBy?: 'name' | RangeFacetKey;
+      sortOrder?: 'asc' | 'desc';
+    } = {}
+  ): Promise<{
+    minerals: Mineral[];
+    total: number;
+    facets: { lustre: Array<{ value: string; count: number }>; crystalSystem: Array<{ value: string; count: number }> };
+  }> {
+    const { limit = 100, offset = 0, sortBy = 'name', sortOrder = 'asc' } = options;
+
+    const { where: whereCondition, orderBy } = this.propertySearchQuery(filters, sortBy, sortOrder);
+
+    try {
       // Get total count
       const totalResult = await db
         .select({ count: sql<number>`COUNT(*)` })
@@ -90,26 +387,102 @@ export class MineralsApiService {
 
       const total = totalResult[0]?.count || 0;
 
-      // Get paginated results
-      const orderBy = sortOrder === 'desc' ? desc(sortColumn) : asc(sortColumn);
-      
       const results = await db
         .select()
         .from(minerals)
         .where(whereCondition)
-        .orderBy(orderBy)
+        .orderBy(orderBy, asc(minerals.name))
         .limit(limit)
         .offset(offset);
 
+      // Facet counts over the whole filtered set
+      const lustreResult = await db.execute(sql`
+        SELECT INITCAP(TRIM(value)) AS value, COUNT(*)::int AS count
+        FROM ${minerals}, UNNEST(STRING_TO_ARRAY(${minerals.lustretype}, ',')) AS value
+        WHERE ${whereCondition} AND TRIM(value) != ''
+        GROUP BY INITCAP(TRIM(value))
+        ORDER BY count DESC
+      `);
+
+      const crystalSystemResult = await db
+        .select({ value: minerals.csystem, count: sql<number>`COUNT(*)::int` })
+        .from(minerals)
+        .where(and(whereCondition, sql`${minerals.csystem} IS NOT NULL AND ${minerals.csystem} != ''`))
+        .groupBy(minerals.csystem)
+        .orderBy(desc(sql`COUNT(*)`));
+
       return {
         minerals: results,
-        total
+        total,
+        facets: {
+          lustre: lustreResult.rows.map((row: any) => ({ value: row.value, count: Number(row.count) })),
+          crystalSystem: crystalSystemResult.map(row => ({ value: row.value || 'Unknown', count: Number(row.count) }))
+        }
       };
 
     } catch (error) {
-      console.error('Error searching minerals by elements:', error);
-      throw new Error('Failed to search minerals by elements');
+      console.error('Error searching minerals by properties:', error);
+      throw new Error('Failed to search minerals by properties');
+    }
+  }
+
+  /**
+   * Every mineral matching a property search, in batches, for export
+   */
+  exportByProperties(
+    filters: PropertyFilters,
+    options: { sortBy?: 'name' | RangeFacetKey; sortOrder?: 'asc' | 'desc' } = {}
+  ): AsyncGenerator<Mineral[]> {
+    const { where, orderBy } = this.propertySearchQuery(filters, options.sortBy || 'name', options.sortOrder || 'asc');
+    return this.exportMinerals(where, [orderBy, asc(minerals.name)]);
+  }
+
+  private propertySearchQuery(
+    filters: PropertyFilters,
+    sortBy: 'name' | RangeFacetKey,
+    sortOrder: 'asc' | 'desc'
+  ): { where: SQL | undefined; orderBy: SQL } {
+    const conditions = [eq(minerals.isActive, true)];
+
+    Object.entries(filters.ranges).forEach(([key, range]) => {
+      const facet = RANGE_FACETS[key as RangeFacetKey];
+      if (!facet) return;
+
+      if (range.min !== undefined) {
+        conditions.push(sql`${facet.max} >= ${range.min}`);
+      }
+      if (range.max !== undefined) {
+        conditions.push(sql`${facet.min} <= ${range.max}`);
+      }
+    });
+
+    if (filters.lustre && filters.lustre.length > 0) {
+      // Mindat lists several lustres per mineral ("Vitreous, Resinous"); match any requested one
+      conditions.push(or(...filters.lustre.map(lustre =>
+        sql`LOWER(${minerals.lustretype}) LIKE ${`%${lustre.toLowerCase()}%`}`
+      ))!);
+    }
+    if (filters.streak) {
+      conditions.push(sql`LOWER(${minerals.streak}) LIKE ${`%${filters.streak.toLowerCase()}%`}`);
+    }
+    if (filters.colour) {
+      conditions.push(sql`LOWER(${minerals.colour}) LIKE ${`%${filters.colour.toLowerCase()}%`}`);
+    }
+    if (filters.crystalSystem) {
+      conditions.push(sql`LOWER(${minerals.csystem}) = ${filters.crystalSystem.toLowerCase()}`);
     }
+    if (filters.opticalType) {
+      conditions.push(sql`LOWER(${minerals.opticaltype}) = ${filters.opticalType.toLowerCase()}`);
+    }
+    if (filters.opticalSign) {
+      conditions.push(sql`${minerals.opticalsign} = ${filters.opticalSign}`);
+    }
+
+    // Sort by a range facet on the low end of its range, minerals without a value last
+    const sortColumn = sortBy !== 'name' && RANGE_FACETS[sortBy] ? RANGE_FACETS[sortBy].min : minerals.name;
+    const orderBy = sortOrder === 'desc' ? sql`${sortColumn} DESC NULLS LAST` : sql`${sortColumn} ASC NULLS LAST`;
+
+    return { where: and(...conditions), orderBy };
   }
 
   /**
@@ -125,31 +498,9 @@ export class MineralsApiService {
   ): Promise<{ minerals: Mineral[]; total: number }> {
     const { limit = 100, offset = 0, includeFormula = true } = options;
 
-    if (!query || query.trim().length < 2) {
-      throw new Error('Search query must be at least 2 characters');
-    }
-
-    const searchTerm = `%${query.trim().toLowerCase()}%`;
+    const whereCondition = this.nameSearchCondition(query, includeFormula);
 
     try {
-      let whereCondition;
-      
-      if (includeFormula) {
-        whereCondition = and(
-          eq(minerals.isActive, true),
-          or(
-            sql`LOWER(${minerals.name}) LIKE ${searchTerm}`,
-            sql`LOWER(${minerals.mindatFormula}) LIKE ${searchTerm}`,
-            sql`LOWER(${minerals.imaFormula}) LIKE ${searchTerm}`
-          )
-        );
-      } else {
-        whereCondition = and(
-          eq(minerals.isActive, true),
-          sql`LOWER(${minerals.name}) LIKE ${searchTerm}`
-        );
-      }
-
       // Get total count
       const totalResult = await db
         .select({ count: sql<number>`COUNT(*)` })
@@ -178,6 +529,37 @@ export class MineralsApiService {
     }
   }
 
+  /**
+   * Every mineral matching a name search, in batches, for export
+   */
+  exportByName(query: string, options: { includeFormula?: boolean } = {}): AsyncGenerator<Mineral[]> {
+    return this.exportMinerals(this.nameSearchCondition(query, options.includeFormula ?? true), [asc(minerals.name)]);
+  }
+
+  private nameSearchCondition(query: string, includeFormula: boolean): SQL | undefined {
+    if (!query || query.trim().length < 2) {
+      throw new Error('Search query must be at least 2 characters');
+    }
+
+    const searchTerm = `%${query.trim().toLowerCase()}%`;
+
+    if (includeFormula) {
+      return and(
+        eq(minerals.isActive, true),
+        or(
+          sql`LOWER(${minerals.name}) LIKE ${searchTerm}`,
+          sql`LOWER(${minerals.mindatFormula}) LIKE ${searchTerm}`,
+          sql`LOWER(${minerals.imaFormula}) LIKE ${searchTerm}`
+        )
+      );
+    }
+
+    return and(
+      eq(minerals.isActive, true),
+      sql`LOWER(${minerals.name}) LIKE ${searchTerm}`
+    );
+  }
+
   /**
    * Get mineral by ID
    */
@@ -199,6 +581,308 @@ export class MineralsApiService {
     }
   }
 
+  /**
+   * Field-level change history of one mineral, newest first
+   */
+  async getMineralHistory(
+    id: number,
+    options: {
+      fields?: string[];
+      limit?: number;
+      offset?: number;
+    } = {}
+  ): Promise<{ mineralId: number; name: string; syncVersion: number; changes: MineralChange[]; total: number } | null> {
+    const { fields, limit = 100, offset = 0 } = options;
+
+    try {
+      const mineral = await db
+        .select({ id: minerals.id, name: minerals.name, syncVersion: minerals.syncVersion })
+        .from(minerals)
+        .where(eq(minerals.id, id))
+        .limit(1);
+
+      if (mineral.length === 0) {
+        return null;
+      }
+
+      const conditions = [eq(mineralChanges.mineralId, id)];
+      if (fields && fields.length > 0) {
+        conditions.push(inArray(mineralChanges.field, fields));
+      }
+
+      const whereCondition = and(...conditions);
+
+      const totalResult = await db
+        .select({ count: sql<number>`COUNT(*)::int` })
+        .from(mineralChanges)
+        .where(whereCondition);
+
+      const changes = await db
+        .select()
+        .from(mineralChanges)
+        .where(whereCondition)
+        .orderBy(desc(mineralChanges.changedAt), desc(mineralChanges.id))
+        .limit(limit)
+        .offset(offset);
+
+      return {
+        mineralId: mineral[0].id,
+        name: mineral[0].name,
+        syncVersion: mineral[0].syncVersion || 1,
+        changes,
+        total: Number(totalResult[0]?.count || 0)
+      };
+    } catch (error) {
+      console.error('Error getting mineral history:', error);
+      throw new Error('Failed to get mineral history');
+    }
+  }
+
+  /**
+   * Feed of field changes recorded since a date, across all minerals, oldest first
+   * so consumers can page through it and keep the last `changedAt` as their cursor
+   */
+  async getChangesSince(
+    since: Date,
+    options: {
+      until?: Date;
+      fields?: string[];
+      changeType?: 'created' | 'updated';
+      limit?: number;
+      offset?: number;
+    } = {}
+  ): Promise<{ since: string; changes: Array<MineralChange & { mineralName: string }>; total: number }> {
+    const { until, fields, changeType, limit = 100, offset = 0 } = options;
+
+    const conditions = [gte(mineralChanges.changedAt, since)];
+    if (until) {
+      conditions.push(lte(mineralChanges.changedAt, until));
+    }
+    if (fields && fields.length > 0) {
+      conditions.push(inArray(mineralChanges.field, fields));
+    }
+    if (changeType) {
+      conditions.push(eq(mineralChanges.changeType, changeType));
+    }
+
+    try {
+      const whereCondition = and(...conditions);
+
+      const totalResult = await db
+        .select({ count: sql<number>`COUNT(*)::int` })
+        .from(mineralChanges)
+        .where(whereCondition);
+
+      const rows = await db
+        .select({ change: mineralChanges, mineralName: minerals.name })
+        .from(mineralChanges)
+        .innerJoin(minerals, eq(minerals.id, mineralChanges.mineralId))
+        .where(whereCondition)
+        .orderBy(asc(mineralChanges.changedAt), asc(mineralChanges.id))
+        .limit(limit)
+        .offset(offset);
+
+      return {
+        since: since.toISOString(),
+        changes: rows.map(row => ({ ...row.change, mineralName: row.mineralName })),
+        total: Number(totalResult[0]?.count || 0)
+      };
+    } catch (error) {
+      console.error('Error getting mineral changes:', error);
+      throw new Error('Failed to get mineral changes');
+    }
+  }
+
+  /**
+   * Minerals in a Dana or Nickel-Strunz class, matched level by level so "4.D"
+   * covers 4.DA.05 but "1" does not match class 10
+   */
+  async getMineralsByClassification(
+    system: ClassificationSystem,
+    options: {
+      code?: string;
+      name?: string;
+      limit?: number;
+      offset?: number;
+    } = {}
+  ): Promise<{ minerals: Mineral[]; total: number }> {
+    const { code, name, limit = 50, offset = 0 } = options;
+    const columns = CLASSIFICATION_COLUMNS[system];
+
+    const conditions = [eq(minerals.isActive, true), sql`${columns.code} IS NOT NULL`];
+    if (code) {
+      parseClassificationCode(system, code).forEach((level, index) => {
+        conditions.push(eq(columns.levels[index], level));
+      });
+    }
+    if (name) {
+      conditions.push(sql`LOWER(${minerals.name}) LIKE ${`%${name.toLowerCase()}%`}`);
+    }
+
+    try {
+      const whereCondition = and(...conditions);
+
+      const totalResult = await db
+        .select({ count: sql<number>`COUNT(*)::int` })
+        .from(minerals)
+        .where(whereCondition);
+
+      const results = await db
+        .select()
+        .from(minerals)
+        .where(whereCondition)
+        .orderBy(asc(columns.code), asc(minerals.name))
+        .limit(limit)
+        .offset(offset);
+
+      return {
+        minerals: results,
+        total: Number(totalResult[0]?.count || 0)
+      };
+    } catch (error) {
+      console.error('Error getting minerals by classification:', error);
+      throw new Error('Failed to get minerals by classification');
+    }
+  }
+
+  /**
+   * Top-level Dana or Nickel-Strunz classes with the number of synced minerals in each.
+   * Class names come from the synced class tables; classes only seen on minerals are
+   * listed with their code as the name.
+   */
+  async getClassificationClasses(system: ClassificationSystem): Promise<ClassificationClassSummary[]> {
+    const columns = CLASSIFICATION_COLUMNS[system];
+    const classTable = system === 'dana' ? danaClasses : strunzClasses;
+
+    try {
+      const classes = await db.select().from(classTable);
+
+      const counts = await db
+        .select({ code: columns.levels[0], count: sql<number>`COUNT(*)::int` })
+        .from(minerals)
+        .where(and(eq(minerals.isActive, true), sql`${columns.levels[0]} IS NOT NULL`))
+        .groupBy(columns.levels[0]);
+
+      const countByCode = new Map(counts.map(row => [String(row.code), Number(row.count)]));
+
+      // Class tables hold every level; the top level has a code without separators
+      const topLevel = classes.filter(entry => !entry.code.includes('.'));
+      const result = topLevel.map((entry): ClassificationClassSummary => ({
+        id: entry.id,
+        code: entry.code,
+        name: entry.name,
+        description: entry.description,
+        mineralCount: countByCode.get(entry.code) || 0
+      }));
+
+      countByCode.forEach((count, code) => {
+        if (!result.some(entry => entry.code === code)) {
+          result.push({ id: null, code, name: code, description: null, mineralCount: count });
+        }
+      });
+
+      return result.sort((a, b) =>
+        (parseInt(a.code) - parseInt(b.code)) || a.code.localeCompare(b.code)
+      );
+    } catch (error) {
+      console.error('Error getting classification classes:', error);
+      throw new Error('Failed to get classification classes');
+    }
+  }
+
+  /**
+   * Synonyms, varieties, polytypes, group membership and type localities of a mineral.
+   * Related geomaterials that are not synced yet are returned with a null name.
+   */
+  async getMineralRelations(id: number): Promise<{
+    id: number;
+    name: string;
+    synonymOf: RelatedMineral[];
+    varietyOf: RelatedMineral[];
+    polytypeOf: RelatedMineral[];
+    memberOf: RelatedMineral[];
+    synonyms: RelatedMineral[];
+    varieties: RelatedMineral[];
+    polytypes: RelatedMineral[];
+    members: RelatedMineral[];
+    typeLocalities: number[];
+  } | null> {
+    try {
+      const mineral = await db
+        .select({ id: minerals.id, name: minerals.name })
+        .from(minerals)
+        .where(eq(minerals.id, id))
+        .limit(1);
+
+      if (mineral.length === 0) {
+        return null;
+      }
+
+      // Pointers on this record (it is a variety of X) and on others (Y is a variety of it)
+      const outgoing = await db
+        .select()
+        .from(mineralRelations)
+        .where(eq(mineralRelations.mineralId, id));
+
+      const incoming = await db
+        .select()
+        .from(mineralRelations)
+        .where(eq(mineralRelations.relatedId, id));
+
+      const relatedIds = Array.from(new Set([
+        ...outgoing.map(relation => relation.relatedId),
+        ...incoming.map(relation => relation.mineralId)
+      ]));
+
+      const relatedRows = relatedIds.length > 0
+        ? await db
+          .select({ id: minerals.id, name: minerals.name, mindatFormula: minerals.mindatFormula, entrytype: minerals.entrytype })
+          .from(minerals)
+          .where(inArray(minerals.id, relatedIds))
+        : [];
+      const relatedById = new Map(relatedRows.map(row => [row.id, row]));
+
+      const describe = (relatedId: number): RelatedMineral => {
+        const row = relatedById.get(relatedId);
+        return {
+          id: relatedId,
+          name: row?.name ?? null,
+          formula: row?.mindatFormula ?? null,
+          entrytype: row?.entrytype ?? null
+        };
+      };
+      const pointingTo = (type: string) => outgoing
+        .filter(relation => relation.relationType === type)
+        .map(relation => describe(relation.relatedId));
+      const pointingFrom = (type: string) => incoming
+        .filter(relation => relation.relationType === type)
+        .map(relation => describe(relation.mineralId))
+        .sort((a, b) => (a.name || '').localeCompare(b.name || ''));
+
+      const typeLocalities = await db
+        .select({ localityId: mineralTypeLocalities.localityId })
+        .from(mineralTypeLocalities)
+        .where(eq(mineralTypeLocalities.mineralId, id));
+
+      return {
+        id: mineral[0].id,
+        name: mineral[0].name,
+        synonymOf: pointingTo('synonym_of'),
+        varietyOf: pointingTo('variety_of'),
+        polytypeOf: pointingTo('polytype_of'),
+        memberOf: pointingTo('member_of'),
+        synonyms: pointingFrom('synonym_of'),
+        varieties: pointingFrom('variety_of'),
+        polytypes: pointingFrom('polytype_of'),
+        members: pointingFrom('member_of'),
+        typeLocalities: typeLocalities.map(row => row.localityId)
+      };
+    } catch (error) {
+      console.error('Error getting mineral relations:', error);
+      throw new Error('Failed to get mineral relations');
+    }
+  }
+
   /**
    * Get minerals by crystal system
    */
@@ -0,0 +1,378 @@
+/**
+ * OpenAPI Spec Diffing
+ *
+ * Compares two versions of the Mindat Swagger document and lists what an
+ * integration would notice:
+ * 1. Endpoints are matched by method and path; each side is resolved first
+ *    (see openapi-resolver.ts) so a change inside a shared component shows up on
+ *    every endpoint that uses it
+ * 2. Parameters are matched by location and name and compared on type, required,
+ *    enum values, default and deprecation
+ * 3. Request and response schemas are flattened to field paths ('results[].name')
+ *    and compared field by field
+ * 4. A change is marked breaking when existing clients can fail on it: removed
+ *    endpoints, parameters or response fields, new required inputs, changed types
+ *    and enum values that are no longer accepted
+ */
+
+import type { OpenAPIDocument, Operation, Parameter, Schema } from "../../client/src/types/api";
+import { resolveParameters, resolveRequestBody, resolveResponseSchemas } from "./openapi-resolver";
+
+export type ChangeKind = 'added' | 'removed' | 'changed';
+
+export interface ParameterChange {
+  name: string;
+  in: Parameter['in'];
+  kind: ChangeKind;
+  breaking: boolean;
+  details: string[];
+}
+
+export interface SchemaFieldChange {
+  path: string; // '' for the body itself
+  kind: ChangeKind;
+  breaking: boolean;
+  before?: string;
+  after?: string;
+}
+
+export interface ResponseChange {
+  status: string;
+  kind: ChangeKind;
+  breaking: boolean;
+  fields: SchemaFieldChange[];
+}
+
+export interface EndpointChange {
+  method: string;
+  path: string;
+  summary?: string;
+  kind: ChangeKind;
+  breaking: boolean;
+  details: string[];
+  parameters: ParameterChange[];
+  requestBody: SchemaFieldChange[];
+  responses: ResponseChange[];
+}
+
+export interface SpecDiffSummary {
+  added: number;
+  removed: number;
+  changed: number;
+  breaking: number;
+}
+
+export interface SpecDiff {
+  fromVersion: string | null;
+  toVersion: string;
+  summary: SpecDiffSummary;
+  endpoints: EndpointChange[];
+}
+
+interface FieldShape {
+  type: string;
+  required: boolean;
+  nullable: boolean;
+  enum?: string[];
+}
+
+const METHODS = ['get', 'post', 'put', 'delete', 'patch', 'options'] as const;
+
+// Nesting followed when flattening schemas; deeper fields are not compared
+const MAX_FIELD_DEPTH = 6;
+
+// Type label of a schema, e.g. 'integer', 'string (date)', 'array<string>'
+function typeLabel(schema?: Schema): string {
+  if (!schema) return 'any';
+  if (schema['x-circular']) return schema.title || 'object';
+  if (schema.type === 'array') return `array<${typeLabel(schema.items)}>`;
+  if (schema.oneOf || schema.anyOf) return (schema.oneOf || schema.anyOf)!.map(typeLabel).join(' | ');
+  const type = schema.type || (schema.properties ? 'object' : 'any');
+  return schema.format ? `${type} (${schema.format})` : type;
+}
+
+const enumValues = (schema?: Schema) =>
+  schema?.enum ? schema.enum.filter(value => value !== null && value !== '').map(String) : undefined;
+
+// Allowed values of a parameter, including those of array items
+const parameterValues = (parameter: Parameter) =>
+  enumValues(parameter.schema?.type === 'array' ? parameter.schema.items : parameter.schema);
+
+function describeShape(shape: FieldShape): string {
+  const parts = [shape.type];
+  if (shape.enum) parts.push(`one of ${shape.enum.join(', ')}`);
+  if (shape.required) parts.push('required');
+  if (shape.nullable) parts.push('nullable');
+  return parts.join(', ');
+}
+
+/**
+ * Every field of a schema by path; array items get a '[]' suffix
+ */
+function flattenSchema(schema: Schema | undefined, required = true, path = '', depth = 0, fields = new Map<string, FieldShape>()): Map<string, FieldShape> {
+  if (!schema) return fields;
+
+  fields.set(path, {
+    type: typeLabel(schema),
+    required,
+    nullable: schema.nullable === true,
+    enum: enumValues(schema)
+  });
+  if (depth >= MAX_FIELD_DEPTH || schema['x-circular']) return fields;
+
+  if (schema.type === 'array' && schema.items) {
+    flattenSchema(schema.items, true, `${path}[]`, depth + 1, fields);
+  }
+  for (const [name, property] of Object.entries(schema.properties || {})) {
+    const childPath = path ? `${path}.${name}` : name;
+    flattenSchema(property, (schema.required || []).includes(name), childPath, depth + 1, fields);
+  }
+  return fields;
+}
+
+/**
+ * Field changes between two schemas. `direction` decides what breaks clients:
+ * for inputs, new required fields and narrowed enums; for outputs, removed fields,
+ * fields that may now be missing or null, and widened enums.
+ */
+function diffSchemas(before: Schema | undefined, after: Schema | undefined, direction: 'input' | 'output'): SchemaFieldChange[] {
+  const oldFields = flattenSchema(before);
+  const newFields = flattenSchema(after);
+  const changes: SchemaFieldChange[] = [];
+
+  for (const [path, shape] of Array.from(newFields)) {
+    const old = oldFields.get(path);
+    if (!old) {
+      // Only report the top of a new subtree
+      if (path && !oldFields.has(parentPath(path))) continue;
+      changes.push({ path, kind: 'added', breaking: direction === 'input' && shape.required, after: describeShape(shape) });
+      continue;
+    }
+
+    const typeChanged = old.type !== shape.type;
+    const removedValues = (old.enum || []).filter(value => !(shape.enum || []).includes(value));
+    const addedValues = (shape.enum || []).filter(value => !(old.enum || []).includes(value));
+    const requiredChanged = old.required !== shape.required;
+    const nullableChanged = old.nullable !== shape.nullable;
+    const enumDropped = Boolean(old.enum) && !shape.enum;
+
+    if (!typeChanged && removedValues.length === 0 && addedValues.length === 0 && !requiredChanged && !nullableChanged && !enumDropped) continue;
+
+    const breaking = typeChanged || (direction === 'input'
+      ? removedValues.length > 0 || (!old.required && shape.required) || (old.nullable && !shape.nullable)
+      : (addedValues.length > 0 && Boolean(old.enum)) || (old.required && !shape.required) || (!old.nullable && shape.nullable));
+
+    changes.push({ path, kind: 'changed', breaking, before: describeShape(old), after: describeShape(shape) });
+  }
+
+  for (const [path, shape] of Array.from(oldFields)) {
+    if (newFields.has(path)) continue;
+    // Only report the top of a removed subtree
+    if (path && !newFields.has(parentPath(path))) continue;
+    changes.push({ path, kind: 'removed', breaking: direction === 'output' || shape.required, before: describeShape(shape) });
+  }
+
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+function parentPath(path: string): string {
+  if (path.endsWith('[]')) return path.slice(0, -2);
+  const dot = path.lastIndexOf('.');
+  return dot === -1 ? '' : path.slice(0, dot);
+}
+
+function describeParameter(parameter: Parameter): string {
+  const shape = parameter.schema ? typeLabel(parameter.schema) : 'any';
+  return `${shape}${parameter.required ? ', required' : ''}`;
+}
+
+function diffParameters(before: Parameter[], after: Parameter[]): ParameterChange[] {
+  const key = (parameter: Parameter) => `${parameter.in}:${parameter.name}`;
+  const oldByKey = new Map(before.map(parameter => [key(parameter), parameter]));
+  const newByKey = new Map(after.map(parameter => [key(parameter), parameter]));
+  const changes: ParameterChange[] = [];
+
+  for (const [id, parameter] of Array.from(newByKey)) {
+    const old = oldByKey.get(id);
+    if (!old) {
+      changes.push({ name: parameter.name, in: parameter.in, kind: 'added', breaking: parameter.required === true, details: [describeParameter(parameter)] });
+      continue;
+    }
+
+    const details: string[] = [];
+    let breaking = false;
+
+    const oldType = typeLabel(old.schema);
+    const newType = typeLabel(parameter.schema);
+    if (oldType !== newType) {
+      details.push(`type ${oldType} → ${newType}`);
+      breaking = true;
+    }
+    if (Boolean(old.required) !== Boolean(parameter.required)) {
+      details.push(parameter.required ? 'now required' : 'now optional');
+      breaking = breaking || parameter.required === true;
+    }
+
+    const oldValues = parameterValues(old) || [];
+    const newValues = parameterValues(parameter) || [];
+    const removedValues = oldValues.filter(value => !newValues.includes(value));
+    const addedValues = newValues.filter(value => !oldValues.includes(value));
+    if (removedValues.length > 0 && newValues.length > 0) {
+      details.push(`values removed: ${removedValues.join(', ')}`);
+      breaking = true;
+    }
+    if (addedValues.length > 0 && oldValues.length > 0) details.push(`values added: ${addedValues.join(', ')}`);
+    if (oldValues.length > 0 && newValues.length === 0 && oldType === newType) details.push('no longer restricted to a list of values');
+
+    if (JSON.stringify(old.schema?.default) !== JSON.stringify(parameter.schema?.default)) {
+      details.push(`default ${JSON.stringify(old.schema?.default) ?? 'none'} → ${JSON.stringify(parameter.schema?.default) ?? 'none'}`);
+    }
+    if (Boolean(old.deprecated) !== Boolean(parameter.deprecated)) {
+      details.push(parameter.deprecated ? 'deprecated' : 'no longer deprecated');
+    }
+    if (old.explode !== parameter.explode || old.style !== parameter.style) {
+      details.push('serialization changed');
+      breaking = true;
+    }
+
+    if (details.length > 0) changes.push({ name: parameter.name, in: parameter.in, kind: 'changed', breaking, details });
+  }
+
+  for (const [id, parameter] of Array.from(oldByKey)) {
+    if (!newByKey.has(id)) {
+      changes.push({ name: parameter.name, in: parameter.in, kind: 'removed', breaking: true, details: [describeParameter(parameter)] });
+    }
+  }
+
+  return changes;
+}
+
+function diffResponses(before: Record<string, Schema | undefined>, after: Record<string, Schema | undefined>): ResponseChange[] {
+  const changes: ResponseChange[] = [];
+  const statuses = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+
+  for (const status of statuses) {
+    const success = status.startsWith('2');
+    if (!(status in before)) {
+      changes.push({ status, kind: 'added', breaking: false, fields: [] });
+    } else if (!(status in after)) {
+      changes.push({ status, kind: 'removed', breaking: success, fields: [] });
+    } else {
+      const fields = diffSchemas(before[status], after[status], 'output');
+      if (fields.length > 0) {
+        changes.push({ status, kind: 'changed', breaking: success && fields.some(field => field.breaking), fields });
+      }
+    }
+  }
+
+  return changes;
+}
+
+function operationsOf(doc: OpenAPIDocument): Map<string, { method: string; path: string; operation: Operation }> {
+  const operations = new Map<string, { method: string; path: string; operation: Operation }>();
+  for (const [path, pathItem] of Object.entries(doc.paths || {})) {
+    for (const method of METHODS) {
+      const operation = pathItem[method];
+      if (operation) operations.set(`${method.toUpperCase()} ${path}`, { method: method.toUpperCase(), path, operation });
+    }
+  }
+  return operations;
+}
+
+function diffEndpoint(
+  oldDoc: OpenAPIDocument,
+  newDoc: OpenAPIDocument,
+  method: string,
+  path: string,
+  before: Operation,
+  after: Operation
+): EndpointChange | null {
+  const details: string[] = [];
+  if (Boolean(before.deprecated) !== Boolean(after.deprecated)) {
+    details.push(after.deprecated ? 'Deprecated' : 'No longer deprecated');
+  }
+
+  const parameters = diffParameters(
+    resolveParameters(oldDoc, oldDoc.paths[path], before),
+    resolveParameters(newDoc, newDoc.paths[path], after)
+  );
+
+  const oldBody = resolveRequestBody(oldDoc, before);
+  const newBody = resolveRequestBody(newDoc, after);
+  const requestBody = oldBody || newBody
+    ? diffSchemas(oldBody?.schema, newBody?.schema, 'input')
+    : [];
+  if (oldBody && newBody && oldBody.contentType !== newBody.contentType) {
+    details.push(`Request body content type ${oldBody.contentType} → ${newBody.contentType}`);
+  }
+  if (Boolean(oldBody?.required) !== Boolean(newBody?.required)) {
+    details.push(newBody?.required ? 'Request body now required' : 'Request body now optional');
+  }
+
+  const responses = diffResponses(resolveResponseSchemas(oldDoc, before), resolveResponseSchemas(newDoc, after));
+
+  if (details.length === 0 && parameters.length === 0 && requestBody.length === 0 && responses.length === 0) return null;
+
+  return {
+    method,
+    path,
+    summary: after.summary || before.summary,
+    kind: 'changed',
+    breaking: parameters.some(change => change.breaking)
+      || requestBody.some(change => change.breaking)
+      || responses.some(change => change.breaking)
+      || (!oldBody?.required && newBody?.required === true),
+    details,
+    parameters,
+    requestBody,
+    responses
+  };
+}
+
+const emptyChange = (method: string, path: string, operation: Operation, kind: ChangeKind): EndpointChange => ({
+  method,
+  path,
+  summary: operation.summary,
+  kind,
+  breaking: kind === 'removed',
+  details: [],
+  parameters: [],
+  requestBody: [],
+  responses: []
+});
+
+/**
+ * Changes from `oldDoc` to `newDoc`; with no `oldDoc` every endpoint is new
+ */
+export function diffSpecs(oldDoc: OpenAPIDocument | null, newDoc: OpenAPIDocument): SpecDiff {
+  const before = oldDoc ? operationsOf(oldDoc) : new Map<string, { method: string; path: string; operation: Operation }>();
+  const after = operationsOf(newDoc);
+  const endpoints: EndpointChange[] = [];
+
+  for (const [key, { method, path, operation }] of Array.from(after)) {
+    const old = before.get(key);
+    if (!old) {
+      endpoints.push(emptyChange(method, path, operation, 'added'));
+    } else {
+      const change = diffEndpoint(oldDoc!, newDoc, method, path, old.operation, operation);
+      if (change) endpoints.push(change);
+    }
+  }
+  for (const [key, { method, path, operation }] of Array.from(before)) {
+    if (!after.has(key)) endpoints.push(emptyChange(method, path, operation, 'removed'));
+  }
+
+  endpoints.sort((a, b) => a.path.localeCompare(b.path) || a.method.localeCompare(b.method));
+
+  return {
+    fromVersion: oldDoc?.info?.version ?? null,
+    toVersion: newDoc.info?.version,
+    summary: {
+      added: endpoints.filter(change => change.kind === 'added').length,
+      removed: endpoints.filter(change => change.kind === 'removed').length,
+      changed: endpoints.filter(change => change.kind === 'changed').length,
+      breaking: endpoints.filter(change => change.breaking).length
+    },
+    endpoints
+  };
+}
@@ -0,0 +1,260 @@
+/**
+ * OpenAPI 3 Reference and Schema Resolver
+ *
+ * Turns an operation of the Swagger document into self-contained parameter and
+ * request body definitions for the explorer forms:
+ * 1. Resolves local `$ref`s (`#/components/schemas/...`, `#/components/parameters/...`,
+ *    `#/components/requestBodies/...`); a reference back into a schema that is already
+ *    being expanded is left as a stub marked with `x-circular`
+ * 2. Merges path-level and operation-level parameters, the operation's definition
+ *    winning for the same name and location
+ * 3. Merges `allOf` parts into one schema (properties and required lists combined,
+ *    the tighter of two bounds kept)
+ * 4. Flattens `oneOf`/`anyOf` unions of enums, such as the StatusEnum / BlankEnum /
+ *    NullEnum unions generated for nullable choice fields, into a single enum
+ *
+ * 5. Resolves response schemas by status code, for comparing spec versions
+ *
+ * Remote references (other files or URLs) are not fetched and are kept as they are.
+ */
+
+import type {
+  OpenAPIDocument,
+  Operation,
+  Parameter,
+  PathItem,
+  Reference,
+  RequestBody,
+  ResolvedRequestBody,
+  Response,
+  Schema
+} from "../../client/src/types/api";
+
+// Keys combined by mergeSchemas instead of "first one wins"
+const MERGED_KEYS = new Set(['properties', 'required', 'enum', 'minimum', 'maximum', 'minLength', 'maxLength', 'minItems', 'maxItems', 'allOf']);
+
+const isReference = (value: unknown): value is Reference =>
+  typeof value === 'object' && value !== null && typeof (value as Reference).$ref === 'string';
+
+// Last segment of a reference, e.g. 'Mineral' for '#/components/schemas/Mineral'
+const refName = (ref: string) => ref.split('/').pop() || ref;
+
+/**
+ * Look up a local JSON pointer ('#/components/schemas/Mineral') in the document
+ */
+export function resolvePointer(doc: OpenAPIDocument, ref: string): unknown {
+  if (!ref.startsWith('#/')) return undefined;
+
+  let target: any = doc;
+  for (const segment of ref.slice(2).split('/')) {
+    const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+    if (target === null || typeof target !== 'object' || !(key in target)) return undefined;
+    target = target[key];
+  }
+  return target;
+}
+
+/**
+ * Combine schemas that must all hold (the parts of an allOf)
+ */
+function mergeSchemas(parts: Schema[]): Schema {
+  const merged: Schema = {};
+
+  for (const part of parts) {
+    if (part.properties) merged.properties = { ...merged.properties, ...part.properties };
+    if (part.required) merged.required = Array.from(new Set([...(merged.required || []), ...part.required]));
+    if (part.enum) merged.enum = merged.enum ? merged.enum.filter(value => part.enum!.includes(value)) : part.enum;
+
+    if (part.minimum !== undefined) merged.minimum = Math.max(merged.minimum ?? -Infinity, part.minimum);
+    if (part.maximum !== undefined) merged.maximum = Math.min(merged.maximum ?? Infinity, part.maximum);
+    if (part.minLength !== undefined) merged.minLength = Math.max(merged.minLength ?? 0, part.minLength);
+    if (part.maxLength !== undefined) merged.maxLength = Math.min(merged.maxLength ?? Infinity, part.maxLength);
+    if (part.minItems !== undefined) merged.minItems = Math.max(merged.minItems ?? 0, part.minItems);
+    if (part.maxItems !== undefined) merged.maxItems = Math.min(merged.maxItems ?? Infinity, part.maxItems);
+
+    for (const [key, value] of Object.entries(part)) {
+      if (!MERGED_KEYS.has(key) && value !== undefined && (merged as any)[key] === undefined) {
+        (merged as any)[key] = value;
+      }
+    }
+  }
+
+  if (!merged.type && merged.properties) merged.type = 'object';
+  return merged;
+}
+
+/**
+ * Replace a union whose variants are all enums (or nulls) by one enum; other
+ * unions are kept with their variants resolved
+ */
+function flattenUnion(schema: Schema, variants: Schema[]): Schema {
+  const enumVariants = variants.every(variant => Array.isArray(variant.enum) || variant.type === 'null');
+  if (!enumVariants) return schema;
+
+  const values = variants.flatMap(variant => variant.enum || []);
+  const nullable = values.some(value => value === null || value === '') || variants.some(variant => variant.type === 'null');
+  const choices = Array.from(new Set(values.filter(value => value !== null && value !== '')));
+  const typed = variants.find(variant => variant.type && variant.type !== 'null' && variant.enum?.some(value => value !== null && value !== ''));
+
+  const { oneOf, anyOf, ...rest } = schema;
+  return {
+    ...rest,
+    type: rest.type || typed?.type || 'string',
+    enum: choices,
+    ...(nullable ? { nullable: true } : {}),
+    description: rest.description || typed?.description
+  };
+}
+
+/**
+ * Resolver for one document; expanded schemas are cached by reference
+ */
+class DocumentResolver {
+  private readonly cache = new Map<string, Schema>();
+
+  constructor(private readonly doc: OpenAPIDocument) {}
+
+  schema(schema: Schema | undefined, stack: string[] = []): Schema | undefined {
+    if (!schema || typeof schema !== 'object') return schema;
+
+    if (schema.$ref) {
+      const { $ref, ...siblings } = schema;
+      if (stack.includes($ref)) {
+        const target = resolvePointer(this.doc, $ref) as Schema | undefined;
+        return { type: target?.type || 'object', title: target?.title || refName($ref), ...siblings, 'x-circular': $ref };
+      }
+
+      let resolved = this.cache.get($ref);
+      if (!resolved) {
+        const target = resolvePointer(this.doc, $ref) as Schema | undefined;
+        if (!target) return schema;
+        resolved = this.schema(target, [...stack, $ref]) as Schema;
+        this.cache.set($ref, resolved);
+      }
+      return Object.keys(siblings).length > 0 ? { ...resolved, ...siblings } : resolved;
+    }
+
+    const result: Schema = { ...schema };
+
+    if (schema.properties) {
+      result.properties = Object.fromEntries(
+        Object.entries(schema.properties).map(([name, property]) => [name, this.schema(property, stack) as Schema])
+      );
+    }
+    if (schema.items) result.items = this.schema(schema.items, stack);
+    if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+      result.additionalProperties = this.schema(schema.additionalProperties, stack);
+    }
+
+    if (schema.allOf) {
+      const { allOf, ...own } = result;
+      const parts = allOf!.map(part => this.schema(part, stack) as Schema);
+      return mergeSchemas([own, ...parts]);
+    }
+
+    for (const key of ['oneOf', 'anyOf'] as const) {
+      if (schema[key]) {
+        const variants = schema[key]!.map(variant => this.schema(variant, stack) as Schema);
+        return flattenUnion({ ...result, [key]: variants }, variants);
+      }
+    }
+
+    return result;
+  }
+
+  reference<T>(value: T | Reference): T | undefined {
+    let current: unknown = value;
+    const seen = new Set<string>();
+    while (isReference(current)) {
+      if (seen.has(current.$ref)) return undefined;
+      seen.add(current.$ref);
+      current = resolvePointer(this.doc, current.$ref);
+    }
+    return current as T | undefined;
+  }
+
+  parameter(value: Parameter | Reference): Parameter | undefined {
+    const parameter = this.reference(value);
+    if (!parameter || !parameter.name || !parameter.in) return undefined;
+
+    // A parameter may describe its value with `content` instead of `schema`
+    const schema = parameter.schema ?? Object.values(parameter.content || {})[0]?.schema;
+    const { content, ...rest } = parameter;
+    return {
+      ...rest,
+      required: parameter.in === 'path' ? true : parameter.required,
+      schema: this.schema(schema)
+    };
+  }
+}
+
+const resolvers = new WeakMap<OpenAPIDocument, DocumentResolver>();
+
+function resolverFor(doc: OpenAPIDocument): DocumentResolver {
+  let resolver = resolvers.get(doc);
+  if (!resolver) {
+    resolver = new DocumentResolver(doc);
+    resolvers.set(doc, resolver);
+  }
+  return resolver;
+}
+
+/**
+ * Path-level and operation-level parameters with every reference resolved
+ */
+export function resolveParameters(doc: OpenAPIDocument, pathItem: PathItem, operation: Operation): Parameter[] {
+  const resolver = resolverFor(doc);
+  const byKey = new Map<string, Parameter>();
+
+  for (const value of [...(pathItem.parameters || []), ...(operation.parameters || [])]) {
+    const parameter = resolver.parameter(value);
+    if (parameter) byKey.set(`${parameter.in}:${parameter.name}`, parameter);
+  }
+
+  return Array.from(byKey.values());
+}
+
+// Media type used for a request or response body, JSON preferred
+const preferredContentType = (contentTypes: string[]) =>
+  contentTypes.find(type => type === 'application/json')
+  || contentTypes.find(type => type.includes('json'))
+  || contentTypes[0];
+
+/**
+ * The operation's request body, preferring a JSON media type
+ */
+export function resolveRequestBody(doc: OpenAPIDocument, operation: Operation): ResolvedRequestBody | undefined {
+  if (!operation.requestBody) return undefined;
+
+  const resolver = resolverFor(doc);
+  const body = resolver.reference<RequestBody>(operation.requestBody);
+  if (!body || !body.content) return undefined;
+
+  const contentType = preferredContentType(Object.keys(body.content));
+  if (!contentType) return undefined;
+
+  const media = body.content[contentType];
+  return {
+    description: body.description,
+    required: body.required,
+    contentType,
+    schema: resolver.schema(media.schema),
+    example: media.example
+  };
+}
+
+/**
+ * Response body schema of each status code (undefined for responses without a body)
+ */
+export function resolveResponseSchemas(doc: OpenAPIDocument, operation: Operation): Record<string, Schema | undefined> {
+  const resolver = resolverFor(doc);
+  const schemas: Record<string, Schema | undefined> = {};
+
+  for (const [status, value] of Object.entries(operation.responses || {})) {
+    const response = resolver.reference<Response>(value);
+    const contentType = preferredContentType(Object.keys(response?.content || {}));
+    schemas[status] = contentType ? resolver.schema(response!.content![contentType].schema) : undefined;
+  }
+
+  return schemas;
+}
@@ -0,0 +1,154 @@
+/**
+ * Saved Request Collection Service
+ *
+ * 1. Exports saved requests (one, a folder or all of them) and whole endpoint
+ *    categories as Postman, Insomnia or `.http` files (see request-collections.ts)
+ * 2. Imports those files into saved requests, keeping their folders; requests no
+ *    explorer endpoint matches are reported back instead of saved
+ */
+
+import type { SavedRequest } from '@shared/schema';
+import type { APIEndpoint, Parameter } from '../../client/src/types/api';
+import { storage } from '../storage';
+import { DEFAULT_MINDAT_BASE_URL } from './mindat-config';
+import {
+  exportCollection,
+  matchEndpoint,
+  parseCollection,
+  type CollectionFile,
+  type CollectionFormat,
+  type CollectionRequest
+} from './request-collections';
+
+export class CollectionNotFoundError extends Error {}
+
+export interface SavedRequestSelection {
+  ids?: number[];
+  folder?: string;
+}
+
+export interface SkippedImport {
+  name: string;
+  method: string;
+  path: string;
+  reason: string;
+}
+
+export interface CollectionImportResult {
+  format: CollectionFormat;
+  imported: SavedRequest[];
+  skipped: SkippedImport[];
+}
+
+// Example (or, for required parameters, default) value to prefill a category export with
+function sampleValue(parameter: Parameter): unknown {
+  const value = parameter.example ?? parameter.schema?.example;
+  if (value !== undefined) return value;
+  return parameter.required ? parameter.schema?.default : undefined;
+}
+
+export class RequestCollectionService {
+  private static instance: RequestCollectionService;
+
+  private constructor() {}
+
+  static getInstance(): RequestCollectionService {
+    if (!RequestCollectionService.instance) {
+      RequestCollectionService.instance = new RequestCollectionService();
+    }
+    return RequestCollectionService.instance;
+  }
+
+  /**
+   * Saved requests as a collection file; `ids` and `folder` narrow the selection.
+   * Throws CollectionNotFoundError when nothing is selected.
+   */
+  async exportSavedRequests(format: CollectionFormat, selection: SavedRequestSelection = {}): Promise<CollectionFile> {
+    const savedRequests = (await storage.getSavedRequests()).filter(request =>
+      (!selection.ids || selection.ids.includes(request.id)) &&
+      (selection.folder === undefined || (request.folder || '') === selection.folder)
+    );
+
+    const requests: CollectionRequest[] = [];
+    for (const saved of savedRequests) {
+      const endpoint = await storage.getApiEndpoint(saved.endpointId as number);
+      if (!endpoint) continue;
+      requests.push({
+        name: saved.name,
+        folder: saved.folder || null,
+        endpoint,
+        parameters: (saved.parameters as Record<string, any>) || {}
+      });
+    }
+
+    if (requests.length === 0) {
+      throw new CollectionNotFoundError('No saved requests match the selection');
+    }
+
+    const name = selection.ids?.length === 1
+      ? requests[0].name
+      : selection.folder || 'Mindat saved requests';
+    return exportCollection(requests, format, { name, baseUrl: DEFAULT_MINDAT_BASE_URL });
+  }
+
+  /**
+   * Every endpoint of a category as a collection, prefilled with parameter examples
+   */
+  async exportCategory(categoryId: number, format: CollectionFormat): Promise<CollectionFile> {
+    const category = (await storage.getApiCategories()).find(item => item.id === categoryId);
+    if (!category) throw new CollectionNotFoundError(`Category ${categoryId} not found`);
+
+    const requests: CollectionRequest[] = category.endpoints.map(endpoint => ({
+      name: endpoint.summary || `${endpoint.method.toUpperCase()} ${endpoint.path}`,
+      folder: category.name,
+      endpoint,
+      parameters: Object.fromEntries(
+        (endpoint.parameters || [])
+          .map(parameter => [parameter.name, sampleValue(parameter)])
+          .filter(([_, value]) => value !== undefined)
+      )
+    }));
+
+    return exportCollection(requests, format, { name: `Mindat API - ${category.name}`, baseUrl: DEFAULT_MINDAT_BASE_URL });
+  }
+
+  /**
+   * Save the requests of a Postman, Insomnia or `.http` file. `folder` replaces the
+   * folders in the file. Throws CollectionFormatError for unreadable files.
+   */
+  async importCollection(content: string, folder?: string): Promise<CollectionImportResult> {
+    const { format, requests } = parseCollection(content);
+    const endpoints: APIEndpoint[] = (await storage.getApiCategories()).flatMap(category => category.endpoints);
+
+    const imported: SavedRequest[] = [];
+    const skipped: SkippedImport[] = [];
+
+    for (const request of requests) {
+      const match = matchEndpoint(request, endpoints);
+      if (!match) {
+        skipped.push({
+          name: request.name,
+          method: request.method,
+          path: request.path,
+          reason: `No explorer endpoint matches ${request.method} ${request.path}`
+        });
+        continue;
+      }
+
+      try {
+        imported.push(await storage.saveRequest({
+          name: match.name,
+          endpointId: match.endpoint.id,
+          parameters: match.parameters,
+          folder: folder || match.folder,
+          userId: 1 // Default user ID, as for requests saved from the explorer
+        }));
+      } catch (error) {
+        console.error('Error importing saved request:', error);
+        throw new Error('Failed to import saved requests');
+      }
+    }
+
+    return { format, imported, skipped };
+  }
+}
@@ -0,0 +1,592 @@
+/**
+ * Request Collection Formats
+ *
+ * Converts explorer requests to and from the files other API tools use:
+ * 1. Postman collections (v2.1), with folders as item groups
+ * 2. Insomnia exports (format 4), with folders as request groups
+ * 3. `.http` files for the VS Code REST Client and the JetBrains HTTP Client,
+ *    with the folder in a `# Folder:` comment
+ *
+ * Exports put the host and the Token header behind `baseUrl` and `apiKey`
+ * variables. Imports resolve the variables a file defines and match every request
+ * to an explorer endpoint by method and path template.
+ */
+
+import type { APIEndpoint } from "../../client/src/types/api";
+
+export type CollectionFormat = 'postman' | 'insomnia' | 'http';
+
+export const COLLECTION_FORMATS: CollectionFormat[] = ['postman', 'insomnia', 'http'];
+
+export class CollectionFormatError extends Error {}
+
+export interface CollectionRequest {
+  name: string;
+  folder: string | null;
+  endpoint: APIEndpoint;
+  parameters: Record<string, any>;
+}
+
+export interface CollectionFile {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+export interface ImportedRequest {
+  name: string;
+  folder: string | null;
+  method: string;
+  path: string; // URL path without the base URL, path variables filled in where known
+  query: Array<[string, string]>;
+  body?: unknown; // parsed JSON (or form) body
+}
+
+export interface MatchedRequest {
+  name: string;
+  folder: string | null;
+  endpoint: APIEndpoint;
+  parameters: Record<string, any>;
+}
+
+const POSTMAN_SCHEMA = 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json';
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+
+// The parts of an explorer request every format needs
+interface RequestParts {
+  method: string;
+  pathParams: Array<[string, string]>;
+  query: Array<[string, string]>;
+  body: Record<string, any> | null;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function requestParts({ endpoint, parameters }: CollectionRequest): RequestParts {
+  const method = endpoint.method.toUpperCase();
+  const declared = new Map((endpoint.parameters || []).map(parameter => [parameter.name, parameter]));
+  const pathParams: Array<[string, string]> = [];
+  const query: Array<[string, string]> = [];
+  const body: Record<string, any> = {};
+
+  for (const parameter of endpoint.parameters || []) {
+    if (parameter.in === 'path') {
+      const value = parameters[parameter.name];
+      pathParams.push([parameter.name, isEmpty(value) ? '' : String(value)]);
+    }
+  }
+
+  for (const [name, value] of Object.entries(parameters)) {
+    if (isEmpty(value)) continue;
+    const parameter = declared.get(name);
+
+    if (parameter && parameter.in !== 'query') continue;
+    // Undeclared values are the request body, except on GET where the explorer sends them as query parameters
+    if (!parameter && method !== 'GET') {
+      body[name] = value;
+      continue;
+    }
+
+    if (Array.isArray(value)) {
+      if (parameter?.explode === false) {
+        query.push([name, value.map(String).join(',')]);
+      } else {
+        for (const item of value) query.push([name, String(item)]);
+      }
+    } else {
+      query.push([name, String(value)]);
+    }
+  }
+
+  return { method, pathParams, query, body: Object.keys(body).length > 0 ? body : null };
+}
+
+function queryString(query: Array<[string, string]>): string {
+  return query.map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`).join('&');
+}
+
+// Path with its path parameters filled in; unknown values are left as `{name}`
+function filledPath(path: string, pathParams: Array<[string, string]>): string {
+  return pathParams.reduce(
+    (result, [name, value]) => result.replace(`{${name}}`, value ? encodeURIComponent(value) : `{${name}}`),
+    path
+  );
+}
+
+// Requests grouped by folder, in the order the folders first appear
+function groupByFolder(requests: CollectionRequest[]): Array<[string | null, CollectionRequest[]]> {
+  const groups = new Map<string | null, CollectionRequest[]>();
+  for (const request of requests) {
+    const group = groups.get(request.folder) || [];
+    group.push(request);
+    groups.set(request.folder, group);
+  }
+  return Array.from(groups);
+}
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'mindat-requests';
+}
+
+function postmanItem(request: CollectionRequest): Record<string, unknown> {
+  const { method, pathParams, query, body } = requestParts(request);
+  const path = request.endpoint.path.replace(/\{([^}]+)\}/g, ':$1');
+  const search = queryString(query);
+
+  return {
+    name: request.name,
+    request: {
+      method,
+      header: body ? [{ key: 'Content-Type', value: 'application/json' }] : [],
+      url: {
+        raw: `{{baseUrl}}${path}${search ? `?${search}` : ''}`,
+        host: ['{{baseUrl}}'],
+        path: path.replace(/^\//, '').split('/'),
+        ...(query.length > 0 && {
+          query: query.map(([key, value]) => ({ key, value: encodeURIComponent(value) }))
+        }),
+        ...(pathParams.length > 0 && {
+          variable: pathParams.map(([key, value]) => ({ key, value }))
+        })
+      },
+      ...(body && {
+        body: { mode: 'raw', raw: JSON.stringify(body, null, 2), options: { raw: { language: 'json' } } }
+      }),
+      ...(request.endpoint.summary && { description: request.endpoint.summary })
+    },
+    response: []
+  };
+}
+
+function exportPostman(requests: CollectionRequest[], name: string, baseUrl: string): string {
+  const items = groupByFolder(requests).flatMap(([folder, group]) =>
+    folder ? [{ name: folder, item: group.map(postmanItem) }] : group.map(postmanItem)
+  );
+
+  return JSON.stringify({
+    info: { name, schema: POSTMAN_SCHEMA },
+    auth: {
+      type: 'apikey',
+      apikey: [
+        { key: 'key', value: 'Authorization', type: 'string' },
+        { key: 'value', value: 'Token {{apiKey}}', type: 'string' },
+        { key: 'in', value: 'header', type: 'string' }
+      ]
+    },
+    item: items,
+    variable: [
+      { key: 'baseUrl', value: baseUrl },
+      { key: 'apiKey', value: '' }
+    ]
+  }, null, 2);
+}
+
+function exportInsomnia(requests: CollectionRequest[], name: string, baseUrl: string): string {
+  const workspaceId = 'wrk_mindat';
+  const resources: Array<Record<string, unknown>> = [
+    { _id: workspaceId, _type: 'workspace', parentId: null, name, scope: 'collection' },
+    { _id: 'env_mindat', _type: 'environment', parentId: workspaceId, name: 'Base Environment', data: { baseUrl, apiKey: '' } }
+  ];
+
+  groupByFolder(requests).forEach(([folder, group], folderIndex) => {
+    const parentId = folder ? `fld_${folderIndex + 1}` : workspaceId;
+    if (folder) resources.push({ _id: parentId, _type: 'request_group', parentId: workspaceId, name: folder });
+
+    group.forEach((request, requestIndex) => {
+      const { method, pathParams, query, body } = requestParts(request);
+      resources.push({
+        _id: `req_${folderIndex + 1}_${requestIndex + 1}`,
+        _type: 'request',
+        parentId,
+        name: request.name,
+        description: request.endpoint.summary || '',
+        method,
+        url: `{{ _.baseUrl }}${filledPath(request.endpoint.path, pathParams)}`,
+        parameters: query.map(([key, value]) => ({ name: key, value })),
+        headers: [
+          { name: 'Authorization', value: 'Token {{ _.apiKey }}' },
+          ...(body ? [{ name: 'Content-Type', value: 'application/json' }] : [])
+        ],
+        body: body ? { mimeType: 'application/json', text: JSON.stringify(body, null, 2) } : {}
+      });
+    });
+  });
+
+  return JSON.stringify({
+    _type: 'export',
+    __export_format: 4,
+    __export_date: new Date().toISOString(),
+    __export_source: 'mindat-api-explorer',
+    resources
+  }, null, 2);
+}
+
+function exportHttp(requests: CollectionRequest[], name: string, baseUrl: string): string {
+  const lines = [`# ${name}`, `@baseUrl = ${baseUrl}`, '@apiKey = YOUR_API_KEY', ''];
+
+  for (const request of requests) {
+    const { method, pathParams, query, body } = requestParts(request);
+    const search = queryString(query);
+
+    lines.push(`### ${request.name}`);
+    if (request.folder) lines.push(`# Folder: ${request.folder}`);
+    lines.push(`${method} {{baseUrl}}${filledPath(request.endpoint.path, pathParams)}${search ? `?${search}` : ''}`);
+    lines.push('Authorization: Token {{apiKey}}');
+    if (body) lines.push('Content-Type: application/json', '', JSON.stringify(body, null, 2));
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Serialise requests as a Postman collection, an Insomnia export or a `.http` file
+ */
+export function exportCollection(
+  requests: CollectionRequest[],
+  format: CollectionFormat,
+  options: { name: string; baseUrl: string }
+): CollectionFile {
+  const slug = slugify(options.name);
+
+  switch (format) {
+    case 'postman':
+      return {
+        filename: `${slug}.postman_collection.json`,
+        contentType: 'application/json',
+        content: exportPostman(requests, options.name, options.baseUrl)
+      };
+    case 'insomnia':
+      return {
+        filename: `${slug}.insomnia.json`,
+        contentType: 'application/json',
+        content: exportInsomnia(requests, options.name, options.baseUrl)
+      };
+    case 'http':
+      return {
+        filename: `${slug}.http`,
+        contentType: 'text/plain; charset=utf-8',
+        content: exportHttp(requests, options.name, options.baseUrl)
+      };
+    default:
+      throw new CollectionFormatError(`Unsupported collection format: ${format}`);
+  }
+}
+
+export function parseCollectionFormat(value: unknown): CollectionFormat {
+  if (typeof value === 'string' && (COLLECTION_FORMATS as string[]).includes(value)) {
+    return value as CollectionFormat;
+  }
+  throw new CollectionFormatError(`format must be one of ${COLLECTION_FORMATS.join(', ')}`);
+}
+
+// Replace `{{name}}` and Insomnia's `{{ _.name }}` with the variables a file defines
+function resolveVariables(text: string, variables: Record<string, string>): string {
+  return text.replace(/\{\{\s*(?:_\.)?([\w.-]+)\s*\}\}/g, (match, name) =>
+    variables[name] !== undefined ? variables[name] : match
+  );
+}
+
+function decode(value: string): string {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+  } catch (e) {
+    return value;
+  }
+}
+
+// Path and query of a URL whose host may still be an unresolved `{{variable}}`
+function splitUrl(url: string): { path: string; query: Array<[string, string]> } {
+  let rest = url.trim().replace(/^\{\{[^}]*\}\}/, '').replace(/^[a-z][a-z0-9+.-]*:\/\/[^/?#]*/i, '');
+  rest = rest.split('#')[0];
+
+  const queryIndex = rest.indexOf('?');
+  const path = (queryIndex === -1 ? rest : rest.slice(0, queryIndex)) || '/';
+  const search = queryIndex === -1 ? '' : rest.slice(queryIndex + 1);
+
+  const query = search
+    .split('&')
+    .filter(Boolean)
+    .map((pair): [string, string] => {
+      const equals = pair.indexOf('=');
+      return equals === -1 ? [decode(pair), ''] : [decode(pair.slice(0, equals)), decode(pair.slice(equals + 1))];
+    });
+
+  return { path: path.startsWith('/') ? path : `/${path}`, query };
+}
+
+function parseBody(text: unknown): unknown {
+  if (typeof text !== 'string' || !text.trim()) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    return undefined;
+  }
+}
+
+function variableMap(entries: unknown): Record<string, string> {
+  const variables: Record<string, string> = {};
+  if (Array.isArray(entries)) {
+    for (const entry of entries) {
+      if (entry && typeof entry.key === 'string' && entry.value !== undefined) variables[entry.key] = String(entry.value);
+    }
+  }
+  return variables;
+}
+
+function parsePostman(collection: any): ImportedRequest[] {
+  const variables = variableMap(collection.variable);
+  const requests: ImportedRequest[] = [];
+
+  const walk = (items: any[], folder: string | null) => {
+    for (const item of items || []) {
+      if (Array.isArray(item.item)) {
+        walk(item.item, folder ? `${folder} / ${item.name}` : item.name);
+        continue;
+      }
+      if (!item.request) continue;
+
+      const request = typeof item.request === 'string' ? { url: item.request } : item.request;
+      const url = typeof request.url === 'string' ? { raw: request.url } : request.url || {};
+      let raw = url.raw;
+      if (!raw && Array.isArray(url.path)) {
+        raw = `/${url.path.join('/')}${url.query ? `?${queryString(url.query.map((entry: any) => [entry.key, entry.value ?? '']))}` : ''}`;
+      }
+      if (!raw) continue;
+
+      const { path, query } = splitUrl(resolveVariables(raw, variables));
+      const pathVariables = variableMap(url.variable);
+      const filled = path.replace(/:([A-Za-z_][\w-]*)/g, (match, name) =>
+        pathVariables[name] ? encodeURIComponent(resolveVariables(pathVariables[name], variables)) : `{${name}}`
+      );
+
+      let body: unknown;
+      if (request.body?.mode === 'raw') {
+        body = parseBody(resolveVariables(request.body.raw || '', variables));
+      } else if (request.body?.mode === 'urlencoded' && Array.isArray(request.body.urlencoded)) {
+        body = Object.fromEntries(
+          request.body.urlencoded.filter((entry: any) => !entry.disabled).map((entry: any) => [entry.key, entry.value])
+        );
+      }
+
+      requests.push({
+        name: item.name || `${(request.method || 'GET').toUpperCase()} ${filled}`,
+        folder,
+        method: (request.method || 'GET').toUpperCase(),
+        path: filled,
+        query: query.map(([key, value]) => [key, resolveVariables(value, variables)]),
+        body
+      });
+    }
+  };
+
+  walk(collection.item, null);
+  return requests;
+}
+
+function parseInsomnia(exported: any): ImportedRequest[] {
+  const resources: any[] = Array.isArray(exported.resources) ? exported.resources : [];
+  const byId = new Map(resources.map(resource => [resource._id, resource]));
+
+  // Only the base environments (directly under a workspace) are used
+  const variables: Record<string, string> = {};
+  for (const resource of resources) {
+    if (resource._type === 'environment' && byId.get(resource.parentId)?._type === 'workspace') {
+      for (const [key, value] of Object.entries(resource.data || {})) {
+        if (typeof value === 'string' || typeof value === 'number') variables[key] = String(value);
+      }
+    }
+  }
+
+  const folderOf = (parentId: string | null): string | null => {
+    const names: string[] = [];
+    let parent = parentId ? byId.get(parentId) : undefined;
+    while (parent && parent._type === 'request_group') {
+      names.unshift(parent.name);
+      parent = byId.get(parent.parentId);
+    }
+    return names.length > 0 ? names.join(' / ') : null;
+  };
+
+  return resources
+    .filter(resource => resource._type === 'request' && resource.url)
+    .map(resource => {
+      const method = (resource.method || 'GET').toUpperCase();
+      const { path, query } = splitUrl(resolveVariables(resource.url, variables));
+      for (const parameter of resource.parameters || []) {
+        if (!parameter.disabled && parameter.name) {
+          query.push([parameter.name, resolveVariables(String(parameter.value ?? ''), variables)]);
+        }
+      }
+
+      return {
+        name: resource.name || `${method} ${path}`,
+        folder: folderOf(resource.parentId),
+        method,
+        path,
+        query,
+        body: parseBody(resolveVariables(resource.body?.text || '', variables))
+      };
+    });
+}
+
+function parseHttpFile(content: string): ImportedRequest[] {
+  const variables: Record<string, string> = {};
+  const requests: ImportedRequest[] = [];
+  const blocks: Array<{ title: string; lines: string[] }> = [{ title: '', lines: [] }];
+
+  for (const line of content.split(/\r?\n/)) {
+    const variable = line.match(/^@([\w.-]+)\s*=\s*(.*)$/);
+    if (variable) {
+      variables[variable[1]] = variable[2].trim();
+    } else if (line.startsWith('###')) {
+      blocks.push({ title: line.slice(3).trim(), lines: [] });
+    } else {
+      blocks[blocks.length - 1].lines.push(line);
+    }
+  }
+
+  for (const block of blocks) {
+    let name = block.title;
+    let folder: string | null = null;
+    let index = 0;
+
+    // Comments before the request line: `# @name`, `# Folder:` and anything else
+    for (; index < block.lines.length; index++) {
+      const line = block.lines[index].trim();
+      if (!line) continue;
+      if (!line.startsWith('#') && !line.startsWith('//')) break;
+
+      const comment = line.replace(/^(#|\/\/)\s*/, '');
+      const nameTag = comment.match(/^@name\s+(.+)$/);
+      const folderTag = comment.match(/^Folder:\s*(.+)$/i);
+      if (nameTag && !name) name = nameTag[1].trim();
+      if (folderTag) folder = folderTag[1].trim();
+    }
+    if (index >= block.lines.length) continue;
+
+    const requestLine = block.lines[index].trim().match(/^(?:([A-Za-z]+)\s+)?(\S+)(?:\s+HTTP\/[\d.]+)?$/);
+    if (!requestLine) continue;
+    const method = (requestLine[1] || 'GET').toUpperCase();
+    if (!HTTP_METHODS.includes(method)) continue;
+
+    // Query continuation lines (`?a=1`, `&b=2`), then headers up to the blank line
+    let url = requestLine[2];
+    index++;
+    for (; index < block.lines.length && /^\s*[?&]/.test(block.lines[index]); index++) {
+      url += block.lines[index].trim();
+    }
+    while (index < block.lines.length && block.lines[index].trim()) index++;
+
+    const { path, query } = splitUrl(resolveVariables(url, variables));
+    requests.push({
+      name: name || `${method} ${path}`,
+      folder,
+      method,
+      path,
+      query,
+      body: parseBody(resolveVariables(block.lines.slice(index).join('\n'), variables))
+    });
+  }
+
+  return requests;
+}
+
+/**
+ * Requests in a Postman collection, Insomnia export or `.http` file; the format
+ * is detected from the content
+ */
+export function parseCollection(content: string): { format: CollectionFormat; requests: ImportedRequest[] } {
+  const text = content.replace(/^\uFEFF/, '').trim();
+  if (!text) throw new CollectionFormatError('The file is empty');
+
+  if (text.startsWith('{')) {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(text);
+    } catch (e) {
+      throw new CollectionFormatError('The file is not valid JSON');
+    }
+
+    if (parsed.info && Array.isArray(parsed.item)) {
+      return { format: 'postman', requests: parsePostman(parsed) };
+    }
+    if (parsed._type === 'export' && Array.isArray(parsed.resources)) {
+      return { format: 'insomnia', requests: parseInsomnia(parsed) };
+    }
+    throw new CollectionFormatError('Expected a Postman v2.1 collection or an Insomnia export');
+  }
+
+  return { format: 'http', requests: parseHttpFile(text) };
+}
+
+function templatePattern(path: string): { pattern: RegExp; names: string[] } {
+  const names: string[] = [];
+  const source = path
+    .replace(/\/+$/, '')
+    .split(/(\{[^}]+\})/)
+    .map(part => {
+      const name = part.match(/^\{([^}]+)\}$/);
+      if (name) {
+        names.push(name[1]);
+        return '([^/]+)';
+      }
+      return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return { pattern: new RegExp(`${source}/?$`), names };
+}
+
+/**
+ * The explorer endpoint an imported request calls, with its parameters in the
+ * shape saved requests store them. Paths under a prefix (e.g. `/api/...`) match
+ * only when no endpoint matches the whole path.
+ */
+export function matchEndpoint(request: ImportedRequest, endpoints: APIEndpoint[]): MatchedRequest | null {
+  let best: { endpoint: APIEndpoint; values: Record<string, string>; exact: boolean } | null = null;
+
+  for (const endpoint of endpoints) {
+    if (endpoint.method.toUpperCase() !== request.method) continue;
+
+    const { pattern, names } = templatePattern(endpoint.path);
+    const match = request.path.match(pattern);
+    if (!match) continue;
+
+    const exact = match.index === 0;
+    const values: Record<string, string> = {};
+    names.forEach((name, i) => { values[name] = decode(match[i + 1]); });
+
+    const better = !best
+      || (exact && !best.exact)
+      || (exact === best.exact && names.length < Object.keys(best.values).length);
+    if (better) best = { endpoint, values, exact };
+  }
+
+  if (!best) return null;
+
+  const parameters: Record<string, any> = {};
+  for (const [name, value] of Object.entries(best.values)) {
+    if (!/^\{.*\}$/.test(value)) parameters[name] = value;
+  }
+
+  const declared = new Map((best.endpoint.parameters || []).map(parameter => [parameter.name, parameter]));
+  for (const [name, value] of request.query) {
+    const existing = parameters[name];
+    if (existing === undefined) {
+      const parameter = declared.get(name);
+      parameters[name] = parameter?.schema?.type === 'array' && parameter.explode !== false ? [value] : value;
+    } else {
+      parameters[name] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+    }
+  }
+
+  if (request.body && typeof request.body === 'object' && !Array.isArray(request.body)) {
+    for (const [name, value] of Object.entries(request.body as Record<string, unknown>)) {
+      if (parameters[name] === undefined) parameters[name] = value;
+    }
+  }
+
+  return { name: request.name, folder: request.folder, endpoint: best.endpoint, parameters };
+}
@@ -0,0 +1,168 @@
+/**
+ * Search Result Export
+ *
+ * Writes a whole search result set to the response instead of one page:
+ * 1. Results are read in batches and written as they arrive, waiting for the
+ *    client to drain the socket, so memory use does not grow with the result size
+ * 2. CSV, NDJSON (one JSON object per line) and XLSX (streamed workbook) output
+ * 3. Columns are chosen by name from the table's columns (`columns=id,name,imaFormula`)
+ * 4. Errors before the first batch are reported as JSON; later errors abort the
+ *    download so a truncated file is not mistaken for a complete one
+ */
+
+import type { Response } from 'express';
+import ExcelJS from 'exceljs';
+import { getTableColumns, type Table } from 'drizzle-orm';
+
+export const EXPORT_FORMATS = ['csv', 'ndjson', 'xlsx'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const EXPORT_BATCH_SIZE = 1000;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+export interface ExportOptions {
+  format: ExportFormat;
+  columns: string[];
+}
+
+export class ExportQueryError extends Error {}
+
+/**
+ * Parse `format` (csv by default) and `columns` against the columns of `table`
+ */
+export function parseExportOptions(query: Record<string, unknown>, table: Table, defaultColumns: string[]): ExportOptions {
+  const format = (typeof query.format === 'string' && query.format ? query.format.toLowerCase() : 'csv') as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    throw new ExportQueryError(`format must be one of ${EXPORT_FORMATS.join(', ')}`);
+  }
+
+  const available = Object.keys(getTableColumns(table));
+  let columns = defaultColumns;
+  if (typeof query.columns === 'string' && query.columns.trim()) {
+    columns = query.columns.split(',').map(column => column.trim()).filter(Boolean);
+    const unknown = columns.filter(column => !available.includes(column));
+    if (unknown.length > 0) {
+      throw new ExportQueryError(`Unknown column(s): ${unknown.join(', ')}. Available: ${available.join(', ')}`);
+    }
+  }
+
+  return { format, columns };
+}
+
+/**
+ * Read a result set `batchSize` rows at a time until a short batch comes back
+ */
+export async function* inBatches<T>(
+  fetchBatch: (limit: number, offset: number) => Promise<T[]>,
+  batchSize: number = EXPORT_BATCH_SIZE
+): AsyncGenerator<T[]> {
+  for (let offset = 0; ; offset += batchSize) {
+    const batch = await fetchBatch(batchSize, offset);
+    if (batch.length > 0) yield batch;
+    if (batch.length < batchSize) return;
+  }
+}
+
+// Flat value for a spreadsheet cell; arrays become "a; b", objects JSON
+function toCellValue(value: unknown): string | number | boolean | null {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(item => typeof item === 'object' ? JSON.stringify(item) : String(item)).join('; ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return value as string | number | boolean;
+}
+
+const csvCell = (value: unknown) => {
+  const cell = toCellValue(value);
+  const text = cell === null ? '' : String(cell);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One CSV line (RFC 4180 quoting, CRLF terminated)
+ */
+export function csvLine(values: unknown[]): string {
+  return values.map(csvCell).join(',') + '\r\n';
+}
+
+// Wait for the socket to drain (or close) before writing more
+async function write(res: Response, chunk: string) {
+  if (res.write(chunk)) return;
+
+  await new Promise<void>(resolve => {
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.on('drain', done);
+    res.on('close', done);
+  });
+}
+
+/**
+ * Stream every batch to the response as a `filename`.csv/.ndjson/.xlsx download
+ */
+export async function streamExport<T extends Record<string, unknown>>(
+  res: Response,
+  batches: AsyncIterable<T[]>,
+  options: ExportOptions & { filename: string }
+): Promise<void> {
+  const { format, columns, filename } = options;
+  const iterator = batches[Symbol.asyncIterator]();
+
+  // Let the first query fail before anything is sent
+  let next = await iterator.next();
+
+  let aborted = false;
+  res.on('close', () => {
+    aborted = !res.writableFinished;
+  });
+
+  res.status(200);
+  res.set('Content-Type', CONTENT_TYPES[format]);
+  res.set('Content-Disposition', `attachment; filename="${filename}.${format}"`);
+  res.set('Cache-Control', 'no-store');
+
+  try {
+    if (format === 'xlsx') {
+      const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useStyles: false, useSharedStrings: false });
+      const worksheet = workbook.addWorksheet('Results');
+      worksheet.addRow(columns).commit();
+
+      while (!next.done && !aborted) {
+        next.value.forEach(row => worksheet.addRow(columns.map(column => toCellValue(row[column]))).commit());
+        next = await iterator.next();
+      }
+
+      worksheet.commit();
+      await workbook.commit();
+      return;
+    }
+
+    if (format === 'csv') {
+      await write(res, csvLine(columns));
+    }
+
+    while (!next.done && !aborted) {
+      const chunk = next.value.map(row => format === 'csv'
+        ? csvLine(columns.map(column => row[column]))
+        : JSON.stringify(Object.fromEntries(columns.map(column => [column, row[column] ?? null]))) + '\n'
+      ).join('');
+      await write(res, chunk);
+      next = await iterator.next();
+    }
+
+    res.end();
+  } catch (error) {
+    console.error(`Error streaming ${format} export:`, error);
+    res.destroy(error as Error);
+  } finally {
+    if (aborted) await iterator.return?.(undefined);
+  }
+}
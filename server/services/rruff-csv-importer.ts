@@ -6,16 +6,23 @@
  * 1. Download CSV files from RRUFF source
  * 2. Parse CSV data into structured objects
  * 3. Import data into database tables
- * 4. Track import progress and errors
+ * 4. Download and parse the spectrum data files for each sample
+ * 5. Import spectrum files from local directories or zip archives under
+ *    RRUFF_IMPORT_DIR (default ./tmp/rruff-imports)
+ * 6. Track import progress and errors
  */
 
 import { parse } from 'csv-parse';
-import fetch from 'node-fetch';
+import fetch, { type RequestInit, type Response } from 'node-fetch';
 import fs from 'fs';
 import path from 'path';
 import { db } from '../db';
 import { rruffMinerals, rruffSpectra, rruffDataImportLogs } from '@shared/rruff-schema';
-import { eq, sql } from 'drizzle-orm';
+import { eq, ilike, sql } from 'drizzle-orm';
+import AdmZip from 'adm-zip';
+import { rruffPeakService } from './rruff-peak-service';
+import { parseRruffSpectrumFile, ParsedRruffSpectrum } from './rruff-file-parser';
+import { parseFormula } from './formula-parser';
 
 // Base URL for RRUFF data downloads
 const RRUFF_BASE_URL = 'https://rruff.info/zipped_data_files';
@@ -29,6 +36,39 @@ const TEMP_DIR = path.join(process.cwd(), 'tmp');
 const MINERAL_CSV_PATH = path.join(TEMP_DIR, 'mineral_list.csv');
 const SPECTRA_CSV_PATH = path.join(TEMP_DIR, 'raman_list.csv');
 
+// Give up on a spectrum download that has not finished in this time
+const DOWNLOAD_TIMEOUT_MS = 30000;
+
+export class RruffImportPathError extends Error {}
+
+export function getRruffImportDir(): string {
+  return path.resolve(process.env.RRUFF_IMPORT_DIR || path.join(TEMP_DIR, 'rruff-imports'));
+}
+
+/**
+ * Absolute path of a spectrum source, which must exist inside the import directory
+ * (symlinks are followed before checking)
+ */
+export function resolveImportPath(sourcePath: string): string {
+  const root = getRruffImportDir();
+  const resolved = path.resolve(root, sourcePath);
+
+  if (!fs.existsSync(root)) {
+    throw new RruffImportPathError(`Import directory ${root} does not exist`);
+  }
+  if (!fs.existsSync(resolved)) {
+    throw new RruffImportPathError(`Spectrum source not found: ${sourcePath}`);
+  }
+
+  const realRoot = fs.realpathSync(root);
+  const realPath = fs.realpathSync(resolved);
+  if (realPath !== realRoot && !realPath.startsWith(realRoot + path.sep)) {
+    throw new RruffImportPathError(`Spectrum sources must be inside ${root}`);
+  }
+
+  return realPath;
+}
+
 // Import result interface
 interface ImportResult {
   mineralsCount: number;
@@ -212,6 +252,10 @@ export class RruffCsvImporter {
                   color: sql`excluded.color`,
                   density: sql`excluded.density`,
                   hardness: sql`excluded.hardness`,
+                  elementComposition: sql`excluded.element_composition`,
+                  molecularWeight: sql`excluded.molecular_weight`,
+                  elementWeightPercents: sql`excluded.element_weight_percents`,
+                  oxideWeightPercents: sql`excluded.oxide_weight_percents`,
                   lastUpdated: sql`CURRENT_TIMESTAMP`,
                   dataVersion: sql`${rruffMinerals.dataVersion} + 1`
                 }
@@ -235,6 +279,8 @@ export class RruffCsvImporter {
    * Process a mineral record from CSV
    */
   private processMineralRecord(record: any): any {
+    const composition = parseFormula(record.Formula);
+
     // Extract and transform data from CSV record to database schema
     return {
       rruffId: record.ID || null,
@@ -249,7 +295,10 @@ export class RruffCsvImporter {
       density: record.Density || null,
       hardness: record.Hardness || null,
       opticalProperties: this.parseOpticalProperties(record),
-      elementComposition: this.parseElements(record.Formula || ''),
+      elementComposition: composition?.elements || {},
+      molecularWeight: composition?.molecularWeight || null,
+      elementWeightPercents: composition?.elementWeightPercents || {},
+      oxideWeightPercents: composition?.oxideWeightPercents || {},
       yearFirstPublished: record.Year ? parseInt(record.Year) : null,
       url: `https://rruff.info/mineral/${record.ID}`,
       isActive: true
@@ -287,17 +336,6 @@ export class RruffCsvImporter {
     return properties;
   }
   
-  /**
-   * Extract elements from chemical formula
-   */
-  private parseElements(formula: string): string[] {
-    // Simple element extraction - would need more sophisticated parsing for complex formulas
-    const elementRegex = /([A-Z][a-z]?)(?=[0-9\+\-\(\)]|[A-Z]|$)/g;
-    const matches = formula.match(elementRegex) || [];
-    // Remove duplicates without using Set spread
-    return matches.filter((element, index) => matches.indexOf(element) === index);
-  }
-  
   /**
    * Import spectra data from CSV
    */
@@ -328,31 +366,7 @@ export class RruffCsvImporter {
       }
       
       // Batch insert spectra
-      if (spectra.length > 0) {
-        try {
-          const batchSize = 100;
-          for (let i = 0; i < spectra.length; i += batchSize) {
-            const batch = spectra.slice(i, i + batchSize);
-            await db.insert(rruffSpectra)
-              .values(batch)
-              .onConflictDoUpdate({
-                target: [rruffSpectra.mineralId, rruffSpectra.sampleId, rruffSpectra.spectraType],
-                set: {
-                  orientation: sql`excluded.orientation`,
-                  wavelength: sql`excluded.wavelength`,
-                  temperature: sql`excluded.temperature`,
-                  pressure: sql`excluded.pressure`,
-                  dataUrl: sql`excluded.data_url`,
-                  updatedAt: sql`CURRENT_TIMESTAMP`
-                }
-              });
-            
-            console.log(`Imported/updated ${batch.length} spectra (batch ${i/batchSize + 1}/${Math.ceil(spectra.length/batchSize)})`);
-          }
-        } catch (error: any) {
-          errors.push(`Error batch inserting spectra: ${error.message}`);
-        }
-      }
+      await this.upsertSpectra(spectra, errors);
       
       return { count: spectra.length, errors };
     } catch (error: any) {
@@ -361,6 +375,46 @@ export class RruffCsvImporter {
     }
   }
   
+  /**
+   * Insert or update spectra in batches and extract their peak lists
+   */
+  private async upsertSpectra(spectra: any[], errors: string[]): Promise<void> {
+    if (spectra.length === 0) {
+      return;
+    }
+    
+    try {
+      const batchSize = 100;
+      for (let i = 0; i < spectra.length; i += batchSize) {
+        const batch = spectra.slice(i, i + batchSize);
+        const inserted = await db.insert(rruffSpectra)
+          .values(batch)
+          .onConflictDoUpdate({
+            target: [rruffSpectra.mineralId, rruffSpectra.sampleId, rruffSpectra.spectraType],
+            set: {
+              orientation: sql`excluded.orientation`,
+              wavelength: sql`excluded.wavelength`,
+              temperature: sql`excluded.temperature`,
+              pressure: sql`excluded.pressure`,
+              locality: sql`excluded.locality`,
+              dataUrl: sql`excluded.data_url`,
+              dataPoints: sql`excluded.data_points`,
+              updatedAt: sql`CURRENT_TIMESTAMP`
+            }
+          })
+          .returning({ id: rruffSpectra.id });
+        
+        console.log(`Imported/updated ${batch.length} spectra (batch ${i/batchSize + 1}/${Math.ceil(spectra.length/batchSize)})`);
+        
+        // Extract and store peak lists for the spectra in this batch
+        const peakResult = await rruffPeakService.storePeaksForSpectra(inserted.map(row => row.id));
+        errors.push(...peakResult.errors);
+      }
+    } catch (error: any) {
+      errors.push(`Error batch inserting spectra: ${error.message}`);
+    }
+  }
+  
   /**
    * Process a spectral record from CSV
    */
@@ -377,8 +431,10 @@ export class RruffCsvImporter {
         return null;
       }
       
+      const dataUrl = `https://rruff.info/cgi-bin/download_data.cgi?type=sample&sample_id=${encodeURIComponent(record.SampleID || '')}`;
+      
       // Extract and transform data from CSV record to database schema
-      return {
+      const spectrum = {
         mineralId: mineral.id,
         spectraType: 'raman', // CSV contains Raman data
         sampleId: record.SampleID || '',
@@ -386,13 +442,236 @@ export class RruffCsvImporter {
         wavelength: record.Wavelength || null,
         temperature: record.Temperature || 'ambient',
         pressure: record.Pressure || 'ambient',
-        dataUrl: `https://rruff.info/cgi-bin/download_data.cgi?type=sample&sample_id=${record.SampleID}`,
-        dataPoints: [] // Would need separate download for actual spectral data points
+        locality: null as string | null,
+        dataUrl,
+        dataPoints: [] as Array<[number, number]>
       };
+      
+      // Download the sample's data file; keep the metadata-only record if that fails
+      try {
+        const parsed = (await this.downloadSpectrumFiles(dataUrl))
+          .find(file => file.spectraType === spectrum.spectraType && file.dataPoints.length > 0);
+        
+        if (parsed) {
+          return { ...spectrum, ...this.toSpectraRecord(parsed, mineral.id), dataUrl };
+        }
+      } catch (error: any) {
+        console.warn(`Could not download spectrum data for sample ${record.SampleID}: ${error.message}`);
+      }
+      
+      return spectrum;
     } catch (error: any) {
       throw new Error(`Error processing spectra record: ${error.message}`);
     }
   }
+  
+  /**
+   * Download a RRUFF spectrum file (plain text or zip archive) and parse it.
+   * Times out after DOWNLOAD_TIMEOUT_MS so a stalled connection cannot hang an import.
+   */
+  async downloadSpectrumFiles(url: string): Promise<ParsedRruffSpectrum[]> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), DOWNLOAD_TIMEOUT_MS);
+    
+    let response: Response;
+    let buffer: Buffer;
+    try {
+      response = await fetch(url, { signal: controller.signal as RequestInit['signal'] });
+      
+      if (!response.ok) {
+        throw new Error(`Failed to download spectrum from ${url}: ${response.statusText}`);
+      }
+      
+      buffer = Buffer.from(await response.arrayBuffer());
+    } catch (error: any) {
+      if (error.name === 'AbortError') {
+        throw new Error(`Timed out downloading spectrum from ${url}`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+    
+    if (this.isZipArchive(buffer)) {
+      return this.parseZipArchive(buffer);
+    }
+    
+    const disposition = response.headers.get('content-disposition') || '';
+    const fileName = disposition.match(/filename="?([^";]+)"?/i)?.[1] || url;
+    return [parseRruffSpectrumFile(buffer.toString('utf8'), fileName)];
+  }
+  
+  /**
+   * Import spectrum files from a local directory or zip archive.
+   * Each file is matched to a mineral by the name in its `##NAMES` header
+   * (or DIF title line), so offline RRUFF dumps can be loaded without network access.
+   */
+  async importSpectraFromPath(sourcePath: string): Promise<ImportResult> {
+    const startTime = new Date();
+    const errors: string[] = [];
+    const spectra: any[] = [];
+    
+    const [importLog] = await db.insert(rruffDataImportLogs)
+      .values({
+        status: 'in_progress',
+        startTime,
+        mineralsImported: 0,
+        spectraImported: 0,
+        errors: [],
+        details: { source: sourcePath }
+      })
+      .returning();
+    
+    try {
+      if (!fs.existsSync(sourcePath)) {
+        throw new Error(`Spectrum source not found: ${sourcePath}`);
+      }
+      
+      const parsedFiles = fs.statSync(sourcePath).isDirectory()
+        ? this.parseDirectory(sourcePath, errors)
+        : this.parseZipArchive(fs.readFileSync(sourcePath), errors);
+      
+      console.log(`Parsed ${parsedFiles.length} spectrum files from ${sourcePath}`);
+      
+      // Resolve minerals by name, caching lookups
+      const mineralIds = new Map<string, number | null>();
+      for (const parsed of parsedFiles) {
+        const name = (parsed.metadata.names || '').split(',')[0].trim();
+        if (!name || parsed.dataPoints.length === 0) {
+          errors.push(`Skipping ${parsed.sampleId || 'unknown sample'}: missing mineral name or data points`);
+          continue;
+        }
+        
+        if (!mineralIds.has(name.toLowerCase())) {
+          const [mineral] = await db.select({ id: rruffMinerals.id })
+            .from(rruffMinerals)
+            .where(ilike(rruffMinerals.mineralName, name))
+            .limit(1);
+          mineralIds.set(name.toLowerCase(), mineral?.id ?? null);
+        }
+        
+        const mineralId = mineralIds.get(name.toLowerCase());
+        if (!mineralId) {
+          errors.push(`Skipping ${parsed.sampleId || name}: mineral "${name}" not in database`);
+          continue;
+        }
+        
+        spectra.push(this.toSpectraRecord(parsed, mineralId));
+      }
+      
+      await this.upsertSpectra(spectra, errors);
+      
+      const endTime = new Date();
+      await db.update(rruffDataImportLogs)
+        .set({
+          status: 'completed',
+          endTime,
+          spectraImported: spectra.length,
+          errors: errors as any
+        })
+        .where(eq(rruffDataImportLogs.id, importLog.id));
+      
+      return { mineralsCount: 0, spectraCount: spectra.length, errors, startTime, endTime };
+    } catch (error: any) {
+      console.error('Error importing spectrum files:', error);
+      
+      const endTime = new Date();
+      await db.update(rruffDataImportLogs)
+        .set({
+          status: 'failed',
+          endTime,
+          spectraImported: 0,
+          errors: [...errors, error.message || 'Unknown error during import'] as any
+        })
+        .where(eq(rruffDataImportLogs.id, importLog.id));
+      
+      return {
+        mineralsCount: 0,
+        spectraCount: 0,
+        errors: [...errors, error.message || 'Unknown error during import'],
+        startTime,
+        endTime
+      };
+    }
+  }
+  
+  /**
+   * Map a parsed spectrum file onto rruffSpectra columns
+   */
+  private toSpectraRecord(parsed: ParsedRruffSpectrum, mineralId: number): any {
+    const { metadata } = parsed;
+    const truncate = (value: string | undefined, length: number) => value ? value.slice(0, length) : null;
+    
+    return {
+      mineralId,
+      spectraType: parsed.spectraType,
+      sampleId: truncate(parsed.sampleId || undefined, 100) || '',
+      orientation: truncate(metadata.orientation, 50),
+      wavelength: truncate(metadata.wavelength, 50),
+      temperature: truncate(metadata.temperature, 50) || 'ambient',
+      pressure: truncate(metadata.pressure, 50) || 'ambient',
+      locality: metadata.locality || null,
+      dataUrl: metadata.url ? `https://${metadata.url.replace(/^https?:\/\//, '')}` : null,
+      dataPoints: parsed.dataPoints
+    };
+  }
+  
+  /**
+   * Parse every spectrum text file in a directory tree
+   */
+  private parseDirectory(dirPath: string, errors: string[] = []): ParsedRruffSpectrum[] {
+    const results: ParsedRruffSpectrum[] = [];
+    
+    for (const entry of fs.readdirSync(dirPath, { withFileTypes: true })) {
+      const entryPath = path.join(dirPath, entry.name);
+      
+      if (entry.isDirectory()) {
+        results.push(...this.parseDirectory(entryPath, errors));
+      } else if (/\.zip$/i.test(entry.name)) {
+        results.push(...this.parseZipArchive(fs.readFileSync(entryPath), errors));
+      } else if (/\.(txt|xy|dif)$/i.test(entry.name)) {
+        try {
+          results.push(parseRruffSpectrumFile(fs.readFileSync(entryPath, 'utf8'), entry.name));
+        } catch (error: any) {
+          errors.push(`Error parsing ${entry.name}: ${error.message}`);
+        }
+      }
+    }
+    
+    return results;
+  }
+  
+  /**
+   * Parse every spectrum text file inside a zip archive
+   */
+  private parseZipArchive(buffer: Buffer, errors: string[] = []): ParsedRruffSpectrum[] {
+    const results: ParsedRruffSpectrum[] = [];
+    const zip = new AdmZip(buffer);
+    
+    for (const entry of zip.getEntries()) {
+      if (entry.isDirectory) continue;
+      
+      const fileName = path.basename(entry.entryName);
+      try {
+        if (/\.zip$/i.test(fileName)) {
+          results.push(...this.parseZipArchive(entry.getData(), errors));
+        } else if (/\.(txt|xy|dif)$/i.test(fileName)) {
+          results.push(parseRruffSpectrumFile(entry.getData().toString('utf8'), fileName));
+        }
+      } catch (error: any) {
+        errors.push(`Error parsing ${fileName}: ${error.message}`);
+      }
+    }
+    
+    return results;
+  }
+  
+  /**
+   * Check for the zip local file header signature
+   */
+  private isZipArchive(buffer: Buffer): boolean {
+    return buffer.length > 4 && buffer.readUInt32LE(0) === 0x04034b50;
+  }
 }
 
 // Export singleton instance
@@ -4,6 +4,8 @@ import { InsertRruffMineral, InsertRruffSpectra, RruffMineral, RruffSpectra } fr
 import { db } from '../db';
 import { rruffDataImportLogs, rruffMinerals, rruffSpectra } from '@shared/rruff-schema';
 import { eq, sql } from 'drizzle-orm';
+import { rruffCsvImporter } from './rruff-csv-importer';
+import { parseFormula } from './formula-parser';
 
 /**
  * Service responsible for extracting data from RRUFF IMA database
@@ -121,20 +123,13 @@ export class RruffExtractor {
         .filter(index => index !== '');
       const opticalBirefringence = $('.optical_birefringence').text().trim();
       
-      // Extract element composition
-      const elementComposition: Record<string, number> = {};
-      $('.element_composition tr').each((_, row) => {
-        const element = $(row).find('td:first-child').text().trim();
-        const percentage = parseFloat($(row).find('td:last-child').text().trim());
-        if (element && !isNaN(percentage)) {
-          elementComposition[element] = percentage;
-        }
-      });
-      
       const yearFirstPublished = parseInt($('.year_first_published').text().trim()) || undefined;
       const idealChemistry = $('.ideal_chemistry').text().trim();
       const comments = $('.comments').text().trim();
       
+      // Element composition and weight percents from the formula
+      const composition = parseFormula(idealChemistry || chemicalFormula);
+      
       // Extract structure references
       const structureRefs: string[] = [];
       $('.structure_refs li').each((_, ref) => {
@@ -171,7 +166,10 @@ export class RruffExtractor {
           indices: opticalIndices,
           birefringence: opticalBirefringence
         },
-        elementComposition,
+        elementComposition: composition?.elements || {},
+        molecularWeight: composition?.molecularWeight,
+        elementWeightPercents: composition?.elementWeightPercents || {},
+        oxideWeightPercents: composition?.oxideWeightPercents || {},
         yearFirstPublished,
         idealChemistry,
         comments,
@@ -219,10 +217,28 @@ export class RruffExtractor {
           temperature,
           pressure,
           dataUrl
-          // dataPoints will be fetched and processed separately if needed
         });
       });
       
+      // Download and parse the raw data file for each spectrum
+      for (const spectrum of spectraList) {
+        if (!spectrum.dataUrl) continue;
+        
+        try {
+          const dataUrl = new URL(spectrum.dataUrl, this.baseUrl).toString();
+          const [parsed] = await rruffCsvImporter.downloadSpectrumFiles(dataUrl);
+          
+          if (parsed) {
+            spectrum.dataPoints = parsed.dataPoints;
+            spectrum.wavelength = spectrum.wavelength || parsed.metadata.wavelength?.slice(0, 50);
+            spectrum.orientation = spectrum.orientation || parsed.metadata.orientation?.slice(0, 50);
+            spectrum.locality = parsed.metadata.locality || null;
+          }
+        } catch (error) {
+          console.warn(`Could not download spectrum data from ${spectrum.dataUrl}:`, error);
+        }
+      }
+      
       return spectraList;
     } catch (error) {
       console.error(`Error fetching spectra for ${mineralName}:`, error);
@@ -0,0 +1,201 @@
+/**
+ * RRUFF Spectrum File Parser
+ *
+ * Parses the spectrum files RRUFF distributes in its zipped data dumps:
+ * 1. `##`-header text files (Raman, infrared and powder XY data)
+ * 2. DIF powder diffraction peak files with a free-text header
+ *
+ * Typical file names look like
+ * `Quartz__R040031-1__Raman_Data_Processed__13503.txt` or
+ * `Quartz__R040031-1__Powder__DIF_File__5656.txt`.
+ */
+
+import { SpectrumPoint, sortSpectrum } from './spectrum-processing';
+
+export interface RruffFileMetadata {
+  names?: string;
+  rruffId?: string;
+  idealChemistry?: string;
+  locality?: string;
+  owner?: string;
+  source?: string;
+  description?: string;
+  status?: string;
+  wavelength?: string;
+  orientation?: string;
+  temperature?: string;
+  pressure?: string;
+  url?: string;
+  spaceGroup?: string;
+  cellParameters?: number[];
+  [key: string]: string | number[] | undefined;
+}
+
+export interface ParsedRruffSpectrum {
+  spectraType: string; // raman, ftir, xrd
+  sampleId: string | null;
+  metadata: RruffFileMetadata;
+  dataPoints: SpectrumPoint[];
+}
+
+// Map of `##KEY` header names to metadata fields
+const HEADER_FIELDS: Record<string, keyof RruffFileMetadata> = {
+  'NAMES': 'names',
+  'RRUFFID': 'rruffId',
+  'IDEAL CHEMISTRY': 'idealChemistry',
+  'LOCALITY': 'locality',
+  'OWNER': 'owner',
+  'SOURCE': 'source',
+  'DESCRIPTION': 'description',
+  'STATUS': 'status',
+  'LASER_WAVELENGTH': 'wavelength',
+  'WAVELENGTH': 'wavelength',
+  'X-RAY WAVELENGTH': 'wavelength',
+  'ORIENTATION': 'orientation',
+  'TEMPERATURE': 'temperature',
+  'PRESSURE': 'pressure',
+  'URL': 'url'
+};
+
+/**
+ * Work out the spectrum type from a RRUFF file name
+ */
+export function spectraTypeFromFileName(fileName: string): string | null {
+  const name = fileName.toLowerCase();
+
+  if (name.includes('raman')) return 'raman';
+  if (name.includes('infrared') || name.includes('ftir') || name.includes('__ir_')) return 'ftir';
+  if (name.includes('xray') || name.includes('x-ray') || name.includes('powder') || name.includes('dif')) return 'xrd';
+
+  return null;
+}
+
+/**
+ * Extract the sample ID (e.g. `R040031-1`) from a RRUFF file name
+ */
+export function sampleIdFromFileName(fileName: string): string | null {
+  // `_` counts as a word character, so match the ID between non-alphanumerics instead of \b
+  const match = fileName.match(/(?:^|[^A-Za-z0-9])([RX]\d{6}(?:-\d+)?)(?![A-Za-z0-9])/i);
+  return match ? match[1].toUpperCase() : null;
+}
+
+/**
+ * Parse a `##`-header text file (Raman, infrared or powder XY data)
+ */
+export function parseHeaderTextFile(content: string): { metadata: RruffFileMetadata; dataPoints: SpectrumPoint[] } {
+  const metadata: RruffFileMetadata = {};
+  const points: SpectrumPoint[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (line.startsWith('##')) {
+      const separator = line.indexOf('=');
+      if (separator < 0) continue;
+
+      const key = line.slice(2, separator).trim().toUpperCase();
+      const value = line.slice(separator + 1).trim();
+      if (key === 'END' || !value) continue;
+
+      const field = HEADER_FIELDS[key];
+      if (field) {
+        metadata[field] = value;
+      } else {
+        metadata[key.toLowerCase()] = value;
+      }
+      continue;
+    }
+
+    const columns = line.split(/[\s,;]+/).filter(Boolean);
+    if (columns.length < 2) continue;
+
+    const x = parseFloat(columns[0]);
+    const y = parseFloat(columns[1]);
+    if (Number.isFinite(x) && Number.isFinite(y)) {
+      points.push([x, y]);
+    }
+  }
+
+  return { metadata, dataPoints: sortSpectrum(points) };
+}
+
+/**
+ * Parse a DIF powder diffraction file.
+ * The header is free text (mineral name, sample ID, cell parameters, space
+ * group, X-ray wavelength) followed by a `2-THETA INTENSITY D-SPACING H K L`
+ * table. Data points are returned as [2θ, intensity] pairs.
+ */
+export function parseDifFile(content: string): { metadata: RruffFileMetadata; dataPoints: SpectrumPoint[] } {
+  const metadata: RruffFileMetadata = {};
+  const points: SpectrumPoint[] = [];
+  let inTable = false;
+  let headerLineCount = 0;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (/2-?THETA/i.test(line) && /INTENSITY/i.test(line)) {
+      inTable = true;
+      continue;
+    }
+
+    if (inTable) {
+      const columns = line.split(/\s+/);
+      const twoTheta = parseFloat(columns[0]);
+      const intensity = parseFloat(columns[1]);
+      if (Number.isFinite(twoTheta) && Number.isFinite(intensity)) {
+        points.push([twoTheta, intensity]);
+      } else if (/^=+$/.test(line) || /^END/i.test(line)) {
+        inTable = false;
+      }
+      continue;
+    }
+
+    // Header lines
+    const wavelength = line.match(/X-RAY WAVELENGTH:?\s*([\d.]+)/i);
+    const cell = line.match(/CELL PARAMETERS:?\s*(.+)$/i);
+    const spaceGroup = line.match(/SPACE GROUP:?\s*(\S+)/i);
+    const sample = line.match(/\b([RX]\d{6}(?:-\d+)?)\b/);
+
+    if (wavelength) {
+      metadata.wavelength = wavelength[1];
+    } else if (cell) {
+      metadata.cellParameters = cell[1]
+        .split(/\s+/)
+        .map(value => parseFloat(value))
+        .filter(value => Number.isFinite(value));
+    } else if (spaceGroup) {
+      metadata.spaceGroup = spaceGroup[1];
+    } else if (sample && !metadata.rruffId) {
+      metadata.rruffId = sample[1];
+    } else if (headerLineCount === 0 && /^[A-Za-z][A-Za-z\s-]*$/.test(line)) {
+      metadata.names = line;
+    }
+
+    headerLineCount++;
+  }
+
+  return { metadata, dataPoints: sortSpectrum(points) };
+}
+
+/**
+ * Parse any RRUFF spectrum file, choosing the format from its contents
+ * and the spectrum type from its file name
+ */
+export function parseRruffSpectrumFile(content: string, fileName: string = ''): ParsedRruffSpectrum {
+  const isDif = /dif/i.test(fileName) || (/2-?THETA/i.test(content) && !content.includes('##'));
+  const { metadata, dataPoints } = isDif ? parseDifFile(content) : parseHeaderTextFile(content);
+
+  const spectraType = spectraTypeFromFileName(fileName)
+    || (isDif ? 'xrd' : null)
+    || (metadata.wavelength && parseFloat(metadata.wavelength) < 10 ? 'xrd' : 'raman');
+
+  return {
+    spectraType,
+    sampleId: sampleIdFromFileName(fileName) || metadata.rruffId || null,
+    metadata,
+    dataPoints
+  };
+}
@@ -0,0 +1,376 @@
+/**
+ * RRUFF Peak Service
+ *
+ * Extracts peak lists from stored RRUFF spectra and ranks minerals by how
+ * many observed peak positions they explain. It provides functions to:
+ * 1. Detect peak positions, relative intensities and widths in a spectrum
+ * 2. Store peak lists for imported spectra
+ * 3. Rebuild peak lists for every stored spectrum
+ * 4. Search minerals by a list of observed peak positions
+ */
+
+import { db } from '../db';
+import { rruffMinerals, rruffSpectra, rruffSpectrumPeaks, InsertRruffSpectrumPeak } from '@shared/rruff-schema';
+import { and, eq, ilike, inArray, or, sql } from 'drizzle-orm';
+import {
+  SpectrumPoint,
+  movingAverage,
+  normalizeToMax,
+  sortSpectrum,
+  subtractBaseline
+} from './spectrum-processing';
+
+export interface DetectedPeak {
+  position: number;
+  intensity: number;
+  width: number | null;
+  prominence: number;
+}
+
+export interface PeakDetectionOptions {
+  minProminence?: number; // relative to the strongest peak (0-1)
+  maxPeaks?: number;
+  smoothing?: number; // half window of the moving-average smooth, in samples
+}
+
+export interface PeakSearchOptions {
+  tolerance?: number; // in x units (cm⁻¹, 2θ, ...)
+  spectraType?: string;
+  minMatches?: number;
+  limit?: number;
+}
+
+export interface PeakSearchMatch {
+  mineralId: number;
+  mineralName: string;
+  chemicalFormula: string | null;
+  spectrumId: number;
+  sampleId: string | null;
+  spectraType: string;
+  matchedPeaks: number;
+  observedPeaks: number;
+  libraryPeaks: number;
+  meanError: number;
+  score: number;
+  matches: Array<{ observed: number; library: number; intensity: number }>;
+}
+
+/**
+ * Find peaks in a spectrum.
+ * The spectrum is baseline-corrected, lightly smoothed and normalized, then
+ * every local maximum whose prominence exceeds `minProminence` is kept.
+ */
+export function detectPeaks(points: SpectrumPoint[], options: PeakDetectionOptions = {}): DetectedPeak[] {
+  const { minProminence = 0.05, maxPeaks = 50, smoothing = 2 } = options;
+
+  const sorted = sortSpectrum(points);
+  if (sorted.length < 5) {
+    return [];
+  }
+
+  const xs = sorted.map(([x]) => x);
+  const corrected = subtractBaseline(sorted.map(([, y]) => y), Math.max(5, Math.round(sorted.length / 10)));
+  const ys = normalizeToMax(movingAverage(corrected, smoothing));
+
+  const peaks: DetectedPeak[] = [];
+
+  for (let i = 1; i < ys.length - 1; i++) {
+    // Local maximum; plateaus count once at their left edge
+    if (!(ys[i] > ys[i - 1] && ys[i] >= ys[i + 1])) continue;
+
+    // Prominence: drop to the higher of the two surrounding minima before
+    // reaching a taller sample on either side
+    let leftMin = ys[i];
+    for (let k = i - 1; k >= 0 && ys[k] <= ys[i]; k--) {
+      leftMin = Math.min(leftMin, ys[k]);
+    }
+    let rightMin = ys[i];
+    for (let k = i + 1; k < ys.length && ys[k] <= ys[i]; k++) {
+      rightMin = Math.min(rightMin, ys[k]);
+    }
+
+    const base = Math.max(leftMin, rightMin);
+    const prominence = ys[i] - base;
+    if (prominence < minProminence) continue;
+
+    peaks.push({
+      position: xs[i],
+      intensity: ys[i],
+      width: halfMaximumWidth(xs, ys, i, base + prominence / 2),
+      prominence
+    });
+  }
+
+  return peaks
+    .sort((a, b) => b.prominence - a.prominence)
+    .slice(0, maxPeaks)
+    .sort((a, b) => a.position - b.position)
+    .map(peak => ({
+      position: round(peak.position, 3),
+      intensity: round(peak.intensity, 4),
+      width: peak.width !== null ? round(peak.width, 3) : null,
+      prominence: round(peak.prominence, 4)
+    }));
+}
+
+/**
+ * Width of the peak at `level`, interpolating the crossing on each side
+ */
+function halfMaximumWidth(xs: number[], ys: number[], index: number, level: number): number | null {
+  let left = index;
+  while (left > 0 && ys[left] > level) left--;
+  let right = index;
+  while (right < ys.length - 1 && ys[right] > level) right++;
+
+  if (ys[left] > level || ys[right] > level) {
+    return null; // peak runs off the end of the spectrum
+  }
+
+  const crossing = (a: number, b: number) =>
+    ys[a] === ys[b] ? xs[a] : xs[a] + ((level - ys[a]) * (xs[b] - xs[a])) / (ys[b] - ys[a]);
+
+  return Math.abs(crossing(right - 1, right) - crossing(left, left + 1));
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * RRUFF Peak Service class
+ */
+export class RruffPeakService {
+  /**
+   * Detect and store peaks for a single spectrum, replacing any previous list
+   */
+  async storePeaksForSpectrum(
+    spectrum: { id: number; mineralId: number; dataPoints: Array<[number, number]> | null },
+    options: PeakDetectionOptions = {}
+  ): Promise<number> {
+    const peaks = detectPeaks(spectrum.dataPoints || [], options);
+
+    await db.delete(rruffSpectrumPeaks).where(eq(rruffSpectrumPeaks.spectrumId, spectrum.id));
+
+    if (peaks.length === 0) {
+      return 0;
+    }
+
+    const rows: InsertRruffSpectrumPeak[] = peaks.map(peak => ({
+      spectrumId: spectrum.id,
+      mineralId: spectrum.mineralId,
+      position: peak.position,
+      intensity: peak.intensity,
+      width: peak.width,
+      prominence: peak.prominence
+    }));
+
+    await db.insert(rruffSpectrumPeaks).values(rows);
+    return rows.length;
+  }
+
+  /**
+   * Detect and store peaks for a set of spectra by ID
+   */
+  async storePeaksForSpectra(spectrumIds: number[]): Promise<{ spectra: number; peaks: number; errors: string[] }> {
+    const errors: string[] = [];
+    let peakCount = 0;
+
+    if (spectrumIds.length === 0) {
+      return { spectra: 0, peaks: 0, errors };
+    }
+
+    const spectra = await db.select({
+      id: rruffSpectra.id,
+      mineralId: rruffSpectra.mineralId,
+      dataPoints: rruffSpectra.dataPoints
+    })
+    .from(rruffSpectra)
+    .where(inArray(rruffSpectra.id, spectrumIds));
+
+    for (const spectrum of spectra) {
+      try {
+        peakCount += await this.storePeaksForSpectrum(spectrum);
+      } catch (error: any) {
+        errors.push(`Error extracting peaks for spectrum ${spectrum.id}: ${error.message}`);
+      }
+    }
+
+    return { spectra: spectra.length, peaks: peakCount, errors };
+  }
+
+  /**
+   * Rebuild peak lists for every stored spectrum
+   */
+  async rebuildAllPeaks(): Promise<{ spectra: number; peaks: number; errors: string[] }> {
+    const ids = await db.select({ id: rruffSpectra.id }).from(rruffSpectra);
+    const batchSize = 100;
+    const totals = { spectra: 0, peaks: 0, errors: [] as string[] };
+
+    for (let i = 0; i < ids.length; i += batchSize) {
+      const batch = ids.slice(i, i + batchSize).map(row => row.id);
+      const result = await this.storePeaksForSpectra(batch);
+      totals.spectra += result.spectra;
+      totals.peaks += result.peaks;
+      totals.errors.push(...result.errors);
+
+      console.log(`Extracted peaks for ${totals.spectra}/${ids.length} spectra`);
+    }
+
+    return totals;
+  }
+
+  /**
+   * Get the stored peak list for a spectrum
+   */
+  async getPeaksForSpectrum(spectrumId: number) {
+    return db.select()
+      .from(rruffSpectrumPeaks)
+      .where(eq(rruffSpectrumPeaks.spectrumId, spectrumId))
+      .orderBy(rruffSpectrumPeaks.position);
+  }
+
+  /**
+   * Rank minerals by how many observed peak positions fall within
+   * `tolerance` of a stored peak. Each mineral is represented by its best
+   * matching spectrum.
+   */
+  async searchByPeaks(observedPeaks: number[], options: PeakSearchOptions = {}): Promise<PeakSearchMatch[]> {
+    const { tolerance = 5, spectraType, minMatches = 1, limit = 20 } = options;
+
+    const observed = observedPeaks
+      .filter(value => Number.isFinite(value))
+      .sort((a, b) => a - b);
+
+    if (observed.length === 0) {
+      throw new Error('At least one peak position must be specified');
+    }
+
+    // Only load stored peaks that could match one of the observed positions
+    const windowConditions = observed.map(position =>
+      sql`${rruffSpectrumPeaks.position} BETWEEN ${position - tolerance} AND ${position + tolerance}`
+    );
+
+    const conditions = [or(...windowConditions)];
+    if (spectraType) {
+      conditions.push(ilike(rruffSpectra.spectraType, spectraType));
+    }
+
+    const candidatePeaks = await db.select({
+      spectrumId: rruffSpectrumPeaks.spectrumId,
+      position: rruffSpectrumPeaks.position,
+      intensity: rruffSpectrumPeaks.intensity
+    })
+    .from(rruffSpectrumPeaks)
+    .innerJoin(rruffSpectra, eq(rruffSpectrumPeaks.spectrumId, rruffSpectra.id))
+    .where(and(...conditions));
+
+    // Group candidate peaks by spectrum
+    const peaksBySpectrum = new Map<number, Array<{ position: number; intensity: number }>>();
+    for (const peak of candidatePeaks) {
+      const list = peaksBySpectrum.get(peak.spectrumId) || [];
+      list.push({ position: peak.position, intensity: peak.intensity });
+      peaksBySpectrum.set(peak.spectrumId, list);
+    }
+
+    // Match each observed peak to the nearest unused library peak
+    const scored: Array<{ spectrumId: number; matches: PeakSearchMatch['matches']; meanError: number }> = [];
+    peaksBySpectrum.forEach((libraryPeaks, spectrumId) => {
+      const used = new Set<number>();
+      const matches: PeakSearchMatch['matches'] = [];
+
+      for (const position of observed) {
+        let bestIndex = -1;
+        let bestError = Infinity;
+        libraryPeaks.forEach((peak, index) => {
+          const error = Math.abs(peak.position - position);
+          if (!used.has(index) && error <= tolerance && error < bestError) {
+            bestIndex = index;
+            bestError = error;
+          }
+        });
+
+        if (bestIndex >= 0) {
+          used.add(bestIndex);
+          matches.push({
+            observed: position,
+            library: libraryPeaks[bestIndex].position,
+            intensity: libraryPeaks[bestIndex].intensity
+          });
+        }
+      }
+
+      if (matches.length >= minMatches) {
+        const meanError = matches.reduce((sum, m) => sum + Math.abs(m.library - m.observed), 0) / matches.length;
+        scored.push({ spectrumId, matches, meanError });
+      }
+    });
+
+    if (scored.length === 0) {
+      return [];
+    }
+
+    // Load spectrum/mineral details and total peak counts for the candidates
+    const spectrumIds = scored.map(entry => entry.spectrumId);
+    const details = await db.select({
+      spectrumId: rruffSpectra.id,
+      sampleId: rruffSpectra.sampleId,
+      spectraType: rruffSpectra.spectraType,
+      mineralId: rruffMinerals.id,
+      mineralName: rruffMinerals.mineralName,
+      chemicalFormula: rruffMinerals.chemicalFormula
+    })
+    .from(rruffSpectra)
+    .innerJoin(rruffMinerals, eq(rruffSpectra.mineralId, rruffMinerals.id))
+    .where(inArray(rruffSpectra.id, spectrumIds));
+
+    const peakCounts = await db.select({
+      spectrumId: rruffSpectrumPeaks.spectrumId,
+      count: sql<number>`count(*)`
+    })
+    .from(rruffSpectrumPeaks)
+    .where(inArray(rruffSpectrumPeaks.spectrumId, spectrumIds))
+    .groupBy(rruffSpectrumPeaks.spectrumId);
+
+    const detailsById = new Map(details.map(row => [row.spectrumId, row]));
+    const countsById = new Map(peakCounts.map(row => [row.spectrumId, Number(row.count)]));
+
+    // Keep the best spectrum for each mineral
+    const bestByMineral = new Map<number, PeakSearchMatch>();
+    for (const entry of scored) {
+      const detail = detailsById.get(entry.spectrumId);
+      if (!detail) continue;
+
+      const libraryPeaks = countsById.get(entry.spectrumId) || entry.matches.length;
+      // Fraction of observed peaks explained, lightly penalized by unexplained library peaks
+      const score = (entry.matches.length / observed.length) * (0.8 + 0.2 * entry.matches.length / libraryPeaks);
+
+      const match: PeakSearchMatch = {
+        mineralId: detail.mineralId,
+        mineralName: detail.mineralName,
+        chemicalFormula: detail.chemicalFormula,
+        spectrumId: entry.spectrumId,
+        sampleId: detail.sampleId,
+        spectraType: detail.spectraType,
+        matchedPeaks: entry.matches.length,
+        observedPeaks: observed.length,
+        libraryPeaks,
+        meanError: round(entry.meanError, 3),
+        score: round(score, 3),
+        matches: entry.matches
+      };
+
+      const current = bestByMineral.get(detail.mineralId);
+      if (!current || match.score > current.score || (match.score === current.score && match.meanError < current.meanError)) {
+        bestByMineral.set(detail.mineralId, match);
+      }
+    }
+
+    return Array.from(bestByMineral.values())
+      .sort((a, b) => b.matchedPeaks - a.matchedPeaks || b.score - a.score || a.meanError - b.meanError)
+      .slice(0, limit);
+  }
+}
+
+// Export singleton instance
+export const rruffPeakService = new RruffPeakService();
@@ -0,0 +1,561 @@
+/**
+ * TypeScript Client SDK Generator
+ *
+ * Builds a typed TypeScript client package from a stored Mindat Swagger document:
+ * 1. `src/models.ts`: an interface or type alias for every component schema
+ * 2. `src/params.ts`: the path, query and body parameters of every operation
+ * 3. `src/client.ts`: `MindatClient`, with Token auth and one method per operation;
+ *    operations returning a paginated list also get an `...All` async iterator that
+ *    follows the `next` links and yields every item
+ * 4. package.json, tsconfig.json and a README, zipped under one directory
+ *
+ * Header and cookie parameters are left out; the client sends its own headers.
+ */
+
+import AdmZip from 'adm-zip';
+import type { OpenAPIDocument, Operation, Parameter, PathItem, Reference, RequestBody, Response, Schema } from "../../client/src/types/api";
+import { resolveParameters, resolvePointer, resolveResponseSchemas } from "./openapi-resolver";
+import { DEFAULT_MINDAT_BASE_URL } from "./mindat-config";
+
+export interface SdkFile {
+  path: string;
+  content: string;
+}
+
+export interface SdkOptions {
+  packageName?: string;
+}
+
+export const DEFAULT_SDK_PACKAGE_NAME = 'mindat-api-client';
+
+const METHODS = ['get', 'post', 'put', 'delete', 'patch', 'options'] as const;
+
+const RESERVED_WORDS = new Set([
+  'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do', 'else',
+  'enum', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in', 'instanceof',
+  'new', 'null', 'return', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'var', 'void',
+  'while', 'with'
+]);
+
+interface OperationInfo {
+  name: string;
+  method: string;
+  path: string;
+  operation: Operation;
+  parameters: Parameter[];
+  bodySchema?: Schema;
+  bodyRequired: boolean;
+  responseSchema?: Schema;
+  pageItemSchema?: Schema; // Item schema when the response is a paginated list
+}
+
+function words(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+}
+
+export function pascalCase(name: string): string {
+  const result = words(name).map(word => word.charAt(0).toUpperCase() + word.slice(1)).join('');
+  if (!result) return 'Model';
+  return /^\d/.test(result) ? `_${result}` : result;
+}
+
+export function camelCase(name: string): string {
+  const pascal = pascalCase(name);
+  const result = pascal.charAt(0).toLowerCase() + pascal.slice(1);
+  return RESERVED_WORDS.has(result) ? `${result}_` : result;
+}
+
+const isIdentifier = (name: string) => /^[A-Za-z_$][\w$]*$/.test(name);
+
+const propertyKey = (name: string) => isIdentifier(name) ? name : JSON.stringify(name);
+
+const propertyAccess = (object: string, name: string) => isIdentifier(name) ? `${object}.${name}` : `${object}[${JSON.stringify(name)}]`;
+
+function docComment(text: string | undefined, indent: string): string {
+  const lines = (text || '').trim().replace(/\*\//g, '*\\/').split(/\r?\n/).map(line => line.trimEnd());
+  if (lines.length === 0 || !lines[0]) return '';
+  if (lines.length === 1) return `${indent}/** ${lines[0]} */\n`;
+  return `${indent}/**\n${lines.map(line => `${indent} *${line ? ` ${line}` : ''}`).join('\n')}\n${indent} */\n`;
+}
+
+// Parenthesise a union before it is combined into an intersection
+const grouped = (type: string) => type.includes(' | ') ? `(${type})` : type;
+
+function deref<T>(doc: OpenAPIDocument, value: T | Reference | undefined): T | undefined {
+  let current: unknown = value;
+  for (let depth = 0; current && typeof current === 'object' && '$ref' in current && depth < 10; depth++) {
+    current = resolvePointer(doc, (current as Reference).$ref);
+  }
+  return current as T | undefined;
+}
+
+// Media type schema of a request or response body, JSON preferred
+function bodySchema(content: Record<string, { schema?: Schema }> | undefined): Schema | undefined {
+  const types = Object.keys(content || {});
+  const type = types.find(item => item === 'application/json') || types.find(item => item.includes('json')) || types[0];
+  return type ? content![type].schema : undefined;
+}
+
+/**
+ * Writes TypeScript types for schemas, referring to component schemas by name
+ */
+class TypeWriter {
+  constructor(
+    private readonly modelNames: Map<string, string>,
+    private readonly prefix: string
+  ) {}
+
+  type(schema: Schema | undefined, indent: string = ''): string {
+    if (!schema) return 'unknown';
+    if (schema.$ref) {
+      const name = this.modelNames.get(schema.$ref);
+      return name ? `${this.prefix}${name}` : 'unknown';
+    }
+
+    const type = this.baseType(schema, indent);
+    return schema.nullable && type !== 'unknown' && !type.endsWith(' | null') ? `${type} | null` : type;
+  }
+
+  objectType(schema: Schema, indent: string): string {
+    const properties = Object.entries(schema.properties || {});
+    const extra = schema.additionalProperties;
+
+    if (properties.length === 0) {
+      return extra && typeof extra === 'object' ? `Record<string, ${this.type(extra, indent)}>` : 'Record<string, unknown>';
+    }
+
+    const inner = `${indent}  `;
+    const required = new Set(schema.required || []);
+    const lines = properties.map(([name, property]) =>
+      `${docComment(property.description, inner)}${inner}${property.readOnly ? 'readonly ' : ''}${propertyKey(name)}${required.has(name) ? '' : '?'}: ${this.type(property, inner)};`
+    );
+    if (extra) lines.push(`${inner}[key: string]: unknown;`);
+
+    return `{\n${lines.join('\n')}\n${indent}}`;
+  }
+
+  private baseType(schema: Schema, indent: string): string {
+    if (schema.allOf && schema.allOf.length > 0) {
+      const parts = schema.allOf.map(part => grouped(this.type(part, indent)));
+      if (schema.properties) parts.push(this.objectType(schema, indent));
+      return parts.length === 1 ? parts[0] : parts.join(' & ');
+    }
+
+    const variants = schema.oneOf || schema.anyOf;
+    if (variants && variants.length > 0) {
+      return Array.from(new Set(variants.map(variant => this.type(variant, indent)))).join(' | ');
+    }
+
+    if (schema.enum && schema.enum.length > 0) {
+      return Array.from(new Set(schema.enum.map(value => value === null ? 'null' : JSON.stringify(value)))).join(' | ');
+    }
+
+    switch (schema.type) {
+      case 'integer':
+      case 'number':
+        return 'number';
+      case 'string':
+        return schema.format === 'binary' ? 'Blob' : 'string';
+      case 'boolean':
+        return 'boolean';
+      case 'null':
+        return 'null';
+      case 'array':
+        return `Array<${this.type(schema.items, indent)}>`;
+      case 'object':
+        return this.objectType(schema, indent);
+      default:
+        return schema.properties ? this.objectType(schema, indent) : 'unknown';
+    }
+  }
+}
+
+const schemaRef = (schemaName: string) =>
+  `#/components/schemas/${schemaName.replace(/~/g, '~0').replace(/\//g, '~1')}`;
+
+/**
+ * Unique type names for the component schemas, keyed by their $ref
+ */
+function modelNamesOf(doc: OpenAPIDocument): Map<string, string> {
+  const names = new Map<string, string>();
+  const used = new Set<string>(['MindatClient', 'MindatApiError']);
+
+  Object.keys(doc.components?.schemas || {}).forEach(schemaName => {
+    let name = pascalCase(schemaName);
+    for (let suffix = 2; used.has(name); suffix++) name = `${pascalCase(schemaName)}${suffix}`;
+    used.add(name);
+    names.set(schemaRef(schemaName), name);
+  });
+
+  return names;
+}
+
+// Raw (unresolved) schema of a property, looking through $refs and allOf parts
+function findProperty(doc: OpenAPIDocument, schema: Schema | undefined, name: string, depth: number = 0): Schema | undefined {
+  const resolved = deref<Schema>(doc, schema);
+  if (!resolved || depth > 10) return undefined;
+  if (resolved.properties?.[name]) return resolved.properties[name];
+  for (const part of resolved.allOf || []) {
+    const found = findProperty(doc, part, name, depth + 1);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+function operationsOf(doc: OpenAPIDocument): OperationInfo[] {
+  const operations: OperationInfo[] = [];
+  const usedNames = new Set<string>();
+
+  for (const [path, pathItem] of Object.entries(doc.paths || {})) {
+    for (const method of METHODS) {
+      const operation = (pathItem as PathItem)[method];
+      if (!operation) continue;
+
+      let name = camelCase(operation.operationId || `${method} ${path}`);
+      for (let suffix = 2; usedNames.has(name); suffix++) name = `${camelCase(operation.operationId || `${method} ${path}`)}${suffix}`;
+      usedNames.add(name);
+
+      const requestBody = deref<RequestBody>(doc, operation.requestBody);
+      const successStatus = Object.keys(operation.responses || {}).sort().find(status => status.startsWith('2'));
+      const response = successStatus ? deref<Response>(doc, operation.responses![successStatus]) : undefined;
+      const responseSchema = bodySchema(response?.content);
+
+      // DRF-style pages: { count, next, previous, results: [...] }
+      const resolvedResponse = successStatus ? resolveResponseSchemas(doc, operation)[successStatus] : undefined;
+      const paginated = resolvedResponse?.properties?.results?.type === 'array' && resolvedResponse.properties.next !== undefined;
+
+      operations.push({
+        name,
+        method: method.toUpperCase(),
+        path,
+        operation,
+        parameters: resolveParameters(doc, pathItem, operation).filter(parameter => parameter.in === 'path' || parameter.in === 'query'),
+        bodySchema: requestBody ? bodySchema(requestBody.content) || {} : undefined,
+        bodyRequired: requestBody?.required === true,
+        responseSchema,
+        pageItemSchema: paginated ? findProperty(doc, responseSchema, 'results')?.items || {} : undefined
+      });
+    }
+  }
+
+  return operations;
+}
+
+const paramsTypeName = (operation: OperationInfo) => `${pascalCase(operation.name)}Params`;
+
+// Property of the params object that carries the request body
+const bodyKey = (operation: OperationInfo) =>
+  operation.parameters.some(parameter => parameter.name === 'body') ? 'requestBody' : 'body';
+
+const hasRequiredParams = (operation: OperationInfo) =>
+  operation.parameters.some(parameter => parameter.required) || (operation.bodySchema !== undefined && operation.bodyRequired);
+
+function generatedHeader(doc: OpenAPIDocument): string {
+  return `// Generated from ${doc.info?.title || 'the Mindat API'} ${doc.info?.version || ''} by Mindat API Explorer. Do not edit.\n`;
+}
+
+function generateModels(doc: OpenAPIDocument, modelNames: Map<string, string>): string {
+  const writer = new TypeWriter(modelNames, '');
+  let code = generatedHeader(doc);
+
+  for (const [schemaName, schema] of Object.entries(doc.components?.schemas || {})) {
+    const name = modelNames.get(schemaRef(schemaName))!;
+    code += `\n${docComment(schema.description || schema.title, '')}`;
+
+    const plainObject = !schema.$ref && !schema.allOf && !schema.oneOf && !schema.anyOf && !schema.enum && !schema.nullable
+      && (schema.type === 'object' || (!schema.type && schema.properties)) && Object.keys(schema.properties || {}).length > 0;
+    code += plainObject
+      ? `export interface ${name} ${writer.objectType(schema, '')}\n`
+      : `export type ${name} = ${writer.type(schema)};\n`;
+  }
+
+  return code;
+}
+
+function generateParams(doc: OpenAPIDocument, operations: OperationInfo[], modelNames: Map<string, string>): string {
+  const writer = new TypeWriter(modelNames, 'Models.');
+  let code = `${generatedHeader(doc)}\nimport type * as Models from './models.js';\n`;
+
+  for (const operation of operations) {
+    const lines = operation.parameters.map(parameter =>
+      `${docComment(parameter.description || parameter.schema?.description, '  ')}  ${propertyKey(parameter.name)}${parameter.required ? '' : '?'}: ${writer.type(parameter.schema, '  ')};`
+    );
+    if (operation.bodySchema) {
+      lines.push(`${docComment('Request body', '  ')}  ${bodyKey(operation)}${operation.bodyRequired ? '' : '?'}: ${writer.type(operation.bodySchema, '  ')};`);
+    }
+
+    code += `\n${docComment(`Parameters of ${operation.method} ${operation.path}`, '')}`;
+    code += lines.length > 0
+      ? `export interface ${paramsTypeName(operation)} {\n${lines.join('\n')}\n}\n`
+      : `export type ${paramsTypeName(operation)} = Record<string, never>;\n`;
+  }
+
+  return code;
+}
+
+function generateOperationMethod(operation: OperationInfo, writer: TypeWriter): string {
+  const returnType = operation.responseSchema ? writer.type(operation.responseSchema, '  ') : 'void';
+  const paramsType = `Params.${paramsTypeName(operation)}`;
+  const signature = hasRequiredParams(operation) ? `params: ${paramsType}` : `params: ${paramsType} = {}`;
+
+  const pathParams = operation.parameters.filter(parameter => parameter.in === 'path');
+  const queryParams = operation.parameters.filter(parameter => parameter.in === 'query');
+  const options = [`method: ${JSON.stringify(operation.method)}`, `path: ${JSON.stringify(operation.path)}`];
+  if (pathParams.length > 0) {
+    options.push(`pathParams: { ${pathParams.map(parameter => `${propertyKey(parameter.name)}: ${propertyAccess('params', parameter.name)}`).join(', ')} }`);
+  }
+  if (queryParams.length > 0) {
+    const entries = queryParams.map(parameter => {
+      const value = propertyAccess('params', parameter.name);
+      // explode: false sends arrays as one comma-separated value
+      return `        ${propertyKey(parameter.name)}: ${parameter.explode === false && parameter.schema?.type === 'array' ? `csv(${value})` : value}`;
+    });
+    options.push(`query: {\n${entries.join(',\n')}\n      }`);
+  }
+  if (operation.bodySchema) options.push(`body: ${propertyAccess('params', bodyKey(operation))}`);
+
+  const description = [operation.operation.summary, operation.operation.description]
+    .filter((text, index, texts) => text && texts.indexOf(text) === index)
+    .join('\n\n');
+  const deprecated = operation.operation.deprecated ? '\n@deprecated' : '';
+
+  let code = `\n${docComment(`${description ? `${description}\n\n` : ''}${operation.method} ${operation.path}${deprecated}`, '  ')}`;
+  code += `  async ${operation.name}(${signature}): Promise<${returnType}> {\n`;
+  code += `    return this.request<${returnType}>({\n      ${options.join(',\n      ')}\n    });\n  }\n`;
+
+  if (operation.pageItemSchema) {
+    const itemType = writer.type(operation.pageItemSchema, '  ');
+    code += `\n${docComment(`Every item of \`${operation.name}\`, following the \`next\` links page by page`, '  ')}`;
+    code += `  async *${operation.name}All(${signature}): AsyncGenerator<${itemType}> {\n`;
+    code += `    yield* this.paginate<${itemType}>(await this.${operation.name}(params));\n  }\n`;
+  }
+
+  return code;
+}
+
+function defaultBaseUrl(doc: OpenAPIDocument): string {
+  const serverUrl = doc.servers?.[0]?.url;
+  return serverUrl && /^https?:\/\//.test(serverUrl) ? serverUrl.replace(/\/+$/, '') : DEFAULT_MINDAT_BASE_URL;
+}
+
+function generateClient(doc: OpenAPIDocument, operations: OperationInfo[], modelNames: Map<string, string>): string {
+  const writer = new TypeWriter(modelNames, 'Models.');
+
+  return `${generatedHeader(doc)}
+import type * as Models from './models.js';
+import type * as Params from './params.js';
+
+export const DEFAULT_BASE_URL = ${JSON.stringify(defaultBaseUrl(doc))};
+
+export interface MindatClientOptions {
+  /** Mindat API key, sent as \`Authorization: Token <key>\` */
+  token: string;
+  /** API root, defaults to DEFAULT_BASE_URL */
+  baseUrl?: string;
+  /** fetch implementation, for runtimes without a global fetch */
+  fetch?: typeof fetch;
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Error thrown for every non-2xx response; \`body\` is the parsed JSON (or text) of the response
+ */
+export class MindatApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly statusText: string,
+    readonly body: unknown
+  ) {
+    super(\`Mindat API request failed: \${status} \${statusText}\`);
+    this.name = 'MindatApiError';
+  }
+}
+
+type QueryValue = string | number | boolean | Array<string | number | boolean> | null | undefined;
+
+interface RequestOptions {
+  method: string;
+  path?: string;
+  url?: string; // Absolute URL, such as the \`next\` link of a page
+  pathParams?: Record<string, string | number | boolean | undefined>;
+  query?: Record<string, QueryValue>;
+  body?: unknown;
+}
+
+interface Page<T> {
+  results?: T[];
+  next?: string | null;
+}
+
+const csv = (value?: Array<string | number | boolean> | null) => value?.join(',');
+
+export class MindatClient {
+  private readonly baseUrl: string;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(private readonly options: MindatClientOptions) {
+    this.baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\\/+$/, '');
+    this.fetchImpl = options.fetch ?? globalThis.fetch.bind(globalThis);
+  }
+
+  private async request<T>(options: RequestOptions): Promise<T> {
+    let url = options.url;
+    if (!url) {
+      const path = (options.path || '').replace(/\\{([^}]+)\\}/g, (_match, name: string) => {
+        const value = options.pathParams?.[name];
+        if (value === undefined) throw new Error(\`Missing path parameter: \${name}\`);
+        return encodeURIComponent(String(value));
+      });
+
+      const search = new URLSearchParams();
+      for (const [key, value] of Object.entries(options.query ?? {})) {
+        if (value === undefined || value === null) continue;
+        for (const item of Array.isArray(value) ? value : [value]) search.append(key, String(item));
+      }
+      const queryString = search.toString();
+      url = \`\${this.baseUrl}\${path}\${queryString ? \`?\${queryString}\` : ''}\`;
+    }
+
+    const response = await this.fetchImpl(url, {
+      method: options.method,
+      headers: {
+        Authorization: \`Token \${this.options.token}\`,
+        Accept: 'application/json',
+        ...(options.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        ...this.options.headers
+      },
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined
+    });
+
+    const text = await response.text();
+    let data: unknown = text || undefined;
+    try {
+      data = text ? JSON.parse(text) : undefined;
+    } catch {
+      // Not JSON; keep the text
+    }
+
+    if (!response.ok) throw new MindatApiError(response.status, response.statusText, data);
+    return data as T;
+  }
+
+  private async *paginate<T>(first: Page<T>): AsyncGenerator<T> {
+    let page: Page<T> | null = first;
+    while (page) {
+      yield* page.results ?? [];
+      page = page.next ? await this.request<Page<T>>({ method: 'GET', url: page.next }) : null;
+    }
+  }
+${operations.map(operation => generateOperationMethod(operation, writer)).join('')}}
+`;
+}
+
+function packageVersion(doc: OpenAPIDocument): string {
+  const match = /^(\d+)(?:\.(\d+))?(?:\.(\d+))?/.exec(doc.info?.version || '');
+  return match ? `${match[1]}.${match[2] || 0}.${match[3] || 0}` : '0.1.0';
+}
+
+function generateReadme(doc: OpenAPIDocument, operations: OperationInfo[], packageName: string): string {
+  const example = operations.find(operation => operation.pageItemSchema && !hasRequiredParams(operation))
+    || operations.find(operation => !hasRequiredParams(operation));
+  const usage = example
+    ? example.pageItemSchema
+      ? `const page = await client.${example.name}();\nconsole.log(page.results);\n\n// Every item, page by page\nfor await (const item of client.${example.name}All()) {\n  console.log(item);\n}`
+      : `const result = await client.${example.name}();\nconsole.log(result);`
+    : '';
+
+  return `# ${packageName}
+
+Typed TypeScript client for ${doc.info?.title || 'the Mindat API'} (version ${doc.info?.version || 'unknown'}),
+generated by Mindat API Explorer. Regenerate it rather than editing the sources.
+
+## Build
+
+\`\`\`sh
+npm install
+npm run build
+\`\`\`
+
+## Usage
+
+\`\`\`ts
+import { MindatClient, MindatApiError } from '${packageName}';
+
+const client = new MindatClient({ token: process.env.MINDAT_API_KEY! });
+${usage ? `\n${usage}\n` : ''}\`\`\`
+
+Every operation takes one object with its path and query parameters (and \`body\`
+for operations with a request body). Failed requests throw \`MindatApiError\`
+with the status and the response body.
+
+## Operations
+
+${operations.map(operation => `- \`${operation.name}\` — ${operation.method} ${operation.path}${operation.pageItemSchema ? ` (also \`${operation.name}All\`)` : ''}`).join('\n')}
+`;
+}
+
+/**
+ * Source files of the TypeScript client package for a Swagger document
+ */
+export function generateTypeScriptSdk(doc: OpenAPIDocument, options: SdkOptions = {}): SdkFile[] {
+  const packageName = options.packageName || DEFAULT_SDK_PACKAGE_NAME;
+  const modelNames = modelNamesOf(doc);
+  const operations = operationsOf(doc);
+
+  const packageJson = {
+    name: packageName,
+    version: packageVersion(doc),
+    description: `TypeScript client for ${doc.info?.title || 'the Mindat API'}`,
+    type: 'module',
+    main: 'dist/index.js',
+    types: 'dist/index.d.ts',
+    files: ['dist', 'src'],
+    scripts: {
+      build: 'tsc'
+    },
+    devDependencies: {
+      typescript: '^5.6.3'
+    }
+  };
+
+  const tsconfig = {
+    compilerOptions: {
+      target: 'ES2020',
+      module: 'ES2020',
+      moduleResolution: 'node',
+      lib: ['ES2020', 'DOM', 'DOM.Iterable'],
+      declaration: true,
+      outDir: 'dist',
+      rootDir: 'src',
+      strict: true,
+      skipLibCheck: true
+    },
+    include: ['src']
+  };
+
+  return [
+    { path: 'package.json', content: `${JSON.stringify(packageJson, null, 2)}\n` },
+    { path: 'tsconfig.json', content: `${JSON.stringify(tsconfig, null, 2)}\n` },
+    { path: 'README.md', content: generateReadme(doc, operations, packageName) },
+    { path: 'src/models.ts', content: generateModels(doc, modelNames) },
+    { path: 'src/params.ts', content: generateParams(doc, operations, modelNames) },
+    { path: 'src/client.ts', content: generateClient(doc, operations, modelNames) },
+    {
+      path: 'src/index.ts',
+      content: `${generatedHeader(doc)}\nexport * from './client.js';\nexport type * from './models.js';\nexport type * from './params.js';\n`
+    }
+  ];
+}
+
+/**
+ * Zip of the generated files under a `<directory>/` root
+ */
+export function packageSdkZip(files: SdkFile[], directory: string = DEFAULT_SDK_PACKAGE_NAME): Buffer {
+  const zip = new AdmZip();
+  files.forEach(file => zip.addFile(`${directory}/${file.path}`, Buffer.from(file.content, 'utf-8')));
+  return zip.toBuffer();
+}
@@ -1,14 +1,14 @@
 import { z } from 'zod';
 import NodeCache from 'node-cache';
+import { getMindatBaseUrl } from './mindat-config.js';
+import { apiCassette } from './api-cassette.js';
 
 // Cache for API responses (TTL: 5 minutes)
 const responseCache = new NodeCache({ stdTTL: 300, checkperiod: 60 });
 
 // Allowlisted Mindat API paths - includes both documented paths and actual API paths
-const ALLOWED_PATHS = /^\/(?:minerals|geomaterials|locations|localities|images|crystalclasses|spacegroups|nickel-strunz-10|dana-8)(?:\/|$)/;
+const ALLOWED_PATHS = /^\/(?:minerals|geomaterials|locations|localities|locentries|images|crystalclasses|spacegroups|nickel-strunz-10|dana-8)(?:\/|$)/;
 
-// Only allow the primary Mindat API base URL with v1 versioning
-const MINDAT_BASE_URL = 'https://api.mindat.org/v1';
 
 // Request validation schema
 const ProxyRequestSchema = z.object({
@@ -23,6 +23,7 @@ interface ProxyResponse {
   data: any;
   status: number;
   cached?: boolean;
+  replayed?: boolean;
 }
 
 export class SecureApiProxy {
@@ -41,6 +42,8 @@ export class SecureApiProxy {
 
   /**
    * Secure proxy request to Mindat API
+   * In cassette record mode every response is also written to the cassette; in
+   * replay mode responses come from the cassette and no API key is needed.
    * @param request - Validated request parameters
    * @param apiKey - Server-side API key from environment
    * @returns Standardized response
@@ -49,7 +52,7 @@ export class SecureApiProxy {
     // Validate input with Zod
     const validatedRequest = ProxyRequestSchema.parse(request);
     
-    if (!apiKey) {
+    if (!apiKey && !apiCassette.isReplaying()) {
       throw new Error('API key not configured');
     }
 
@@ -58,8 +61,8 @@ export class SecureApiProxy {
     // Generate cache key for GET requests
     const cacheKey = `${method}:${path}:${JSON.stringify(parameters)}`;
     
-    // Check cache for GET requests
-    if (method === 'GET') {
+    // Check cache for GET requests (bypassed with cassettes so every request is recorded or replayed)
+    if (method === 'GET' && apiCassette.getMode() === 'off') {
       const cached = responseCache.get<any>(cacheKey);
       if (cached) {
         return {
@@ -83,8 +86,38 @@ export class SecureApiProxy {
       mappedPath = sanitizedPath; // Keep as-is for now
     }
     
-    // Build URL
-    let url = `${MINDAT_BASE_URL}${mappedPath.startsWith('/') ? mappedPath : `/${mappedPath}`}`;
+    // Build URL against the primary Mindat API (or MINDAT_API_BASE_URL) with v1 versioning
+    let url = `${getMindatBaseUrl()}/v1${mappedPath.startsWith('/') ? mappedPath : `/${mappedPath}`}`;
+
+    // Add query parameters for GET requests
+    if (method === 'GET' && Object.keys(parameters).length > 0) {
+      const queryParams = new URLSearchParams();
+      
+      for (const [key, value] of Object.entries(parameters)) {
+        if (value !== undefined && value !== null) {
+          if (Array.isArray(value)) {
+            value.forEach(v => queryParams.append(key, String(v)));
+          } else {
+            queryParams.append(key, String(value));
+          }
+        }
+      }
+      
+      url += `?${queryParams.toString()}`;
+    }
+
+    // Serve from the cassette without touching the network
+    if (apiCassette.isReplaying()) {
+      const recorded = apiCassette.replay(method, url);
+      if (recorded.status < 200 || recorded.status >= 300) {
+        throw new Error('External API request failed');
+      }
+      return {
+        data: recorded.body,
+        status: recorded.status,
+        replayed: true
+      };
+    }
 
     // Prepare headers with secure authentication
     const headers: Record<string, string> = {
@@ -98,23 +131,6 @@ export class SecureApiProxy {
     const timeoutId = setTimeout(() => controller.abort(), this.timeout);
 
     try {
-      // Add query parameters for GET requests
-      if (method === 'GET' && Object.keys(parameters).length > 0) {
-        const queryParams = new URLSearchParams();
-        
-        for (const [key, value] of Object.entries(parameters)) {
-          if (value !== undefined && value !== null) {
-            if (Array.isArray(value)) {
-              value.forEach(v => queryParams.append(key, String(v)));
-            } else {
-              queryParams.append(key, String(value));
-            }
-          }
-        }
-        
-        url += `?${queryParams.toString()}`;
-      }
-
       const response = await this.makeRequestWithRetry(url, {
         method,
         headers,
@@ -123,6 +139,10 @@ export class SecureApiProxy {
 
       clearTimeout(timeoutId);
 
+      if (apiCassette.isRecording()) {
+        await this.recordInteraction(method, url, headers, response);
+      }
+
       if (!response.ok) {
         throw new Error(`Mindat API error: ${response.status}`);
       }
@@ -190,6 +210,30 @@ export class SecureApiProxy {
     }
   }
 
+  /**
+   * Write the final response (after retries) to the cassette, including errors,
+   * so replays reproduce failures as well as successes
+   */
+  private async recordInteraction(
+    method: string,
+    url: string,
+    headers: Record<string, string>,
+    response: Response
+  ): Promise<void> {
+    const text = await response.clone().text();
+    let body: any = text;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Keep non-JSON bodies (HTML error pages) as text
+    }
+
+    apiCassette.record(
+      { method, url, headers },
+      { status: response.status, headers: Object.fromEntries(response.headers.entries()), body }
+    );
+  }
+
   private sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
@@ -208,7 +252,8 @@ export class SecureApiProxy {
     return {
       keys: responseCache.keys().length,
       hits: responseCache.getStats().hits,
-      misses: responseCache.getStats().misses
+      misses: responseCache.getStats().misses,
+      cassette: apiCassette.getStatus()
     };
   }
 }
@@ -0,0 +1,415 @@
+/**
+ * Space Group Symbols and Reflection Conditions
+ *
+ * Provides:
+ * 1. The 230 standard short Hermann-Mauguin symbols, indexed by space group number
+ * 2. Parsing of free-text symbols (`P2_1/c`, `P21/c`, `P 1 21/c 1`, `Fd-3m`) into
+ *    lattice centering, crystal system and symmetry directions
+ * 3. Systematic absence rules from lattice centering, glide planes and screw axes
+ *
+ * Absences are derived from the symbol read in its standard ITA setting, so
+ * non-standard settings (e.g. `Pbnm`) are interpreted position by position.
+ */
+
+export type CrystalSystemName =
+  | 'triclinic'
+  | 'monoclinic'
+  | 'orthorhombic'
+  | 'tetragonal'
+  | 'trigonal'
+  | 'hexagonal'
+  | 'cubic';
+
+export interface SymbolComponent {
+  rotation: string | null; // e.g. '2', '2_1', '-4', '4_2'
+  plane: string | null; // m, a, b, c, n, d or e
+}
+
+export interface ParsedSpaceGroup {
+  number: number | null;
+  symbol: string;
+  lattice: string; // P, A, B, C, I, F or R
+  crystalSystem: CrystalSystemName;
+  components: SymbolComponent[];
+}
+
+export type ReflectionCondition = (h: number, k: number, l: number) => boolean;
+
+// Short Hermann-Mauguin symbols in ITA order; screw axes are written with an underscore
+const SPACE_GROUP_SYMBOLS: string[] = [
+  'P1', 'P-1', 'P2', 'P2_1', 'C2', 'Pm', 'Pc', 'Cm', 'Cc', 'P2/m',
+  'P2_1/m', 'C2/m', 'P2/c', 'P2_1/c', 'C2/c', 'P222', 'P222_1', 'P2_12_12', 'P2_12_12_1', 'C222_1',
+  'C222', 'F222', 'I222', 'I2_12_12_1', 'Pmm2', 'Pmc2_1', 'Pcc2', 'Pma2', 'Pca2_1', 'Pnc2',
+  'Pmn2_1', 'Pba2', 'Pna2_1', 'Pnn2', 'Cmm2', 'Cmc2_1', 'Ccc2', 'Amm2', 'Aem2', 'Ama2',
+  'Aea2', 'Fmm2', 'Fdd2', 'Imm2', 'Iba2', 'Ima2', 'Pmmm', 'Pnnn', 'Pccm', 'Pban',
+  'Pmma', 'Pnna', 'Pmna', 'Pcca', 'Pbam', 'Pccn', 'Pbcm', 'Pnnm', 'Pmmn', 'Pbcn',
+  'Pbca', 'Pnma', 'Cmcm', 'Cmce', 'Cmmm', 'Cccm', 'Cmme', 'Ccce', 'Fmmm', 'Fddd',
+  'Immm', 'Ibam', 'Ibca', 'Imma', 'P4', 'P4_1', 'P4_2', 'P4_3', 'I4', 'I4_1',
+  'P-4', 'I-4', 'P4/m', 'P4_2/m', 'P4/n', 'P4_2/n', 'I4/m', 'I4_1/a', 'P422', 'P42_12',
+  'P4_122', 'P4_12_12', 'P4_222', 'P4_22_12', 'P4_322', 'P4_32_12', 'I422', 'I4_122', 'P4mm', 'P4bm',
+  'P4_2cm', 'P4_2nm', 'P4cc', 'P4nc', 'P4_2mc', 'P4_2bc', 'I4mm', 'I4cm', 'I4_1md', 'I4_1cd',
+  'P-42m', 'P-42c', 'P-42_1m', 'P-42_1c', 'P-4m2', 'P-4c2', 'P-4b2', 'P-4n2', 'I-4m2', 'I-4c2',
+  'I-42m', 'I-42d', 'P4/mmm', 'P4/mcc', 'P4/nbm', 'P4/nnc', 'P4/mbm', 'P4/mnc', 'P4/nmm', 'P4/ncc',
+  'P4_2/mmc', 'P4_2/mcm', 'P4_2/nbc', 'P4_2/nnm', 'P4_2/mbc', 'P4_2/mnm', 'P4_2/nmc', 'P4_2/ncm', 'I4/mmm', 'I4/mcm',
+  'I4_1/amd', 'I4_1/acd', 'P3', 'P3_1', 'P3_2', 'R3', 'P-3', 'R-3', 'P312', 'P321',
+  'P3_112', 'P3_121', 'P3_212', 'P3_221', 'R32', 'P3m1', 'P31m', 'P3c1', 'P31c', 'R3m',
+  'R3c', 'P-31m', 'P-31c', 'P-3m1', 'P-3c1', 'R-3m', 'R-3c', 'P6', 'P6_1', 'P6_5',
+  'P6_2', 'P6_4', 'P6_3', 'P-6', 'P6/m', 'P6_3/m', 'P622', 'P6_122', 'P6_522', 'P6_222',
+  'P6_422', 'P6_322', 'P6mm', 'P6cc', 'P6_3cm', 'P6_3mc', 'P-6m2', 'P-6c2', 'P-62m', 'P-62c',
+  'P6/mmm', 'P6/mcc', 'P6_3/mcm', 'P6_3/mmc', 'P23', 'F23', 'I23', 'P2_13', 'I2_13', 'Pm-3',
+  'Pn-3', 'Fm-3', 'Fd-3', 'Im-3', 'Pa-3', 'Ia-3', 'P432', 'P4_232', 'F432', 'F4_132',
+  'I432', 'P4_332', 'P4_132', 'I4_132', 'P-43m', 'F-43m', 'I-43m', 'P-43n', 'F-43c', 'I-43d',
+  'Pm-3m', 'Pn-3n', 'Pm-3n', 'Pn-3m', 'Fm-3m', 'Fm-3c', 'Fd-3m', 'Fd-3c', 'Im-3m', 'Ia-3d'
+];
+
+// Older symbols still common in mineral databases
+const SYMBOL_ALIASES: Record<string, string> = {
+  'Abm2': 'Aem2',
+  'Aba2': 'Aea2',
+  'Cmca': 'Cmce',
+  'Cmma': 'Cmme',
+  'Ccca': 'Ccce',
+  'Pa3': 'Pa-3',
+  'Ia3': 'Ia-3',
+  'Fd3m': 'Fd-3m',
+  'Fm3m': 'Fm-3m',
+  'Im3m': 'Im-3m',
+  'Pm3m': 'Pm-3m',
+  'Ia3d': 'Ia-3d'
+};
+
+// Symbol lookup keyed without underscores, e.g. `P21/c` -> 14
+const SYMBOL_INDEX = new Map<string, number>(
+  SPACE_GROUP_SYMBOLS.map((symbol, index) => [symbol.replace(/_/g, ''), index + 1])
+);
+
+/**
+ * Crystal system for a space group number
+ */
+export function crystalSystemForNumber(number: number): CrystalSystemName {
+  if (number <= 2) return 'triclinic';
+  if (number <= 15) return 'monoclinic';
+  if (number <= 74) return 'orthorhombic';
+  if (number <= 142) return 'tetragonal';
+  if (number <= 167) return 'trigonal';
+  if (number <= 194) return 'hexagonal';
+  return 'cubic';
+}
+
+// Crystal system names as Mindat's `csystem` gives them (it calls cubic "isometric")
+const CRYSTAL_SYSTEM_NAMES: Record<string, CrystalSystemName> = {
+  triclinic: 'triclinic',
+  monoclinic: 'monoclinic',
+  orthorhombic: 'orthorhombic',
+  tetragonal: 'tetragonal',
+  trigonal: 'trigonal',
+  hexagonal: 'hexagonal',
+  cubic: 'cubic',
+  isometric: 'cubic'
+};
+
+/**
+ * Crystal system for a name such as "Trigonal" or "Isometric"; null for
+ * amorphous or unknown
+ */
+export function crystalSystemForName(name: string | null | undefined): CrystalSystemName | null {
+  return CRYSTAL_SYSTEM_NAMES[(name || '').trim().toLowerCase()] ?? null;
+}
+
+/**
+ * Standard short symbol for a space group number (1-230)
+ */
+export function spaceGroupSymbol(number: number): string | null {
+  return SPACE_GROUP_SYMBOLS[number - 1] || null;
+}
+
+/**
+ * Split the part of a symbol after the lattice letter into symmetry directions.
+ * With `compactScrews`, a digit followed by a smaller digit is read as a screw
+ * axis (`21` -> `2_1`), except directly after a rotoinversion.
+ */
+function tokenizeComponents(body: string, compactScrews: boolean = false): SymbolComponent[] {
+  const components: SymbolComponent[] = [];
+  let index = 0;
+
+  while (index < body.length) {
+    const char = body[index];
+
+    if (char === '-' || /[1-6]/.test(char)) {
+      let rotation = char;
+      index++;
+      if (char === '-') {
+        rotation += body[index] || '';
+        index++;
+      } else if (body[index] === '_' && /[1-5]/.test(body[index + 1] || '')) {
+        rotation += `_${body[index + 1]}`;
+        index += 2;
+      } else if (compactScrews && /[1-5]/.test(body[index] || '') && Number(body[index]) < Number(char)) {
+        rotation += `_${body[index]}`;
+        index++;
+      }
+
+      let plane: string | null = null;
+      if (body[index] === '/' && /[mabcnde]/.test(body[index + 1] || '')) {
+        plane = body[index + 1];
+        index += 2;
+      }
+
+      components.push({ rotation, plane });
+    } else if (/[mabcnde]/.test(char)) {
+      components.push({ rotation: null, plane: char });
+      index++;
+    } else {
+      index++;
+    }
+  }
+
+  return components;
+}
+
+/**
+ * Infer the crystal system from the symmetry directions of a symbol
+ */
+function inferCrystalSystem(lattice: string, components: SymbolComponent[]): CrystalSystemName {
+  const rotations = components.map(component => component.rotation || '');
+
+  if (rotations.some(rotation => rotation.includes('6'))) return 'hexagonal';
+  if (components.length >= 2 && /^-?3/.test(rotations[1])) return 'cubic';
+  if (/^-?3/.test(rotations[0]) || lattice === 'R') return 'trigonal';
+  if (/^-?4/.test(rotations[0])) return 'tetragonal';
+  if (components.length === 1 && /^-?1$/.test(rotations[0])) return 'triclinic';
+  if (components.length === 3 && rotations.filter(rotation => rotation === '1').length === 2) return 'monoclinic';
+  if (components.length === 3) return 'orthorhombic';
+  return 'monoclinic';
+}
+
+/**
+ * Parse a space group number or Hermann-Mauguin symbol
+ */
+export function parseSpaceGroup(input: string | number): ParsedSpaceGroup | null {
+  if (typeof input === 'number' || /^\s*\d+\s*$/.test(String(input))) {
+    const number = Number(input);
+    const symbol = spaceGroupSymbol(number);
+    if (!symbol) return null;
+    return {
+      number,
+      symbol,
+      lattice: symbol[0],
+      crystalSystem: crystalSystemForNumber(number),
+      components: tokenizeComponents(symbol.slice(1))
+    };
+  }
+
+  // Drop setting suffixes (`R-3m:H`), bracketed notes and subscript markup
+  const cleaned = String(input)
+    .replace(/<\/?sub>/gi, '_')
+    .replace(/[₀-₉]/g, digit => `_${digit.charCodeAt(0) - 0x2080}`)
+    .replace(/[:(].*$/, '')
+    .replace(/−/g, '-')
+    .trim();
+
+  const lattice = cleaned.charAt(0).toUpperCase();
+  if (!/[PABCIFR]/.test(lattice)) return null;
+
+  const compact = lattice + cleaned.slice(1).replace(/[\s_]/g, '');
+  const standardNumber = SYMBOL_INDEX.get(SYMBOL_ALIASES[compact] || compact);
+
+  if (standardNumber) {
+    return parseSpaceGroup(standardNumber);
+  }
+
+  // Full symbols separate directions with spaces; each part is one direction
+  const body = cleaned.slice(1).trim();
+  const compactScrews = !body.includes('_');
+  const components = /\s/.test(body)
+    ? body.split(/\s+/).flatMap(part => tokenizeComponents(part, compactScrews).slice(0, 1))
+    : tokenizeComponents(body, compactScrews);
+
+  if (components.length === 0) return null;
+
+  return {
+    number: null,
+    symbol: cleaned,
+    lattice,
+    crystalSystem: inferCrystalSystem(lattice, components),
+    components
+  };
+}
+
+const isDivisible = (value: number, divisor: number) => ((value % divisor) + divisor) % divisor === 0;
+
+/**
+ * Condition on the general reflection hkl from lattice centering.
+ * `rhombohedralAxes` disables the obverse condition for R lattices given on rhombohedral axes.
+ */
+function centeringCondition(lattice: string, rhombohedralAxes: boolean): ReflectionCondition | null {
+  switch (lattice) {
+    case 'A': return (h, k, l) => isDivisible(k + l, 2);
+    case 'B': return (h, k, l) => isDivisible(h + l, 2);
+    case 'C': return (h, k, l) => isDivisible(h + k, 2);
+    case 'I': return (h, k, l) => isDivisible(h + k + l, 2);
+    case 'F': return (h, k, l) => isDivisible(h + k, 2) && isDivisible(k + l, 2);
+    case 'R': return rhombohedralAxes ? null : (h, k, l) => isDivisible(-h + k + l, 3);
+    default: return null;
+  }
+}
+
+/**
+ * Condition for a screw axis along one cell axis (index 0, 1 or 2):
+ * an n_s screw halves, thirds, etc. the axial reflections by n / gcd(n, s)
+ */
+function screwCondition(rotation: string | null, axis: number): ReflectionCondition | null {
+  const match = rotation?.match(/^([2346])_([1-5])$/);
+  if (!match) return null;
+
+  const order = Number(match[1]);
+  const step = Number(match[2]);
+  const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+  const period = order / gcd(order, step);
+
+  return (h, k, l) => {
+    const indices = [h, k, l];
+    const others = indices.filter((_, index) => index !== axis);
+    if (others.some(value => value !== 0)) return true;
+    return isDivisible(indices[axis], period);
+  };
+}
+
+/**
+ * Condition for a glide plane perpendicular to a cell axis (index 0, 1 or 2),
+ * applied to the zone where that index is zero
+ */
+function glideCondition(plane: string | null, normal: number): ReflectionCondition | null {
+  if (!plane || plane === 'm') return null;
+
+  const axisIndex: Record<string, number> = { a: 0, b: 1, c: 2 };
+
+  return (h, k, l) => {
+    const indices = [h, k, l];
+    if (indices[normal] !== 0) return true;
+
+    const [first, second] = indices.filter((_, index) => index !== normal);
+    switch (plane) {
+      case 'n': return isDivisible(first + second, 2);
+      case 'd': return isDivisible(first + second, 4);
+      case 'e': return isDivisible(first, 2) && isDivisible(second, 2);
+      default: {
+        const translation = axisIndex[plane];
+        return translation === normal || isDivisible(indices[translation], 2);
+      }
+    }
+  };
+}
+
+/**
+ * Condition for c, n or d glides perpendicular to a face diagonal
+ * (the hhl zone and its equivalents)
+ */
+function diagonalGlideCondition(plane: string | null, cyclic: boolean): ReflectionCondition | null {
+  if (!plane || !/[cnd]/.test(plane)) return null;
+
+  const check = (h: number, k: number, l: number) => {
+    if (Math.abs(h) !== Math.abs(k)) return true;
+    return plane === 'd' ? isDivisible(2 * Math.abs(h) + l, 4) : isDivisible(l, 2);
+  };
+
+  return cyclic
+    ? (h, k, l) => check(h, k, l) && check(k, l, h) && check(l, h, k)
+    : check;
+}
+
+/**
+ * Apply a condition to all three cyclic permutations of the indices (cubic symmetry)
+ */
+function cyclicCondition(condition: ReflectionCondition | null): ReflectionCondition | null {
+  if (!condition) return null;
+  return (h, k, l) => condition(h, k, l) && condition(k, l, h) && condition(l, h, k);
+}
+
+/**
+ * Build the reflection conditions for a space group
+ */
+export function reflectionConditions(
+  spaceGroup: ParsedSpaceGroup,
+  options: { rhombohedralAxes?: boolean } = {}
+): ReflectionCondition[] {
+  const { lattice, crystalSystem, components } = spaceGroup;
+  const conditions: Array<ReflectionCondition | null> = [
+    centeringCondition(lattice, options.rhombohedralAxes ?? false)
+  ];
+  const [first, second, third] = components;
+
+  switch (crystalSystem) {
+    case 'monoclinic': {
+      // Unique axis b unless a full symbol says otherwise
+      let unique = components.length === 3
+        ? components.findIndex(component => component.rotation !== '1' || component.plane)
+        : 1;
+      if (unique < 0) unique = 1;
+      const component = components.length === 3 ? components[unique] : first;
+      conditions.push(screwCondition(component?.rotation ?? null, unique));
+      conditions.push(glideCondition(component?.plane ?? null, unique));
+      break;
+    }
+
+    case 'orthorhombic':
+      components.slice(0, 3).forEach((component, axis) => {
+        conditions.push(screwCondition(component.rotation, axis));
+        conditions.push(glideCondition(component.plane, axis));
+      });
+      break;
+
+    case 'tetragonal': {
+      conditions.push(screwCondition(first?.rotation ?? null, 2));
+      if (first?.plane === 'a' || first?.plane === 'b') {
+        conditions.push(glideCondition('e', 2));
+      } else {
+        conditions.push(glideCondition(first?.plane ?? null, 2));
+      }
+
+      if (second) {
+        // The 4-fold axis maps the plane normal to a onto b, swapping the a and b translations
+        const swapped = second.plane === 'b' ? 'a' : second.plane === 'a' ? 'b' : second.plane;
+        conditions.push(screwCondition(second.rotation, 0), screwCondition(second.rotation, 1));
+        conditions.push(glideCondition(second.plane, 0), glideCondition(swapped, 1));
+      }
+
+      conditions.push(diagonalGlideCondition(third?.plane ?? null, false));
+      break;
+    }
+
+    case 'trigonal':
+    case 'hexagonal': {
+      conditions.push(screwCondition(first?.rotation ?? null, 2));
+
+      // c glides perpendicular to the a axes: h0l, 0kl and h-h0l zones
+      if (second?.plane === 'c') {
+        conditions.push((h, k, l) => !(h === 0 || k === 0 || h === -k) || isDivisible(l, 2));
+      }
+
+      // c glides perpendicular to the [1-10] directions: hh-2hl zones
+      if (third?.plane === 'c') {
+        conditions.push((h, k, l) => !(h === k || k === -2 * h || h === -2 * k) || isDivisible(l, 2));
+      }
+      break;
+    }
+
+    case 'cubic': {
+      conditions.push(cyclicCondition(screwCondition(first?.rotation ?? null, 0)));
+
+      // The first-position glide lies perpendicular to c with the given translation
+      if (first?.plane && first.plane !== 'm') {
+        const plane = first.plane === 'b' ? 'a' : first.plane;
+        conditions.push(cyclicCondition(glideCondition(plane, 2)));
+      }
+
+      conditions.push(diagonalGlideCondition(third?.plane ?? null, true));
+      break;
+    }
+
+    default:
+      break;
+  }
+
+  return conditions.filter((condition): condition is ReflectionCondition => condition !== null);
+}
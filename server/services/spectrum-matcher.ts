@@ -0,0 +1,139 @@
+/**
+ * RRUFF Spectrum Matcher Service
+ *
+ * Ranks stored RRUFF spectra by similarity to an unknown spectrum.
+ * Both the unknown and every library spectrum are resampled onto the
+ * unknown's axis, baseline-corrected and normalized before being scored
+ * with a Pearson correlation weighted by how much of the unknown's range
+ * the library spectrum covers.
+ */
+
+import { db } from '../db';
+import { rruffMinerals, rruffSpectra } from '@shared/rruff-schema';
+import { eq, ilike } from 'drizzle-orm';
+import {
+  SpectrumPoint,
+  buildAxis,
+  pearsonCorrelation,
+  preprocessSpectrum,
+  sortSpectrum,
+  toPoints
+} from './spectrum-processing';
+
+// Number of samples on the common comparison axis
+const DEFAULT_AXIS_SIZE = 1024;
+
+// Library spectra must cover at least this fraction of the unknown's range
+const MIN_COVERAGE = 0.5;
+
+export class SpectrumQueryError extends Error {}
+
+export interface SpectrumSearchOptions {
+  spectraType?: string;
+  limit?: number;
+  correctBaseline?: boolean;
+  axisSize?: number;
+}
+
+export interface SpectrumMatch {
+  spectrumId: number;
+  mineralId: number;
+  mineralName: string;
+  chemicalFormula: string | null;
+  spectraType: string;
+  sampleId: string | null;
+  score: number;
+  correlation: number;
+  coverage: number;
+  dataPoints: SpectrumPoint[]; // processed, on the query axis
+}
+
+export interface SpectrumSearchResult {
+  query: SpectrumPoint[]; // processed, on the query axis
+  matches: SpectrumMatch[];
+  candidatesCompared: number;
+}
+
+/**
+ * RRUFF Spectrum Matcher class
+ */
+export class SpectrumMatcher {
+  /**
+   * Compare an unknown spectrum against every stored spectrum of the given type
+   */
+  async search(points: SpectrumPoint[], options: SpectrumSearchOptions = {}): Promise<SpectrumSearchResult> {
+    const {
+      spectraType,
+      limit = 10,
+      correctBaseline = true,
+      axisSize = DEFAULT_AXIS_SIZE
+    } = options;
+
+    // Counted after dropping non-numeric points and repeated x values
+    const unknown = sortSpectrum(points);
+    if (unknown.length < 10) {
+      throw new SpectrumQueryError('A spectrum with at least 10 distinct numeric x,y data points is required');
+    }
+
+    const axis = buildAxis(unknown[0][0], unknown[unknown.length - 1][0], axisSize);
+    const query = preprocessSpectrum(unknown, axis, { correctBaseline });
+
+    // Load candidate spectra together with their mineral names
+    const candidatesQuery = db.select({
+      spectrumId: rruffSpectra.id,
+      mineralId: rruffSpectra.mineralId,
+      spectraType: rruffSpectra.spectraType,
+      sampleId: rruffSpectra.sampleId,
+      dataPoints: rruffSpectra.dataPoints,
+      mineralName: rruffMinerals.mineralName,
+      chemicalFormula: rruffMinerals.chemicalFormula
+    })
+    .from(rruffSpectra)
+    .innerJoin(rruffMinerals, eq(rruffSpectra.mineralId, rruffMinerals.id));
+
+    if (spectraType) {
+      candidatesQuery.where(ilike(rruffSpectra.spectraType, spectraType));
+    }
+
+    const candidates = await candidatesQuery;
+    const matches: SpectrumMatch[] = [];
+    let candidatesCompared = 0;
+
+    for (const candidate of candidates) {
+      const dataPoints = (candidate.dataPoints || []) as SpectrumPoint[];
+      if (dataPoints.length < 10) continue;
+
+      candidatesCompared++;
+
+      const processed = preprocessSpectrum(dataPoints, axis, { correctBaseline });
+      const { correlation, overlap } = pearsonCorrelation(query, processed);
+      const coverage = overlap / axis.length;
+
+      if (coverage < MIN_COVERAGE || correlation <= 0) continue;
+
+      matches.push({
+        spectrumId: candidate.spectrumId,
+        mineralId: candidate.mineralId,
+        mineralName: candidate.mineralName,
+        chemicalFormula: candidate.chemicalFormula,
+        spectraType: candidate.spectraType,
+        sampleId: candidate.sampleId,
+        score: Math.round(correlation * coverage * 1000) / 1000,
+        correlation: Math.round(correlation * 1000) / 1000,
+        coverage: Math.round(coverage * 1000) / 1000,
+        dataPoints: toPoints(axis, processed)
+      });
+    }
+
+    matches.sort((a, b) => b.score - a.score);
+
+    return {
+      query: toPoints(axis, query),
+      matches: matches.slice(0, limit),
+      candidatesCompared
+    };
+  }
+}
+
+// Export singleton instance
+export const spectrumMatcher = new SpectrumMatcher();
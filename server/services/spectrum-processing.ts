@@ -0,0 +1,219 @@
+/**
+ * Spectrum Processing Utilities
+ *
+ * Pure signal-processing helpers shared by the RRUFF spectrum services.
+ * Spectra are handled as arrays of [x, y] pairs, the same shape stored in
+ * `rruffSpectra.dataPoints`. These functions:
+ * 1. Parse two-column x,y text uploads
+ * 2. Resample spectra onto a common axis
+ * 3. Remove a slowly varying baseline (fluorescence, background)
+ * 4. Normalize intensities so different instruments can be compared
+ */
+
+export type SpectrumPoint = [number, number];
+
+/**
+ * Parse a two-column x,y text spectrum.
+ * Accepts comma, semicolon, tab or whitespace separated columns and skips
+ * blank lines, comments (`#`) and any line that does not start with two numbers.
+ */
+export function parseSpectrumText(text: string): SpectrumPoint[] {
+  const points: SpectrumPoint[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const columns = line.split(/[\s,;]+/).filter(Boolean);
+    if (columns.length < 2) continue;
+
+    const x = parseFloat(columns[0]);
+    const y = parseFloat(columns[1]);
+    if (Number.isFinite(x) && Number.isFinite(y)) {
+      points.push([x, y]);
+    }
+  }
+
+  return sortSpectrum(points);
+}
+
+/**
+ * Sort points by x and drop duplicate x values (keeping the first occurrence)
+ */
+export function sortSpectrum(points: SpectrumPoint[]): SpectrumPoint[] {
+  const sorted = points
+    .filter(([x, y]) => Number.isFinite(x) && Number.isFinite(y))
+    .sort((a, b) => a[0] - b[0]);
+
+  return sorted.filter((point, index) => index === 0 || point[0] !== sorted[index - 1][0]);
+}
+
+/**
+ * Build an evenly spaced axis between min and max
+ */
+export function buildAxis(min: number, max: number, size: number): number[] {
+  if (size < 2 || max <= min) {
+    return [min];
+  }
+
+  const step = (max - min) / (size - 1);
+  return Array.from({ length: size }, (_, i) => min + i * step);
+}
+
+/**
+ * Linearly interpolate a spectrum onto the given axis.
+ * Axis positions outside the spectrum's range are returned as NaN so callers
+ * can tell "no data" apart from zero intensity.
+ */
+export function resampleSpectrum(points: SpectrumPoint[], axis: number[]): number[] {
+  const sorted = sortSpectrum(points);
+  const values = new Array<number>(axis.length).fill(NaN);
+
+  if (sorted.length < 2) {
+    return values;
+  }
+
+  let j = 0;
+  for (let i = 0; i < axis.length; i++) {
+    const x = axis[i];
+    if (x < sorted[0][0] || x > sorted[sorted.length - 1][0]) continue;
+
+    while (j < sorted.length - 2 && sorted[j + 1][0] < x) {
+      j++;
+    }
+
+    const [x0, y0] = sorted[j];
+    const [x1, y1] = sorted[j + 1];
+    values[i] = x1 === x0 ? y0 : y0 + ((y1 - y0) * (x - x0)) / (x1 - x0);
+  }
+
+  return values;
+}
+
+/**
+ * Subtract a baseline estimated with a rolling minimum followed by a
+ * moving-average smooth (a cheap "rolling ball"). The window is expressed in
+ * samples and should be wider than the broadest real peak.
+ * NaN samples are left untouched.
+ */
+export function subtractBaseline(values: number[], windowSize: number): number[] {
+  const half = Math.max(1, Math.floor(windowSize / 2));
+  const minima = values.map((value, i) => {
+    if (Number.isNaN(value)) return NaN;
+
+    let min = Infinity;
+    for (let k = Math.max(0, i - half); k <= Math.min(values.length - 1, i + half); k++) {
+      if (!Number.isNaN(values[k]) && values[k] < min) min = values[k];
+    }
+    return min;
+  });
+
+  const baseline = movingAverage(minima, half);
+
+  return values.map((value, i) => {
+    if (Number.isNaN(value)) return NaN;
+    return Math.max(0, value - baseline[i]);
+  });
+}
+
+/**
+ * Centered moving average that ignores NaN samples
+ */
+export function movingAverage(values: number[], halfWindow: number): number[] {
+  return values.map((value, i) => {
+    if (Number.isNaN(value)) return NaN;
+
+    let sum = 0;
+    let count = 0;
+    for (let k = Math.max(0, i - halfWindow); k <= Math.min(values.length - 1, i + halfWindow); k++) {
+      if (!Number.isNaN(values[k])) {
+        sum += values[k];
+        count++;
+      }
+    }
+    return count > 0 ? sum / count : NaN;
+  });
+}
+
+/**
+ * Scale intensities so the strongest sample is 1. NaN samples are kept.
+ */
+export function normalizeToMax(values: number[]): number[] {
+  let max = 0;
+  for (const value of values) {
+    if (!Number.isNaN(value) && value > max) max = value;
+  }
+
+  if (max === 0) {
+    return values.map(value => (Number.isNaN(value) ? NaN : 0));
+  }
+
+  return values.map(value => (Number.isNaN(value) ? NaN : value / max));
+}
+
+/**
+ * Pearson correlation over the samples where both series have data
+ */
+export function pearsonCorrelation(a: number[], b: number[]): { correlation: number; overlap: number } {
+  const pairs: Array<[number, number]> = [];
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (!Number.isNaN(a[i]) && !Number.isNaN(b[i])) {
+      pairs.push([a[i], b[i]]);
+    }
+  }
+
+  if (pairs.length < 3) {
+    return { correlation: 0, overlap: pairs.length };
+  }
+
+  const meanA = pairs.reduce((sum, [x]) => sum + x, 0) / pairs.length;
+  const meanB = pairs.reduce((sum, [, y]) => sum + y, 0) / pairs.length;
+
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (const [x, y] of pairs) {
+    covariance += (x - meanA) * (y - meanB);
+    varianceA += (x - meanA) ** 2;
+    varianceB += (y - meanB) ** 2;
+  }
+
+  if (varianceA === 0 || varianceB === 0) {
+    return { correlation: 0, overlap: pairs.length };
+  }
+
+  return {
+    correlation: covariance / Math.sqrt(varianceA * varianceB),
+    overlap: pairs.length
+  };
+}
+
+/**
+ * Resample, baseline-correct and normalize a spectrum onto the given axis
+ */
+export function preprocessSpectrum(
+  points: SpectrumPoint[],
+  axis: number[],
+  options: { baselineWindow?: number; correctBaseline?: boolean } = {}
+): number[] {
+  const { baselineWindow = Math.max(5, Math.round(axis.length / 10)), correctBaseline = true } = options;
+
+  let values = resampleSpectrum(points, axis);
+  if (correctBaseline) {
+    values = subtractBaseline(values, baselineWindow);
+  }
+  return normalizeToMax(values);
+}
+
+/**
+ * Zip an axis and a value series back into [x, y] pairs, dropping NaN samples
+ */
+export function toPoints(axis: number[], values: number[]): SpectrumPoint[] {
+  const points: SpectrumPoint[] = [];
+  for (let i = 0; i < axis.length; i++) {
+    if (!Number.isNaN(values[i])) {
+      points.push([axis[i], values[i]]);
+    }
+  }
+  return points;
+}
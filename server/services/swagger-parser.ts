@@ -1,6 +1,8 @@
-import { APIEndpoint, APICategory, OpenAPIDocument, PathItem, Operation, Parameter } from "../../client/src/types/api";
+import { APIEndpoint, APICategory, OpenAPIDocument, PathItem, Operation } from "../../client/src/types/api";
 import { storage } from "../storage";
 import { InsertApiEndpoint, InsertEndpointCategory } from "@shared/schema";
+import { getMindatBaseUrl } from "./mindat-config";
+import { resolveParameters, resolveRequestBody } from "./openapi-resolver";
 
 /**
  * Fetches the Swagger documentation from the Mindat API
@@ -10,7 +12,7 @@ import { InsertApiEndpoint, InsertEndpointCategory } from "@shared/schema";
 export async function fetchSwaggerDocs(apiKey: string): Promise<OpenAPIDocument> {
   try {
     // Use Token authentication with the API key
-    const response = await fetch('https://api.mindat.org/schema/swagger.json', {
+    const response = await fetch(`${getMindatBaseUrl()}/schema/swagger.json`, {
       headers: {
         'Authorization': `Token ${apiKey}`,
         'Content-Type': 'application/json',
@@ -30,7 +32,11 @@ export async function fetchSwaggerDocs(apiKey: string): Promise<OpenAPIDocument>
 }
 
 /**
- * Parses the Swagger documentation and stores it in the database
+ * Parses the Swagger documentation and stores it in the database. Categories are
+ * matched by name and endpoints by method and path, so parsing a newer version of
+ * the document updates the stored rows instead of adding duplicates. Endpoints the
+ * document no longer has are deactivated rather than deleted, since saved requests
+ * may still point at them.
  * @param swaggerDoc - The Swagger documentation as a JSON object
  */
 export async function parseSwaggerDoc(swaggerDoc: OpenAPIDocument): Promise<APICategory[]> {
@@ -42,7 +48,7 @@ export async function parseSwaggerDoc(swaggerDoc: OpenAPIDocument): Promise<APIC
     for (const [path, pathItem] of Object.entries(swaggerDoc.paths)) {
       for (const [method, operation] of Object.entries(pathItem)) {
         if (isOperation(method, operation)) {
-          const endpoint = createEndpointFromOperation(path, method, operation);
+          const endpoint = createEndpointFromOperation(swaggerDoc, path, pathItem, method, operation);
           
           // Determine which tag/category this endpoint belongs to
           const tag = operation.tags && operation.tags.length > 0 
@@ -58,6 +64,14 @@ export async function parseSwaggerDoc(swaggerDoc: OpenAPIDocument): Promise<APIC
       }
     }
     
+    // Rows stored from an earlier version of the document, including deactivated ones
+    const existingCategories = await storage.getApiCategories({ includeInactive: true });
+    const categoriesByName = new Map(existingCategories.map(category => [category.name, category]));
+    const endpointIds = new Map<string, number>();
+    existingCategories.forEach(category => category.endpoints.forEach(endpoint => {
+      endpointIds.set(`${endpoint.method.toUpperCase()} ${endpoint.path}`, endpoint.id);
+    }));
+    
     // Create categories and add endpoints
     const categories: APICategory[] = [];
     
@@ -68,7 +82,7 @@ export async function parseSwaggerDoc(swaggerDoc: OpenAPIDocument): Promise<APIC
         description: `API endpoints related to ${tagName.toLowerCase()}`
       };
       
-      const category = await storage.addApiCategory(categoryData);
+      const category = categoriesByName.get(tagName) || await storage.addApiCategory(categoryData);
       
       // Add each endpoint to the database
       const storedEndpoints: APIEndpoint[] = [];
@@ -80,11 +94,16 @@ export async function parseSwaggerDoc(swaggerDoc: OpenAPIDocument): Promise<APIC
           summary: endpoint.summary,
           description: endpoint.description,
           parameters: JSON.stringify(endpoint.parameters),
+          requestBody: endpoint.requestBody ? JSON.stringify(endpoint.requestBody) : null,
           responses: JSON.stringify(endpoint.responses),
-          categoryId: category.id
+          categoryId: category.id,
+          isActive: true
         };
         
-        const storedEndpoint = await storage.addApiEndpoint(endpointData);
+        const existingId = endpointIds.get(`${endpoint.method} ${endpoint.path}`);
+        const storedEndpoint = existingId
+          ? await storage.updateApiEndpoint(existingId, endpointData)
+          : await storage.addApiEndpoint(endpointData);
         
         storedEndpoints.push({
           id: storedEndpoint.id,
@@ -93,6 +112,7 @@ export async function parseSwaggerDoc(swaggerDoc: OpenAPIDocument): Promise<APIC
           summary: storedEndpoint.summary || undefined,
           description: storedEndpoint.description || undefined,
           parameters: endpoint.parameters,
+          requestBody: endpoint.requestBody,
           responses: endpoint.responses,
           categoryId: storedEndpoint.categoryId || undefined
         });
@@ -106,6 +126,14 @@ export async function parseSwaggerDoc(swaggerDoc: OpenAPIDocument): Promise<APIC
       });
     }
     
+    const activeIds = categories.flatMap(category => category.endpoints.map(endpoint => endpoint.id));
+    if (activeIds.length > 0) {
+      const deactivated = await storage.deactivateApiEndpointsExcept(activeIds);
+      if (deactivated > 0) {
+        console.log(`Deactivated ${deactivated} endpoint(s) no longer in the Swagger doc`);
+      }
+    }
+    
     return categories;
   } catch (error) {
     console.error('Error parsing Swagger doc:', error);
@@ -122,19 +150,24 @@ function isOperation(method: string, value: any): value is Operation {
 }
 
 /**
- * Creates an APIEndpoint object from a Swagger Operation
+ * Creates an APIEndpoint object from a Swagger Operation, with path-level parameters
+ * merged in and every $ref resolved (see openapi-resolver.ts)
  */
-function createEndpointFromOperation(path: string, method: string, operation: Operation): APIEndpoint {
-  // Combine path parameters and operation parameters
-  const parameters: Parameter[] = operation.parameters || [];
-  
+function createEndpointFromOperation(
+  doc: OpenAPIDocument,
+  path: string,
+  pathItem: PathItem,
+  method: string,
+  operation: Operation
+): APIEndpoint {
   return {
     id: 0, // Will be set when stored in the database
     path,
     method: method.toUpperCase(),
     summary: operation.summary || '',
     description: operation.description || '',
-    parameters,
+    parameters: resolveParameters(doc, pathItem, operation),
+    requestBody: resolveRequestBody(doc, operation),
     responses: operation.responses || {},
     categoryId: 0 // Will be set when stored in the database
   };
@@ -0,0 +1,98 @@
+/**
+ * Cross-process Sync Lock
+ *
+ * A lease stored in the sync_locks table so only one process (web dyno, cron
+ * worker or script) syncs at a time:
+ * 1. Acquiring inserts the lock row, or takes it over once the holder's lease expired
+ * 2. The holder renews the lease as it makes progress (heartbeat)
+ * 3. A crashed holder simply stops renewing, so the lock frees itself after the TTL
+ *
+ * Leases are used instead of pg advisory locks because pooled connections do not
+ * keep a session for the length of a sync.
+ */
+
+import os from 'os';
+import { randomUUID } from 'crypto';
+import { and, eq, gte, lt } from 'drizzle-orm';
+import { db } from '../db.js';
+import { syncLocks, type SyncLock } from '@shared/schema';
+
+export const MINERAL_SYNC_LOCK = 'mineral-sync';
+
+// Identifies this process in lock rows and sync log checkpoints
+export const PROCESS_OWNER_ID = `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+export class SyncLockError extends Error {
+  constructor(public readonly holder: SyncLock) {
+    super(`Mineral sync is already running (held by ${holder.ownerId} until ${holder.expiresAt.toISOString()})`);
+    this.name = 'SyncLockError';
+  }
+}
+
+/**
+ * Take the lock, or throw SyncLockError if another live owner holds it
+ */
+export async function acquireSyncLock(
+  name: string = MINERAL_SYNC_LOCK,
+  ttlMs: number = 5 * 60 * 1000,
+  ownerId: string = PROCESS_OWNER_ID
+): Promise<void> {
+  const expiresAt = new Date(Date.now() + ttlMs);
+
+  const acquired = await db
+    .insert(syncLocks)
+    .values({ name, ownerId, acquiredAt: new Date(), expiresAt })
+    .onConflictDoUpdate({
+      target: syncLocks.name,
+      set: { ownerId, acquiredAt: new Date(), expiresAt },
+      // Only take over an expired lease
+      setWhere: lt(syncLocks.expiresAt, new Date())
+    })
+    .returning({ ownerId: syncLocks.ownerId });
+
+  if (acquired.length === 0) {
+    const holder = await getSyncLock(name);
+    if (holder) throw new SyncLockError(holder);
+    // The holder released between our insert and read; try once more
+    return acquireSyncLock(name, ttlMs, ownerId);
+  }
+}
+
+/**
+ * Extend the lease; returns false if the lock was lost to another owner
+ */
+export async function renewSyncLock(
+  name: string = MINERAL_SYNC_LOCK,
+  ttlMs: number = 5 * 60 * 1000,
+  ownerId: string = PROCESS_OWNER_ID
+): Promise<boolean> {
+  const renewed = await db
+    .update(syncLocks)
+    .set({ expiresAt: new Date(Date.now() + ttlMs) })
+    .where(and(eq(syncLocks.name, name), eq(syncLocks.ownerId, ownerId)))
+    .returning({ name: syncLocks.name });
+
+  return renewed.length > 0;
+}
+
+export async function releaseSyncLock(
+  name: string = MINERAL_SYNC_LOCK,
+  ownerId: string = PROCESS_OWNER_ID
+): Promise<void> {
+  await db
+    .delete(syncLocks)
+    .where(and(eq(syncLocks.name, name), eq(syncLocks.ownerId, ownerId)));
+}
+
+/**
+ * Current live holder of the lock, if any
+ */
+export async function getSyncLock(name: string = MINERAL_SYNC_LOCK): Promise<SyncLock | null> {
+  const rows = await db
+    .select()
+    .from(syncLocks)
+    .where(and(eq(syncLocks.name, name), gte(syncLocks.expiresAt, new Date())))
+    .limit(1);
+
+  return rows[0] || null;
+}
@@ -0,0 +1,325 @@
+/**
+ * Theoretical Powder XRD Pattern Service
+ *
+ * Computes the reflections a mineral's unit cell allows:
+ * 1. d-spacings from the cell parameters via the reciprocal metric tensor
+ * 2. Bragg angles (2θ) for a chosen X-ray wavelength
+ * 3. Systematic absences from the space group (see space-groups.ts)
+ * 4. Approximate relative intensities from multiplicity and the Lorentz-polarization factor
+ *
+ * Atomic positions are only known for minerals with an uploaded CIF and aren't used
+ * here, so structure factors are not included and intensities are only a rough
+ * guide; peak positions are exact for the cell given.
+ */
+
+import { db } from '../db';
+import { eq } from 'drizzle-orm';
+import { minerals } from '@shared/schema';
+import { rruffMinerals } from '@shared/rruff-schema';
+import { crystalSystemForName, parseSpaceGroup, reflectionConditions, CrystalSystemName } from './space-groups';
+
+export interface UnitCellParameters {
+  a?: number | null;
+  b?: number | null;
+  c?: number | null;
+  alpha?: number | null;
+  beta?: number | null;
+  gamma?: number | null;
+}
+
+export interface PatternOptions {
+  wavelength?: number | string; // Å, or an anode name such as CuKa1
+  twoThetaMin?: number;
+  twoThetaMax?: number;
+  maxReflections?: number;
+  crystalSystem?: CrystalSystemName | null; // completes the cell when there is no space group
+}
+
+export interface TheoreticalReflection {
+  h: number;
+  k: number;
+  l: number;
+  dSpacing: number;
+  twoTheta: number;
+  multiplicity: number;
+  intensity: number; // relative, strongest = 100
+}
+
+export interface TheoreticalPattern {
+  wavelength: number;
+  twoThetaMin: number;
+  twoThetaMax: number;
+  spaceGroup: string | null;
+  spaceGroupNumber: number | null;
+  crystalSystem: CrystalSystemName | null;
+  cell: Required<{ [K in keyof UnitCellParameters]: number }>;
+  reflections: TheoreticalReflection[];
+  absencesApplied: boolean;
+}
+
+// Characteristic X-ray wavelengths (Å)
+export const X_RAY_WAVELENGTHS: Record<string, number> = {
+  CuKa1: 1.540598,
+  CuKa: 1.541838,
+  CoKa1: 1.788965,
+  CoKa: 1.790260,
+  FeKa1: 1.936042,
+  CrKa1: 2.289760,
+  MoKa1: 0.709317,
+  MoKa: 0.710730,
+  AgKa1: 0.559422
+};
+
+/**
+ * Raised when the cell, space group or wavelength can't produce a pattern
+ */
+export class XrdPatternError extends Error {}
+
+const DEFAULT_WAVELENGTH = X_RAY_WAVELENGTHS.CuKa;
+
+// Guard against huge enumerations for very large cells
+const MAX_MILLER_INDEX = 60;
+
+// Total hkl combinations one pattern may enumerate; the loop runs synchronously
+const MAX_HKL_COMBINATIONS = 250000;
+
+/**
+ * Resolve a wavelength given in Å or as an anode name
+ */
+export function resolveWavelength(value?: number | string | null): number {
+  if (value === undefined || value === null || value === '') return DEFAULT_WAVELENGTH;
+
+  const numeric = typeof value === 'number' ? value : parseFloat(value);
+  if (Number.isFinite(numeric) && numeric > 0) return numeric;
+
+  const key = Object.keys(X_RAY_WAVELENGTHS).find(name => name.toLowerCase() === String(value).toLowerCase().replace(/[\s-]/g, '').replace('alpha', 'a'));
+  if (!key) {
+    throw new XrdPatternError(`Unknown X-ray wavelength: ${value}`);
+  }
+  return X_RAY_WAVELENGTHS[key];
+}
+
+/**
+ * Read pattern options from query string or request body fields
+ * (`wavelength`, `min`/`twoThetaMin`, `max`/`twoThetaMax`)
+ */
+export function parsePatternOptions(source: Record<string, any> = {}): PatternOptions {
+  const min = parseFloat(source.twoThetaMin ?? source.min);
+  const max = parseFloat(source.twoThetaMax ?? source.max);
+
+  return {
+    wavelength: source.wavelength,
+    twoThetaMin: Number.isFinite(min) ? min : undefined,
+    twoThetaMax: Number.isFinite(max) ? max : undefined
+  };
+}
+
+/**
+ * Parse a numeric cell value stored as text (e.g. "4.913(1)")
+ */
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+/**
+ * Fill in cell parameters that the crystal system fixes (e.g. b = c = a for cubic)
+ */
+export function completeCell(cell: UnitCellParameters, system: CrystalSystemName | null): TheoreticalPattern['cell'] | null {
+  const a = toNumber(cell.a);
+  if (!a) return null;
+
+  const alpha = toNumber(cell.alpha) ?? 90;
+  const hexagonalAxes = (system === 'hexagonal' || system === 'trigonal') && Math.abs(alpha - 90) < 0.01;
+  const rhombohedralAxes = system === 'trigonal' && !hexagonalAxes;
+
+  const b = toNumber(cell.b) ?? (system && system !== 'orthorhombic' && system !== 'monoclinic' && system !== 'triclinic' ? a : null);
+  const c = toNumber(cell.c) ?? (system === 'cubic' || rhombohedralAxes ? a : null);
+  if (!b || !c) return null;
+
+  return {
+    a,
+    b,
+    c,
+    alpha,
+    beta: toNumber(cell.beta) ?? (rhombohedralAxes ? alpha : 90),
+    gamma: toNumber(cell.gamma) ?? (hexagonalAxes ? 120 : rhombohedralAxes ? alpha : 90)
+  };
+}
+
+/**
+ * Reciprocal metric tensor G* (inverse of the direct metric tensor)
+ */
+function reciprocalMetric(cell: TheoreticalPattern['cell']): number[][] | null {
+  const rad = Math.PI / 180;
+  const { a, b, c } = cell;
+  const cosAlpha = Math.cos(cell.alpha * rad);
+  const cosBeta = Math.cos(cell.beta * rad);
+  const cosGamma = Math.cos(cell.gamma * rad);
+
+  const g = [
+    [a * a, a * b * cosGamma, a * c * cosBeta],
+    [a * b * cosGamma, b * b, b * c * cosAlpha],
+    [a * c * cosBeta, b * c * cosAlpha, c * c]
+  ];
+
+  const det =
+    g[0][0] * (g[1][1] * g[2][2] - g[1][2] * g[2][1]) -
+    g[0][1] * (g[1][0] * g[2][2] - g[1][2] * g[2][0]) +
+    g[0][2] * (g[1][0] * g[2][1] - g[1][1] * g[2][0]);
+
+  if (!(det > 0)) return null;
+
+  return [
+    [(g[1][1] * g[2][2] - g[1][2] * g[2][1]) / det, (g[0][2] * g[2][1] - g[0][1] * g[2][2]) / det, (g[0][1] * g[1][2] - g[0][2] * g[1][1]) / det],
+    [(g[1][2] * g[2][0] - g[1][0] * g[2][2]) / det, (g[0][0] * g[2][2] - g[0][2] * g[2][0]) / det, (g[0][2] * g[1][0] - g[0][0] * g[1][2]) / det],
+    [(g[1][0] * g[2][1] - g[1][1] * g[2][0]) / det, (g[0][1] * g[2][0] - g[0][0] * g[2][1]) / det, (g[0][0] * g[1][1] - g[0][1] * g[1][0]) / det]
+  ];
+}
+
+/**
+ * Prefer the index triple with non-negative, descending indices as the label of a reflection group
+ */
+function labelRank(h: number, k: number, l: number): number {
+  const negatives = [h, k, l].filter(value => value < 0).length;
+  return negatives * 1e6 - (h * 1e4 + k * 1e2 + l);
+}
+
+/**
+ * Compute the theoretical powder pattern for a unit cell and space group
+ */
+export function computePowderPattern(
+  cell: UnitCellParameters,
+  spaceGroupInput: string | number | null | undefined,
+  options: PatternOptions = {}
+): TheoreticalPattern {
+  const wavelength = resolveWavelength(options.wavelength);
+  const twoThetaMin = Math.max(0, options.twoThetaMin ?? 5);
+  const twoThetaMax = Math.min(179, options.twoThetaMax ?? 90);
+  const maxReflections = options.maxReflections ?? 500;
+
+  const spaceGroup = spaceGroupInput !== null && spaceGroupInput !== undefined && spaceGroupInput !== ''
+    ? parseSpaceGroup(spaceGroupInput)
+    : null;
+
+  const crystalSystem = spaceGroup?.crystalSystem ?? options.crystalSystem ?? null;
+  const completed = completeCell(cell, crystalSystem);
+  if (!completed) {
+    throw new XrdPatternError('Unit cell parameters are incomplete');
+  }
+
+  const metric = reciprocalMetric(completed);
+  if (!metric) {
+    throw new XrdPatternError('Unit cell parameters do not describe a valid cell');
+  }
+
+  // Rhombohedral cells (a = b = c, α = β = γ ≠ 90°) carry no obverse centering condition
+  const rhombohedralAxes = spaceGroup?.lattice === 'R'
+    && Math.abs(completed.alpha - 90) > 0.01
+    && Math.abs(completed.alpha - completed.gamma) < 0.01;
+  const conditions = spaceGroup ? reflectionConditions(spaceGroup, { rhombohedralAxes }) : [];
+
+  const dMin = wavelength / (2 * Math.sin((twoThetaMax * Math.PI) / 360));
+  const dMax = twoThetaMin > 0 ? wavelength / (2 * Math.sin((twoThetaMin * Math.PI) / 360)) : Infinity;
+  const limits = [completed.a, completed.b, completed.c].map(length => Math.min(MAX_MILLER_INDEX, Math.ceil(length / dMin)));
+  const combinations = limits.reduce((total, limit) => total * (2 * limit + 1), 1);
+  if (combinations > MAX_HKL_COMBINATIONS) {
+    throw new XrdPatternError('Too many reflections to compute for this cell; lower the 2θ maximum or use a longer wavelength');
+  }
+
+  // Group symmetry-equivalent (and accidentally overlapping) reflections by d-spacing
+  const groups = new Map<string, { h: number; k: number; l: number; dSpacing: number; multiplicity: number }>();
+
+  for (let h = -limits[0]; h <= limits[0]; h++) {
+    for (let k = -limits[1]; k <= limits[1]; k++) {
+      for (let l = -limits[2]; l <= limits[2]; l++) {
+        if (h === 0 && k === 0 && l === 0) continue;
+
+        const inverseSquare =
+          metric[0][0] * h * h + metric[1][1] * k * k + metric[2][2] * l * l +
+          2 * (metric[0][1] * h * k + metric[0][2] * h * l + metric[1][2] * k * l);
+        if (!(inverseSquare > 0)) continue;
+
+        const dSpacing = 1 / Math.sqrt(inverseSquare);
+        if (dSpacing < dMin || dSpacing > dMax) continue;
+        if (!conditions.every(condition => condition(h, k, l))) continue;
+
+        const key = dSpacing.toFixed(4);
+        const group = groups.get(key);
+        if (!group) {
+          groups.set(key, { h, k, l, dSpacing, multiplicity: 1 });
+        } else {
+          group.multiplicity++;
+          if (labelRank(h, k, l) < labelRank(group.h, group.k, group.l)) {
+            Object.assign(group, { h, k, l });
+          }
+        }
+      }
+    }
+  }
+
+  const reflections: TheoreticalReflection[] = Array.from(groups.values()).map(group => {
+    const theta = Math.asin(Math.min(1, wavelength / (2 * group.dSpacing)));
+    const cos2Theta = Math.cos(2 * theta);
+    const lorentzPolarization = (1 + cos2Theta * cos2Theta) / (Math.sin(theta) ** 2 * Math.cos(theta));
+
+    return {
+      h: group.h,
+      k: group.k,
+      l: group.l,
+      dSpacing: Number(group.dSpacing.toFixed(5)),
+      twoTheta: Number(((2 * theta * 180) / Math.PI).toFixed(4)),
+      multiplicity: group.multiplicity,
+      intensity: group.multiplicity * lorentzPolarization
+    };
+  });
+
+  const strongest = Math.max(0, ...reflections.map(reflection => reflection.intensity));
+  reflections.forEach(reflection => {
+    reflection.intensity = strongest > 0 ? Number(((reflection.intensity / strongest) * 100).toFixed(2)) : 0;
+  });
+  reflections.sort((a, b) => a.twoTheta - b.twoTheta);
+
+  return {
+    wavelength,
+    twoThetaMin,
+    twoThetaMax,
+    spaceGroup: spaceGroup?.symbol ?? null,
+    spaceGroupNumber: spaceGroup?.number ?? null,
+    crystalSystem,
+    cell: completed,
+    reflections: reflections.slice(0, maxReflections),
+    absencesApplied: conditions.length > 0
+  };
+}
+
+export class XrdPatternService {
+  /**
+   * Pattern for a synced Mindat mineral (cell stored as text, space group as a
+   * number); `csystem` completes the cell when the space group is missing
+   */
+  async getPatternForMineral(mineralId: number, options: PatternOptions = {}): Promise<TheoreticalPattern | null> {
+    const [mineral] = await db.select().from(minerals).where(eq(minerals.id, mineralId)).limit(1);
+    if (!mineral) return null;
+
+    return computePowderPattern(
+      { a: toNumber(mineral.a), b: toNumber(mineral.b), c: toNumber(mineral.c), alpha: toNumber(mineral.alpha), beta: toNumber(mineral.beta), gamma: toNumber(mineral.gamma) },
+      mineral.spacegroup || null,
+      { ...options, crystalSystem: crystalSystemForName(mineral.csystem) }
+    );
+  }
+
+  /**
+   * Pattern for a RRUFF mineral (cell stored as JSON, space group as a symbol)
+   */
+  async getPatternForRruffMineral(mineralId: number, options: PatternOptions = {}): Promise<TheoreticalPattern | null> {
+    const [mineral] = await db.select().from(rruffMinerals).where(eq(rruffMinerals.id, mineralId)).limit(1);
+    if (!mineral) return null;
+
+    return computePowderPattern(mineral.unitCell || {}, mineral.spaceGroup, options);
+  }
+}
+
+// Export singleton instance
+export const xrdPatternService = new XrdPatternService();
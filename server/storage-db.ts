@@ -13,10 +13,24 @@ import {
   type InsertSavedRequest
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, like, or } from "drizzle-orm";
+import { and, eq, like, notInArray, or } from "drizzle-orm";
 import { IStorage } from "./storage";
-import { APICategory, APIEndpoint, Parameter } from "../client/src/types/api";
+import { APICategory, APIEndpoint, Parameter, ResolvedRequestBody } from "../client/src/types/api";
 import { generateChatResponse as generateOpenAIResponse } from "./services/openai-service";
+import { getMindatBaseUrl } from "./services/mindat-config";
+
+// Request bodies are stored as JSON text by the Swagger parser
+function parseRequestBody(value: unknown): ResolvedRequestBody | undefined {
+  if (!value) return undefined;
+  if (typeof value !== 'string') return value as ResolvedRequestBody;
+
+  try {
+    return JSON.parse(value) as ResolvedRequestBody;
+  } catch (e) {
+    console.error('Error parsing request body:', e);
+    return undefined;
+  }
+}
 
 export class DatabaseStorage implements IStorage {
   // User methods
@@ -42,7 +56,7 @@ export class DatabaseStorage implements IStorage {
       const authString = `${process.env.MINDAT_USERNAME}:${process.env.MINDAT_PASSWORD}`;
       const base64Auth = Buffer.from(authString).toString('base64');
       
-      const response = await fetch('https://api.mindat.org/minerals/search?name=quartz&limit=1', {
+      const response = await fetch(`${getMindatBaseUrl()}/minerals/search?name=quartz&limit=1`, {
         headers: {
           'Authorization': `Basic ${base64Auth}`,
           'Content-Type': 'application/json'
@@ -57,7 +71,7 @@ export class DatabaseStorage implements IStorage {
   }
   
   // API Documentation methods
-  async getApiCategories(): Promise<APICategory[]> {
+  async getApiCategories(options: { includeInactive?: boolean } = {}): Promise<APICategory[]> {
     const categories = await db.select().from(endpointCategories);
     const result: APICategory[] = [];
     
@@ -65,7 +79,13 @@ export class DatabaseStorage implements IStorage {
       const endpointResults = await db
         .select()
         .from(apiEndpoints)
-        .where(eq(apiEndpoints.categoryId, category.id));
+        .where(and(
+          eq(apiEndpoints.categoryId, category.id),
+          options.includeInactive ? undefined : eq(apiEndpoints.isActive, true)
+        ));
+      
+      // Categories whose endpoints all left the spec are hidden with them
+      if (endpointResults.length === 0 && !options.includeInactive) continue;
       
       const endpointList: APIEndpoint[] = endpointResults.map(endpoint => {
         // Handle parameters based on type
@@ -105,6 +125,7 @@ export class DatabaseStorage implements IStorage {
           summary: endpoint.summary || endpoint.path,
           description: endpoint.description || undefined,
           parameters,
+          requestBody: parseRequestBody(endpoint.requestBody),
           responses,
           categoryId: endpoint.categoryId || undefined
         };
@@ -165,6 +186,7 @@ export class DatabaseStorage implements IStorage {
       summary: endpoint.summary || endpoint.path,
       description: endpoint.description || undefined,
       parameters,
+      requestBody: parseRequestBody(endpoint.requestBody),
       responses,
       categoryId: endpoint.categoryId || undefined
     };
@@ -177,11 +199,14 @@ export class DatabaseStorage implements IStorage {
       .select()
       .from(apiEndpoints)
       .where(
-        or(
-          like(apiEndpoints.path, `%${normalizedQuery}%`),
-          like(apiEndpoints.method, `%${normalizedQuery}%`),
-          like(apiEndpoints.summary, `%${normalizedQuery}%`),
-          like(apiEndpoints.description, `%${normalizedQuery}%`)
+        and(
+          eq(apiEndpoints.isActive, true),
+          or(
+            like(apiEndpoints.path, `%${normalizedQuery}%`),
+            like(apiEndpoints.method, `%${normalizedQuery}%`),
+            like(apiEndpoints.summary, `%${normalizedQuery}%`),
+            like(apiEndpoints.description, `%${normalizedQuery}%`)
+          )
         )
       );
     
@@ -223,6 +248,7 @@ export class DatabaseStorage implements IStorage {
         summary: endpoint.summary || endpoint.path,
         description: endpoint.description || undefined,
         parameters,
+        requestBody: parseRequestBody(endpoint.requestBody),
         responses,
         categoryId: endpoint.categoryId || undefined
       };
@@ -234,10 +260,24 @@ export class DatabaseStorage implements IStorage {
     return endpoint;
   }
 
+  async updateApiEndpoint(id: number, endpointData: InsertApiEndpoint): Promise<ApiEndpoint> {
+    const [endpoint] = await db.update(apiEndpoints).set(endpointData).where(eq(apiEndpoints.id, id)).returning();
+    return endpoint;
+  }
+
   async addApiCategory(categoryData: InsertEndpointCategory): Promise<EndpointCategory> {
     const [category] = await db.insert(endpointCategories).values(categoryData).returning();
     return category;
   }
+
+  async deactivateApiEndpointsExcept(activeIds: number[]): Promise<number> {
+    const deactivated = await db
+      .update(apiEndpoints)
+      .set({ isActive: false })
+      .where(and(eq(apiEndpoints.isActive, true), notInArray(apiEndpoints.id, activeIds)))
+      .returning({ id: apiEndpoints.id });
+    return deactivated.length;
+  }
   
   // Saved requests methods
   async getSavedRequests(): Promise<SavedRequest[]> {
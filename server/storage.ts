@@ -14,6 +14,7 @@ import {
 } from "@shared/schema";
 import { APICategory, APIEndpoint, Parameter } from "../client/src/types/api";
 import { generateChatResponse as generateOpenAIResponse } from "./services/openai-service";
+import { getMindatBaseUrl } from "./services/mindat-config";
 
 export interface IStorage {
   // User methods
@@ -23,11 +24,13 @@ export interface IStorage {
   validateApiKey(apiKey: string): Promise<boolean>;
   
   // API Documentation methods
-  getApiCategories(): Promise<APICategory[]>;
+  getApiCategories(options?: { includeInactive?: boolean }): Promise<APICategory[]>;
   getApiEndpoint(id: number): Promise<APIEndpoint | undefined>;
   searchApiEndpoints(query: string): Promise<APIEndpoint[]>;
   addApiEndpoint(endpoint: InsertApiEndpoint): Promise<ApiEndpoint>;
+  updateApiEndpoint(id: number, endpoint: InsertApiEndpoint): Promise<ApiEndpoint>;
   addApiCategory(category: InsertEndpointCategory): Promise<EndpointCategory>;
+  deactivateApiEndpointsExcept(activeIds: number[]): Promise<number>;
   
   // Saved requests methods
   getSavedRequests(): Promise<SavedRequest[]>;
@@ -464,7 +467,7 @@ export class MemStorage implements IStorage {
         const base64Auth = Buffer.from(`${username}:${password}`).toString('base64');
         
         // Try to make a simple request to validate credentials
-        const response = await fetch('https://api.mindat.org/minerals/search?name=quartz&limit=1', {
+        const response = await fetch(`${getMindatBaseUrl()}/minerals/search?name=quartz&limit=1`, {
           headers: {
             'Authorization': `Basic ${base64Auth}`,
             'Content-Type': 'application/json'
@@ -494,14 +497,14 @@ export class MemStorage implements IStorage {
   }
 
   // API Documentation methods
-  async getApiCategories(): Promise<APICategory[]> {
+  async getApiCategories(options: { includeInactive?: boolean } = {}): Promise<APICategory[]> {
     const categories: APICategory[] = [];
     
     for (const category of this.categories.values()) {
       const endpoints: APIEndpoint[] = [];
       
       for (const endpoint of this.endpoints.values()) {
-        if (endpoint.categoryId === category.id) {
+        if (endpoint.categoryId === category.id && (options.includeInactive || endpoint.isActive !== false)) {
           const parameters = endpoint.parameters 
             ? JSON.parse(endpoint.parameters as string) as Parameter[]
             : [];
@@ -523,6 +526,9 @@ export class MemStorage implements IStorage {
         }
       }
       
+      // Categories whose endpoints all left the spec are hidden with them
+      if (endpoints.length === 0 && !options.includeInactive) continue;
+      
       categories.push({
         id: category.id,
         name: category.name,
@@ -566,6 +572,8 @@ export class MemStorage implements IStorage {
     const normalizedQuery = query.toLowerCase();
     
     for (const endpoint of this.endpoints.values()) {
+      if (endpoint.isActive === false) continue;
+      
       const matchesPath = endpoint.path.toLowerCase().includes(normalizedQuery);
       const matchesMethod = endpoint.method.toLowerCase().includes(normalizedQuery);
       const matchesSummary = endpoint.summary && endpoint.summary.toLowerCase().includes(normalizedQuery);
@@ -603,6 +611,12 @@ export class MemStorage implements IStorage {
     return endpoint;
   }
 
+  async updateApiEndpoint(id: number, endpointData: InsertApiEndpoint): Promise<ApiEndpoint> {
+    const endpoint = { ...endpointData, id } as ApiEndpoint;
+    this.endpoints.set(id, endpoint);
+    return endpoint;
+  }
+
   async addApiCategory(categoryData: InsertEndpointCategory): Promise<EndpointCategory> {
     const id = this.categoryIdCounter++;
     const category: EndpointCategory = { ...categoryData, id };
@@ -610,6 +624,17 @@ export class MemStorage implements IStorage {
     return category;
   }
 
+  async deactivateApiEndpointsExcept(activeIds: number[]): Promise<number> {
+    let deactivated = 0;
+    this.endpoints.forEach(endpoint => {
+      if (endpoint.isActive !== false && !activeIds.includes(endpoint.id)) {
+        endpoint.isActive = false;
+        deactivated++;
+      }
+    });
+    return deactivated;
+  }
+
   // Saved requests methods
   async getSavedRequests(): Promise<SavedRequest[]> {
     const savedRequests: SavedRequest[] = [];
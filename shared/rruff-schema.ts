@@ -1,5 +1,5 @@
 import { relations, sql } from 'drizzle-orm';
-import { boolean, integer, json, pgTable, text, timestamp, varchar, serial } from 'drizzle-orm/pg-core';
+import { boolean, index, integer, json, pgTable, real, text, timestamp, uniqueIndex, varchar, serial } from 'drizzle-orm/pg-core';
 import { createInsertSchema } from 'drizzle-zod';
 import { z } from 'zod';
 
@@ -37,6 +37,9 @@ export const rruffMinerals = pgTable('rruff_minerals', {
     birefringence?: string;
   }>().default({}),
   elementComposition: json('element_composition').$type<Record<string, number>>().default({}),
+  molecularWeight: real('molecular_weight'),
+  elementWeightPercents: json('element_weight_percents').$type<Record<string, number>>().default({}),
+  oxideWeightPercents: json('oxide_weight_percents').$type<Record<string, number>>().default({}),
   yearFirstPublished: integer('year_first_published'),
   idealChemistry: text('ideal_chemistry'),
   comments: text('comments'),
@@ -57,11 +60,28 @@ export const rruffSpectra = pgTable('rruff_spectra', {
   wavelength: varchar('wavelength', { length: 50 }),
   temperature: varchar('temperature', { length: 50 }),
   pressure: varchar('pressure', { length: 50 }),
+  locality: text('locality'),
   dataUrl: text('data_url'),
   dataPoints: json('data_points').$type<Array<[number, number]>>().default([]), // [[x1,y1], [x2,y2], etc.]
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
-});
+}, (table) => ({
+  sampleIdx: uniqueIndex('idx_rruff_spectra_sample').on(table.mineralId, table.sampleId, table.spectraType),
+}));
+
+export const rruffSpectrumPeaks = pgTable('rruff_spectrum_peaks', {
+  id: serial('id').primaryKey().notNull(),
+  spectrumId: integer('spectrum_id').notNull().references(() => rruffSpectra.id, { onDelete: 'cascade' }),
+  mineralId: integer('mineral_id').notNull().references(() => rruffMinerals.id),
+  position: real('position').notNull(), // x position (cm⁻¹, 2θ, ...) in the spectrum's own units
+  intensity: real('intensity').notNull(), // relative to the strongest peak (0-1)
+  width: real('width'), // full width at half maximum, in x units
+  prominence: real('prominence'), // relative prominence above the surrounding baseline
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  positionIdx: index('idx_rruff_spectrum_peaks_position').on(table.position),
+  spectrumIdx: index('idx_rruff_spectrum_peaks_spectrum_id').on(table.spectrumId),
+}));
 
 export const rruffApiKeys = pgTable('rruff_api_keys', {
   id: serial('id').primaryKey().notNull(),
@@ -92,17 +112,31 @@ export const rruffMineralsRelations = relations(rruffMinerals, ({ many }) => ({
   spectra: many(rruffSpectra),
 }));
 
-export const rruffSpectraRelations = relations(rruffSpectra, ({ one }) => ({
+export const rruffSpectraRelations = relations(rruffSpectra, ({ one, many }) => ({
   mineral: one(rruffMinerals, {
     fields: [rruffSpectra.mineralId],
     references: [rruffMinerals.id],
   }),
+  peaks: many(rruffSpectrumPeaks),
+}));
+
+export const rruffSpectrumPeaksRelations = relations(rruffSpectrumPeaks, ({ one }) => ({
+  spectrum: one(rruffSpectra, {
+    fields: [rruffSpectrumPeaks.spectrumId],
+    references: [rruffSpectra.id],
+  }),
+  mineral: one(rruffMinerals, {
+    fields: [rruffSpectrumPeaks.mineralId],
+    references: [rruffMinerals.id],
+  }),
 }));
 
 // Zod schemas for validation
 export const insertRruffMineralSchema = createInsertSchema(rruffMinerals, {
   // Custom validation rules
   elementComposition: z.record(z.string(), z.number()).optional(),
+  elementWeightPercents: z.record(z.string(), z.number()).optional(),
+  oxideWeightPercents: z.record(z.string(), z.number()).optional(),
   unitCell: z.object({
     a: z.number().optional(),
     b: z.number().optional(),
@@ -126,6 +160,11 @@ export const insertRruffSpectraSchema = createInsertSchema(rruffSpectra, {
   dataPoints: z.array(z.tuple([z.number(), z.number()])).optional(),
 });
 
+export const insertRruffSpectrumPeakSchema = createInsertSchema(rruffSpectrumPeaks).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertRruffApiKeySchema = createInsertSchema(rruffApiKeys).omit({
   id: true,
   createdAt: true,
@@ -138,6 +177,8 @@ export type RruffMineral = typeof rruffMinerals.$inferSelect;
 export type InsertRruffMineral = z.infer<typeof insertRruffMineralSchema>;
 export type RruffSpectra = typeof rruffSpectra.$inferSelect;
 export type InsertRruffSpectra = z.infer<typeof insertRruffSpectraSchema>;
+export type RruffSpectrumPeak = typeof rruffSpectrumPeaks.$inferSelect;
+export type InsertRruffSpectrumPeak = z.infer<typeof insertRruffSpectrumPeakSchema>;
 export type RruffApiKey = typeof rruffApiKeys.$inferSelect;
 export type InsertRruffApiKey = z.infer<typeof insertRruffApiKeySchema>;
 export type RruffDataImportLog = typeof rruffDataImportLogs.$inferSelect;
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, jsonb, timestamp, varchar, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, jsonb, timestamp, varchar, boolean, real, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { relations, sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -75,8 +75,10 @@ export const apiEndpoints = pgTable("api_endpoints", {
   summary: text("summary"),
   description: text("description"),
   parameters: jsonb("parameters"),
+  requestBody: jsonb("request_body"),
   responses: jsonb("responses"),
   categoryId: integer("category_id").references(() => endpointCategories.id),
+  isActive: boolean("is_active").default(true), // false once the endpoint is gone from Mindat's spec
 });
 
 export const savedRequests = pgTable("saved_requests", {
@@ -84,10 +86,24 @@ export const savedRequests = pgTable("saved_requests", {
   name: text("name").notNull(),
   endpointId: integer("endpoint_id").references(() => apiEndpoints.id),
   parameters: jsonb("parameters"),
+  folder: text("folder"), // groups requests for export, e.g. the folder they were imported from
   userId: integer("user_id").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Each distinct Mindat swagger.json fetched, with its changes from the previous one
+export const apiSpecSnapshots = pgTable("api_spec_snapshots", {
+  id: serial("id").primaryKey(),
+  version: text("version").notNull(), // info.version of the document
+  title: text("title"),
+  specHash: text("spec_hash").notNull(), // SHA-256 of the document with sorted keys
+  document: jsonb("document").notNull(),
+  endpointCount: integer("endpoint_count").notNull().default(0),
+  previousSnapshotId: integer("previous_snapshot_id"),
+  changes: jsonb("changes"), // SpecDiff from the previous snapshot (see openapi-diff.ts)
+  fetchedAt: timestamp("fetched_at").defaultNow(),
+});
+
 // Zod schemas for secure validation
 export const insertUserSchema = createInsertSchema(users, {
   email: z.string().email().optional(),
@@ -156,14 +172,17 @@ export const insertApiEndpointSchema = createInsertSchema(apiEndpoints).pick({
   summary: true,
   description: true,
   parameters: true,
+  requestBody: true,
   responses: true,
   categoryId: true,
+  isActive: true,
 });
 
 export const insertSavedRequestSchema = createInsertSchema(savedRequests).pick({
   name: true,
   endpointId: true,
   parameters: true,
+  folder: true,
   userId: true,
 });
 
@@ -253,6 +272,8 @@ export type ApiEndpoint = typeof apiEndpoints.$inferSelect;
 export type InsertSavedRequest = z.infer<typeof insertSavedRequestSchema>;
 export type SavedRequest = typeof savedRequests.$inferSelect;
 
+export type ApiSpecSnapshot = typeof apiSpecSnapshots.$inferSelect;
+
 // Minerals database table for storing comprehensive mineral data from Mindat API
 export const minerals = pgTable("minerals", {
   // Core identification
@@ -271,6 +292,10 @@ export const minerals = pgTable("minerals", {
   elements: text("elements").array().default([]), // Array of element symbols
   sigelements: text("sigelements").array().default([]), // Significant elements
   impurities: text("impurities"),
+  composition: jsonb("composition").default({}), // Parsed element counts per formula unit
+  molecularWeight: real("molecular_weight"),
+  elementWeightPercents: jsonb("element_weight_percents").default({}),
+  oxideWeightPercents: jsonb("oxide_weight_percents").default({}),
   
   // Classification
   varietyof: integer("varietyof").default(0),
@@ -279,6 +304,16 @@ export const minerals = pgTable("minerals", {
   groupid: integer("groupid").default(0),
   entrytype: integer("entrytype").default(0),
   entrytypeText: text("entrytype_text"),
+  dana8ed1: text("dana8ed1"), // Dana 8th edition class
+  dana8ed2: text("dana8ed2"), // type
+  dana8ed3: text("dana8ed3"), // group
+  dana8ed4: text("dana8ed4"), // species
+  danaCode: text("dana_code"), // Joined code, e.g. "75.1.3.1"
+  strunz10ed1: text("strunz10ed1"), // Nickel-Strunz 10th edition class
+  strunz10ed2: text("strunz10ed2"), // subclass
+  strunz10ed3: text("strunz10ed3"), // family
+  strunz10ed4: text("strunz10ed4"), // species number
+  strunzCode: text("strunz_code"), // Joined code, e.g. "4.DA.05"
   
   // Physical properties
   colour: text("colour"),
@@ -286,8 +321,8 @@ export const minerals = pgTable("minerals", {
   lustre: text("lustre"),
   lustretype: text("lustretype"),
   diapheny: text("diapheny"), // Transparency
-  hmin: integer("hmin"), // Minimum hardness
-  hmax: integer("hmax"), // Maximum hardness
+  hmin: real("hmin"), // Minimum hardness
+  hmax: real("hmax"), // Maximum hardness
   hardtype: integer("hardtype").default(0),
   vhnmin: text("vhnmin"), // Vickers hardness min
   vhnmax: text("vhnmax"), // Vickers hardness max
@@ -342,6 +377,29 @@ export const minerals = pgTable("minerals", {
   opticalgamma2: text("opticalgamma2"),
   opticalepsilon2: text("opticalepsilon2"),
   opticalomega2: text("opticalomega2"),
+  opticaln: text("opticaln"),
+  opticaln2: text("opticaln2"),
+  opticalbirefringence: text("opticalbirefringence"),
+  
+  // Numeric ranges parsed from the text properties above, for range search
+  densityMin: real("density_min"),
+  densityMax: real("density_max"),
+  nAlphaMin: real("n_alpha_min"),
+  nAlphaMax: real("n_alpha_max"),
+  nBetaMin: real("n_beta_min"),
+  nBetaMax: real("n_beta_max"),
+  nGammaMin: real("n_gamma_min"),
+  nGammaMax: real("n_gamma_max"),
+  nOmegaMin: real("n_omega_min"),
+  nOmegaMax: real("n_omega_max"),
+  nEpsilonMin: real("n_epsilon_min"),
+  nEpsilonMax: real("n_epsilon_max"),
+  nMin: real("n_min"),
+  nMax: real("n_max"),
+  birefringence: real("birefringence"),
+  cellA: real("cell_a"),
+  cellB: real("cell_b"),
+  cellC: real("cell_c"),
   
   // Morphology and twinning
   morphology: text("morphology"),
@@ -393,16 +451,174 @@ export const apiKeys = pgTable("api_keys", {
 // Sync logs to track mineral data updates
 export const syncLogs = pgTable("sync_logs", {
   id: serial("id").primaryKey(),
-  syncType: text("sync_type").notNull(), // 'full', 'incremental', 'single'
+  syncType: text("sync_type").notNull(), // 'full', 'incremental', 'single', 'localities', 'occurrences'
   status: text("status").notNull(), // 'running', 'completed', 'failed'
   startedAt: timestamp("started_at").defaultNow(),
   completedAt: timestamp("completed_at"),
-  mineralsProcessed: integer("minerals_processed").default(0),
+  mineralsProcessed: integer("minerals_processed").default(0), // Records processed (localities/occurrences for those sync types)
   mineralsAdded: integer("minerals_added").default(0),
   mineralsUpdated: integer("minerals_updated").default(0),
   mineralsErrors: integer("minerals_errors").default(0),
   errorMessage: text("error_message"),
   details: jsonb("details").default({}),
+  // Checkpoint of the last fully processed page, so an interrupted sync can resume
+  checkpointPage: integer("checkpoint_page").default(0),
+  checkpointCursor: text("checkpoint_cursor"), // Mindat `next` URL after the checkpoint page
+  ownerId: text("owner_id"), // Process running the sync (host:pid:nonce)
+  heartbeatAt: timestamp("heartbeat_at"),
+});
+
+// Synonym, variety, polytype and group links, one row per pointer on a geomaterial record
+// (the related geomaterial is a Mindat id and may not be synced yet)
+export const mineralRelations = pgTable("mineral_relations", {
+  id: serial("id").primaryKey(),
+  mineralId: integer("mineral_id").notNull().references(() => minerals.id, { onDelete: "cascade" }),
+  relatedId: integer("related_id").notNull(),
+  relationType: text("relation_type").notNull(), // 'synonym_of', 'variety_of', 'polytype_of', 'member_of'
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  uniqueRelation: uniqueIndex("idx_mineral_relations_unique").on(table.mineralId, table.relatedId, table.relationType),
+  relatedIdx: index("idx_mineral_relations_related_id").on(table.relatedId, table.relationType),
+}));
+
+// Type localities of a geomaterial (Mindat locality ids)
+export const mineralTypeLocalities = pgTable("mineral_type_localities", {
+  id: serial("id").primaryKey(),
+  mineralId: integer("mineral_id").notNull().references(() => minerals.id, { onDelete: "cascade" }),
+  localityId: integer("locality_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  uniqueTypeLocality: uniqueIndex("idx_mineral_type_localities_unique").on(table.mineralId, table.localityId),
+  localityIdx: index("idx_mineral_type_localities_locality_id").on(table.localityId),
+}));
+
+// Localities synced from /localities; parentId links country -> region -> district -> mine
+export const localities = pgTable("localities", {
+  id: integer("id").primaryKey(), // Mindat ID
+  longid: text("longid"),
+  guid: text("guid"),
+  txt: text("txt").notNull(), // Full name, most specific first ("Jegdalek ruby deposit, Surobi District, Kabul, Afghanistan")
+  revtxtd: text("revtxtd"), // Full name, country first
+  name: text("name").notNull(), // First component of txt ("Jegdalek ruby deposit")
+  parentId: integer("parent_id"), // Mindat ID of the enclosing locality; 0/null at the top
+  level: integer("level"),
+  localityType: integer("locality_type"),
+  country: text("country"),
+  latitude: real("latitude"), // null when Mindat has no coordinates (it reports 0, 0)
+  longitude: real("longitude"),
+  elements: text("elements").array().default([]),
+  descriptionShort: text("description_short"),
+  mindatModifiedAt: timestamp("mindat_modified_at"), // Mindat's datemodify
+  lastSyncAt: timestamp("last_sync_at").defaultNow(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  parentIdx: index("idx_localities_parent_id").on(table.parentId),
+  countryIdx: index("idx_localities_country").on(table.country),
+  nameIdx: index("idx_localities_name").on(table.name),
+  coordinatesIdx: index("idx_localities_coordinates").on(table.latitude, table.longitude), // bounding-box and radius searches
+}));
+
+// Mineral occurrences at localities, synced from /locentries
+// (ids are Mindat ids; either side may not be synced yet, so there are no foreign keys)
+export const localityMinerals = pgTable("locality_minerals", {
+  id: integer("id").primaryKey(), // Mindat locentry ID
+  localityId: integer("locality_id").notNull(),
+  mineralId: integer("mineral_id").notNull(),
+  isTypeLocality: boolean("is_type_locality").default(false),
+  isQuestioned: boolean("is_questioned").default(false),
+  rarity: integer("rarity"),
+  colour: text("colour"),
+  habit: text("habit"),
+  description: text("description"),
+  reference: text("reference"),
+  mindatModifiedAt: timestamp("mindat_modified_at"),
+  lastSyncAt: timestamp("last_sync_at").defaultNow(),
+}, (table) => ({
+  localityIdx: index("idx_locality_minerals_locality_id").on(table.localityId),
+  mineralIdx: index("idx_locality_minerals_mineral_id").on(table.mineralId),
+}));
+
+// Dana 8th edition and Nickel-Strunz 10th edition class tables from /dana-8 and /nickel-strunz-10
+export const danaClasses = pgTable("dana_classes", {
+  id: integer("id").primaryKey(), // Mindat ID
+  code: text("code").notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const strunzClasses = pgTable("strunz_classes", {
+  id: integer("id").primaryKey(), // Mindat ID
+  code: text("code").notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Per-field change history for synced minerals (one row per changed field)
+export const mineralChanges = pgTable("mineral_changes", {
+  id: serial("id").primaryKey(),
+  mineralId: integer("mineral_id").notNull().references(() => minerals.id, { onDelete: "cascade" }),
+  syncLogId: integer("sync_log_id").references(() => syncLogs.id),
+  syncVersion: integer("sync_version").notNull(), // Mineral's syncVersion after the change
+  changeType: text("change_type").notNull(), // 'created', 'updated'
+  field: text("field"), // Column name (camelCase); null for 'created'
+  oldValue: jsonb("old_value"),
+  newValue: jsonb("new_value"),
+  mindatUpdttime: timestamp("mindat_updttime"), // Mindat's updttime for the new revision
+  changedAt: timestamp("changed_at").defaultNow().notNull(),
+}, (table) => ({
+  mineralIdx: index("idx_mineral_changes_mineral_id").on(table.mineralId, table.changedAt),
+  changedAtIdx: index("idx_mineral_changes_changed_at").on(table.changedAt),
+  fieldIdx: index("idx_mineral_changes_field").on(table.field),
+}));
+
+// Mindat mineral <-> RRUFF mineral links built by the linking job, one row per candidate pair
+// (rruff_minerals lives in rruff-schema.ts, so that side has no foreign key)
+export const mineralRruffLinks = pgTable("mineral_rruff_links", {
+  id: serial("id").primaryKey(),
+  mineralId: integer("mineral_id").notNull().references(() => minerals.id, { onDelete: "cascade" }),
+  rruffMineralId: integer("rruff_mineral_id").notNull(),
+  matchMethod: text("match_method").notNull(), // 'name', 'synonym', 'formula', 'manual'
+  confidence: real("confidence").notNull(), // 0-1
+  status: text("status").notNull(), // 'auto', 'review', 'confirmed', 'rejected'
+  reasons: jsonb("reasons").default([]), // What agreed or disagreed, e.g. "formula matches"
+  reviewedBy: text("reviewed_by"), // API key name of the curator for confirmed/rejected links
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  uniqueLink: uniqueIndex("idx_mineral_rruff_links_unique").on(table.mineralId, table.rruffMineralId),
+  rruffIdx: index("idx_mineral_rruff_links_rruff_mineral_id").on(table.rruffMineralId),
+  statusIdx: index("idx_mineral_rruff_links_status").on(table.status),
+}));
+
+// Crystal structure imported from a CIF upload, at most one per mineral
+export const mineralStructures = pgTable("mineral_structures", {
+  id: serial("id").primaryKey(),
+  mineralId: integer("mineral_id").notNull().references(() => minerals.id, { onDelete: "cascade" }),
+  cell: jsonb("cell").notNull(), // { a, b, c, alpha, beta, gamma, volume, z }
+  spaceGroup: text("space_group"), // Hermann-Mauguin symbol as written in the CIF
+  spaceGroupNumber: integer("space_group_number"),
+  symmetryOperations: jsonb("symmetry_operations").default([]), // e.g. ["x,y,z", "-x,-y,-z"]
+  atomSites: jsonb("atom_sites").default([]), // [{ label, typeSymbol, x, y, z, occupancy, uIso }]
+  formula: text("formula"), // _chemical_formula_sum
+  sourceFilename: text("source_filename"),
+  cif: text("cif").notNull(), // Uploaded file, kept as received
+  uploadedBy: text("uploaded_by"), // API key name of the uploader
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  mineralIdx: uniqueIndex("idx_mineral_structures_mineral_id").on(table.mineralId),
+}));
+
+// Lease-based locks shared by every app process (one row per lock name)
+export const syncLocks = pgTable("sync_locks", {
+  name: text("name").primaryKey(), // e.g. 'mineral-sync'
+  ownerId: text("owner_id").notNull(),
+  acquiredAt: timestamp("acquired_at").defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(), // Lease is free to take over after this
 });
 
 // Mineral search schemas
@@ -420,12 +636,26 @@ export const insertMineralSchema = createInsertSchema(minerals).pick({
   elements: true,
   sigelements: true,
   impurities: true,
+  composition: true,
+  molecularWeight: true,
+  elementWeightPercents: true,
+  oxideWeightPercents: true,
   varietyof: true,
   synid: true,
   polytypeof: true,
   groupid: true,
   entrytype: true,
   entrytypeText: true,
+  dana8ed1: true,
+  dana8ed2: true,
+  dana8ed3: true,
+  dana8ed4: true,
+  danaCode: true,
+  strunz10ed1: true,
+  strunz10ed2: true,
+  strunz10ed3: true,
+  strunz10ed4: true,
+  strunzCode: true,
   colour: true,
   streak: true,
   lustre: true,
@@ -434,6 +664,7 @@ export const insertMineralSchema = createInsertSchema(minerals).pick({
   hmin: true,
   hmax: true,
   csystem: true,
+  spacegroup: true,
   a: true,
   b: true,
   c: true,
@@ -441,6 +672,42 @@ export const insertMineralSchema = createInsertSchema(minerals).pick({
   beta: true,
   gamma: true,
   z: true,
+  dmeas: true,
+  dmeas2: true,
+  dcalc: true,
+  opticaltype: true,
+  opticalsign: true,
+  opticalalpha: true,
+  opticalbeta: true,
+  opticalgamma: true,
+  opticalomega: true,
+  opticalepsilon: true,
+  opticalalpha2: true,
+  opticalbeta2: true,
+  opticalgamma2: true,
+  opticalepsilon2: true,
+  opticalomega2: true,
+  opticaln: true,
+  opticaln2: true,
+  opticalbirefringence: true,
+  densityMin: true,
+  densityMax: true,
+  nAlphaMin: true,
+  nAlphaMax: true,
+  nBetaMin: true,
+  nBetaMax: true,
+  nGammaMin: true,
+  nGammaMax: true,
+  nOmegaMin: true,
+  nOmegaMax: true,
+  nEpsilonMin: true,
+  nEpsilonMax: true,
+  nMin: true,
+  nMax: true,
+  birefringence: true,
+  cellA: true,
+  cellB: true,
+  cellC: true,
   occurrence: true,
   discoveryYear: true,
   descriptionShort: true,
@@ -464,11 +731,66 @@ export const insertSyncLogSchema = createInsertSchema(syncLogs).pick({
   mineralsErrors: true,
   errorMessage: true,
   details: true,
+  checkpointPage: true,
+  checkpointCursor: true,
+  ownerId: true,
+  heartbeatAt: true,
+});
+
+export const insertMineralChangeSchema = createInsertSchema(mineralChanges).pick({
+  mineralId: true,
+  syncLogId: true,
+  syncVersion: true,
+  changeType: true,
+  field: true,
+  oldValue: true,
+  newValue: true,
+  mindatUpdttime: true,
 });
 
 // Relations
 export const mineralsRelations = relations(minerals, ({ many }) => ({
-  // Future: mineral localities, images, references
+  relations: many(mineralRelations),
+  typeLocalities: many(mineralTypeLocalities),
+  changes: many(mineralChanges),
+  rruffLinks: many(mineralRruffLinks),
+  structures: many(mineralStructures),
+  // Future: images, references
+}));
+
+export const mineralRelationsRelations = relations(mineralRelations, ({ one }) => ({
+  mineral: one(minerals, {
+    fields: [mineralRelations.mineralId],
+    references: [minerals.id]
+  }),
+}));
+
+export const mineralTypeLocalitiesRelations = relations(mineralTypeLocalities, ({ one }) => ({
+  mineral: one(minerals, {
+    fields: [mineralTypeLocalities.mineralId],
+    references: [minerals.id]
+  }),
+}));
+
+export const mineralChangesRelations = relations(mineralChanges, ({ one }) => ({
+  mineral: one(minerals, {
+    fields: [mineralChanges.mineralId],
+    references: [minerals.id]
+  }),
+}));
+
+export const mineralRruffLinksRelations = relations(mineralRruffLinks, ({ one }) => ({
+  mineral: one(minerals, {
+    fields: [mineralRruffLinks.mineralId],
+    references: [minerals.id]
+  }),
+}));
+
+export const mineralStructuresRelations = relations(mineralStructures, ({ one }) => ({
+  mineral: one(minerals, {
+    fields: [mineralStructures.mineralId],
+    references: [minerals.id]
+  }),
 }));
 
 export const apiKeysRelations = relations(apiKeys, ({ one }) => ({
@@ -487,3 +809,18 @@ export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
 
 export type SyncLog = typeof syncLogs.$inferSelect;
 export type InsertSyncLog = z.infer<typeof insertSyncLogSchema>;
+
+export type SyncLock = typeof syncLocks.$inferSelect;
+
+export type MineralRelation = typeof mineralRelations.$inferSelect;
+export type MineralTypeLocality = typeof mineralTypeLocalities.$inferSelect;
+export type Locality = typeof localities.$inferSelect;
+export type LocalityMineral = typeof localityMinerals.$inferSelect;
+export type DanaClassRecord = typeof danaClasses.$inferSelect;
+export type StrunzClassRecord = typeof strunzClasses.$inferSelect;
+
+export type MineralRruffLink = typeof mineralRruffLinks.$inferSelect;
+export type MineralStructure = typeof mineralStructures.$inferSelect;
+
+export type MineralChange = typeof mineralChanges.$inferSelect;
+export type InsertMineralChange = z.infer<typeof insertMineralChangeSchema>;